@@ -1,11 +1,25 @@
 ﻿using System;
+using System.Collections.Generic;
+using System.Linq;
 using Microsoft.VisualStudio.TestTools.UnitTesting;
+using SourceUtils.ValveBsp.Entities;
+using SourceUtils.WebExport.Bsp;
 
 namespace SourceUtils.Test
 {
     [TestClass]
     public class KeyValsTest
     {
+        private static IEnumerable<Entity> ParseEntities()
+        {
+            return KeyValues.ParseList( Properties.Resources.entities ).Select( ValveBspFile.EntityLump.CreateEntity );
+        }
+
+        private static Entity ParseEntity( string src )
+        {
+            return KeyValues.ParseList( src ).Select( ValveBspFile.EntityLump.CreateEntity ).Single();
+        }
+
         [TestMethod]
         public void MultiRoot1()
         {
@@ -38,5 +52,111 @@ namespace SourceUtils.Test
                 Console.WriteLine( (string) keyVal["classname"] );
             }
         }
+
+        [TestMethod]
+        public void LightColor()
+        {
+            var light = ParseEntities().First( x => x.ClassName == "light_environment" );
+
+            // Brightness is well over 255, so mustn't wrap like a Color32 channel would
+            Assert.AreEqual( new Vector4( 253f, 217f, 162f, 620f ), (Vector4) light["_light"] );
+            Assert.AreEqual( new Vector4( 181f, 201f, 232f, 220f ), (Vector4) light["_ambient"] );
+            Assert.AreEqual( new Vector4( -1f, -1f, -1f, 1f ), (Vector4) light["_lightHDR"] );
+            Assert.AreEqual( new Vector4( 0f, 0f, 0f, 0f ), (Vector4) light["_missing"] );
+        }
+
+        [TestMethod]
+        public void ExportedKeyValues()
+        {
+            var relay = ParseEntities().First( x => x.TargetName == "trainpredictable.relay" );
+            var keyValues = IndexController.GetKeyValues( relay );
+
+            Assert.AreEqual( "logic_relay", keyValues["classname"] );
+            Assert.AreEqual( "5270986", keyValues["hammerid"] );
+            Assert.AreEqual( "794.825 -4468.63 -503", keyValues["origin"] );
+
+            // Each of the five outputs shares a key, so only the last is kept here
+            Assert.AreEqual( 6, keyValues.Count );
+            Assert.AreEqual( "subway.timer\u001bEnable\u001b\u001b15\u001b-1", keyValues["OnTrigger"] );
+        }
+
+        [TestMethod]
+        public void BrushModelIndex()
+        {
+            var bombTargets = ParseEntities()
+                .Where( x => x.ClassName == "func_bomb_target" )
+                .Select( IndexController.GetBrushModelIndex )
+                .ToArray();
+
+            CollectionAssert.AreEqual( new int?[] { 4, 65 }, bombTargets );
+            Assert.IsNull( IndexController.GetBrushModelIndex( ParseEntity( @"{ ""classname"" ""prop_dynamic"" ""model"" ""models/props/crate.mdl"" }" ) ) );
+            Assert.IsNull( IndexController.GetBrushModelIndex( ParseEntity( @"{ ""classname"" ""func_bomb_target"" ""model"" ""*abc"" }" ) ) );
+            Assert.IsNull( IndexController.GetBrushModelIndex( ParseEntity( @"{ ""classname"" ""func_bomb_target"" }" ) ) );
+        }
+
+        [TestMethod]
+        public void BombTargetBounds()
+        {
+            var value = ParseEntity( @"{ ""classname"" ""func_bomb_target"" ""model"" ""*4"" ""origin"" ""10 20 30"" }" );
+            var ent = new IndexController.BombTarget();
+
+            IndexController.SetBombTargetBounds( ent, new Vector3( -8f, -8f, 0f ), new Vector3( 8f, 8f, 64f ), value.Origin );
+
+            Assert.AreEqual( new Vector3( 2f, 12f, 30f ), (Vector3) ent.Min.Value );
+            Assert.AreEqual( new Vector3( 18f, 28f, 94f ), (Vector3) ent.Max.Value );
+        }
+
+        [TestMethod]
+        public void ConnectionsWithEscapes()
+        {
+            var relay = ParseEntities().First( x => x.TargetName == "trainpredictable.relay" );
+            var connections = relay.Connections.ToArray();
+
+            Assert.AreEqual( 5, connections.Length );
+
+            var first = connections[0];
+            Assert.AreEqual( "OnTrigger", first.Output );
+            Assert.AreEqual( "subway.sound", first.Target );
+            Assert.AreEqual( "PlaySound", first.Input );
+            Assert.AreEqual( "", first.Parameter );
+            Assert.AreEqual( 13f, first.Delay );
+            Assert.AreEqual( -1, first.TimesToFire );
+
+            Assert.AreEqual( "trainwarning.timer", connections[1].Target );
+            Assert.AreEqual( 10.05f, connections[1].Delay );
+        }
+
+        [TestMethod]
+        public void ConnectionsWithCommas()
+        {
+            const string src = @"
+                {
+                    ""classname"" ""logic_relay""
+                    ""targetname"" ""relay""
+                    ""OnTrigger"" ""door,Open,,1.5,-1""
+                    ""OnTrigger"" ""door,Close,,5,1""
+                    ""OnSpawn"" ""1,2,,0,-1""
+                    ""spawnflags"" ""a,b,c,0,-1""
+                    ""PlayerOn"" ""relay,Trigger,,0,-1""
+                }
+                ";
+
+            var relay = ParseEntity( src );
+            var connections = relay.Connections.ToArray();
+
+            // OnSpawn has numbers where the names should be, and spawnflags isn't an output
+            Assert.AreEqual( 3, connections.Length );
+
+            Assert.AreEqual( "OnTrigger", connections[0].Output );
+            Assert.AreEqual( "door", connections[0].Target );
+            Assert.AreEqual( "Open", connections[0].Input );
+            Assert.AreEqual( 1.5f, connections[0].Delay );
+
+            Assert.AreEqual( "Close", connections[1].Input );
+            Assert.AreEqual( 1, connections[1].TimesToFire );
+
+            Assert.AreEqual( "PlayerOn", connections[2].Output );
+            Assert.AreEqual( "relay", connections[2].Target );
+        }
     }
 }
@@ -0,0 +1,188 @@
+﻿using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Text;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Converters;
+using Newtonsoft.Json.Serialization;
+
+namespace SourceUtils.WebExport
+{
+    [JsonConverter( typeof(StringEnumConverter) )]
+    public enum PageFormat
+    {
+        Json,
+        Binary
+    }
+
+    /// <summary>
+    /// Wraps a page so that it is written in the binary format read by SourceUtils.BinaryPage
+    /// in the viewer. The page is serialized to JSON metadata as usual, except that every
+    /// <see cref="CompressedList{T}"/> is swapped for a { "$buffer": index } reference to a
+    /// raw little-endian buffer written after the metadata.
+    /// </summary>
+    public class BinaryPage
+    {
+        private const uint Magic = 0x42505553;
+        private const ushort Version = 1;
+
+        private const int HeaderSize = 12;
+        private const int DescriptorSize = 12;
+
+        // Matches SourceUtils.BinaryBufferType
+        private enum BufferType : byte
+        {
+            Uint32 = 5,
+            Float32 = 7
+        }
+
+        private class BufferConverter : JsonConverter
+        {
+            private readonly List<ICompressedList> _buffers;
+
+            public BufferConverter( List<ICompressedList> buffers )
+            {
+                _buffers = buffers;
+            }
+
+            public override void WriteJson( JsonWriter writer, object value, JsonSerializer serializer )
+            {
+                if ( value == null )
+                {
+                    writer.WriteNull();
+                    return;
+                }
+
+                writer.WriteStartObject();
+                writer.WritePropertyName( "$buffer" );
+                writer.WriteValue( _buffers.Count );
+                writer.WriteEndObject();
+
+                _buffers.Add( (ICompressedList) value );
+            }
+
+            public override object ReadJson( JsonReader reader, Type objectType, object existingValue, JsonSerializer serializer )
+            {
+                throw new NotImplementedException();
+            }
+
+            public override bool CanConvert( Type objectType )
+            {
+                return typeof(ICompressedList).IsAssignableFrom( objectType );
+            }
+        }
+
+        /// <summary>
+        /// Lists already have a <see cref="CompressedListConverter"/> attribute, which
+        /// takes priority over the serializer's own converters, so it is replaced here.
+        /// </summary>
+        private class BufferContractResolver : DefaultContractResolver
+        {
+            private readonly BufferConverter _converter;
+
+            public BufferContractResolver( BufferConverter converter )
+            {
+                _converter = converter;
+            }
+
+            protected override JsonContract CreateContract( Type objectType )
+            {
+                var contract = base.CreateContract( objectType );
+                if ( _converter.CanConvert( objectType ) ) contract.Converter = _converter;
+                return contract;
+            }
+        }
+
+        private static BufferType GetBufferType( ICompressedList buffer )
+        {
+            if ( buffer is IEnumerable<float> ) return BufferType.Float32;
+
+            // Integer lists in pages only ever hold indices, so are never negative
+            if ( buffer is IEnumerable<int> || buffer is IEnumerable<uint> ) return BufferType.Uint32;
+
+            throw new NotImplementedException( $"Unable to write a buffer of type '{buffer.GetType()}'." );
+        }
+
+        private static int Align( int offset )
+        {
+            return (offset + 3) & ~3;
+        }
+
+        private static void WriteBuffer( BinaryWriter writer, ICompressedList buffer )
+        {
+            var floats = buffer as IEnumerable<float>;
+            if ( floats != null )
+            {
+                foreach ( var value in floats ) writer.Write( value );
+                return;
+            }
+
+            var ints = buffer as IEnumerable<int>;
+            if ( ints != null )
+            {
+                foreach ( var value in ints ) writer.Write( (uint) value );
+                return;
+            }
+
+            foreach ( var value in (IEnumerable<uint>) buffer ) writer.Write( value );
+        }
+
+        public object Page { get; }
+
+        public BinaryPage( object page )
+        {
+            Page = page;
+        }
+
+        public void Write( Stream stream )
+        {
+            var buffers = new List<ICompressedList>();
+            var serializer = new JsonSerializer
+            {
+                NullValueHandling = NullValueHandling.Ignore,
+                Formatting = Formatting.None,
+                ContractResolver = new BufferContractResolver( new BufferConverter( buffers ) )
+            };
+
+            serializer.Converters.Add( new NiceArrayConverter() );
+
+            byte[] metadata;
+            using ( var textWriter = new StringWriter() )
+            {
+                serializer.Serialize( textWriter, Page );
+                metadata = new UTF8Encoding( false ).GetBytes( textWriter.ToString() );
+            }
+
+            var metadataEnd = HeaderSize + buffers.Count * DescriptorSize + metadata.Length;
+
+            using ( var writer = new BinaryWriter( stream, Encoding.UTF8, true ) )
+            {
+                writer.Write( Magic );
+                writer.Write( Version );
+                writer.Write( (ushort) buffers.Count );
+                writer.Write( (uint) metadata.Length );
+
+                // Every buffer type is 4 bytes wide, so only the metadata needs padding
+                var offset = Align( metadataEnd );
+
+                foreach ( var buffer in buffers )
+                {
+                    writer.Write( (byte) GetBufferType( buffer ) );
+                    writer.Write( new byte[3] );
+                    writer.Write( (uint) offset );
+                    writer.Write( (uint) buffer.Count );
+
+                    offset += buffer.Count * 4;
+                }
+
+                writer.Write( metadata );
+                writer.Write( new byte[Align( metadataEnd ) - metadataEnd] );
+
+                foreach ( var buffer in buffers )
+                {
+                    WriteBuffer( writer, buffer );
+                }
+            }
+        }
+    }
+}
@@ -100,6 +100,9 @@ namespace SourceUtils.WebExport.Bsp
         [JsonProperty("flags")]
         public LeafFlags Flags { get; set; }
 
+        [JsonProperty("contents")]
+        public BrushContents Contents { get; set; }
+
         [JsonProperty("hasFaces")]
         public bool HasFaces { get; set; }
 
@@ -166,6 +169,7 @@ namespace SourceUtils.WebExport.Bsp
                 Min = leaf.Min,
                 Max = leaf.Max,
                 Flags = leaf.AreaFlags.Flags,
+                Contents = leaf.Contents,
                 HasFaces = leaf.NumLeafFaces > 0
             };
 
@@ -75,6 +75,27 @@ namespace SourceUtils.WebExport.Bsp
             }
         }
 
+        public class Connection
+        {
+            [JsonProperty( "output" )]
+            public string Output { get; set; }
+
+            [JsonProperty( "target" )]
+            public string Target { get; set; }
+
+            [JsonProperty( "input" )]
+            public string Input { get; set; }
+
+            [JsonProperty( "param", NullValueHandling = NullValueHandling.Ignore )]
+            public string Parameter { get; set; }
+
+            [JsonProperty( "delay" )]
+            public float Delay { get; set; }
+
+            [JsonProperty( "times" )]
+            public int TimesToFire { get; set; }
+        }
+
         public class Entity
         {
             [JsonProperty( "targetname" )]
@@ -88,6 +109,12 @@ namespace SourceUtils.WebExport.Bsp
 
             [JsonProperty( "angles" )]
             public Vector3? Angles { get; set; }
+
+            [JsonProperty( "keyvalues", NullValueHandling = NullValueHandling.Ignore )]
+            public Dictionary<string, string> KeyValues { get; set; }
+
+            [JsonProperty( "connections", NullValueHandling = NullValueHandling.Ignore )]
+            public List<Connection> Connections { get; set; }
         }
 
         [Classname( Default = true )]
@@ -217,28 +244,60 @@ namespace SourceUtils.WebExport.Bsp
 
         public class LightEnvironment : Entity
         {
-            public Color32? Brightness { get; set; }
-            public Color32? Ambient { get; set; }
+            [JsonProperty( "brightness" )]
+            public MaterialColor Brightness { get; set; }
+
+            [JsonProperty( "ambient" )]
+            public MaterialColor Ambient { get; set; }
 
-            public Color32? BrightnessHdr { get; set; }
-            public Color32? AmbientHdr { get; set; }
+            [JsonProperty( "brightnessHdr" )]
+            public MaterialColor BrightnessHdr { get; set; }
 
+            [JsonProperty( "ambientHdr" )]
+            public MaterialColor AmbientHdr { get; set; }
+
+            [JsonProperty( "brightnessScaleHdr" )]
             public float BrightnessScaleHdr { get; set; }
+
+            [JsonProperty( "ambientScaleHdr" )]
             public float AmbientScaleHdr { get; set; }
 
+            [JsonProperty( "pitch" )]
             public float Pitch { get; set; }
         }
 
+        /// <summary>
+        /// Light keys are "R G B brightness", all out of 255, but the brightness is
+        /// usually well above that so they can't be read as a <see cref="Color32"/>.
+        /// A light with no brightness given keeps its colour unscaled.
+        /// </summary>
+        private static MaterialColor GetLightColor( EntityProperty value )
+        {
+            var raw = (string) value;
+            if ( raw == null ) return new MaterialColor();
+
+            var color = (Vector4) value;
+            var hasBrightness = raw.Split( new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries ).Length > 3;
+
+            return new MaterialColor
+            {
+                R = color.X / 255f,
+                G = color.Y / 255f,
+                B = color.Z / 255f,
+                A = (hasBrightness ? color.W : 255f) / 255f
+            };
+        }
+
         [Classname( "light_environment" )]
         private static LightEnvironment InitLightEnvironment( LightEnvironment ent, ValveBsp.Entities.Entity value )
         {
             if ( InitEntity( ent, value ) == null ) return null;
 
-            ent.Brightness = value["_light"];
-            ent.BrightnessHdr = value["_lightHDR"];
+            ent.Brightness = GetLightColor( value["_light"] );
+            ent.BrightnessHdr = GetLightColor( value["_lightHDR"] );
             ent.BrightnessScaleHdr = value["_lightscaleHDR"];
-            ent.Ambient = value["_ambient"];
-            ent.AmbientHdr = value["_ambientHDR"];
+            ent.Ambient = GetLightColor( value["_ambient"] );
+            ent.AmbientHdr = GetLightColor( value["_ambientHDR"] );
             ent.AmbientScaleHdr = value["_AmbientScaleHDR"];
             ent.Pitch = value["pitch"];
 
@@ -318,10 +377,69 @@ namespace SourceUtils.WebExport.Bsp
             return ent;
         }
 
+        public class BombTarget : Entity
+        {
+            [JsonProperty( "min" )]
+            public Vector3? Min { get; set; }
+
+            [JsonProperty( "max" )]
+            public Vector3? Max { get; set; }
+        }
+
+        [Classname( "func_bomb_target" )]
+        private static BombTarget InitBombTarget( BombTarget ent, ValveBsp.Entities.Entity value, MapParams mapParams )
+        {
+            if ( InitEntity( ent, value ) == null ) return null;
+
+            var modelIndex = GetBrushModelIndex( value );
+            if ( modelIndex == null ) return ent;
+
+            var model = mapParams.Bsp.Models[modelIndex.Value];
+            SetBombTargetBounds( ent, model.Min, model.Max, value.Origin );
+
+            return ent;
+        }
+
+        /// <summary>
+        /// Index of the brush model an entity uses, written like "*4", or null for studio models or none.
+        /// </summary>
+        internal static int? GetBrushModelIndex( ValveBsp.Entities.Entity value )
+        {
+            string modelName = value["model"];
+            if ( modelName == null || !modelName.StartsWith( "*" ) ) return null;
+
+            int index;
+            return int.TryParse( modelName.Substring( 1 ), out index ) ? (int?) index : null;
+        }
+
+        /// <summary>
+        /// Brush model bounds are relative to the entity using the model, so get moved by its origin.
+        /// </summary>
+        internal static void SetBombTargetBounds( BombTarget ent, SourceUtils.Vector3 modelMin, SourceUtils.Vector3 modelMax, SourceUtils.Vector3 origin )
+        {
+            ent.Min = modelMin + origin;
+            ent.Max = modelMax + origin;
+        }
+
+        /// <summary>
+        /// Every keyvalue of an entity as written in the entity lump, for --entity-keyvalues.
+        /// Repeated keys such as outputs only keep their last value.
+        /// </summary>
+        internal static Dictionary<string, string> GetKeyValues( ValveBsp.Entities.Entity value )
+        {
+            return value.PropertyNames.ToDictionary( x => x, x => value.GetRawPropertyValue( x ) );
+        }
+
         public class Displacement : PvsEntity
         {
             [JsonProperty( "index" )]
             public int Index { get; set; }
+
+            [JsonProperty( "min" )]
+            public Vector3 Min { get; set; }
+
+            [JsonProperty( "max" )]
+            public Vector3 Max { get; set; }
         }
 
         public class StaticProp : PvsEntity
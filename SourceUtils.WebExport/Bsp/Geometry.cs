@@ -901,5 +901,29 @@ namespace SourceUtils.WebExport.Bsp
 
             return page;
         }
+
+        [Get( "/disppage{index}.bin" )]
+        public BinaryPage GetDispPageBinary( [Url] string map, [Url] int index )
+        {
+            return new BinaryPage( GetDispPage( map, index ) );
+        }
+
+        [Get( "/leafpage{index}.bin" )]
+        public BinaryPage GetLeafPageBinary( [Url] string map, [Url] int index )
+        {
+            return new BinaryPage( GetLeafPage( map, index ) );
+        }
+
+        [Get( "/mdlpage{index}.bin" )]
+        public BinaryPage GetStudioModelPageBinary( [Url] string map, [Url] int index )
+        {
+            return new BinaryPage( GetStudioModelPage( map, index ) );
+        }
+
+        [Get( "/vhvpage{index}.bin" )]
+        public BinaryPage GetVertexLightingPageBinary( [Url] string map, [Url] int index )
+        {
+            return new BinaryPage( GetVertexLightingPage( map, index ) );
+        }
     }
 }
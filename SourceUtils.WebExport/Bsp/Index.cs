@@ -22,6 +22,9 @@ namespace SourceUtils.WebExport.Bsp
 
         [JsonProperty( "url" )]
         public Url Url { get; set; }
+
+        [JsonProperty( "format" )]
+        public PageFormat? Format { get; set; }
     }
 
     [Prefix("/maps/{map}")]
@@ -76,17 +79,26 @@ namespace SourceUtils.WebExport.Bsp
             return 1;
         }
 
-        private static PageInfo CreatePage( ValveBspFile bsp, int first, int last, ref int index, string filePrefix )
+        private static PageInfo CreatePage( ValveBspFile bsp, int first, int last, ref int index, string filePrefix, PageFormat format )
         {
+            var binary = format == PageFormat.Binary;
+
             return new PageInfo
             {
                 First = first,
                 Count = last - first,
-                Url = filePrefix != null ? $"/maps/{bsp.Name}{filePrefix}{index++}.json" : null
+                Url = filePrefix != null ? $"/maps/{bsp.Name}{filePrefix}{index++}.{(binary ? "bin" : "json")}" : null,
+                Format = binary ? (PageFormat?) PageFormat.Binary : null
             };
         }
 
-        internal static IEnumerable<PageInfo> GetPageLayout( ValveBspFile bsp, int count, int perPage, string filePrefix, Func<int, int> itemSizeSelect = null )
+        /// <summary>
+        /// Format of the pages that have a binary route, chosen with --binary-pages.
+        /// </summary>
+        private static PageFormat BufferedPageFormat => Program.BaseOptions.BinaryPages ? PageFormat.Binary : PageFormat.Json;
+
+        internal static IEnumerable<PageInfo> GetPageLayout( ValveBspFile bsp, int count, int perPage, string filePrefix,
+            Func<int, int> itemSizeSelect = null, PageFormat format = PageFormat.Json )
         {
             if ( itemSizeSelect == null ) itemSizeSelect = DefaultItemSizeSelect;
 
@@ -100,7 +112,7 @@ namespace SourceUtils.WebExport.Bsp
 
                 if ( size + itemSize > perPage && size > 0 )
                 {
-                    yield return CreatePage( bsp, first, i, ref index, filePrefix );
+                    yield return CreatePage( bsp, first, i, ref index, filePrefix, format );
 
                     size = 0;
                     first = i;
@@ -109,7 +121,44 @@ namespace SourceUtils.WebExport.Bsp
                 size += itemSize;
             }
             
-            yield return CreatePage( bsp, first, count, ref index, filePrefix );
+            yield return CreatePage( bsp, first, count, ref index, filePrefix, format );
+        }
+
+        public class View
+        {
+            [JsonProperty("origin")]
+            public Vector3 Origin { get; set; }
+
+            [JsonProperty("angles")]
+            public Vector3 Angles { get; set; }
+
+            [JsonProperty("fov", NullValueHandling = NullValueHandling.Ignore)]
+            public float? Fov { get; set; }
+        }
+
+        private static readonly string[] _sViewClassNames =
+        {
+            "point_viewcontrol", "point_devshot_camera", "info_observer_point"
+        };
+
+        private static Dictionary<string, View> GetViews( ValveBspFile bsp )
+        {
+            var views = new Dictionary<string, View>();
+
+            foreach ( var ent in bsp.Entities )
+            {
+                if ( ent.TargetName == null || !_sViewClassNames.Contains( ent.ClassName ) ) continue;
+                if ( views.ContainsKey( ent.TargetName ) ) continue;
+
+                views.Add( ent.TargetName, new View
+                {
+                    Origin = ent.Origin,
+                    Angles = ent.Angles,
+                    Fov = (string) ent["fov"] != null ? (float?) (float) ent["fov"] : null
+                } );
+            }
+
+            return views;
         }
 
         public class Map
@@ -117,6 +166,9 @@ namespace SourceUtils.WebExport.Bsp
             [JsonProperty("name")]
             public string Name { get; set; }
 
+            [JsonProperty("version")]
+            public string Version { get; set; }
+
             [JsonProperty("lightmapUrl")]
             public Url LightmapUrl { get; set; }
 
@@ -146,6 +198,9 @@ namespace SourceUtils.WebExport.Bsp
 
             [JsonProperty("entities")]
             public IEnumerable<Entity> Entities { get; set; }
+
+            [JsonProperty("views")]
+            public Dictionary<string, View> Views { get; set; }
         }
 
         [Get("/index.json")]
@@ -159,7 +214,27 @@ namespace SourceUtils.WebExport.Bsp
             foreach ( var ent in bsp.Entities )
             {
                 var inst = InitEntity( ent, mapParams );
-                if ( inst != null ) ents.Add( inst );
+                if ( inst == null ) continue;
+
+                if ( Program.BaseOptions.EntityKeyValues )
+                {
+                    inst.KeyValues = GetKeyValues( ent );
+                }
+
+                if ( ent.Connections.Any() )
+                {
+                    inst.Connections = ent.Connections.Select( x => new Connection
+                    {
+                        Output = x.Output,
+                        Target = x.Target,
+                        Input = x.Input,
+                        Parameter = string.IsNullOrEmpty( x.Parameter ) ? null : x.Parameter,
+                        Delay = x.Delay,
+                        TimesToFire = x.TimesToFire
+                    } ).ToList();
+                }
+
+                ents.Add( inst );
             }
 
             for ( var dispIndex = 0; dispIndex < bsp.DisplacementInfos.Length; ++dispIndex )
@@ -171,6 +246,8 @@ namespace SourceUtils.WebExport.Bsp
                 {
                     ClassName = "displacement",
                     Index = dispIndex,
+                    Min = min,
+                    Max = max,
                     Clusters = GetIntersectingClusters(mapParams.Tree, min, max)
                 } );
             }
@@ -211,16 +288,18 @@ namespace SourceUtils.WebExport.Bsp
             return new Map
             {
                 Name = bsp.Name,
+                Version = $"{bsp.Version}.{bsp.MapRevision}-{typeof(Map).Assembly.GetName().Version}",
                 LightmapUrl = $"/maps/{bsp.Name}/lightmap.json",
-                VisPages = GetPageLayout( bsp, bsp.Visibility.NumClusters, VisPage.ClustersPerPage, "/geom/vispage" ),
+                VisPages = GetPageLayout( bsp, bsp.Visibility.NumClusters, VisPage.ClustersPerPage, "/geom/vispage", format: BufferedPageFormat ),
                 AmbientPages = GetPageLayout( bsp, bsp.Leaves.Length, AmbientPage.LeavesPerPage, "/geom/ambientpage" ),
-                LeafPages = GetPageLayout( bsp, bsp.Leaves.Length, LeafGeometryPage.LeavesPerPage, "/geom/leafpage" ),
-                DispPages = GetPageLayout( bsp, bsp.DisplacementInfos.Length, DispGeometryPage.DisplacementsPerPage, "/geom/disppage" ),
+                LeafPages = GetPageLayout( bsp, bsp.Leaves.Length, LeafGeometryPage.LeavesPerPage, "/geom/leafpage", format: BufferedPageFormat ),
+                DispPages = GetPageLayout( bsp, bsp.DisplacementInfos.Length, DispGeometryPage.DisplacementsPerPage, "/geom/disppage", format: BufferedPageFormat ),
                 MaterialPages = GetPageLayout( bsp, MaterialDictionary.GetResourceCount( bsp ), MaterialPage.MaterialsPerPage, "/materials/matpage" ),
                 BrushModelPages = GetPageLayout( bsp, bsp.Models.Length, BspModelPage.FacesPerPage, "/geom/bsppage", i => bsp.Models[i].NumFaces ),
-                StudioModelPages = GetPageLayout( bsp, StudioModelDictionary.GetResourceCount( bsp ), StudioModelPage.VerticesPerPage, "/geom/mdlpage", i => StudioModelDictionary.GetVertexCount( bsp, i ) ),
-                VertexLightingPages = GetPageLayout( bsp, bsp.StaticProps.PropCount, VertexLightingPage.PropsPerPage, "/geom/vhvpage" ),
-                Entities = ents
+                StudioModelPages = GetPageLayout( bsp, StudioModelDictionary.GetResourceCount( bsp ), StudioModelPage.VerticesPerPage, "/geom/mdlpage", i => StudioModelDictionary.GetVertexCount( bsp, i ), BufferedPageFormat ),
+                VertexLightingPages = GetPageLayout( bsp, bsp.StaticProps.PropCount, VertexLightingPage.PropsPerPage, "/geom/vhvpage", format: BufferedPageFormat ),
+                Entities = ents,
+                Views = GetViews( bsp )
             };
         }
 
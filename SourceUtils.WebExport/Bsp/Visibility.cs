@@ -37,5 +37,11 @@ namespace SourceUtils.WebExport.Bsp
                 Values = Enumerable.Range( first, count ).Select( x => new CompressedList<int>( bsp.Visibility[x] ) )
             };
         }
+
+        [Get("/vispage{page}.bin")]
+        public BinaryPage GetBinary( [Url] string map, [Url] int page )
+        {
+            return Skip ? null : new BinaryPage( Get( map, page ) );
+        }
     }
 }
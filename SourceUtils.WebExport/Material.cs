@@ -265,7 +265,7 @@ namespace SourceUtils.WebExport
 
             if ( vmt == null ) return null;
 
-            var mat = new Material();
+            var mat = new Material { Name = path };
 
             AddMaterialProperties(mat, vmt, path, bsp);
 
@@ -325,6 +325,9 @@ namespace SourceUtils.WebExport
             return skyMaterial;
         }
 
+        [JsonProperty("name")]
+        public string Name { get; set; }
+
         [JsonProperty("shader")]
         public string Shader { get; set; }
 
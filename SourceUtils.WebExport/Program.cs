@@ -30,6 +30,12 @@ namespace SourceUtils.WebExport
         
         [Option("debug-pakfile", HelpText = "Save pakfile to disk for each map, for debugging.")]
         public bool DebugPakFile { get; set; }
+
+        [Option("entity-keyvalues", HelpText = "Include every keyvalue of each entity in map indexes, for debugging.")]
+        public bool EntityKeyValues { get; set; }
+
+        [Option("binary-pages", HelpText = "Write geometry, visibility and vertex lighting pages in a binary format instead of JSON.")]
+        public bool BinaryPages { get; set; }
     }
 
     [Verb("host", HelpText = "Run a HTTP server that exports requested resources.")]
@@ -19,6 +19,8 @@ using System.Runtime.InteropServices;
 // COM, set the ComVisible attribute to true on that type.
 [assembly: ComVisible(false)]
 
+[assembly: InternalsVisibleTo("SourceUtils.Test")]
+
 // The following GUID is for the ID of the typelib if this project is exposed to COM
 [assembly: Guid("171622ad-547b-496c-a230-16fca08a0112")]
 
@@ -373,9 +373,22 @@ namespace SourceUtils.WebExport
         [ResponseWriter]
         public void OnWriteObject( object obj )
         {
+            var binaryPage = obj as BinaryPage;
+            if ( binaryPage != null )
+            {
+                OnServiceBinaryPage( binaryPage );
+                return;
+            }
+
             OnServiceJson( obj == null ? null : JObject.FromObject( obj, _sSerializer ) );
         }
 
+        protected void OnServiceBinaryPage( BinaryPage page )
+        {
+            Response.ContentType = MimeTypeMap.GetMimeType( ".bin" );
+            page.Write( Response.OutputStream );
+        }
+
         protected virtual bool ForceNoFormatting => false;
 
         protected bool Skip => Request.QueryString["skip"] == "1";
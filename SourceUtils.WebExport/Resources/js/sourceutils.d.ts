@@ -1,35 +1,76 @@
 /// <reference path="facepunch.webgame.d.ts" />
 declare namespace SourceUtils {
+    type LoadPriority = number | (() => number);
+    interface IPageLoadError {
+        loader: string;
+        url: string;
+        first: number;
+        count: number;
+        attempts: number;
+        error: any;
+    }
     interface IPageRequest<TValue, TPage> {
         index: number;
         callback: (payload: TValue, page: TPage) => void;
+        priority: LoadPriority;
     }
     abstract class ResourcePage<TPayload, TValue> {
         readonly first: number;
         readonly count: number;
         readonly url: string;
+        readonly format: PageFormat;
         private readonly values;
         private toLoad;
+        private failed;
+        private loadPriority;
         protected page: TPayload;
+        loadAttempts: number;
         constructor(info: IPageInfo);
+        static readonly defaultPriority: number;
+        updateLoadPriority(): number;
         getLoadPriority(): number;
+        getRequestCount(): number;
+        getDecoder(): string;
         getValue(index: number): TValue;
         protected abstract onGetValue(index: number): TValue;
-        load(index: number, callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void): TValue;
+        load(index: number, callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void, priority?: LoadPriority): TValue;
+        prioritize(index: number, priority: LoadPriority): void;
+        cancel(callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void): boolean;
         onLoadValues(page: TPayload): void;
+        onLoadFailed(): void;
+        hasFailed(): boolean;
     }
     abstract class PagedLoader<TPayload, TValue, TPage extends ResourcePage<TPayload, TValue>> implements Facepunch.ILoader {
         private pages;
-        private readonly toLoad;
+        private toLoad;
+        private loading;
         private active;
         private loadProgress;
+        private loadedBytes;
+        private failedPages;
         protected abstract onCreatePage(page: IPageInfo): TPage;
         throwIfNotFound: boolean;
+        name: string;
+        maxRetries: number;
+        retryDelay: number;
+        timeout: number;
+        countFailedAsLoaded: boolean;
+        pageFailedHandler: (error: IPageLoadError) => void;
+        cacheScope: IMapCacheScope;
         getLoadProgress(): number;
-        load(index: number, callback: (payload: TValue, page: TPage) => void): TValue;
+        getLoadedBytes(): number;
+        getFailedPageCount(): number;
+        load(index: number, callback: (payload: TValue, page: TPage) => void, priority?: LoadPriority): TValue;
+        prioritize(index: number, priority: LoadPriority): void;
+        cancel(index: number, callback: (payload: TValue, page: TPage) => void): boolean;
+        private findPage(index);
         setPageLayout(pages: IPageInfo[]): void;
+        clear(): void;
         private getNextToLoad();
+        private cancelUnwanted();
+        private updateLoadPriorities();
         update(requestQuota: number): number;
+        private onPageError(page, error);
     }
 }
 declare namespace SourceUtils {
@@ -47,6 +88,50 @@ declare namespace SourceUtils {
         protected onCreatePage(page: IPageInfo): AmbientPage;
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    enum PageFormat {
+        Json = 0,
+        Binary = 1,
+    }
+    enum BinaryBufferType {
+        Uint8 = 1,
+        Int8 = 2,
+        Uint16 = 3,
+        Int16 = 4,
+        Uint32 = 5,
+        Int32 = 6,
+        Float32 = 7,
+        Float64 = 8,
+    }
+    type TypedArray = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array | Float64Array;
+    interface IBinaryMeshData {
+        attributes: (WebGame.VertexAttribute | string)[];
+        elements: WebGame.IMeshElement[];
+        vertices: Float32Array;
+        indices: Uint16Array | Uint32Array;
+    }
+    interface ITypedMeshData {
+        attributes: WebGame.VertexAttribute[];
+        elements: WebGame.IMeshElement[];
+        vertices: Float32Array;
+        indices: Uint16Array | Uint32Array;
+    }
+    class BinaryPage {
+        static readonly magic: number;
+        static readonly version: number;
+        private static readonly headerSize;
+        private static readonly descriptorSize;
+        private static littleEndian;
+        static getFormat(info: IPageInfo): PageFormat;
+        static decode<TPayload>(data: ArrayBuffer): TPayload;
+        static toMeshData(data: IBinaryMeshData): ITypedMeshData;
+        static asMeshData(data: ITypedMeshData): WebGame.IMeshData;
+        private static createView(data, type, byteOffset, count);
+        private static getElementSize(type);
+        private static decodeUtf8(bytes);
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     interface IPlane {
@@ -66,9 +151,42 @@ declare namespace SourceUtils {
         Radial = 2,
         Sky2D = 4,
     }
+    enum BrushContents {
+        Empty = 0,
+        Solid = 1,
+        Window = 2,
+        Aux = 4,
+        Grate = 8,
+        Slime = 16,
+        Water = 32,
+        Mist = 64,
+        Opaque = 128,
+        TestFogVolume = 256,
+        Team1 = 2048,
+        Team2 = 4096,
+        IgnoreNoDrawOpaque = 8192,
+        Moveable = 16384,
+        AreaPortal = 32768,
+        PlayerClip = 65536,
+        MonsterClip = 131072,
+        Origin = 16777216,
+        Monster = 33554432,
+        Debris = 67108864,
+        Detail = 134217728,
+        Translucent = 268435456,
+        Ladder = 536870912,
+        Hitbox = 1073741824,
+    }
+    enum TraceMask {
+        All = -1,
+        Solid = 33570827,
+        PlayerSolid = 33636363,
+        Water = 48,
+    }
     interface IBspLeaf extends IBspElement {
         index: number;
         flags: LeafFlags;
+        contents?: BrushContents;
         hasFaces: boolean;
         cluster?: number;
     }
@@ -87,6 +205,17 @@ declare namespace SourceUtils {
     interface INodeOrLeaf {
         readonly isLeaf: boolean;
     }
+    class TraceResult {
+        hit: boolean;
+        startSolid: boolean;
+        fraction: number;
+        readonly position: Facepunch.Vector3;
+        readonly normal: Facepunch.Vector3;
+        leaf: BspLeaf;
+        entity: Entities.Entity;
+        reset(): this;
+        copy(other: TraceResult): this;
+    }
     class BspNode implements INodeOrLeaf {
         private readonly viewer;
         readonly isLeaf: boolean;
@@ -101,14 +230,28 @@ declare namespace SourceUtils {
         private readonly viewer;
         readonly index: number;
         readonly flags: LeafFlags;
+        readonly contents: BrushContents;
         readonly cluster: number;
         readonly hasFaces: boolean;
+        readonly min: Facepunch.Vector3;
+        readonly max: Facepunch.Vector3;
+        private readonly center;
+        private readonly clusters;
         private hasLoaded;
         private ambientSamples;
-        private hasLoadedAmbient;
+        private ambientCubes;
+        private ambientLoadCallbacks;
         constructor(viewer: MapViewer, info: IBspLeaf);
+        getLoadPriority(): number;
+        private loadAmbientSamples(callback);
+        private onAmbientSamplesLoaded(samples);
+        private static readonly findNeighbours_temp;
+        private findNeighbours();
+        private loadNeighbourAmbientSamples();
         private static readonly getAmbientCube_temp;
         getAmbientCube(pos: Facepunch.IVector3, outSamples: Facepunch.IVector3[], callback?: (success: boolean) => void): boolean;
+        private sampleNearest(pos, outSamples);
+        private sampleInverseDistance(pos, outSamples);
         getMeshHandles(): Facepunch.WebGame.MeshHandle[];
         findLeaves(target: BspLeaf[]): void;
     }
@@ -119,7 +262,14 @@ declare namespace SourceUtils {
         private leaves;
         constructor(viewer: MapViewer);
         loadFromInfo(info: IBspModel): void;
+        getCenter(target: Facepunch.IVector3): Facepunch.IVector3;
+        getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
         getLeafAt(pos: Facepunch.IVector3): BspLeaf;
+        private static readonly trace_delta;
+        trace(start: Facepunch.IVector3, end: Facepunch.IVector3, mask?: number, result?: TraceResult): TraceResult;
+        traceBox(start: Facepunch.IVector3, end: Facepunch.IVector3, extents: Facepunch.IVector3, mask?: number, result?: TraceResult): TraceResult;
+        private static readonly traceBoxEpsilon;
+        private traceElement(elem, start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result);
         getLeaves(): BspLeaf[];
         isLoaded(): boolean;
     }
@@ -135,12 +285,77 @@ declare namespace SourceUtils {
     }
     class BspModelLoader extends PagedLoader<IBspModelPage, IBspModel, BspModelPage> {
         readonly viewer: MapViewer;
-        private readonly models;
+        private models;
         constructor(viewer: MapViewer);
-        loadModel(index: number): BspModel;
+        loadModel(index: number, priority?: LoadPriority): BspModel;
+        clear(): void;
         onCreatePage(page: IPageInfo): BspModelPage;
     }
 }
+declare namespace SourceUtils {
+    enum CameraPathEase {
+        Linear = 0,
+        EaseIn = 1,
+        EaseOut = 2,
+        EaseInOut = 3,
+    }
+    interface ICameraKeyframe {
+        time: number;
+        position: Facepunch.IVector3;
+        yaw: number;
+        pitch: number;
+        fov: number;
+        ease?: CameraPathEase;
+    }
+    interface ICameraPath {
+        name?: string;
+        keyframes: ICameraKeyframe[];
+    }
+    class CameraPath {
+        static defaultKeyframeSpacing: number;
+        name: string;
+        private readonly keyframes;
+        static fromJson(json: ICameraPath | string): CameraPath;
+        toJson(): ICameraPath;
+        getKeyframes(): ICameraKeyframe[];
+        getDuration(): number;
+        addKeyframe(keyframe: ICameraKeyframe): void;
+        removeKeyframe(index: number): void;
+        clear(): void;
+        recordKeyframe(viewer: MapViewer, time?: number, ease?: CameraPathEase): ICameraKeyframe;
+        private static ease(t, ease);
+        private static catmullRom(p0, p1, p2, p3, t);
+        private static unwrapAngle(a, b);
+        sample(time: number, out: ICameraKeyframe): ICameraKeyframe;
+    }
+    class CameraPathPlayer {
+        readonly viewer: MapViewer;
+        path: CameraPath;
+        loop: boolean;
+        speed: number;
+        fixedTimestep: number;
+        waitForLoad: boolean;
+        frameRendered: (frame: number, time: number) => void;
+        private playing;
+        private time;
+        private frame;
+        private complete;
+        private frameUpdated;
+        private readonly sample;
+        private readonly temp;
+        constructor(viewer: MapViewer);
+        play(path: CameraPath, complete?: () => void): void;
+        stop(): void;
+        isPlaying(): boolean;
+        getTime(): number;
+        seek(time: number): void;
+        private isWaiting();
+        getWorldTimestep(dt: number): number;
+        private apply();
+        update(dt: number): void;
+        onFrameRendered(): void;
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     interface IDispGeometryPage {
@@ -152,6 +367,7 @@ declare namespace SourceUtils {
         private matGroups;
         private dispFaces;
         constructor(viewer: MapViewer, page: IPageInfo);
+        getDecoder(): string;
         onLoadValues(page: IDispGeometryPage): void;
         protected onGetValue(index: number): Facepunch.WebGame.MeshHandle;
     }
@@ -164,11 +380,23 @@ declare namespace SourceUtils {
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     namespace Entities {
+        interface IEntityConnection {
+            output: string;
+            target: string;
+            input: string;
+            param?: string;
+            delay: number;
+            times: number;
+        }
         interface IEntity {
             classname: string;
             targetname?: string;
             origin?: Facepunch.IVector3;
             angles?: Facepunch.IVector3;
+            keyvalues?: {
+                [key: string]: string;
+            };
+            connections?: IEntityConnection[];
         }
         interface IColor {
             r: number;
@@ -183,10 +411,20 @@ declare namespace SourceUtils {
             farZ: number;
             fogColor: IColor;
         }
+        interface IBombTarget extends IEntity {
+            min?: Facepunch.IVector3;
+            max?: Facepunch.IVector3;
+        }
         class Entity extends WebGame.DrawableEntity {
             readonly map: Map;
+            readonly classname: string;
             readonly targetname: string;
+            readonly angles: Facepunch.IVector3;
+            readonly keyvalues: {
+                [key: string]: string;
+            };
             constructor(map: Map, info: IEntity);
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
         }
         interface IPvsEntity extends IEntity {
             clusters: number[];
@@ -194,10 +432,13 @@ declare namespace SourceUtils {
         class PvsEntity extends Entity {
             private readonly clusters;
             constructor(map: Map, info: IPvsEntity);
+            getClusters(): number[];
+            private static readonly getLoadPriority_temp;
+            getLoadPriority(): number;
             isInCluster(cluster: number): boolean;
-            isInAnyCluster(clusters: number[]): boolean;
-            populateDrawList(drawList: WebGame.DrawList, clusters: number[]): void;
-            protected onPopulateDrawList(drawList: WebGame.DrawList, clusters: number[]): void;
+            isInAnyCluster(clusters: ArrayLike<number>): boolean;
+            populateDrawList(drawList: WebGame.DrawList, clusters: ArrayLike<number>): void;
+            protected onPopulateDrawList(drawList: WebGame.DrawList, clusters: ArrayLike<number>): void;
         }
     }
 }
@@ -208,8 +449,11 @@ declare namespace SourceUtils {
         }
         class BrushEntity extends PvsEntity {
             readonly model: BspModel;
+            readonly modelIndex: number;
             readonly isWorldSpawn: boolean;
             constructor(map: Map, info: IBrushEntity);
+            private static readonly getBounds_origin;
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void;
         }
     }
@@ -225,13 +469,18 @@ declare namespace SourceUtils {
             private leaf;
             private leafInvalid;
             render3DSky: boolean;
+            renderShadows: boolean;
+            private sunShadowCamera;
             constructor(viewer: MapViewer, fov: number);
             protected onChangePosition(): void;
             private static readonly onGetLeaf_temp;
             protected onGetLeaf(): BspLeaf;
             getLeaf(): BspLeaf;
             protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList): void;
+            private updateShadows();
             render(): void;
+            populateCommandBufferParameters(buf: WebGame.CommandBuffer): void;
+            dispose(): void;
         }
         class SkyCamera extends Camera {
             private readonly origin;
@@ -243,16 +492,42 @@ declare namespace SourceUtils {
             renderRelativeTo(camera: Camera): void;
         }
         class ShadowCamera extends WebGame.OrthographicCamera {
+            static readonly maxCascades: number;
+            static readonly casterDistance: number;
+            static readonly shadowMapParam: WebGame.CommandBufferParameter;
+            static readonly shadowMatrixParams: WebGame.CommandBufferParameter[];
+            static readonly shadowSplitsParam: WebGame.CommandBufferParameter;
+            static readonly shadowBiasParam: WebGame.CommandBufferParameter;
+            static readonly shadowInfoParam: WebGame.CommandBufferParameter;
+            private static readonly disabledInfoValues;
+            private static readonly identityMatrix;
             readonly viewer: MapViewer;
             private readonly targetCamera;
+            private readonly casters;
+            private frameBuffer;
+            private cascadeCount;
+            private resolution;
+            private lastLeaf;
+            private readonly cascadeMatrix;
+            private readonly matrices;
+            private readonly splitValues;
+            private readonly biasValues;
+            private readonly infoValues;
             constructor(viewer: MapViewer, targetCamera: Camera);
             protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList): void;
-            private addToFrustumBounds(invLight, vec, bounds);
-            private static readonly getFrustumBounds_vec;
-            private static readonly getFrustumBounds_invLight;
-            private getFrustumBounds(lightRotation, near, far, bounds);
-            private static readonly renderShadows_bounds;
-            renderShadows(lightRotation: Facepunch.Quaternion, near: number, far: number): void;
+            protected onUpdateProjectionMatrix(matrix: Facepunch.Matrix4): void;
+            private static readonly getFrustumSphere_vec;
+            private static readonly getFrustumSphere_corners;
+            private getFrustumSphere(near, far, center);
+            private static readonly setupCascade_center;
+            private static readonly setupCascade_right;
+            private static readonly setupCascade_up;
+            private setupCascade(index, sunDirection, near, far);
+            private setupFrameBuffer(cascadeCount, resolution);
+            renderShadows(sunDirection: Facepunch.Vector3): void;
+            static populateDisabledShadowParameters(buf: WebGame.CommandBuffer, context: WebGLRenderingContext): void;
+            populateShadowParameters(buf: WebGame.CommandBuffer): void;
+            dispose(): void;
         }
     }
 }
@@ -260,15 +535,58 @@ declare namespace SourceUtils {
     namespace Entities {
         interface IDisplacement extends IPvsEntity {
             index: number;
+            min?: Facepunch.IVector3;
+            max?: Facepunch.IVector3;
         }
         class Displacement extends PvsEntity {
             private readonly index;
+            private readonly info;
             private isLoaded;
             constructor(map: Map, info: IDisplacement);
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void;
         }
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    namespace Entities {
+        interface ILightColor extends IColor {
+            a: number;
+        }
+        interface ILightEnvironment extends IEntity {
+            brightness: ILightColor;
+            ambient: ILightColor;
+            brightnessHdr: ILightColor;
+            ambientHdr: ILightColor;
+            brightnessScaleHdr: number;
+            ambientScaleHdr: number;
+            pitch: number;
+        }
+        class LightEnvironment extends Entity implements WebGame.ICommandBufferParameterProvider {
+            static readonly sunDirectionParam: WebGame.CommandBufferParameter;
+            static readonly sunColorParam: WebGame.CommandBufferParameter;
+            static readonly ambientColorParam: WebGame.CommandBufferParameter;
+            static readonly sunDiscParam: WebGame.CommandBufferParameter;
+            private static readonly defaultAmbientValue;
+            private static readonly defaultDirectionValues;
+            private static readonly defaultSunColorValues;
+            private static readonly defaultAmbientValues;
+            private static readonly sunDiscValues;
+            readonly sunDirection: Facepunch.Vector3;
+            readonly sunColor: Facepunch.Vector3;
+            readonly ambientColor: Facepunch.Vector3;
+            private readonly sunDirectionValues;
+            private readonly sunColorValues;
+            private readonly ambientColorValues;
+            constructor(map: Map, info: ILightEnvironment);
+            private static getLinearColor(color, out);
+            static populateDefaultCommandBufferParameters(buf: WebGame.CommandBuffer): void;
+            private static populateSunDiscParameter(buf, size);
+            populateCommandBufferParameters(buf: WebGame.CommandBuffer): void;
+        }
+    }
+}
 declare namespace SourceUtils {
     namespace Entities {
         interface IKeyframeRope extends IPvsEntity {
@@ -300,11 +618,53 @@ declare namespace SourceUtils {
             private keyframes;
             private material;
             private meshHandles;
+            private meshGroup;
+            private vertices;
+            private indices;
+            private texCoords;
+            private widths;
+            private points;
+            private prevPoints;
+            private pinned;
+            private restLengths;
+            private readonly swayDir;
+            private swayTime;
+            private simulationTime;
+            private drawListCount;
             constructor(map: Map, info: IMoveRope);
             private findKeyframes();
+            private static sinh(x);
+            private static cosh(x);
+            private static atanh(x);
+            private static addCatenaryPoints(start, end, slack, count, points);
+            private static catmullRom(p0, p1, p2, p3, t);
+            private computePoints(points, widths);
             private generateMesh();
+            private static readonly updateVertices_norm;
+            private updateVertices();
+            private static readonly simulationStep;
+            private static readonly simulationIterations;
+            private static readonly simulate_accel;
+            private static readonly simulate_delta;
+            simulate(dt: number): void;
+            dispose(): void;
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void;
+            onRemoveFromDrawList(list: Facepunch.WebGame.DrawList): void;
             getMeshHandles(): Facepunch.WebGame.MeshHandle[];
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
+        }
+    }
+}
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    namespace Entities {
+        class OverviewCamera extends WebGame.OrthographicCamera {
+            readonly viewer: MapViewer;
+            private readonly overviewMatrix;
+            constructor(viewer: MapViewer);
+            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList): void;
+            protected onUpdateProjectionMatrix(matrix: Facepunch.Matrix4): void;
+            setView(minX: number, minY: number, maxX: number, maxY: number, minZ: number, maxZ: number): void;
         }
     }
 }
@@ -317,11 +677,16 @@ declare namespace SourceUtils {
         }
         class StaticProp extends PvsEntity {
             readonly model: StudioModel;
+            readonly modelIndex: number;
             private readonly info;
+            private readonly min;
+            private readonly max;
+            private hasBounds;
             private lighting;
             private albedoModulation?;
             constructor(map: Map, info: IStaticProp);
             private checkLoaded();
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
         }
     }
 }
@@ -335,12 +700,214 @@ declare namespace SourceUtils {
             private readonly clusterLeaves;
             constructor(map: Map, info: IWorldspawn);
             private onModelLoad();
-            isInAnyCluster(clusters: number[]): boolean;
+            isInAnyCluster(clusters: ArrayLike<number>): boolean;
             isInCluster(cluster: number): boolean;
-            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList, clusters: number[]): void;
+            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList, clusters: ArrayLike<number>): void;
         }
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    interface IPickResult {
+        entity: Entities.Entity;
+        leaf: BspLeaf;
+        position: Facepunch.Vector3;
+        distance: number;
+    }
+    class EntityInspector {
+        readonly viewer: MapViewer;
+        enabled: boolean;
+        pickButton: WebGame.MouseButton;
+        clickTolerance: number;
+        readonly highlightColor: Facepunch.Vector3;
+        private selection;
+        private panel;
+        private highlight;
+        private readonly mouseDownPos;
+        private mouseDownLocked;
+        private mouseDownPending;
+        private readonly traceResult;
+        private readonly temp;
+        private readonly min;
+        private readonly max;
+        constructor(viewer: MapViewer);
+        getSelection(): IPickResult;
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): void;
+        onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean;
+        private static readonly rayBox_invDir;
+        private static rayBox(origin, dir, min, max);
+        private static containsPoint(min, max, pos, margin);
+        pick(screenX: number, screenY: number): IPickResult;
+        select(result: IPickResult): void;
+        private getBounds(result, min, max);
+        private static readonly drawBox_corner;
+        static drawBox(line: WebGame.DebugLine, min: Facepunch.IVector3, max: Facepunch.IVector3): void;
+        private updateHighlight();
+        private getMaterialNames(result);
+        private static formatVector(vec);
+        protected onDescribe(result: IPickResult): [string, string][];
+        protected onCreatePanel(): HTMLElement;
+        private updatePanel();
+        clear(): void;
+    }
+}
+declare namespace SourceUtils {
+    enum IoConnectionType {
+        Output = 0,
+        RopeKeyframe = 1,
+    }
+    interface IIoConnection {
+        type: IoConnectionType;
+        source: Entities.IEntity;
+        target: Entities.IEntity;
+        connection?: Entities.IEntityConnection;
+    }
+    interface IIoFilter {
+        entity?: string;
+        output?: string;
+    }
+    class EntityIoOverlay {
+        readonly viewer: MapViewer;
+        showOutputs: boolean;
+        showRopes: boolean;
+        showLabels: boolean;
+        maxLabels: number;
+        readonly outputColor: Facepunch.Vector3;
+        readonly ropeColor: Facepunch.Vector3;
+        private enabled;
+        private filter;
+        private invalid;
+        private builtOutputs;
+        private builtRopes;
+        private connections;
+        private lines;
+        private labelContainer;
+        private labels;
+        private readonly midpoints;
+        private readonly screenPos;
+        private readonly cameraPos;
+        constructor(viewer: MapViewer);
+        isEnabled(): boolean;
+        setEnabled(value: boolean): void;
+        getFilter(): IIoFilter;
+        setFilter(filter: IIoFilter): void;
+        invalidate(): void;
+        getConnections(): IIoConnection[];
+        private static addToIndex(index, name, ent);
+        private resolveTargets(source, target, byName, byClass);
+        private matchesFilter(conn, entity, output);
+        private findConnections();
+        private getLine(type);
+        private rebuild();
+        private static getLabelText(conn);
+        protected onCreateLabelContainer(): HTMLElement;
+        private getLabel(index);
+        private updateLabels();
+        update(): void;
+        clear(): void;
+    }
+}
+declare namespace SourceUtils {
+    class EntityListPanel {
+        readonly viewer: MapViewer;
+        readonly element: HTMLElement;
+        maxRows: number;
+        private readonly filter;
+        private readonly list;
+        private readonly status;
+        constructor(viewer: MapViewer);
+        setVisible(visible: boolean): void;
+        protected onFilter(text: string): Entities.IEntity[];
+        refresh(): void;
+        dispose(): void;
+    }
+}
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    enum InputAction {
+        MoveForward = 0,
+        MoveBack = 1,
+        MoveLeft = 2,
+        MoveRight = 3,
+        Sprint = 4,
+        Slow = 5,
+        Jump = 6,
+        Duck = 7,
+        ToggleWalk = 8,
+        ToggleFullscreen = 9,
+    }
+    enum GamepadButton {
+        A = 0,
+        B = 1,
+        X = 2,
+        Y = 3,
+        LeftBumper = 4,
+        RightBumper = 5,
+        LeftTrigger = 6,
+        RightTrigger = 7,
+        Back = 8,
+        Start = 9,
+        LeftStick = 10,
+        RightStick = 11,
+        DPadUp = 12,
+        DPadDown = 13,
+        DPadLeft = 14,
+        DPadRight = 15,
+    }
+    class InputBindings {
+        private readonly keys;
+        private readonly buttons;
+        static createDefault(): InputBindings;
+        bindKey(action: InputAction, key: WebGame.Key): void;
+        unbindKey(action: InputAction, key?: WebGame.Key): void;
+        getKeys(action: InputAction): WebGame.Key[];
+        getActionsForKey(key: WebGame.Key): InputAction[];
+        bindButton(action: InputAction, button: GamepadButton): void;
+        unbindButton(action: InputAction, button?: GamepadButton): void;
+        getButtons(action: InputAction): GamepadButton[];
+    }
+    class InputController {
+        readonly viewer: MapViewer;
+        bindings: InputBindings;
+        enableTouch: boolean;
+        enableGamepad: boolean;
+        touchLookSensitivity: number;
+        touchMoveRadius: number;
+        touchGestureThreshold: number;
+        minFov: number;
+        maxFov: number;
+        gamepadDeadZone: number;
+        gamepadLookSpeed: number;
+        actionHandler: (action: InputAction) => boolean;
+        readonly move: Facepunch.Vector2;
+        readonly look: Facepunch.Vector2;
+        private readonly touchLook;
+        private readonly touchMove;
+        private readonly touchStart;
+        private readonly lastTouch;
+        private touchStartDistance;
+        private touchStartFov;
+        private touchCount;
+        private touchGesture;
+        private heldButtons;
+        private gamepadActions;
+        constructor(viewer: MapViewer);
+        attach(container: HTMLElement): void;
+        private static getCentroid(touches, out);
+        private static getDistance(touches);
+        private isCanvasTouch(ev);
+        private onTouchChange(ev);
+        private readonly onTouchMove_temp;
+        private onTouchMove(ev);
+        private isKeyActionDown(action);
+        isActionDown(action: InputAction): boolean;
+        private applyDeadZone(value);
+        private getGamepad();
+        private updateGamepad(dt);
+        onKeyDown(key: WebGame.Key): boolean;
+        update(dt: number): void;
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     interface IFace {
@@ -349,7 +916,7 @@ declare namespace SourceUtils {
     }
     interface IMaterialGroup {
         material: number;
-        meshData: WebGame.ICompressedMeshData;
+        meshData: IBinaryMeshData;
     }
     interface ILeafGeometryPage {
         leaves: IFace[][];
@@ -360,6 +927,7 @@ declare namespace SourceUtils {
         private matGroups;
         private leafFaces;
         constructor(viewer: MapViewer, page: IPageInfo);
+        getDecoder(): string;
         onLoadValues(page: ILeafGeometryPage): void;
         protected onGetValue(index: number): Facepunch.WebGame.MeshHandle[];
     }
@@ -369,15 +937,68 @@ declare namespace SourceUtils {
         protected onCreatePage(page: IPageInfo): LeafGeometryPage;
     }
 }
+declare namespace SourceUtils {
+    interface ILoadCategoryProgress {
+        progress: number;
+        bytesLoaded?: number;
+        failedPages: number;
+    }
+    interface ILoadCategories {
+        vis: ILoadCategoryProgress;
+        bsp: ILoadCategoryProgress;
+        lightmap: ILoadCategoryProgress;
+        materials: ILoadCategoryProgress;
+        geometry: ILoadCategoryProgress;
+        props: ILoadCategoryProgress;
+    }
+    interface ILoadProgress {
+        total: number;
+        bytesLoaded: number;
+        failedPages: number;
+        categories: ILoadCategories;
+    }
+    interface ILoadingOverlay {
+        setVisible(visible: boolean): void;
+        update(progress: ILoadProgress): void;
+        dispose(): void;
+    }
+    class LoadingOverlay implements ILoadingOverlay {
+        static readonly categoryLabels: Record<keyof ILoadCategories, string>;
+        readonly element: HTMLElement;
+        private readonly bars;
+        private readonly totalBar;
+        private readonly status;
+        constructor(container: HTMLElement);
+        private static getCategories();
+        private addBar(parent, name);
+        private static formatBytes(bytes);
+        setVisible(visible: boolean): void;
+        update(progress: ILoadProgress): void;
+        dispose(): void;
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     interface IPageInfo {
         first: number;
         count: number;
         url: string;
+        format?: PageFormat | string;
+    }
+    interface INamedView {
+        origin: Facepunch.IVector3;
+        angles: Facepunch.IVector3;
+        fov?: number;
+    }
+    interface IEntityQuery {
+        classname?: string;
+        targetname?: string;
+        key?: string;
+        value?: string;
     }
     interface IMap {
         name: string;
+        version?: string;
         lightmapUrl: string;
         visPages: IPageInfo[];
         leafPages: IPageInfo[];
@@ -388,42 +1009,120 @@ declare namespace SourceUtils {
         vertLightingPages: IPageInfo[];
         ambientPages: IPageInfo[];
         entities: Entities.IEntity[];
+        views?: {
+            [name: string]: INamedView;
+        };
     }
     class Map implements WebGame.ICommandBufferParameterProvider {
         static readonly lightmapParam: WebGame.CommandBufferParameter;
         readonly viewer: MapViewer;
         skyCamera: Entities.SkyCamera;
+        lightEnvironment: Entities.LightEnvironment;
+        indexFailedHandler: (error: IPageLoadError) => void;
         private tSpawns;
         private ctSpawns;
         private playerSpawns;
+        private bombTargets;
         private namedEntities;
         private worldspawn;
         private pvsEntities;
+        private entityInstances;
         private lightmap;
         private skyCube;
         private info;
+        private loadingUrl;
         private clusterVis;
         private clusterEnts;
+        private visibleClusterSets;
         private worldspawnLoadedCallbacks;
+        private activeRopes;
+        private dynamicItems;
+        private static readonly indexCacheScope;
+        private cacheScope;
+        private lightmapObjectUrls;
         constructor(viewer: MapViewer);
         isReady(): boolean;
         unload(): void;
         load(url: string): void;
+        private onIndexFailed(url, error);
+        private loadIndex(url, success, failure);
+        private cacheLightmap(scope, url, callback?);
+        private loadCachedLightmap(scope, url, callback);
+        downloadForOffline(progress?: (completed: number, total: number) => void, complete?: (failed: number) => void): void;
+        addDynamicItem(item: WebGame.IDrawListItem): void;
+        removeDynamicItem(item: WebGame.IDrawListItem): void;
         getLightmapLoadProgress(): number;
-        private onLoad(info);
+        private onLoad(info, cacheScope, lightmapInfo);
+        getSpawnPoint(): Entities.IEntity;
+        getTSpawns(): Entities.IEntity[];
+        getCtSpawns(): Entities.IEntity[];
+        getPlayerSpawns(): Entities.IEntity[];
+        getBombTargets(): Entities.IBombTarget[];
+        getWorldBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean;
+        getEntities(): Entities.IEntity[];
+        getEntityInstance(info: Entities.IEntity): Entities.Entity;
+        getEntityCenter(info: Entities.IEntity, out: Facepunch.Vector3): Facepunch.Vector3;
+        private static readonly getEntityCenter_min;
+        private static readonly getEntityCenter_max;
+        getEntityInfo(entity: Entities.Entity): Entities.IEntity;
+        static createPattern(pattern: string): RegExp;
+        findEntities(query: IEntityQuery): Entities.IEntity[];
         addNamedEntity(targetname: string, entity: Entities.Entity): void;
         getNamedEntity(targetname: string): Entities.Entity;
+        getNamedView(name: string): INamedView;
+        getNamedViewNames(): string[];
+        getPvsEntities(): Entities.PvsEntity[];
         addPvsEntity(entity: Entities.PvsEntity): void;
         removePvsEntity(entity: Entities.PvsEntity): void;
         getPvsEntitiesInCluster(cluster: number): Entities.PvsEntity[];
         getLeafAt(pos: Facepunch.IVector3, callback?: (leaf: BspLeaf) => void): BspLeaf;
         update(dt: number): void;
+        addActiveRope(rope: Entities.MoveRope): void;
+        removeActiveRope(rope: Entities.MoveRope): void;
+        private readonly trace_result;
+        private readonly trace_origin;
+        private readonly trace_start;
+        private readonly trace_end;
+        trace(start: Facepunch.IVector3, end: Facepunch.IVector3, mask?: number, result?: TraceResult): TraceResult;
+        traceBox(start: Facepunch.IVector3, end: Facepunch.IVector3, extents: Facepunch.IVector3, mask?: number, result?: TraceResult): TraceResult;
+        isAnyClusterVisible(clusters: number[], leaf?: BspLeaf): boolean;
         populateDrawList(drawList: WebGame.DrawList, pvsRoot: BspLeaf): void;
         populateCommandBufferParameters(buf: Facepunch.WebGame.CommandBuffer): void;
     }
 }
+declare namespace SourceUtils {
+    interface IMapCacheScope {
+        map: string;
+        version: string;
+    }
+    type MapCacheData = string | ArrayBuffer | Blob;
+    class MapCache {
+        static readonly dbName: string;
+        static readonly dbVersion: number;
+        private static readonly entryStore;
+        private static readonly mapIndex;
+        private static db;
+        private static openCallbacks;
+        static isSupported(): boolean;
+        private static open(callback);
+        static getAbsoluteUrl(url: string): string;
+        private static getKey(scope, url);
+        static get<TData extends MapCacheData>(scope: IMapCacheScope, url: string, callback: (data: TData) => void): void;
+        static has(scope: IMapCacheScope, url: string, callback: (cached: boolean) => void): void;
+        static put(scope: IMapCacheScope, url: string, data: MapCacheData, callback?: (success: boolean) => void): void;
+        static clearMap(map: string, keepVersion?: string, callback?: () => void): void;
+        static clearAll(callback?: () => void): void;
+        static fetch(url: string, format: PageFormat, success: (data: string | ArrayBuffer) => void, failure?: (error: Error) => void, progress?: (loaded: number, total: number) => void): () => void;
+        static load<TResult>(scope: IMapCacheScope, url: string, format: PageFormat, parse: (data: string | ArrayBuffer) => TResult, success: (result: TResult) => void, failure?: (error: Error) => void, progress?: (loaded: number, total: number) => void): () => void;
+        static fetchBlob(url: string, success: (data: Blob) => void, failure?: (error: Error) => void): () => void;
+        private static request<TData>(url, responseType, success, failure, progress);
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
+    interface IMapMaterialInfo extends WebGame.IMaterialInfo {
+        name?: string;
+    }
     interface IMapMaterialPage {
         textures: WebGame.ITextureInfo[];
         materials: WebGame.IMaterialInfo[];
@@ -431,25 +1130,75 @@ declare namespace SourceUtils {
     class MapMaterialPage extends ResourcePage<IMapMaterialPage, WebGame.IMaterialInfo> {
         private readonly viewer;
         private materials;
+        private textures;
         constructor(viewer: MapViewer, page: IPageInfo);
         onLoadValues(page: IMapMaterialPage): void;
+        getTexture(index: number): WebGame.Texture;
         protected onGetValue(index: number): WebGame.IMaterialInfo;
     }
     class MapMaterialLoader extends PagedLoader<IMapMaterialPage, WebGame.IMaterialInfo, MapMaterialPage> {
         readonly viewer: MapViewer;
-        private readonly materials;
+        private materials;
+        private materialNames;
         constructor(viewer: MapViewer);
         loadMaterial(index: number): WebGame.Material;
+        getMaterialName(material: WebGame.Material): string;
+        loadMaterialFromInfo(info: WebGame.IMaterialInfo): WebGame.Material;
+        clear(): void;
         protected onCreatePage(page: IPageInfo): MapMaterialPage;
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    /**
+     * Mesh manager that can be disposed between maps. The base class keeps its compose
+     * frame mesh after dispose() even though the group holding it is gone, so this one
+     * owns that mesh instead and creates it again when next needed.
+     */
+    class MapMeshManager extends WebGame.MeshManager {
+        private readonly viewer;
+        private composeFrameMesh;
+        constructor(viewer: MapViewer);
+        getComposeFrameMeshHandle(): WebGame.MeshHandle;
+        dispose(): void;
+    }
+}
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    class MapTextureLoader implements Facepunch.ILoader {
+        readonly viewer: MapViewer;
+        private loaded;
+        private queue;
+        private active;
+        private completed;
+        private nextDummyId;
+        constructor(viewer: MapViewer);
+        load(url: string): WebGame.TextureLoadable;
+        loadFromInfo(info: WebGame.ITextureInfo): WebGame.TextureLoadable;
+        getLoadProgress(): number;
+        private getNextToLoad();
+        update(requestQuota: number): number;
+        private disposeTexture(texture);
+        clear(): void;
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     enum CameraMode {
         Fixed = 0,
         CanLook = 1,
         CanMove = 2,
+        Walk = 4,
+        Orbit = 8,
         FreeCam = 3,
+        OrbitCam = 9,
+    }
+    enum RenderFeatureFlags {
+        None = 0,
+        Shadows = 1,
+        SunDisc = 2,
+        RopeSimulation = 4,
+        AmbientInterpolation = 8,
     }
     interface IPositionHash {
         x?: number;
@@ -457,29 +1206,142 @@ declare namespace SourceUtils {
         z?: number;
         r?: number;
         s?: number;
+        f?: number;
+        m?: CameraMode;
+        d?: number;
+        t?: RenderFeatureFlags;
+        e?: string;
+        v?: string;
+    }
+    interface ICameraState {
+        position: Facepunch.IVector3;
+        yaw: number;
+        pitch: number;
+    }
+    interface ICameraTarget {
+        position?: Facepunch.IVector3;
+        yaw?: number;
+        pitch?: number;
+    }
+    interface IRenderFeatures {
+        shadows?: boolean;
+        sunDisc?: boolean;
+        ropeSimulation?: boolean;
+        ambientInterpolation?: boolean;
+        debugPanel?: boolean;
+        loadingOverlay?: boolean;
+    }
+    interface IViewerState {
+        mapUrl: string;
+        cameraMode: CameraMode;
+        camera: ICameraState;
+        leaf: number;
+        cluster: number;
+        loadProgress: number;
+        allLoaded: boolean;
+        features: IRenderFeatures;
     }
     class MapViewer extends WebGame.Game {
         mainCamera: Entities.Camera;
         debugPanel: HTMLElement;
+        private readonly pagedLoaders;
+        private readonly loadErrorHandlers;
+        private readonly loadProgressHandlers;
+        private readonly mapReadyHandlers;
+        private readonly allLoadedHandlers;
+        private readonly cameraMovedHandlers;
+        private readonly leafChangedHandlers;
+        private readonly entityPickedHandlers;
+        selectedEntity: Entities.Entity;
+        readonly meshes: MapMeshManager;
         readonly map: Map;
         readonly visLoader: VisLoader;
         readonly bspModelLoader: BspModelLoader;
         readonly mapMaterialLoader: MapMaterialLoader;
+        readonly mapTextureLoader: MapTextureLoader;
         readonly leafGeometryLoader: LeafGeometryLoader;
         readonly dispGeometryLoader: DispGeometryLoader;
         readonly studioModelLoader: StudioModelLoader;
         readonly vertLightingLoader: VertexLightingLoader;
         readonly ambientLoader: AmbientLoader;
+        readonly playerController: PlayerController;
+        readonly cameraPathPlayer: CameraPathPlayer;
+        readonly input: InputController;
+        readonly orbitController: OrbitController;
+        readonly overviewRenderer: OverviewRenderer;
+        readonly inspector: EntityInspector;
+        readonly ioOverlay: EntityIoOverlay;
+        readonly gizmos: PointEntityGizmos;
+        readonly measureTool: MeasureTool;
         private debugPanelVisible;
+        private loadingOverlay;
+        private loadingOverlayVisible;
+        private entityList;
+        private entityListVisible;
         cameraMode: CameraMode;
         saveCameraPosInHash: boolean;
         showDebugPanel: boolean;
+        showLoadingOverlay: boolean;
+        showEntityList: boolean;
+        interpolateAmbientCubes: boolean;
+        overviewMode: boolean;
+        measureMode: boolean;
+        sunDiscSize: number;
+        shadowCascadeCount: number;
+        shadowResolution: number;
+        shadowDistance: number;
+        simulateRopes: boolean;
+        freezeRopes: boolean;
+        ropeGravity: number;
+        readonly wind: Facepunch.Vector3;
+        loadPriorityFalloff: number;
+        allowPartialLoad: boolean;
+        useOfflineCache: boolean;
+        readonly loadProgressWeights: {
+            [category: string]: number;
+        };
         totalLoadProgress: number;
         avgFrameTime: number;
         avgFrameRate: number;
         notMovedTime: number;
         constructor(container: HTMLElement);
+        private addPagedLoader<TLoader>(name, loader);
+        private mapUrl;
         loadMap(url: string): void;
+        addLoadErrorHandler(action: (error: IPageLoadError) => void): void;
+        protected onPageLoadFailed(error: IPageLoadError): void;
+        addLoadProgressHandler(action: (progress: ILoadProgress) => void): void;
+        addMapReadyHandler(action: () => void): void;
+        addAllLoadedHandler(action: () => void): void;
+        protected onLoadProgress(progress: ILoadProgress): void;
+        protected onMapReady(): void;
+        protected onAllLoaded(): void;
+        private static getCategoryProgress(loaders, weights);
+        getLoadProgress(): ILoadProgress;
+        setLoadingOverlay(overlay: ILoadingOverlay): void;
+        protected onCreateLoadingOverlay(): ILoadingOverlay;
+        addCameraMovedHandler(action: (camera: ICameraState) => void): void;
+        addLeafChangedHandler(action: (leaf: BspLeaf) => void): void;
+        addEntityPickedHandler(action: (entity: Entities.Entity) => void): void;
+        protected onCameraMoved(camera: ICameraState): void;
+        protected onLeafChanged(leaf: BspLeaf): void;
+        protected onEntityPicked(entity: Entities.Entity): void;
+        selectEntity(entity: Entities.Entity): void;
+        getCameraState(): ICameraState;
+        private cameraAnimation;
+        moveCamera(target: ICameraTarget, duration?: number, complete?: () => void, interrupted?: () => void): void;
+        stopCameraAnimation(): void;
+        isCameraAnimating(): boolean;
+        private updateCameraAnimation(dt);
+        private savedShadowCascadeCount;
+        private savedSunDiscSize;
+        getRenderFeatures(): IRenderFeatures;
+        setRenderFeatures(features: IRenderFeatures): void;
+        getState(): IViewerState;
+        setPageCacheScope(scope: IMapCacheScope): void;
+        getFailedPageCount(): number;
+        isAllLoaded(): boolean;
+        isPartiallyLoaded(): boolean;
         protected onInitialize(): void;
         private static readonly hashKeyRegex;
         private static readonly hashObjectRegex;
@@ -488,6 +1350,19 @@ declare namespace SourceUtils {
         private hashChange();
         private readonly onHashChange_temp;
         protected onHashChange(value: string | Object): void;
+        private pendingHash;
+        private static isCameraMode(value);
+        private applyPendingHash();
+        private static roundForHash(value);
+        protected getHashState(): IPositionHash;
+        private static getRenderFeatureFlags(features);
+        private static getRenderFeaturesFromFlags(flags);
+        teleportToSpawn(spawn: Entities.IEntity, duration?: number): boolean;
+        goToNamedView(name: string, duration?: number): boolean;
+        private static readonly flyToEntity_min;
+        private static readonly flyToEntity_max;
+        flyToEntity(info: Entities.IEntity, duration?: number): boolean;
+        protected onCreateEntityList(): EntityListPanel;
         protected onCreateDebugPanel(): HTMLElement;
         protected onDeviceRotate(deltaAngles: Facepunch.Vector3): void;
         protected onResize(): void;
@@ -495,21 +1370,361 @@ declare namespace SourceUtils {
         private readonly tempQuat;
         private readonly lookQuat;
         setCameraAngles(yaw: number, pitch: number): void;
+        getCameraAngles(target: Facepunch.Vector2): Facepunch.Vector2;
+        private readonly worldToScreen_temp;
+        private readonly worldToScreen_matrix;
+        worldToScreen(pos: Facepunch.IVector3, target: Facepunch.Vector2): Facepunch.Vector2;
+        getScreenRay(screenX: number, screenY: number, target: Facepunch.Vector3): Facepunch.Vector3;
         private updateCameraAngles();
+        protected onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2, target: EventTarget): boolean;
+        protected onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2, target: EventTarget): boolean;
+        protected onMouseMove(screenPos: Facepunch.Vector2): void;
+        protected onMouseScroll(delta: number): boolean;
         protected onMouseLook(delta: Facepunch.Vector2): void;
         toggleFullscreen(): void;
         protected onKeyDown(key: WebGame.Key): boolean;
+        protected onInputAction(action: InputAction): boolean;
         private lastProfileTime;
         private frameCount;
         private lastDrawCalls;
         private allLoaded;
+        private mapReady;
         protected onSetDebugText(className: string, value: string): void;
+        private readonly loadPriorityOrigin;
+        getLoadPriority(position: Facepunch.IVector3, clusters?: number[]): number;
+        private readonly lastCameraPos;
+        private readonly lastLookAngs;
+        private lastLeaf;
+        private checkCameraChanged();
         private readonly onUpdateFrame_temp;
+        private wasWalking;
+        private wasOrbiting;
         protected onUpdateFrame(dt: number): void;
         protected onRenderFrame(dt: number): void;
         populateCommandBufferParameters(buf: WebGame.CommandBuffer): void;
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    enum Reachability {
+        Step = 0,
+        Jump = 1,
+        CrouchJump = 2,
+        TooHigh = 3,
+    }
+    interface IMeasurement {
+        start: Facepunch.IVector3;
+        end: Facepunch.IVector3;
+        distance: number;
+        horizontal: number;
+        vertical: number;
+        reachability: Reachability;
+    }
+    class MeasureTool {
+        static readonly reachabilityLabels: {
+            [reachability: number]: string;
+        };
+        readonly viewer: MapViewer;
+        pickButton: WebGame.MouseButton;
+        clickTolerance: number;
+        metresPerUnit: number;
+        markerSize: number;
+        readonly lineColor: Facepunch.Vector3;
+        private measurements;
+        private pending;
+        private active;
+        private line;
+        private panel;
+        private readonly mouseDownPos;
+        private mouseDownLocked;
+        private mouseDownPending;
+        private readonly traceResult;
+        private readonly temp;
+        constructor(viewer: MapViewer);
+        getJumpHeight(): number;
+        getCrouchJumpHeight(): number;
+        getReachability(height: number): Reachability;
+        measure(start: Facepunch.IVector3, end: Facepunch.IVector3): IMeasurement;
+        getMeasurements(): IMeasurement[];
+        removeMeasurement(index: number): void;
+        toJson(): string;
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): void;
+        onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean;
+        pick(screenX: number, screenY: number): Facepunch.Vector3;
+        addPoint(pos: Facepunch.IVector3): void;
+        private drawMarker(line, pos);
+        private updateLine();
+        private formatLength(units);
+        protected onCreatePanel(): HTMLElement;
+        private addButton(parent, text, action);
+        private download();
+        private updatePanel();
+        update(): void;
+        clear(): void;
+    }
+}
+declare namespace SourceUtils {
+    type MessageCommand = (viewer: MapViewer, args: any[], respond: (result?: any) => void, fail: (error: string) => void) => void;
+    interface IMessageCommand {
+        sourceutils: "command";
+        id?: number | string;
+        command: string;
+        args?: any[];
+    }
+    interface IMessageResponse {
+        sourceutils: "response";
+        id: number | string;
+        result?: any;
+        error?: string;
+    }
+    interface IMessageEvent {
+        sourceutils: "event";
+        event: string;
+        data?: any;
+    }
+    class MessageBridge {
+        private static readonly commands;
+        static registerCommand(name: string, command: MessageCommand): void;
+        static getCommand(name: string): MessageCommand;
+        readonly viewer: MapViewer;
+        readonly target: Window;
+        readonly origin: string;
+        private readonly messageListener;
+        private disposed;
+        constructor(viewer: MapViewer, origin: string, target?: Window);
+        postEvent(event: string, data?: any): void;
+        private respond(response);
+        private onMessage(ev);
+        dispose(): void;
+    }
+}
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    class OrbitController {
+        readonly viewer: MapViewer;
+        readonly target: Facepunch.Vector3;
+        distance: number;
+        minDistance: number;
+        maxDistance: number;
+        rotateSensitivity: number;
+        zoomSensitivity: number;
+        recentreDuration: number;
+        rotateButton: WebGame.MouseButton;
+        panButton: WebGame.MouseButton;
+        private dragButton;
+        private readonly lastDragPos;
+        private readonly angles;
+        private readonly forward;
+        private readonly temp;
+        private readonly traceResult;
+        constructor(viewer: MapViewer);
+        attach(container: HTMLElement): void;
+        isActive(): boolean;
+        private getForward();
+        begin(): void;
+        setTarget(target: Facepunch.IVector3, distance?: number): void;
+        focusEntity(entity: Entities.Entity, distance?: number): void;
+        recentreAt(screenX: number, screenY: number): boolean;
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean;
+        onMouseUp(button: WebGame.MouseButton): boolean;
+        onMouseMove(screenPos: Facepunch.Vector2): void;
+        pan(dx: number, dy: number): void;
+        onMouseScroll(delta: number): boolean;
+        update(dt: number): void;
+    }
+}
+declare namespace SourceUtils {
+    enum OverviewMarkerType {
+        TSpawn = 0,
+        CtSpawn = 1,
+        Bombsite = 2,
+    }
+    interface IOverviewTransform {
+        posX: number;
+        posY: number;
+        scale: number;
+    }
+    interface IOverviewMarker {
+        type: OverviewMarkerType;
+        targetname?: string;
+        x: number;
+        y: number;
+        width?: number;
+        height?: number;
+    }
+    interface IOverviewOptions {
+        size?: number;
+        min?: Facepunch.IVector3;
+        max?: Facepunch.IVector3;
+        minZ?: number;
+        maxZ?: number;
+        drawMarkers?: boolean;
+    }
+    interface IOverview {
+        width: number;
+        height: number;
+        minZ: number;
+        maxZ: number;
+        transform: IOverviewTransform;
+        markers: IOverviewMarker[];
+        image: string;
+    }
+    class OverviewRenderer {
+        static readonly markerColors: {
+            [type: number]: string;
+        };
+        readonly viewer: MapViewer;
+        defaultSize: number;
+        markerRadius: number;
+        radarScale: number;
+        radarCeiling: number;
+        private camera;
+        constructor(viewer: MapViewer);
+        private getCamera();
+        static worldToImage(transform: IOverviewTransform, pos: Facepunch.IVector3, out: Facepunch.IVector2): Facepunch.IVector2;
+        static imageToWorld(transform: IOverviewTransform, pos: Facepunch.IVector2, out: Facepunch.IVector3): Facepunch.IVector3;
+        render(options?: IOverviewOptions): IOverview;
+        getMarkers(transform: IOverviewTransform): IOverviewMarker[];
+        private drawMarkers(context, markers);
+        private static readonly renderRadar_pos;
+        private static readonly renderRadar_min;
+        private static readonly renderRadar_max;
+        renderRadar(): void;
+    }
+}
+declare namespace SourceUtils {
+    type PageDecoder = (payload: any, transfer: ArrayBuffer[]) => any;
+    interface IPageLoadRequest {
+        url: string;
+        format: PageFormat;
+        decoder: string;
+        cacheScope: IMapCacheScope;
+    }
+    class PageDecoders {
+        private static decoders;
+        static register(name: string, decoder: PageDecoder): void;
+        static get(name: string): PageDecoder;
+        static addTransfer(transfer: ArrayBuffer[], array: TypedArray): void;
+        private static toUint32Array(value, transfer);
+        private static decodeVis(payload, transfer);
+        private static decodeVertexLighting(payload, transfer);
+        private static decodeMeshes(payload, transfer);
+    }
+    class PageDecodePool {
+        static workerCount: number;
+        static scriptUrls: string[];
+        private static sourceUtilsUrl;
+        private static defaultPool;
+        static getDefault(): PageDecodePool;
+        static loadDirect(request: IPageLoadRequest, success: (payload: any, transfer: ArrayBuffer[]) => void, failure: (error: any) => void, progress: (loaded: number, total: number) => void): () => void;
+        static runWorker(scope: any): void;
+        private static findScriptUrls();
+        private workers;
+        private pending;
+        private pendingCounts;
+        private nextId;
+        constructor(workerCount: number);
+        hasWorkers(): boolean;
+        load<TPayload>(request: IPageLoadRequest, success: (payload: TPayload) => void, failure?: (error: any) => void, progress?: (loaded: number, total: number) => void): () => void;
+        private dispatch(pending);
+        private cancel(pending);
+        private onWorkerMessage(response);
+        private onWorkerError(worker, ev);
+        private disableWorkers();
+    }
+}
+declare namespace SourceUtils {
+    class PlayerController {
+        static readonly standHeight: number;
+        static readonly duckHeight: number;
+        static readonly standEyeHeight: number;
+        static readonly duckEyeHeight: number;
+        static readonly halfWidth: number;
+        static readonly stepSize: number;
+        readonly viewer: MapViewer;
+        readonly velocity: Facepunch.Vector3;
+        gravity: number;
+        jumpSpeed: number;
+        maxSpeed: number;
+        duckSpeedScale: number;
+        friction: number;
+        stopSpeed: number;
+        accelerate: number;
+        airAccelerate: number;
+        airSpeedCap: number;
+        private readonly feetPos;
+        private onGround;
+        private ducked;
+        private jumpHeld;
+        private eyeHeight;
+        constructor(viewer: MapViewer);
+        isOnGround(): boolean;
+        isDucked(): boolean;
+        getEyePosition(target: Facepunch.IVector3): Facepunch.IVector3;
+        setEyePosition(pos: Facepunch.IVector3): void;
+        respawn(): void;
+        update(dt: number, wishDir: Facepunch.IVector3, jump: boolean, duck: boolean): void;
+        private readonly hull_extents;
+        private readonly hull_start;
+        private readonly hull_end;
+        private readonly hull_result;
+        private traceHull(from, to, ducked?);
+        private fitsAt(feetPos, ducked);
+        private readonly updateDuck_temp;
+        private updateDuck(duck);
+        private readonly categorizePosition_temp;
+        private categorizePosition();
+        private applyFriction(dt);
+        private applyAcceleration(wishDir, wishSpeed, dt);
+        private readonly slideMove_end;
+        private slideMove(dt);
+        private readonly stepMove_startPos;
+        private readonly stepMove_startVel;
+        private readonly stepMove_downPos;
+        private readonly stepMove_downVel;
+        private readonly stepMove_temp;
+        private stepMove(dt);
+        private readonly stayOnGround_temp;
+        private stayOnGround();
+        private horizontalDistSq(a, b);
+    }
+}
+declare namespace SourceUtils {
+    class PointEntityGizmos {
+        static readonly defaultColors: {
+            [classname: string]: Facepunch.IVector3;
+        };
+        static readonly otherColor: Facepunch.IVector3;
+        static readonly playerMin: Facepunch.IVector3;
+        static readonly playerMax: Facepunch.IVector3;
+        readonly viewer: MapViewer;
+        boxExtent: number;
+        arrowLength: number;
+        private enabled;
+        private invalid;
+        private readonly visibleClasses;
+        private readonly colors;
+        private lines;
+        private readonly min;
+        private readonly max;
+        private readonly temp;
+        constructor(viewer: MapViewer);
+        isEnabled(): boolean;
+        setEnabled(value: boolean): void;
+        isClassVisible(classname: string): boolean;
+        setClassVisible(classname: string, visible: boolean): void;
+        getClassColor(classname: string): Facepunch.IVector3;
+        setClassColor(classname: string, color: Facepunch.IVector3): void;
+        private isPointEntity(ent);
+        getClassnames(): string[];
+        private getLine(classname);
+        private drawArrow(line, from, angles);
+        private rebuild();
+        invalidate(): void;
+        update(): void;
+        clear(): void;
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     namespace Shaders {
@@ -564,6 +1779,16 @@ declare namespace SourceUtils {
         }
         abstract class LightmappedBase<TMaterial extends LightmappedBaseMaterial> extends ModelBase<TMaterial> {
             readonly uLightmap: WebGame.UniformSampler;
+            readonly uSunDirection: WebGame.Uniform3F;
+            readonly uSunColor: WebGame.Uniform3F;
+            readonly uShadowMap: WebGame.UniformSampler;
+            readonly uShadowMatrix0: WebGame.UniformMatrix4;
+            readonly uShadowMatrix1: WebGame.UniformMatrix4;
+            readonly uShadowMatrix2: WebGame.UniformMatrix4;
+            readonly uShadowMatrix3: WebGame.UniformMatrix4;
+            readonly uShadowSplits: WebGame.Uniform4F;
+            readonly uShadowBias: WebGame.Uniform4F;
+            readonly uShadowInfo: WebGame.Uniform4F;
             constructor(context: WebGLRenderingContext, ctor: {
                 new (): TMaterial;
             });
@@ -596,6 +1821,24 @@ declare namespace SourceUtils {
         }
     }
 }
+declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+    namespace Shaders {
+        class ShadowCasterMaterial extends ModelBaseMaterial {
+            caster: boolean;
+            spline: boolean;
+            cullFace: boolean;
+        }
+        class ShadowCaster extends ModelBase<ShadowCasterMaterial> {
+            readonly uCaster: WebGame.Uniform1F;
+            readonly uSpline: WebGame.Uniform1I;
+            readonly uSunDirection: WebGame.Uniform3F;
+            constructor(context: WebGLRenderingContext);
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void;
+            bufferMaterialProps(buf: Facepunch.WebGame.CommandBuffer, props: ShadowCasterMaterial): void;
+        }
+    }
+}
 declare namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
     namespace Shaders {
@@ -619,6 +1862,9 @@ declare namespace SourceUtils {
             readonly uFacePosZ: WebGame.UniformSampler;
             readonly uFaceNegZ: WebGame.UniformSampler;
             readonly uHdrCompressed: WebGame.Uniform1I;
+            readonly uSunDirection: WebGame.Uniform3F;
+            readonly uSunColor: WebGame.Uniform3F;
+            readonly uSunDisc: WebGame.Uniform1F;
             constructor(context: WebGLRenderingContext);
             bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void;
             bufferMaterialProps(buf: Facepunch.WebGame.CommandBuffer, props: SkyMaterial): void;
@@ -639,7 +1885,12 @@ declare namespace SourceUtils {
             private uAmbient4;
             private uAmbient5;
             uAmbient: WebGame.Uniform3F[];
+            readonly uHasAmbientCube: WebGame.Uniform1I;
+            readonly uSunDirection: WebGame.Uniform3F;
+            readonly uSunColor: WebGame.Uniform3F;
+            readonly uAmbientColor: WebGame.Uniform3F;
             constructor(context: WebGLRenderingContext);
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void;
             bufferMaterialProps(buf: Facepunch.WebGame.CommandBuffer, props: SplineRopeMaterial): void;
         }
     }
@@ -654,11 +1905,16 @@ declare namespace SourceUtils {
     }
 }
 declare namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
     namespace Shaders {
         class VertexLitGenericMaterial extends ModelBaseMaterial {
         }
         class VertexLitGeneric extends ModelBase<VertexLitGenericMaterial> {
+            readonly uSunDirection: WebGame.Uniform3F;
+            readonly uSunColor: WebGame.Uniform3F;
+            readonly uAmbientColor: WebGame.Uniform3F;
             constructor(context: WebGLRenderingContext);
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void;
         }
     }
 }
@@ -742,7 +1998,7 @@ declare namespace SourceUtils {
         private static readonly sampleAmbientCube_samples;
         private static readonly sampleAmbientCube_temp;
         private static sampleAmbientCube(leaf, pos, normal);
-        createMeshHandles(bodyPartIndex: number, transform: Facepunch.Matrix4, lighting?: (number[][] | BspLeaf), albedoModulation?: number): WebGame.MeshHandle[];
+        createMeshHandles(bodyPartIndex: number, transform: Facepunch.Matrix4, lighting?: (Uint32Array[] | BspLeaf), albedoModulation?: number, min?: Facepunch.Vector3, max?: Facepunch.Vector3): WebGame.MeshHandle[];
         loadFromInfo(info: IStudioModel, page: StudioModelPage): void;
         isLoaded(): boolean;
     }
@@ -754,27 +2010,28 @@ declare namespace SourceUtils {
         private matGroups;
         private models;
         constructor(page: IPageInfo);
-        getMaterialGroup(index: number): WebGame.IMeshData;
+        getDecoder(): string;
+        getMaterialGroup(index: number): ITypedMeshData;
         onLoadValues(page: IStudioModelPage): void;
         protected onGetValue(index: number): IStudioModel;
     }
     class StudioModelLoader extends PagedLoader<IStudioModelPage, IStudioModel, StudioModelPage> {
         readonly viewer: MapViewer;
-        private readonly models;
+        private models;
         constructor(viewer: MapViewer);
         update(requestQuota: number): number;
-        loadModel(index: number): StudioModel;
+        loadModel(index: number, priority?: LoadPriority): StudioModel;
+        clear(): void;
         onCreatePage(page: IPageInfo): StudioModelPage;
     }
     interface IVertexLightingPage {
-        props: (string | number[])[][];
+        props: Uint32Array[][];
     }
-    class VertexLightingPage extends ResourcePage<IVertexLightingPage, number[][]> {
-        private props;
-        onLoadValues(page: IVertexLightingPage): void;
-        protected onGetValue(index: number): number[][];
+    class VertexLightingPage extends ResourcePage<IVertexLightingPage, Uint32Array[]> {
+        getDecoder(): string;
+        protected onGetValue(index: number): Uint32Array[];
     }
-    class VertexLightingLoader extends PagedLoader<IVertexLightingPage, number[][], VertexLightingPage> {
+    class VertexLightingLoader extends PagedLoader<IVertexLightingPage, Uint32Array[], VertexLightingPage> {
         readonly viewer: MapViewer;
         constructor(viewer: MapViewer);
         update(requestQuota: number): number;
@@ -793,12 +2050,13 @@ declare namespace SourceUtils {
 }
 declare namespace SourceUtils {
     interface IVisPage {
-        values: (number[] | string)[];
+        values: Uint32Array[];
     }
-    class VisPage extends ResourcePage<IVisPage, number[]> {
-        protected onGetValue(index: number): number[];
+    class VisPage extends ResourcePage<IVisPage, Uint32Array> {
+        getDecoder(): string;
+        protected onGetValue(index: number): Uint32Array;
     }
-    class VisLoader extends PagedLoader<IVisPage, number[], VisPage> {
+    class VisLoader extends PagedLoader<IVisPage, Uint32Array, VisPage> {
         constructor();
         protected onCreatePage(page: IPageInfo): VisPage;
     }
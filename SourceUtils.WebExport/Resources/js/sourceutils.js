@@ -8,13 +8,38 @@ var SourceUtils;
     var ResourcePage = (function () {
         function ResourcePage(info) {
             this.toLoad = [];
+            this.failed = false;
+            this.loadPriority = 0;
+            this.loadAttempts = 0;
             this.first = info.first;
             this.count = info.count;
             this.url = info.url;
+            this.format = SourceUtils.BinaryPage.getFormat(info);
             this.values = new Array(info.count);
         }
+        // Evaluates the priority hint of every request, which can be costly, so PagedLoader
+        // does this once per update and everything else reads the result from getLoadPriority()
+        ResourcePage.prototype.updateLoadPriority = function () {
+            var best = 0;
+            if (this.toLoad != null) {
+                for (var i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                    var hint = this.toLoad[i].priority;
+                    var priority = typeof hint === "function" ? hint() : hint;
+                    if (priority > best)
+                        best = priority;
+                }
+            }
+            return this.loadPriority = best;
+        };
         ResourcePage.prototype.getLoadPriority = function () {
-            return this.toLoad.length;
+            return this.loadPriority;
+        };
+        ResourcePage.prototype.getRequestCount = function () {
+            return this.toLoad == null ? 0 : this.toLoad.length;
+        };
+        // Name of a PageDecoder to run before onLoadValues, in a worker if possible
+        ResourcePage.prototype.getDecoder = function () {
+            return null;
         };
         ResourcePage.prototype.getValue = function (index) {
             index -= this.first;
@@ -24,52 +49,134 @@ var SourceUtils;
             }
             return value;
         };
-        ResourcePage.prototype.load = function (index, callback) {
+        ResourcePage.prototype.load = function (index, callback, priority) {
+            if (priority === void 0) { priority = ResourcePage.defaultPriority; }
             if (this.page != null) {
                 var value = this.getValue(index);
                 callback(value, this);
                 return value;
             }
-            this.toLoad.push({ index: index, callback: callback });
+            if (this.failed) {
+                callback(null, this);
+                return null;
+            }
+            this.toLoad.push({ index: index, callback: callback, priority: priority });
+        };
+        // Adds another priority hint for an index that has already been requested
+        ResourcePage.prototype.prioritize = function (index, priority) {
+            if (this.toLoad == null)
+                return;
+            this.toLoad.push({ index: index, callback: null, priority: priority });
+        };
+        ResourcePage.prototype.cancel = function (callback) {
+            if (this.toLoad == null)
+                return false;
+            for (var i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                if (this.toLoad[i].callback !== callback)
+                    continue;
+                this.toLoad.splice(i, 1);
+                return true;
+            }
+            return false;
         };
         ResourcePage.prototype.onLoadValues = function (page) {
             this.page = page;
             for (var i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
                 var request = this.toLoad[i];
+                if (request.callback == null)
+                    continue;
                 request.callback(this.getValue(request.index), this);
             }
             this.toLoad = null;
         };
+        // Gives up on this page, passing null to anything waiting on it
+        ResourcePage.prototype.onLoadFailed = function () {
+            this.failed = true;
+            var toLoad = this.toLoad;
+            this.toLoad = null;
+            for (var i = 0, iEnd = toLoad.length; i < iEnd; ++i) {
+                var request = toLoad[i];
+                if (request.callback == null)
+                    continue;
+                request.callback(null, this);
+            }
+        };
+        ResourcePage.prototype.hasFailed = function () {
+            return this.failed;
+        };
         return ResourcePage;
     }());
+    ResourcePage.defaultPriority = 1;
     SourceUtils.ResourcePage = ResourcePage;
     var PagedLoader = (function () {
         function PagedLoader() {
             this.toLoad = [];
+            this.loading = [];
             this.active = 0;
             this.loadProgress = 0;
+            this.loadedBytes = 0;
+            this.failedPages = 0;
             this.throwIfNotFound = true;
+            this.maxRetries = 3;
+            // Milliseconds before the first retry, doubling after each failed attempt
+            this.retryDelay = 1000;
+            // Milliseconds to wait for each attempt, or 0 to wait forever
+            this.timeout = 30000;
+            // If true, pages that failed to load count towards getLoadProgress()
+            this.countFailedAsLoaded = false;
+            // Pages are read from and stored in the MapCache under this scope, if set
+            this.cacheScope = null;
         }
         PagedLoader.prototype.getLoadProgress = function () {
-            return this.pages == null ? 0 : this.loadProgress / this.pages.length;
+            if (this.pages == null)
+                return 0;
+            var failed = this.countFailedAsLoaded ? this.failedPages : 0;
+            return (this.loadProgress + failed) / this.pages.length;
+        };
+        // Bytes received so far, including any for failed attempts
+        PagedLoader.prototype.getLoadedBytes = function () {
+            return this.loadedBytes;
+        };
+        PagedLoader.prototype.getFailedPageCount = function () {
+            return this.failedPages;
+        };
+        PagedLoader.prototype.load = function (index, callback, priority) {
+            if (priority === void 0) { priority = ResourcePage.defaultPriority; }
+            var page = this.findPage(index);
+            if (page != null)
+                return page.load(index, callback, priority);
         };
-        PagedLoader.prototype.load = function (index, callback) {
+        PagedLoader.prototype.prioritize = function (index, priority) {
+            var page = this.findPage(index);
+            if (page != null)
+                page.prioritize(index, priority);
+        };
+        // Removes a request made with load(), returning false if it wasn't pending.
+        // Pages with no remaining requests won't be loaded until something asks again.
+        PagedLoader.prototype.cancel = function (index, callback) {
+            if (this.pages == null)
+                return false;
+            var page = this.findPage(index);
+            return page != null && page.cancel(callback);
+        };
+        PagedLoader.prototype.findPage = function (index) {
             if (this.pages == null) {
                 throw new Error("Page layout not loaded.");
             }
             for (var i = 0, iEnd = this.pages.length; i < iEnd; ++i) {
                 var page = this.pages[i];
                 if (index >= page.first && index < page.first + page.count) {
-                    return page.load(index, callback);
+                    return page;
                 }
             }
             if (this.throwIfNotFound) {
                 throw new Error("Unable to find page for index " + index + ".");
             }
+            return null;
         };
         PagedLoader.prototype.setPageLayout = function (pages) {
             if (this.pages != null) {
-                throw new Error("Changing page layout not implemented.");
+                this.clear();
             }
             this.pages = new Array(pages.length);
             for (var i = 0, iEnd = pages.length; i < iEnd; ++i) {
@@ -77,44 +184,145 @@ var SourceUtils;
                 this.toLoad.push(this.pages[i]);
             }
         };
+        PagedLoader.prototype.clear = function () {
+            // Cancelling removes each load from this.loading, so go through a copy
+            for (var _i = 0, _a = this.loading.slice(0); _i < _a.length; _i++) {
+                var load = _a[_i];
+                load.cancel();
+            }
+            this.pages = null;
+            this.toLoad = [];
+            this.loading = [];
+            this.loadProgress = 0;
+            this.loadedBytes = 0;
+            this.failedPages = 0;
+        };
         PagedLoader.prototype.getNextToLoad = function () {
             var bestScore = 0;
+            var bestCount = 0;
             var bestIndex = -1;
             for (var i = 0; i < this.toLoad.length; ++i) {
                 var page = this.toLoad[i];
                 var score = page.getLoadPriority();
-                if (score > bestScore) {
-                    bestIndex = i;
-                    bestScore = score;
-                }
+                if (score <= 0 || score < bestScore)
+                    continue;
+                // Break ties by how many things are waiting on each page
+                var count = page.getRequestCount();
+                if (score === bestScore && count <= bestCount)
+                    continue;
+                bestIndex = i;
+                bestScore = score;
+                bestCount = count;
             }
             if (bestIndex === -1)
                 return null;
             return this.toLoad.splice(bestIndex, 1)[0];
         };
+        // Stops loading pages that nothing wants any more, such as when the camera has moved
+        // away, putting them back in the queue until something wants them again
+        PagedLoader.prototype.cancelUnwanted = function () {
+            for (var i = this.loading.length - 1; i >= 0; --i) {
+                var load = this.loading[i];
+                if (load.page.getLoadPriority() > 0)
+                    continue;
+                load.cancel();
+                this.toLoad.push(load.page);
+            }
+        };
+        PagedLoader.prototype.updateLoadPriorities = function () {
+            for (var i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                this.toLoad[i].updateLoadPriority();
+            }
+            for (var i = 0, iEnd = this.loading.length; i < iEnd; ++i) {
+                this.loading[i].page.updateLoadPriority();
+            }
+        };
         PagedLoader.prototype.update = function (requestQuota) {
             var _this = this;
+            this.updateLoadPriorities();
+            this.cancelUnwanted();
             var _loop_1 = function () {
                 var next = this_1.getNextToLoad();
                 if (next == null)
                     return "break";
+                var pages = this_1.pages;
                 var lastProgress = 0;
-                ++this_1.active;
-                Facepunch.Http.getJson(next.url, function (page) {
+                var lastLoaded = 0;
+                var finished = false;
+                var timer;
+                var abort;
+                // Only the first of a success, failure, timeout or cancellation is handled for each attempt
+                var finish = function () {
+                    if (finished)
+                        return false;
+                    finished = true;
                     --_this.active;
+                    if (timer !== undefined)
+                        clearTimeout(timer);
+                    var index = _this.loading.indexOf(load);
+                    if (index !== -1)
+                        _this.loading.splice(index, 1);
+                    return true;
+                };
+                var load = {
+                    page: next,
+                    cancel: function () {
+                        if (!finish())
+                            return;
+                        _this.loadProgress -= lastProgress;
+                        lastProgress = 0;
+                        abort();
+                    }
+                };
+                var onLoad = function (page) {
+                    if (!finish() || _this.pages !== pages)
+                        return;
                     _this.loadProgress += 1 - lastProgress;
                     lastProgress = 1;
                     next.onLoadValues(page);
-                }, function (error) {
-                    --_this.active;
-                    console.warn(error);
-                }, function (loaded, total) {
+                };
+                var onError = function (error) {
+                    if (!finish() || _this.pages !== pages)
+                        return;
+                    _this.loadProgress -= lastProgress;
+                    lastProgress = 0;
+                    _this.onPageError(next, error);
+                };
+                var onProgress = function (loaded, total) {
+                    if (finished || _this.pages !== pages)
+                        return;
+                    _this.loadedBytes += loaded - lastLoaded;
+                    lastLoaded = loaded;
                     if (total !== undefined) {
                         var progress = loaded / total;
                         _this.loadProgress += (progress - lastProgress);
                         lastProgress = progress;
                     }
-                });
+                };
+                var request = {
+                    url: next.url,
+                    format: next.format,
+                    decoder: next.getDecoder(),
+                    cacheScope: this_1.cacheScope
+                };
+                ++this_1.active;
+                this_1.loading.push(load);
+                // Aborts the attempt so its results are ignored if they arrive late, then retries as usual
+                if (this_1.timeout > 0) {
+                    timer = setTimeout(function () {
+                        timer = undefined;
+                        if (finished)
+                            return;
+                        abort();
+                        onError(new Error("Timed out after " + _this.timeout + "ms."));
+                    }, this_1.timeout);
+                }
+                if (request.decoder != null) {
+                    abort = SourceUtils.PageDecodePool.getDefault().load(request, onLoad, onError, onProgress);
+                }
+                else {
+                    abort = SourceUtils.PageDecodePool.loadDirect(request, onLoad, onError, onProgress);
+                }
             };
             var this_1 = this;
             while (this.active < requestQuota) {
@@ -124,6 +332,31 @@ var SourceUtils;
             }
             return this.active;
         };
+        PagedLoader.prototype.onPageError = function (page, error) {
+            var _this = this;
+            var pages = this.pages;
+            var attempts = ++page.loadAttempts;
+            if (attempts <= this.maxRetries) {
+                var delay = this.retryDelay * Math.pow(2, attempts - 1);
+                setTimeout(function () {
+                    if (_this.pages === pages)
+                        _this.toLoad.push(page);
+                }, delay);
+                return;
+            }
+            ++this.failedPages;
+            page.onLoadFailed();
+            var info = {
+                loader: this.name,
+                url: page.url,
+                first: page.first,
+                count: page.count,
+                attempts: attempts,
+                error: error
+            };
+            if (this.pageFailedHandler != null)
+                this.pageFailedHandler(info);
+        };
         return PagedLoader;
     }());
     SourceUtils.PagedLoader = PagedLoader;
@@ -154,6 +387,192 @@ var SourceUtils;
     }(SourceUtils.PagedLoader));
     SourceUtils.AmbientLoader = AmbientLoader;
 })(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var PageFormat;
+    (function (PageFormat) {
+        PageFormat[PageFormat["Json"] = 0] = "Json";
+        PageFormat[PageFormat["Binary"] = 1] = "Binary";
+    })(PageFormat = SourceUtils.PageFormat || (SourceUtils.PageFormat = {}));
+    var BinaryBufferType;
+    (function (BinaryBufferType) {
+        BinaryBufferType[BinaryBufferType["Uint8"] = 1] = "Uint8";
+        BinaryBufferType[BinaryBufferType["Int8"] = 2] = "Int8";
+        BinaryBufferType[BinaryBufferType["Uint16"] = 3] = "Uint16";
+        BinaryBufferType[BinaryBufferType["Int16"] = 4] = "Int16";
+        BinaryBufferType[BinaryBufferType["Uint32"] = 5] = "Uint32";
+        BinaryBufferType[BinaryBufferType["Int32"] = 6] = "Int32";
+        BinaryBufferType[BinaryBufferType["Float32"] = 7] = "Float32";
+        BinaryBufferType[BinaryBufferType["Float64"] = 8] = "Float64";
+    })(BinaryBufferType = SourceUtils.BinaryBufferType || (SourceUtils.BinaryBufferType = {}));
+    // Layout of a binary page, all little-endian:
+    //
+    //   uint32   magic ("SUPB")
+    //   uint16   version
+    //   uint16   buffer count
+    //   uint32   metadata length in bytes
+    //   buffer descriptors, 12 bytes each:
+    //     uint8      BinaryBufferType
+    //     uint8[3]   padding
+    //     uint32     byte offset from the start of the page
+    //     uint32     element count
+    //   metadata, as UTF-8 JSON
+    //   buffer data
+    //
+    // The metadata has the same shape as the JSON page, except that any
+    // array may be replaced with { "$buffer": index } to use a typed array
+    // view of the matching buffer instead.
+    var BinaryPage = (function () {
+        function BinaryPage() {
+        }
+        BinaryPage.getFormat = function (info) {
+            if (info.format == null)
+                return PageFormat.Json;
+            return typeof info.format === "string" ? PageFormat[info.format] : info.format;
+        };
+        BinaryPage.decode = function (data) {
+            if (BinaryPage.littleEndian === undefined) {
+                BinaryPage.littleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+            }
+            if (!BinaryPage.littleEndian) {
+                throw new Error("Binary pages are only supported on little-endian platforms.");
+            }
+            if (data.byteLength < BinaryPage.headerSize) {
+                throw new Error("Binary page is too short.");
+            }
+            var view = new DataView(data);
+            if (view.getUint32(0, true) !== BinaryPage.magic) {
+                throw new Error("Binary page has an invalid header.");
+            }
+            var version = view.getUint16(4, true);
+            if (version !== BinaryPage.version) {
+                throw new Error("Unsupported binary page version " + version + ".");
+            }
+            var bufferCount = view.getUint16(6, true);
+            var metadataLength = view.getUint32(8, true);
+            var metadataOffset = BinaryPage.headerSize + bufferCount * BinaryPage.descriptorSize;
+            if (metadataOffset + metadataLength > data.byteLength) {
+                throw new Error("Binary page metadata is truncated.");
+            }
+            var buffers = new Array(bufferCount);
+            for (var i = 0; i < bufferCount; ++i) {
+                var offset = BinaryPage.headerSize + i * BinaryPage.descriptorSize;
+                buffers[i] = BinaryPage.createView(data, view.getUint8(offset), view.getUint32(offset + 4, true), view.getUint32(offset + 8, true));
+            }
+            var metadata = BinaryPage.decodeUtf8(new Uint8Array(data, metadataOffset, metadataLength));
+            return JSON.parse(metadata, function (key, value) {
+                if (value == null || typeof value !== "object")
+                    return value;
+                var index = value["$buffer"];
+                if (typeof index !== "number")
+                    return value;
+                if (index < 0 || index >= bufferCount) {
+                    throw new Error("Binary page references missing buffer " + index + ".");
+                }
+                return buffers[index];
+            });
+        };
+        // Attributes arrive as names, since VertexAttribute instances can't be sent from
+        // page decode workers. The vertex and index buffers are passed through as-is.
+        BinaryPage.toMeshData = function (data) {
+            var attributes = [];
+            for (var _i = 0, _a = data.attributes; _i < _a.length; _i++) {
+                var attrib = _a[_i];
+                attributes.push(typeof attrib === "string" ? WebGame.VertexAttribute[attrib] : attrib);
+            }
+            return {
+                attributes: attributes,
+                elements: data.elements,
+                vertices: data.vertices,
+                indices: data.indices
+            };
+        };
+        // MeshManager only reads the length and elements of mesh data buffers, so
+        // typed arrays can stand in for the number arrays IMeshData declares.
+        BinaryPage.asMeshData = function (data) {
+            return data;
+        };
+        BinaryPage.createView = function (data, type, byteOffset, count) {
+            var elementSize = BinaryPage.getElementSize(type);
+            if (byteOffset + count * elementSize > data.byteLength) {
+                throw new Error("Binary page buffer is truncated.");
+            }
+            // Typed array views must be aligned to their element size
+            if (byteOffset % elementSize !== 0) {
+                data = data.slice(byteOffset, byteOffset + count * elementSize);
+                byteOffset = 0;
+            }
+            switch (type) {
+                case BinaryBufferType.Uint8: return new Uint8Array(data, byteOffset, count);
+                case BinaryBufferType.Int8: return new Int8Array(data, byteOffset, count);
+                case BinaryBufferType.Uint16: return new Uint16Array(data, byteOffset, count);
+                case BinaryBufferType.Int16: return new Int16Array(data, byteOffset, count);
+                case BinaryBufferType.Uint32: return new Uint32Array(data, byteOffset, count);
+                case BinaryBufferType.Int32: return new Int32Array(data, byteOffset, count);
+                case BinaryBufferType.Float32: return new Float32Array(data, byteOffset, count);
+                case BinaryBufferType.Float64: return new Float64Array(data, byteOffset, count);
+            }
+        };
+        BinaryPage.getElementSize = function (type) {
+            switch (type) {
+                case BinaryBufferType.Uint8:
+                case BinaryBufferType.Int8:
+                    return 1;
+                case BinaryBufferType.Uint16:
+                case BinaryBufferType.Int16:
+                    return 2;
+                case BinaryBufferType.Uint32:
+                case BinaryBufferType.Int32:
+                case BinaryBufferType.Float32:
+                    return 4;
+                case BinaryBufferType.Float64:
+                    return 8;
+                default:
+                    throw new Error("Unknown binary page buffer type " + type + ".");
+            }
+        };
+        BinaryPage.decodeUtf8 = function (bytes) {
+            var chars = [];
+            var result = "";
+            for (var i = 0, iEnd = bytes.length; i < iEnd;) {
+                var byte = bytes[i++];
+                var code = void 0;
+                if (byte < 0x80) {
+                    code = byte;
+                }
+                else if (byte < 0xe0) {
+                    code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+                }
+                else if (byte < 0xf0) {
+                    code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                }
+                else {
+                    code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12)
+                        | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                }
+                if (code > 0xffff) {
+                    code -= 0x10000;
+                    chars.push(0xd800 | (code >> 10), 0xdc00 | (code & 0x3ff));
+                }
+                else {
+                    chars.push(code);
+                }
+                if (chars.length >= 8192) {
+                    result += String.fromCharCode.apply(null, chars);
+                    chars.length = 0;
+                }
+            }
+            return result + String.fromCharCode.apply(null, chars);
+        };
+        return BinaryPage;
+    }());
+    BinaryPage.magic = 0x42505553;
+    BinaryPage.version = 1;
+    BinaryPage.headerSize = 12;
+    BinaryPage.descriptorSize = 12;
+    SourceUtils.BinaryPage = BinaryPage;
+})(SourceUtils || (SourceUtils = {}));
 /// <reference path="PagedLoader.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
@@ -164,6 +583,40 @@ var SourceUtils;
         LeafFlags[LeafFlags["Radial"] = 2] = "Radial";
         LeafFlags[LeafFlags["Sky2D"] = 4] = "Sky2D";
     })(LeafFlags = SourceUtils.LeafFlags || (SourceUtils.LeafFlags = {}));
+    var BrushContents;
+    (function (BrushContents) {
+        BrushContents[BrushContents["Empty"] = 0] = "Empty";
+        BrushContents[BrushContents["Solid"] = 1] = "Solid";
+        BrushContents[BrushContents["Window"] = 2] = "Window";
+        BrushContents[BrushContents["Aux"] = 4] = "Aux";
+        BrushContents[BrushContents["Grate"] = 8] = "Grate";
+        BrushContents[BrushContents["Slime"] = 16] = "Slime";
+        BrushContents[BrushContents["Water"] = 32] = "Water";
+        BrushContents[BrushContents["Mist"] = 64] = "Mist";
+        BrushContents[BrushContents["Opaque"] = 128] = "Opaque";
+        BrushContents[BrushContents["TestFogVolume"] = 256] = "TestFogVolume";
+        BrushContents[BrushContents["Team1"] = 2048] = "Team1";
+        BrushContents[BrushContents["Team2"] = 4096] = "Team2";
+        BrushContents[BrushContents["IgnoreNoDrawOpaque"] = 8192] = "IgnoreNoDrawOpaque";
+        BrushContents[BrushContents["Moveable"] = 16384] = "Moveable";
+        BrushContents[BrushContents["AreaPortal"] = 32768] = "AreaPortal";
+        BrushContents[BrushContents["PlayerClip"] = 65536] = "PlayerClip";
+        BrushContents[BrushContents["MonsterClip"] = 131072] = "MonsterClip";
+        BrushContents[BrushContents["Origin"] = 16777216] = "Origin";
+        BrushContents[BrushContents["Monster"] = 33554432] = "Monster";
+        BrushContents[BrushContents["Debris"] = 67108864] = "Debris";
+        BrushContents[BrushContents["Detail"] = 134217728] = "Detail";
+        BrushContents[BrushContents["Translucent"] = 268435456] = "Translucent";
+        BrushContents[BrushContents["Ladder"] = 536870912] = "Ladder";
+        BrushContents[BrushContents["Hitbox"] = 1073741824] = "Hitbox";
+    })(BrushContents = SourceUtils.BrushContents || (SourceUtils.BrushContents = {}));
+    var TraceMask;
+    (function (TraceMask) {
+        TraceMask[TraceMask["All"] = -1] = "All";
+        TraceMask[TraceMask["Solid"] = 33570827] = "Solid";
+        TraceMask[TraceMask["PlayerSolid"] = 33636363] = "PlayerSolid";
+        TraceMask[TraceMask["Water"] = 48] = "Water";
+    })(TraceMask = SourceUtils.TraceMask || (SourceUtils.TraceMask = {}));
     var Plane = (function () {
         function Plane() {
             this.norm = new Facepunch.Vector3();
@@ -177,6 +630,39 @@ var SourceUtils;
         return Plane;
     }());
     SourceUtils.Plane = Plane;
+    var TraceResult = (function () {
+        function TraceResult() {
+            this.hit = false;
+            this.startSolid = false;
+            this.fraction = 1;
+            this.position = new Facepunch.Vector3();
+            this.normal = new Facepunch.Vector3();
+            this.leaf = null;
+            this.entity = null;
+        }
+        TraceResult.prototype.reset = function () {
+            this.hit = false;
+            this.startSolid = false;
+            this.fraction = 1;
+            this.position.set(0, 0, 0);
+            this.normal.set(0, 0, 0);
+            this.leaf = null;
+            this.entity = null;
+            return this;
+        };
+        TraceResult.prototype.copy = function (other) {
+            this.hit = other.hit;
+            this.startSolid = other.startSolid;
+            this.fraction = other.fraction;
+            this.position.copy(other.position);
+            this.normal.copy(other.normal);
+            this.leaf = other.leaf;
+            this.entity = other.entity;
+            return this;
+        };
+        return TraceResult;
+    }());
+    SourceUtils.TraceResult = TraceResult;
     var BspNode = (function () {
         function BspNode(viewer, info) {
             this.isLeaf = false;
@@ -207,34 +693,133 @@ var SourceUtils;
         function BspLeaf(viewer, info) {
             var _this = _super.call(this) || this;
             _this.isLeaf = true;
+            _this.min = new Facepunch.Vector3();
+            _this.max = new Facepunch.Vector3();
+            _this.center = new Facepunch.Vector3();
             _this.viewer = viewer;
             _this.index = info.index;
             _this.flags = info.flags;
             _this.cluster = info.cluster;
+            // Older exports don't include contents, but solid leaves never have a cluster
+            _this.contents = info.contents !== undefined ? info.contents
+                : info.cluster === undefined ? BrushContents.Solid : BrushContents.Empty;
             _this.hasFaces = info.hasFaces;
+            _this.min.copy(info.min);
+            _this.max.copy(info.max);
+            _this.center.copy(_this.min).add(_this.max).multiplyScalar(0.5);
+            _this.clusters = _this.cluster === undefined ? null : [_this.cluster];
             return _this;
         }
-        BspLeaf.prototype.getAmbientCube = function (pos, outSamples, callback) {
+        BspLeaf.prototype.getLoadPriority = function () {
+            return this.viewer.getLoadPriority(this.center, this.clusters);
+        };
+        BspLeaf.prototype.loadAmbientSamples = function (callback) {
             var _this = this;
-            if (!this.hasLoadedAmbient) {
-                this.hasLoadedAmbient = true;
-                this.viewer.ambientLoader.load(this.index, function (value) { return _this.ambientSamples = value; });
+            if (this.ambientSamples !== undefined) {
+                callback(this.ambientSamples);
+                return;
             }
-            var samples = this.ambientSamples;
-            if (samples == null) {
-                if (callback != null) {
-                    var leafCopy_1 = this;
-                    this.viewer.ambientLoader.load(this.index, function (value) {
-                        if (value.length > 0) {
-                            if (pos != null)
-                                leafCopy_1.getAmbientCube(pos, outSamples);
-                            callback(true);
-                        }
-                        else {
-                            callback(false);
-                        }
-                    });
+            if (this.ambientLoadCallbacks != null) {
+                this.ambientLoadCallbacks.push(callback);
+                return;
+            }
+            this.ambientLoadCallbacks = [callback];
+            this.viewer.ambientLoader.load(this.index, function (value) {
+                if (value != null && value.length > 0)
+                    _this.onAmbientSamplesLoaded(value);
+                else
+                    _this.loadNeighbourAmbientSamples();
+            }, function () { return _this.getLoadPriority(); });
+        };
+        BspLeaf.prototype.onAmbientSamplesLoaded = function (samples) {
+            this.ambientSamples = samples;
+            this.ambientCubes = samples.map(function (sample) {
+                var cube = new Array(6);
+                for (var i = 0; i < 6; ++i) {
+                    SourceUtils.ColorConversion.rgbExp32ToVector3(sample.samples[i], cube[i] = new Facepunch.Vector3());
+                }
+                return cube;
+            });
+            var callbacks = this.ambientLoadCallbacks;
+            this.ambientLoadCallbacks = null;
+            for (var _i = 0, callbacks_1 = callbacks; _i < callbacks_1.length; _i++) {
+                var callback = callbacks_1[_i];
+                callback(samples);
+            }
+        };
+        // Finds leaves on the other side of each face of this leaf's bounding box
+        BspLeaf.prototype.findNeighbours = function () {
+            var neighbours = [];
+            var brush = this.entity;
+            if (brush == null || brush.model == null)
+                return neighbours;
+            var probe = BspLeaf.findNeighbours_temp;
+            var min = this.min;
+            var max = this.max;
+            var offset = 2;
+            for (var axis = 0; axis < 3; ++axis) {
+                for (var side = 0; side < 2; ++side) {
+                    probe.set((min.x + max.x) * 0.5, (min.y + max.y) * 0.5, (min.z + max.z) * 0.5);
+                    switch (axis) {
+                        case 0:
+                            probe.x = side === 0 ? min.x - offset : max.x + offset;
+                            break;
+                        case 1:
+                            probe.y = side === 0 ? min.y - offset : max.y + offset;
+                            break;
+                        case 2:
+                            probe.z = side === 0 ? min.z - offset : max.z + offset;
+                            break;
+                    }
+                    var leaf = brush.model.getLeafAt(probe);
+                    if (leaf == null || leaf === this || (leaf.contents & BrushContents.Solid) !== 0)
+                        continue;
+                    if (neighbours.indexOf(leaf) === -1)
+                        neighbours.push(leaf);
                 }
+            }
+            return neighbours;
+        };
+        BspLeaf.prototype.loadNeighbourAmbientSamples = function () {
+            var _this = this;
+            var neighbours = this.findNeighbours();
+            var samples = [];
+            if (neighbours.length === 0) {
+                this.onAmbientSamplesLoaded(samples);
+                return;
+            }
+            var remaining = neighbours.length;
+            // Only use each neighbour's own samples, rather than chaining through other empty leaves
+            for (var _i = 0, neighbours_1 = neighbours; _i < neighbours_1.length; _i++) {
+                var neighbour = neighbours_1[_i];
+                this.viewer.ambientLoader.load(neighbour.index, function (value) {
+                    if (value != null) {
+                        for (var _i = 0, value_1 = value; _i < value_1.length; _i++) {
+                            var sample = value_1[_i];
+                            samples.push(sample);
+                        }
+                    }
+                    if (--remaining === 0)
+                        _this.onAmbientSamplesLoaded(samples);
+                }, function () { return _this.getLoadPriority(); });
+            }
+        };
+        BspLeaf.prototype.getAmbientCube = function (pos, outSamples, callback) {
+            var _this = this;
+            var samples = this.ambientSamples;
+            if (samples === undefined) {
+                this.loadAmbientSamples(function (loaded) {
+                    if (callback == null)
+                        return;
+                    if (loaded.length > 0) {
+                        if (pos != null)
+                            _this.getAmbientCube(pos, outSamples);
+                        callback(true);
+                    }
+                    else {
+                        callback(false);
+                    }
+                });
                 return false;
             }
             if (samples.length === 0) {
@@ -243,38 +828,79 @@ var SourceUtils;
                 return false;
             }
             if (pos != null) {
-                var closestIndex = undefined;
-                var closestDistSq = Number.MAX_VALUE;
-                var temp = BspLeaf.getAmbientCube_temp;
-                // TODO: interpolation
-                for (var i = 0; i < samples.length; ++i) {
-                    var sample = samples[i];
-                    temp.copy(sample.position);
-                    temp.sub(pos);
-                    var distSq = temp.lengthSq();
-                    if (distSq < closestDistSq) {
-                        closestDistSq = distSq;
-                        closestIndex = i;
-                    }
-                }
-                var closestSamples = samples[closestIndex].samples;
                 for (var i = 0; i < 6; ++i) {
-                    var rgbExp = closestSamples[i];
                     var outVec = outSamples[i] || (outSamples[i] = new Facepunch.Vector3());
-                    SourceUtils.ColorConversion.rgbExp32ToVector3(rgbExp, outVec);
+                    outVec.x = outVec.y = outVec.z = 0;
+                }
+                if (this.viewer.interpolateAmbientCubes && samples.length > 1) {
+                    this.sampleInverseDistance(pos, outSamples);
+                }
+                else {
+                    this.sampleNearest(pos, outSamples);
                 }
             }
             if (callback != null)
                 callback(true);
             return true;
         };
+        BspLeaf.prototype.sampleNearest = function (pos, outSamples) {
+            var samples = this.ambientSamples;
+            var temp = BspLeaf.getAmbientCube_temp;
+            var closestIndex = undefined;
+            var closestDistSq = Number.MAX_VALUE;
+            for (var i = 0; i < samples.length; ++i) {
+                temp.copy(samples[i].position);
+                temp.sub(pos);
+                var distSq = temp.lengthSq();
+                if (distSq < closestDistSq) {
+                    closestDistSq = distSq;
+                    closestIndex = i;
+                }
+            }
+            var cube = this.ambientCubes[closestIndex];
+            for (var i = 0; i < 6; ++i) {
+                var outVec = outSamples[i];
+                outVec.x = cube[i].x;
+                outVec.y = cube[i].y;
+                outVec.z = cube[i].z;
+            }
+        };
+        BspLeaf.prototype.sampleInverseDistance = function (pos, outSamples) {
+            var samples = this.ambientSamples;
+            var temp = BspLeaf.getAmbientCube_temp;
+            var totalWeight = 0;
+            for (var i = 0; i < samples.length; ++i) {
+                temp.copy(samples[i].position);
+                temp.sub(pos);
+                // Offset stops a sample right on top of pos from swamping everything else
+                var weight = 1 / (temp.lengthSq() + 1);
+                var cube = this.ambientCubes[i];
+                totalWeight += weight;
+                for (var j = 0; j < 6; ++j) {
+                    var outVec = outSamples[j];
+                    outVec.x += cube[j].x * weight;
+                    outVec.y += cube[j].y * weight;
+                    outVec.z += cube[j].z * weight;
+                }
+            }
+            var scale = 1 / totalWeight;
+            for (var i = 0; i < 6; ++i) {
+                var outVec = outSamples[i];
+                outVec.x *= scale;
+                outVec.y *= scale;
+                outVec.z *= scale;
+            }
+        };
         BspLeaf.prototype.getMeshHandles = function () {
             var _this = this;
             if (!this.hasFaces)
                 return null;
             if (!this.hasLoaded) {
                 this.hasLoaded = true;
-                this.viewer.leafGeometryLoader.load(this.index, function (handles) { return _this.addMeshHandles(handles); });
+                this.viewer.leafGeometryLoader.load(this.index, function (handles) {
+                    if (handles != null)
+                        _this.addMeshHandles(handles);
+                }, function () { return _this.getLoadPriority(); });
             }
             return _super.prototype.getMeshHandles.call(this);
         };
@@ -284,6 +910,7 @@ var SourceUtils;
         };
         return BspLeaf;
     }(WebGame.DrawListItem));
+    BspLeaf.findNeighbours_temp = new Facepunch.Vector3();
     BspLeaf.getAmbientCube_temp = new Facepunch.Vector3();
     SourceUtils.BspLeaf = BspLeaf;
     var BspModel = (function (_super) {
@@ -294,12 +921,36 @@ var SourceUtils;
             return _this;
         }
         BspModel.prototype.loadFromInfo = function (info) {
+            if (info == null)
+                return;
             this.info = info;
             this.headNode = new BspNode(this.viewer, info.headNode);
             this.leaves = [];
             this.headNode.findLeaves(this.leaves);
             this.dispatchOnLoadCallbacks();
         };
+        // Centre of the model's bounds in model space, or null before it has loaded
+        BspModel.prototype.getCenter = function (target) {
+            var info = this.info;
+            if (info == null)
+                return null;
+            target.x = (info.min.x + info.max.x) * 0.5;
+            target.y = (info.min.y + info.max.y) * 0.5;
+            target.z = (info.min.z + info.max.z) * 0.5;
+            return target;
+        };
+        BspModel.prototype.getBounds = function (min, max) {
+            var info = this.info;
+            if (info == null)
+                return false;
+            min.x = info.min.x;
+            min.y = info.min.y;
+            min.z = info.min.z;
+            max.x = info.max.x;
+            max.y = info.max.y;
+            max.z = info.max.z;
+            return true;
+        };
         BspModel.prototype.getLeafAt = function (pos) {
             if (this.headNode == null)
                 return null;
@@ -311,6 +962,86 @@ var SourceUtils;
             }
             return elem.isLeaf ? elem : null;
         };
+        // Start and end are in model space
+        BspModel.prototype.trace = function (start, end, mask, result) {
+            if (mask === void 0) { mask = TraceMask.All; }
+            return this.traceBox(start, end, null, mask, result);
+        };
+        // Sweeps a box with the given half-size along a segment. Leaf planes are
+        // pushed out by the box's extents, so outside corners are only approximate
+        BspModel.prototype.traceBox = function (start, end, extents, mask, result) {
+            if (mask === void 0) { mask = TraceMask.All; }
+            if (result == null)
+                result = new TraceResult();
+            else
+                result.reset();
+            var delta = BspModel.trace_delta.set(end.x - start.x, end.y - start.y, end.z - start.z);
+            if (this.headNode != null) {
+                this.traceElement(this.headNode, start, delta, extents, 0, 1, mask, null, 1, result);
+            }
+            result.position.copy(delta).multiplyScalar(result.fraction).add(start);
+            return result;
+        };
+        BspModel.prototype.traceElement = function (elem, start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result) {
+            if (startFrac >= result.fraction)
+                return;
+            if (elem.isLeaf) {
+                var leaf = elem;
+                if ((leaf.contents & mask) === 0)
+                    return;
+                result.hit = true;
+                result.fraction = startFrac;
+                result.leaf = leaf;
+                result.entity = leaf.entity;
+                if (enterPlane == null) {
+                    result.startSolid = true;
+                    result.normal.set(0, 0, 0);
+                }
+                else {
+                    result.startSolid = false;
+                    result.normal.copy(enterPlane.norm).multiplyScalar(enterSign);
+                }
+                return;
+            }
+            var node = elem;
+            var plane = node.plane;
+            var norm = plane.norm;
+            var offset = extents == null ? 0
+                : Math.abs(norm.x * extents.x) + Math.abs(norm.y * extents.y) + Math.abs(norm.z * extents.z);
+            var startDist = norm.dot(start) - plane.dist;
+            var deltaDist = norm.dot(delta);
+            var startSide = startDist + deltaDist * startFrac;
+            var endSide = startDist + deltaDist * endFrac;
+            if (startSide >= offset && endSide >= offset) {
+                this.traceElement(node.children[0], start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result);
+                return;
+            }
+            if (startSide < -offset && endSide < -offset) {
+                this.traceElement(node.children[1], start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result);
+                return;
+            }
+            var near = startSide >= endSide ? 0 : 1;
+            var far = 1 - near;
+            var nearEndFrac = endFrac;
+            var farStartFrac = startFrac;
+            if (deltaDist !== 0) {
+                // Boxes stop a little short of the plane so they don't start the next move touching it
+                var sign = near === 0 ? 1 : -1;
+                var dist = extents == null ? 0 : offset + BspModel.traceBoxEpsilon;
+                nearEndFrac = (-sign * dist - startDist) / deltaDist;
+                farStartFrac = (sign * dist - startDist) / deltaDist;
+                if (nearEndFrac < startFrac)
+                    nearEndFrac = startFrac;
+                else if (nearEndFrac > endFrac)
+                    nearEndFrac = endFrac;
+                if (farStartFrac < startFrac)
+                    farStartFrac = startFrac;
+                else if (farStartFrac > endFrac)
+                    farStartFrac = endFrac;
+            }
+            this.traceElement(node.children[near], start, delta, extents, startFrac, nearEndFrac, mask, enterPlane, enterSign, result);
+            this.traceElement(node.children[far], start, delta, extents, farStartFrac, endFrac, mask, plane, near === 0 ? 1 : -1, result);
+        };
         BspModel.prototype.getLeaves = function () {
             return this.leaves;
         };
@@ -319,6 +1050,8 @@ var SourceUtils;
         };
         return BspModel;
     }(WebGame.RenderResource));
+    BspModel.trace_delta = new Facepunch.Vector3();
+    BspModel.traceBoxEpsilon = 1 / 32;
     SourceUtils.BspModel = BspModel;
     var BspModelPage = (function (_super) {
         __extends(BspModelPage, _super);
@@ -345,14 +1078,22 @@ var SourceUtils;
             _this.viewer = viewer;
             return _this;
         }
-        BspModelLoader.prototype.loadModel = function (index) {
+        BspModelLoader.prototype.loadModel = function (index, priority) {
+            if (priority === void 0) { priority = SourceUtils.ResourcePage.defaultPriority; }
             var model = this.models[index];
-            if (model !== undefined)
+            if (model !== undefined) {
+                if (!model.isLoaded())
+                    this.prioritize(index, priority);
                 return model;
+            }
             this.models[index] = model = new BspModel(this.viewer);
-            this.load(index, function (info) { return model.loadFromInfo(info); });
+            this.load(index, function (info) { return model.loadFromInfo(info); }, priority);
             return model;
         };
+        BspModelLoader.prototype.clear = function () {
+            _super.prototype.clear.call(this);
+            this.models = {};
+        };
         BspModelLoader.prototype.onCreatePage = function (page) {
             return new BspModelPage(this.viewer, page);
         };
@@ -360,10 +1101,240 @@ var SourceUtils;
     }(SourceUtils.PagedLoader));
     SourceUtils.BspModelLoader = BspModelLoader;
 })(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var CameraPathEase;
+    (function (CameraPathEase) {
+        CameraPathEase[CameraPathEase["Linear"] = 0] = "Linear";
+        CameraPathEase[CameraPathEase["EaseIn"] = 1] = "EaseIn";
+        CameraPathEase[CameraPathEase["EaseOut"] = 2] = "EaseOut";
+        CameraPathEase[CameraPathEase["EaseInOut"] = 3] = "EaseInOut";
+    })(CameraPathEase = SourceUtils.CameraPathEase || (SourceUtils.CameraPathEase = {}));
+    var CameraPath = (function () {
+        function CameraPath() {
+            this.keyframes = [];
+        }
+        CameraPath.fromJson = function (json) {
+            var info = (typeof json === "string" ? JSON.parse(json) : json);
+            var path = new CameraPath();
+            path.name = info.name;
+            for (var _i = 0, _a = info.keyframes; _i < _a.length; _i++) {
+                var keyframe = _a[_i];
+                path.addKeyframe(keyframe);
+            }
+            return path;
+        };
+        CameraPath.prototype.toJson = function () {
+            return {
+                name: this.name,
+                keyframes: this.keyframes.map(function (x) { return ({
+                    time: x.time,
+                    position: { x: x.position.x, y: x.position.y, z: x.position.z },
+                    yaw: x.yaw,
+                    pitch: x.pitch,
+                    fov: x.fov,
+                    ease: x.ease
+                }); })
+            };
+        };
+        CameraPath.prototype.getKeyframes = function () {
+            return this.keyframes;
+        };
+        CameraPath.prototype.getDuration = function () {
+            return this.keyframes.length === 0 ? 0 : this.keyframes[this.keyframes.length - 1].time;
+        };
+        // Keeps keyframes sorted by time, replacing any existing keyframe at the same time
+        CameraPath.prototype.addKeyframe = function (keyframe) {
+            var index = 0;
+            while (index < this.keyframes.length && this.keyframes[index].time < keyframe.time)
+                ++index;
+            if (index < this.keyframes.length && this.keyframes[index].time === keyframe.time) {
+                this.keyframes[index] = keyframe;
+            }
+            else {
+                this.keyframes.splice(index, 0, keyframe);
+            }
+        };
+        CameraPath.prototype.removeKeyframe = function (index) {
+            this.keyframes.splice(index, 1);
+        };
+        CameraPath.prototype.clear = function () {
+            this.keyframes.splice(0, this.keyframes.length);
+        };
+        // Adds a keyframe from where the viewer's camera currently is
+        CameraPath.prototype.recordKeyframe = function (viewer, time, ease) {
+            if (ease === void 0) { ease = CameraPathEase.Linear; }
+            var camera = viewer.getCameraState();
+            if (time === undefined) {
+                time = this.keyframes.length === 0 ? 0 : this.getDuration() + CameraPath.defaultKeyframeSpacing;
+            }
+            var keyframe = {
+                time: time,
+                position: camera.position,
+                yaw: camera.yaw,
+                pitch: camera.pitch,
+                fov: viewer.mainCamera.getFov(),
+                ease: ease
+            };
+            this.addKeyframe(keyframe);
+            return keyframe;
+        };
+        CameraPath.ease = function (t, ease) {
+            switch (ease) {
+                case CameraPathEase.EaseIn: return t * t;
+                case CameraPathEase.EaseOut: return t * (2 - t);
+                case CameraPathEase.EaseInOut: return t * t * (3 - 2 * t);
+                default: return t;
+            }
+        };
+        CameraPath.catmullRom = function (p0, p1, p2, p3, t) {
+            var t2 = t * t;
+            var t3 = t2 * t;
+            return 0.5 * (2 * p1 + (p2 - p0) * t
+                + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2
+                + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+        };
+        // Gives the angle equivalent to b that is nearest to a
+        CameraPath.unwrapAngle = function (a, b) {
+            return a + ((((b - a) % 360) + 540) % 360 - 180);
+        };
+        // Writes the camera state at the given time into out, clamping to the ends of the path
+        CameraPath.prototype.sample = function (time, out) {
+            var keyframes = this.keyframes;
+            if (keyframes.length === 0)
+                return null;
+            var next = 0;
+            while (next < keyframes.length && keyframes[next].time <= time)
+                ++next;
+            var k1 = keyframes[Math.max(next - 1, 0)];
+            var k2 = keyframes[Math.min(next, keyframes.length - 1)];
+            var k0 = keyframes[Math.max(next - 2, 0)];
+            var k3 = keyframes[Math.min(next + 1, keyframes.length - 1)];
+            var span = k2.time - k1.time;
+            var t = span <= 0 ? 0 : CameraPath.ease((time - k1.time) / span, k1.ease);
+            var cr = CameraPath.catmullRom;
+            if (out.position == null)
+                out.position = { x: 0, y: 0, z: 0 };
+            out.time = time;
+            out.position.x = cr(k0.position.x, k1.position.x, k2.position.x, k3.position.x, t);
+            out.position.y = cr(k0.position.y, k1.position.y, k2.position.y, k3.position.y, t);
+            out.position.z = cr(k0.position.z, k1.position.z, k2.position.z, k3.position.z, t);
+            var yaw1 = k1.yaw;
+            var yaw0 = CameraPath.unwrapAngle(yaw1, k0.yaw);
+            var yaw2 = CameraPath.unwrapAngle(yaw1, k2.yaw);
+            var yaw3 = CameraPath.unwrapAngle(yaw2, k3.yaw);
+            out.yaw = cr(yaw0, yaw1, yaw2, yaw3, t);
+            out.pitch = cr(k0.pitch, k1.pitch, k2.pitch, k3.pitch, t);
+            out.fov = cr(k0.fov, k1.fov, k2.fov, k3.fov, t);
+            out.ease = k1.ease;
+            return out;
+        };
+        return CameraPath;
+    }());
+    // Gap between recorded keyframes when no time is given
+    CameraPath.defaultKeyframeSpacing = 2;
+    SourceUtils.CameraPath = CameraPath;
+    var CameraPathPlayer = (function () {
+        function CameraPathPlayer(viewer) {
+            this.loop = false;
+            this.speed = 1;
+            // Seconds of path time per frame for deterministic capture, or 0 to follow real time
+            this.fixedTimestep = 0;
+            // With a fixed timestep, hold on the first frame until the map has finished loading
+            this.waitForLoad = true;
+            this.playing = false;
+            this.time = 0;
+            this.frame = 0;
+            // Set when update moves the camera, so the frame drawn next gets reported
+            this.frameUpdated = false;
+            this.sample = { time: 0, position: { x: 0, y: 0, z: 0 }, yaw: 0, pitch: 0, fov: 0 };
+            this.temp = new Facepunch.Vector3();
+            this.viewer = viewer;
+        }
+        CameraPathPlayer.prototype.play = function (path, complete) {
+            this.viewer.stopCameraAnimation();
+            this.path = path;
+            this.complete = complete;
+            this.time = 0;
+            this.frame = 0;
+            this.playing = path != null && path.getKeyframes().length > 0;
+            if (this.playing)
+                this.apply();
+        };
+        CameraPathPlayer.prototype.stop = function () {
+            this.playing = false;
+            this.frame = 0;
+            this.frameUpdated = false;
+        };
+        CameraPathPlayer.prototype.isPlaying = function () {
+            return this.playing;
+        };
+        CameraPathPlayer.prototype.getTime = function () {
+            return this.time;
+        };
+        CameraPathPlayer.prototype.seek = function (time) {
+            if (this.path == null)
+                return;
+            this.time = Math.max(0, Math.min(time, this.path.getDuration()));
+            if (this.playing)
+                this.apply();
+        };
+        CameraPathPlayer.prototype.isWaiting = function () {
+            return this.fixedTimestep > 0 && this.waitForLoad && !this.viewer.isAllLoaded();
+        };
+        // Seconds the rest of the world should advance by this frame, so ropes and anything
+        // else animated stay in step with the path when capturing with a fixed timestep
+        CameraPathPlayer.prototype.getWorldTimestep = function (dt) {
+            return this.playing && this.fixedTimestep > 0 && !this.isWaiting() ? this.fixedTimestep : dt;
+        };
+        CameraPathPlayer.prototype.apply = function () {
+            var sample = this.path.sample(this.time, this.sample);
+            var toRadians = Math.PI / 180;
+            var camera = this.viewer.mainCamera;
+            camera.setPosition(this.temp.copy(sample.position));
+            camera.setFov(sample.fov);
+            this.viewer.setCameraAngles(sample.yaw * toRadians, sample.pitch * toRadians);
+        };
+        CameraPathPlayer.prototype.update = function (dt) {
+            if (!this.playing || this.isWaiting())
+                return;
+            if (this.frame > 0) {
+                this.time += (this.fixedTimestep > 0 ? this.fixedTimestep : dt) * this.speed;
+            }
+            var duration = this.path.getDuration();
+            if (this.time >= duration) {
+                if (this.loop && duration > 0) {
+                    this.time %= duration;
+                }
+                else {
+                    this.time = duration;
+                    this.playing = false;
+                }
+            }
+            this.apply();
+            this.frameUpdated = true;
+        };
+        CameraPathPlayer.prototype.onFrameRendered = function () {
+            if (!this.frameUpdated)
+                return;
+            this.frameUpdated = false;
+            if (this.frameRendered != null)
+                this.frameRendered(this.frame, this.time);
+            ++this.frame;
+            if (!this.playing) {
+                // Finished, so don't report this path's frames again
+                this.frame = 0;
+                if (this.complete != null)
+                    this.complete();
+            }
+        };
+        return CameraPathPlayer;
+    }());
+    SourceUtils.CameraPathPlayer = CameraPathPlayer;
+})(SourceUtils || (SourceUtils = {}));
 /// <reference path="PagedLoader.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
-    var WebGame = Facepunch.WebGame;
     var DispGeometryPage = (function (_super) {
         __extends(DispGeometryPage, _super);
         function DispGeometryPage(viewer, page) {
@@ -371,14 +1342,17 @@ var SourceUtils;
             _this.viewer = viewer;
             return _this;
         }
+        DispGeometryPage.prototype.getDecoder = function () {
+            return "meshes";
+        };
         DispGeometryPage.prototype.onLoadValues = function (page) {
             this.matGroups = new Array(page.materials.length);
             this.dispFaces = page.displacements;
             var _loop_2 = function (i, iEnd) {
                 var matGroup = page.materials[i];
                 var mat = this_2.viewer.mapMaterialLoader.loadMaterial(matGroup.material);
-                var data = WebGame.MeshManager.decompress(matGroup.meshData);
-                this_2.matGroups[i] = this_2.viewer.meshes.addMeshData(data, function (index) { return mat; });
+                var data = SourceUtils.BinaryPage.toMeshData(matGroup.meshData);
+                this_2.matGroups[i] = this_2.viewer.meshes.addMeshData(SourceUtils.BinaryPage.asMeshData(data), function (index) { return mat; });
             };
             var this_2 = this;
             for (var i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
@@ -419,7 +1393,10 @@ var SourceUtils;
             function Entity(map, info) {
                 var _this = _super.call(this, true) || this;
                 _this.map = map;
+                _this.classname = info.classname;
                 _this.targetname = info.targetname;
+                _this.angles = info.angles;
+                _this.keyvalues = info.keyvalues;
                 if (_this.targetname != null) {
                     _this.map.addNamedEntity(_this.targetname, _this);
                 }
@@ -432,6 +1409,10 @@ var SourceUtils;
                 }
                 return _this;
             }
+            // World space bounds, returning false if they aren't known yet
+            Entity.prototype.getBounds = function (min, max) {
+                return false;
+            };
             return Entity;
         }(WebGame.DrawableEntity));
         Entities.Entity = Entity;
@@ -442,6 +1423,12 @@ var SourceUtils;
                 _this.clusters = info.clusters;
                 return _this;
             }
+            PvsEntity.prototype.getClusters = function () {
+                return this.clusters;
+            };
+            PvsEntity.prototype.getLoadPriority = function () {
+                return this.map.viewer.getLoadPriority(this.getPosition(PvsEntity.getLoadPriority_temp), this.clusters);
+            };
             PvsEntity.prototype.isInCluster = function (cluster) {
                 var clusters = this.clusters;
                 if (clusters == null)
@@ -468,6 +1455,7 @@ var SourceUtils;
             PvsEntity.prototype.onPopulateDrawList = function (drawList, clusters) { };
             return PvsEntity;
         }(Entity));
+        PvsEntity.getLoadPriority_temp = new Facepunch.Vector3();
         Entities.PvsEntity = PvsEntity;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
@@ -480,8 +1468,9 @@ var SourceUtils;
             __extends(BrushEntity, _super);
             function BrushEntity(map, info) {
                 var _this = _super.call(this, map, info) || this;
+                _this.modelIndex = info.model;
                 _this.isWorldSpawn = info.model === 0;
-                _this.model = map.viewer.bspModelLoader.loadModel(info.model);
+                _this.model = map.viewer.bspModelLoader.loadModel(info.model, function () { return _this.getLoadPriority(); });
                 _this.model.addUsage(_this);
                 _this.model.addOnLoadCallback(function (model) {
                     var leaves = model.getLeaves();
@@ -491,6 +1480,18 @@ var SourceUtils;
                 });
                 return _this;
             }
+            BrushEntity.prototype.getBounds = function (min, max) {
+                if (!this.model.getBounds(min, max))
+                    return false;
+                var origin = this.getPosition(BrushEntity.getBounds_origin);
+                min.x += origin.x;
+                min.y += origin.y;
+                min.z += origin.z;
+                max.x += origin.x;
+                max.y += origin.y;
+                max.z += origin.z;
+                return true;
+            };
             BrushEntity.prototype.onAddToDrawList = function (list) {
                 _super.prototype.onAddToDrawList.call(this, list);
                 if (this.isWorldSpawn)
@@ -501,6 +1502,7 @@ var SourceUtils;
             };
             return BrushEntity;
         }(Entities.PvsEntity));
+        BrushEntity.getBounds_origin = new Facepunch.Vector3();
         Entities.BrushEntity = BrushEntity;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
@@ -515,6 +1517,7 @@ var SourceUtils;
                 var _this = _super.call(this, viewer, fov, viewer.getWidth() / viewer.getHeight(), 1, 8192) || this;
                 _this.leafInvalid = true;
                 _this.render3DSky = true;
+                _this.renderShadows = true;
                 _this.viewer = viewer;
                 return _this;
             }
@@ -541,7 +1544,21 @@ var SourceUtils;
             Camera.prototype.onPopulateDrawList = function (drawList) {
                 this.viewer.map.populateDrawList(drawList, this.getLeaf());
             };
+            Camera.prototype.updateShadows = function () {
+                var viewer = this.viewer;
+                var lightEnv = viewer.map.lightEnvironment;
+                if (!this.renderShadows || viewer.shadowCascadeCount <= 0 || lightEnv == null || lightEnv.sunColor.lengthSq() === 0) {
+                    if (this.sunShadowCamera != null)
+                        this.sunShadowCamera.dispose();
+                    return;
+                }
+                if (this.sunShadowCamera == null) {
+                    this.sunShadowCamera = new ShadowCamera(viewer, this);
+                }
+                this.sunShadowCamera.renderShadows(lightEnv.sunDirection);
+            };
             Camera.prototype.render = function () {
+                this.updateShadows();
                 var leaf = this.getLeaf();
                 if (this.render3DSky && leaf != null && (leaf.flags & SourceUtils.LeafFlags.Sky) !== 0) {
                     var skyCamera = this.viewer.map.skyCamera;
@@ -551,6 +1568,21 @@ var SourceUtils;
                 }
                 _super.prototype.render.call(this);
             };
+            Camera.prototype.populateCommandBufferParameters = function (buf) {
+                _super.prototype.populateCommandBufferParameters.call(this, buf);
+                if (this.sunShadowCamera != null) {
+                    this.sunShadowCamera.populateShadowParameters(buf);
+                }
+                else {
+                    ShadowCamera.populateDisabledShadowParameters(buf, this.viewer.context);
+                }
+            };
+            Camera.prototype.dispose = function () {
+                _super.prototype.dispose.call(this);
+                if (this.sunShadowCamera != null) {
+                    this.sunShadowCamera.dispose();
+                }
+            };
             return Camera;
         }(WebGame.PerspectiveCamera));
         Camera.onGetLeaf_temp = new Facepunch.Vector3();
@@ -560,6 +1592,7 @@ var SourceUtils;
             function SkyCamera(viewer, info) {
                 var _this = _super.call(this, viewer, 60) || this;
                 _this.render3DSky = false;
+                _this.renderShadows = false;
                 _this.origin = new Facepunch.Vector3().copy(info.origin);
                 _this.skyScale = 1 / info.scale;
                 if (info.fogEnabled) {
@@ -596,51 +1629,321 @@ var SourceUtils;
         }(Camera));
         SkyCamera.renderRelativeTo_temp = new Facepunch.Vector3();
         Entities.SkyCamera = SkyCamera;
-        var ShadowCamera = (function (_super) {
-            __extends(ShadowCamera, _super);
+        // Collects everything the target camera can see, then stands in for all of it
+        // in the shadow camera's own draw list with each handle using a shadow material
+        var ShadowCasterList = (function (_super) {
+            __extends(ShadowCasterList, _super);
+            function ShadowCasterList(viewer) {
+                var _this = _super.call(this) || this;
+                _this.sources = [];
+                _this.handles = null;
+                _this.materials = {};
+                _this.drawLists = [];
+                _this.viewer = viewer;
+                return _this;
+            }
+            ShadowCasterList.prototype.addItem = function (item) {
+                this.sources.push(item);
+                _super.prototype.addItem.call(this, item);
+            };
+            ShadowCasterList.prototype.addItems = function (items) {
+                for (var i = 0, iEnd = items.length; i < iEnd; ++i) {
+                    this.sources.push(items[i]);
+                }
+                _super.prototype.addItems.call(this, items);
+            };
+            ShadowCasterList.prototype.clear = function () {
+                _super.prototype.clear.call(this);
+                this.sources = [];
+                this.materials = {};
+                this.invalidate();
+            };
+            ShadowCasterList.prototype.invalidate = function () {
+                _super.prototype.invalidate.call(this);
+                this.handles = null;
+                this.invalidateDrawLists();
+            };
+            ShadowCasterList.prototype.getShadowMaterial = function (material) {
+                var shadowMaterial = this.materials[material.id];
+                if (shadowMaterial !== undefined)
+                    return shadowMaterial;
+                var program = material.program;
+                var props = material.properties;
+                if (!(program instanceof SourceUtils.Shaders.ModelBase) || props.translucent) {
+                    shadowMaterial = null;
+                }
+                else {
+                    shadowMaterial = new WebGame.Material(this.viewer.shaders.get(SourceUtils.Shaders.ShadowCaster), false);
+                    var shadowProps = shadowMaterial.properties;
+                    shadowProps.basetexture = props.basetexture;
+                    shadowProps.alphaTest = props.alphaTest;
+                    shadowProps.caster = !(program instanceof SourceUtils.Shaders.LightmappedBase);
+                    shadowProps.spline = program instanceof SourceUtils.Shaders.SplineRope;
+                }
+                return this.materials[material.id] = shadowMaterial;
+            };
+            ShadowCasterList.prototype.invalidateDrawLists = function () {
+                for (var i = 0, iEnd = this.drawLists.length; i < iEnd; ++i) {
+                    this.drawLists[i].invalidate();
+                }
+            };
+            ShadowCasterList.prototype.getIsVisible = function () {
+                return true;
+            };
+            ShadowCasterList.prototype.getIsInDrawList = function (drawList) {
+                return this.drawLists.indexOf(drawList) !== -1;
+            };
+            ShadowCasterList.prototype.onAddToDrawList = function (list) {
+                if (this.drawLists.indexOf(list) === -1)
+                    this.drawLists.push(list);
+            };
+            ShadowCasterList.prototype.onRemoveFromDrawList = function (list) {
+                var index = this.drawLists.indexOf(list);
+                if (index !== -1)
+                    this.drawLists.splice(index, 1);
+            };
+            ShadowCasterList.prototype.getMeshHandles = function () {
+                if (this.handles != null)
+                    return this.handles;
+                var handles = this.handles = [];
+                for (var i = 0, iEnd = this.sources.length; i < iEnd; ++i) {
+                    var sourceHandles = this.sources[i].getMeshHandles();
+                    if (sourceHandles == null)
+                        continue;
+                    for (var j = 0, jEnd = sourceHandles.length; j < jEnd; ++j) {
+                        var handle = sourceHandles[j];
+                        if (handle.indexCount === 0 || handle.material == null || !handle.material.enabled)
+                            continue;
+                        if (handle.material.program == null)
+                            continue;
+                        var shadowMaterial = this.getShadowMaterial(handle.material);
+                        if (shadowMaterial == null)
+                            continue;
+                        handles.push(handle.clone(handle.transform, shadowMaterial));
+                    }
+                }
+                return handles;
+            };
+            return ShadowCasterList;
+        }(WebGame.DrawList));
+        var ShadowCamera = (function (_super) {
+            __extends(ShadowCamera, _super);
             function ShadowCamera(viewer, targetCamera) {
                 var _this = _super.call(this, viewer, 1, 1, 0, 1) || this;
+                _this.cascadeCount = 0;
+                _this.resolution = 0;
+                _this.cascadeMatrix = new Facepunch.Matrix4().setIdentity();
+                _this.matrices = [];
+                _this.splitValues = new Float32Array(4);
+                _this.biasValues = new Float32Array(4);
+                _this.infoValues = new Float32Array(4);
                 _this.viewer = viewer;
                 _this.targetCamera = targetCamera;
+                _this.casters = new ShadowCasterList(viewer);
+                for (var i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    _this.matrices.push(new Facepunch.Matrix4().setIdentity());
+                }
                 return _this;
             }
             ShadowCamera.prototype.onPopulateDrawList = function (drawList) {
-                this.viewer.map.populateDrawList(drawList, this.targetCamera.getLeaf());
+                this.casters.clear();
+                this.viewer.map.populateDrawList(this.casters, this.targetCamera.getLeaf());
+                drawList.addItem(this.casters);
             };
-            ShadowCamera.prototype.addToFrustumBounds = function (invLight, vec, bounds) {
-                vec.applyMatrix4(this.targetCamera.getMatrix());
-                vec.applyQuaternion(invLight);
+            ShadowCamera.prototype.onUpdateProjectionMatrix = function (matrix) {
+                matrix.copy(this.cascadeMatrix);
             };
-            ShadowCamera.prototype.getFrustumBounds = function (lightRotation, near, far, bounds) {
-                bounds.min.set(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
-                bounds.max.set(Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY);
-                var yScale = Math.tan(this.targetCamera.getFov() * 0.5);
+            // Finds a sphere around the slice of the target camera's frustum between near and far
+            ShadowCamera.prototype.getFrustumSphere = function (near, far, center) {
+                var vec = ShadowCamera.getFrustumSphere_vec;
+                var corners = ShadowCamera.getFrustumSphere_corners;
+                var cameraMatrix = this.targetCamera.getMatrix();
+                var yScale = Math.tan(this.targetCamera.getFov() * Math.PI / 360);
                 var xScale = yScale * this.targetCamera.getAspect();
-                var xNear = xScale * near;
-                var yNear = yScale * near;
-                var xFar = xScale * far;
-                var yFar = yScale * far;
-                var vec = ShadowCamera.getFrustumBounds_vec;
-                var invLight = ShadowCamera.getFrustumBounds_invLight;
-                invLight.setInverse(lightRotation);
-                this.addToFrustumBounds(invLight, vec.set(xNear, yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xNear, yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(xNear, -yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xNear, -yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(xFar, yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xFar, yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(xFar, -yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xFar, -yFar, far, 1), bounds);
-            };
-            ShadowCamera.prototype.renderShadows = function (lightRotation, near, far) {
-                var bounds = ShadowCamera.renderShadows_bounds;
-                this.getFrustumBounds(lightRotation, near, far, bounds);
+                center.set(0, 0, 0);
+                for (var i = 0; i < 8; ++i) {
+                    var depth = i < 4 ? near : far;
+                    var x = (i & 1) === 0 ? xScale : -xScale;
+                    var y = (i & 2) === 0 ? yScale : -yScale;
+                    vec.set(x * depth, y * depth, -depth, 1);
+                    vec.applyMatrix4(cameraMatrix);
+                    if (corners[i] === undefined)
+                        corners[i] = new Facepunch.Vector3();
+                    corners[i].set(vec.x, vec.y, vec.z);
+                    center.add(corners[i]);
+                }
+                center.multiplyScalar(1 / 8);
+                var radiusSq = 0;
+                for (var i = 0; i < 8; ++i) {
+                    var dx = corners[i].x - center.x;
+                    var dy = corners[i].y - center.y;
+                    var dz = corners[i].z - center.z;
+                    radiusSq = Math.max(radiusSq, dx * dx + dy * dy + dz * dz);
+                }
+                // Round up so the cascade doesn't change size every time the camera turns
+                return Math.ceil(Math.sqrt(radiusSq) / 16) * 16;
+            };
+            ShadowCamera.prototype.setupCascade = function (index, sunDirection, near, far) {
+                var center = ShadowCamera.setupCascade_center;
+                var right = ShadowCamera.setupCascade_right;
+                var up = ShadowCamera.setupCascade_up;
+                var radius = this.getFrustumSphere(near, far, center);
+                if (Math.abs(sunDirection.z) < 0.999) {
+                    right.set(0, 0, 1).cross(sunDirection).normalize();
+                }
+                else {
+                    right.set(1, 0, 0);
+                }
+                up.copy(sunDirection).cross(right);
+                // Snap to whole texels to stop shadow edges crawling as the camera moves
+                var texelSize = radius * 2 / this.resolution;
+                var centerX = Math.floor(center.dot(right) / texelSize) * texelSize;
+                var centerY = Math.floor(center.dot(up) / texelSize) * texelSize;
+                var centerZ = center.dot(sunDirection);
+                var minZ = centerZ - radius;
+                var maxZ = centerZ + radius + ShadowCamera.casterDistance;
+                var zScale = 2 / (maxZ - minZ);
+                var scale = 1 / radius;
+                var m = this.cascadeMatrix.elements;
+                m[0x0] = right.x * scale;
+                m[0x4] = right.y * scale;
+                m[0x8] = right.z * scale;
+                m[0xc] = -centerX * scale;
+                m[0x1] = up.x * scale;
+                m[0x5] = up.y * scale;
+                m[0x9] = up.z * scale;
+                m[0xd] = -centerY * scale;
+                m[0x2] = -sunDirection.x * zScale;
+                m[0x6] = -sunDirection.y * zScale;
+                m[0xa] = -sunDirection.z * zScale;
+                m[0xe] = maxZ * zScale - 1;
+                m[0x3] = 0;
+                m[0x7] = 0;
+                m[0xb] = 0;
+                m[0xf] = 1;
+                this.matrices[index].copy(this.cascadeMatrix);
+                this.splitValues[index] = far;
+                // Allow for a texel and a half of slope, plus a unit for props resting on the ground
+                this.biasValues[index] = (texelSize * 1.5 + 1) * zScale * 0.5;
+                this.invalidateProjectionMatrix();
+            };
+            ShadowCamera.prototype.setupFrameBuffer = function (cascadeCount, resolution) {
+                var gl = this.viewer.context;
+                var maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+                resolution = Math.min(resolution, Math.floor(maxSize / cascadeCount));
+                if (this.frameBuffer != null && this.cascadeCount === cascadeCount && this.resolution === resolution)
+                    return;
+                this.cascadeCount = cascadeCount;
+                this.resolution = resolution;
+                if (this.frameBuffer != null) {
+                    this.frameBuffer.resize(resolution * cascadeCount, resolution);
+                }
+                else {
+                    this.frameBuffer = new WebGame.FrameBuffer(gl, resolution * cascadeCount, resolution);
+                    this.frameBuffer.addDepthAttachment();
+                }
+                var texture = this.frameBuffer.getColorTexture();
+                texture.setFilter(WebGame.TextureMinFilter.Nearest, WebGame.TextureMagFilter.Nearest);
+                texture.setWrapMode(WebGame.TextureWrapMode.ClampToEdge);
+            };
+            ShadowCamera.prototype.renderShadows = function (sunDirection) {
+                var viewer = this.viewer;
+                var cascadeCount = Math.min(viewer.shadowCascadeCount, ShadowCamera.maxCascades);
+                this.setupFrameBuffer(cascadeCount, viewer.shadowResolution);
+                var leaf = this.targetCamera.getLeaf();
+                if (leaf !== this.lastLeaf) {
+                    this.lastLeaf = leaf;
+                    this.invalidateGeometry();
+                }
+                var near = this.targetCamera.getNear();
+                var far = Math.min(viewer.shadowDistance, this.targetCamera.getFar());
+                var ratio = far / near;
+                var gl = viewer.context;
+                var clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE);
+                var resolution = this.resolution;
+                this.frameBuffer.begin();
+                gl.viewport(0, 0, resolution * cascadeCount, resolution);
+                gl.clearColor(1, 1, 1, 0);
+                gl.depthMask(true);
+                gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+                var cascadeNear = near;
+                for (var i = 0; i < cascadeCount; ++i) {
+                    // Blend between logarithmic and uniform splits
+                    var frac = (i + 1) / cascadeCount;
+                    var cascadeFar = i === cascadeCount - 1 ? far
+                        : 0.75 * near * Math.pow(ratio, frac) + 0.25 * (near + (far - near) * frac);
+                    this.setupCascade(i, sunDirection, cascadeNear, cascadeFar);
+                    gl.viewport(i * resolution, 0, resolution, resolution);
+                    this.render();
+                    cascadeNear = cascadeFar;
+                }
+                this.frameBuffer.end();
+                gl.viewport(0, 0, viewer.getWidth(), viewer.getHeight());
+                gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+            };
+            ShadowCamera.populateDisabledShadowParameters = function (buf, context) {
+                buf.setParameter(ShadowCamera.shadowMapParam, WebGame.TextureUtils.getWhiteTexture(context));
+                buf.setParameter(ShadowCamera.shadowSplitsParam, ShadowCamera.disabledInfoValues);
+                buf.setParameter(ShadowCamera.shadowBiasParam, ShadowCamera.disabledInfoValues);
+                buf.setParameter(ShadowCamera.shadowInfoParam, ShadowCamera.disabledInfoValues);
+                for (var i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    buf.setParameter(ShadowCamera.shadowMatrixParams[i], ShadowCamera.identityMatrix.elements);
+                }
+            };
+            ShadowCamera.prototype.populateShadowParameters = function (buf) {
+                if (this.frameBuffer == null) {
+                    ShadowCamera.populateDisabledShadowParameters(buf, this.viewer.context);
+                    return;
+                }
+                var info = this.infoValues;
+                info[0] = this.cascadeCount;
+                info[1] = 1 / this.cascadeCount;
+                info[2] = 1 / this.resolution;
+                buf.setParameter(ShadowCamera.shadowMapParam, this.frameBuffer.getColorTexture());
+                buf.setParameter(ShadowCamera.shadowSplitsParam, this.splitValues);
+                buf.setParameter(ShadowCamera.shadowBiasParam, this.biasValues);
+                buf.setParameter(ShadowCamera.shadowInfoParam, info);
+                for (var i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    buf.setParameter(ShadowCamera.shadowMatrixParams[i], this.matrices[i].elements);
+                }
+            };
+            ShadowCamera.prototype.dispose = function () {
+                if (this.frameBuffer == null)
+                    return;
+                _super.prototype.dispose.call(this);
+                this.frameBuffer.dispose();
+                this.frameBuffer = null;
+                this.cascadeCount = 0;
+                this.resolution = 0;
+                // Let go of everything so ropes stop simulating for a shadow nobody sees
+                this.casters.clear();
+                this.invalidateGeometry();
             };
             return ShadowCamera;
         }(WebGame.OrthographicCamera));
-        ShadowCamera.getFrustumBounds_vec = new Facepunch.Vector4();
-        ShadowCamera.getFrustumBounds_invLight = new Facepunch.Quaternion();
-        ShadowCamera.renderShadows_bounds = new Facepunch.Box3();
+        ShadowCamera.maxCascades = 4;
+        // How far beyond each cascade towards the sun to look for shadow casters
+        ShadowCamera.casterDistance = 2048;
+        ShadowCamera.shadowMapParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Texture);
+        ShadowCamera.shadowMatrixParams = [
+            new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+            new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+            new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+            new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4)
+        ];
+        // Far distance of each cascade from the target camera
+        ShadowCamera.shadowSplitsParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+        // Depth bias of each cascade
+        ShadowCamera.shadowBiasParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+        // x: cascade count, y: 1 / cascade count, z: 1 / resolution, w: unused
+        ShadowCamera.shadowInfoParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+        ShadowCamera.disabledInfoValues = new Float32Array(4);
+        ShadowCamera.identityMatrix = new Facepunch.Matrix4().setIdentity();
+        ShadowCamera.getFrustumSphere_vec = new Facepunch.Vector4();
+        ShadowCamera.getFrustumSphere_corners = [];
+        ShadowCamera.setupCascade_center = new Facepunch.Vector3();
+        ShadowCamera.setupCascade_right = new Facepunch.Vector3();
+        ShadowCamera.setupCascade_up = new Facepunch.Vector3();
         Entities.ShadowCamera = ShadowCamera;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
@@ -654,8 +1957,20 @@ var SourceUtils;
                 var _this = _super.call(this, map, info) || this;
                 _this.isLoaded = false;
                 _this.index = info.index;
+                _this.info = info;
                 return _this;
             }
+            Displacement.prototype.getBounds = function (min, max) {
+                if (this.info.min == null || this.info.max == null)
+                    return false;
+                min.x = this.info.min.x;
+                min.y = this.info.min.y;
+                min.z = this.info.min.z;
+                max.x = this.info.max.x;
+                max.y = this.info.max.y;
+                max.z = this.info.max.z;
+                return true;
+            };
             Displacement.prototype.onAddToDrawList = function (list) {
                 var _this = this;
                 if (!this.isLoaded) {
@@ -663,7 +1978,7 @@ var SourceUtils;
                     this.map.viewer.dispGeometryLoader.load(this.index, function (handle) {
                         if (handle != null)
                             _this.drawable.addMeshHandles([handle]);
-                    });
+                    }, function () { return _this.getLoadPriority(); });
                 }
                 _super.prototype.onAddToDrawList.call(this, list);
             };
@@ -672,6 +1987,90 @@ var SourceUtils;
         Entities.Displacement = Displacement;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
+/// <reference path="PvsEntity.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var Entities;
+    (function (Entities) {
+        var LightEnvironment = (function (_super) {
+            __extends(LightEnvironment, _super);
+            function LightEnvironment(map, info) {
+                var _this = _super.call(this, map, info) || this;
+                // Points towards the sun, in world space
+                _this.sunDirection = new Facepunch.Vector3();
+                // Linear colours, pre-multiplied by brightness
+                _this.sunColor = new Facepunch.Vector3();
+                _this.ambientColor = new Facepunch.Vector3();
+                _this.sunDirectionValues = new Float32Array(3);
+                _this.sunColorValues = new Float32Array(3);
+                _this.ambientColorValues = new Float32Array(3);
+                var angles = info.angles;
+                var mul = Math.PI / 180;
+                // Like vrad, a non-zero pitch key overrides the pitch from angles
+                var pitch = (info.pitch || (angles !== undefined ? angles.x : 0)) * mul;
+                var yaw = (angles !== undefined ? angles.y : 0) * mul;
+                _this.sunDirection.set(-Math.cos(pitch) * Math.cos(yaw), -Math.cos(pitch) * Math.sin(yaw), -Math.sin(pitch));
+                LightEnvironment.getLinearColor(info.brightness, _this.sunColor);
+                LightEnvironment.getLinearColor(info.ambient, _this.ambientColor);
+                return _this;
+            }
+            LightEnvironment.getLinearColor = function (color, out) {
+                if (color == null) {
+                    out.set(0, 0, 0);
+                    return;
+                }
+                out.set(Math.pow(color.r, 2.2), Math.pow(color.g, 2.2), Math.pow(color.b, 2.2));
+                out.multiplyScalar(color.a);
+            };
+            LightEnvironment.populateDefaultCommandBufferParameters = function (buf) {
+                buf.setParameter(LightEnvironment.sunDirectionParam, LightEnvironment.defaultDirectionValues);
+                buf.setParameter(LightEnvironment.sunColorParam, LightEnvironment.defaultSunColorValues);
+                buf.setParameter(LightEnvironment.ambientColorParam, LightEnvironment.defaultAmbientValues);
+                LightEnvironment.populateSunDiscParameter(buf, 0);
+            };
+            LightEnvironment.populateSunDiscParameter = function (buf, size) {
+                // Cosine of the disc's angular radius, so 1 disables it
+                LightEnvironment.sunDiscValues[0] = size > 0 ? Math.cos(size * Math.PI / 180) : 1;
+                buf.setParameter(LightEnvironment.sunDiscParam, LightEnvironment.sunDiscValues);
+            };
+            LightEnvironment.prototype.populateCommandBufferParameters = function (buf) {
+                var dir = this.sunDirectionValues;
+                dir[0] = this.sunDirection.x;
+                dir[1] = this.sunDirection.y;
+                dir[2] = this.sunDirection.z;
+                var sun = this.sunColorValues;
+                sun[0] = this.sunColor.x;
+                sun[1] = this.sunColor.y;
+                sun[2] = this.sunColor.z;
+                var ambient = this.ambientColorValues;
+                ambient[0] = this.ambientColor.x;
+                ambient[1] = this.ambientColor.y;
+                ambient[2] = this.ambientColor.z;
+                buf.setParameter(LightEnvironment.sunDirectionParam, dir);
+                buf.setParameter(LightEnvironment.sunColorParam, sun);
+                buf.setParameter(LightEnvironment.ambientColorParam, ambient);
+                LightEnvironment.populateSunDiscParameter(buf, this.map.viewer.sunDiscSize);
+            };
+            return LightEnvironment;
+        }(Entities.Entity));
+        LightEnvironment.sunDirectionParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+        LightEnvironment.sunColorParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+        LightEnvironment.ambientColorParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+        LightEnvironment.sunDiscParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float);
+        // Gives the same flat lighting as before when a map has no light_environment
+        LightEnvironment.defaultAmbientValue = Math.pow(0.5, 2.2);
+        LightEnvironment.defaultDirectionValues = new Float32Array([0, 0, 1]);
+        LightEnvironment.defaultSunColorValues = new Float32Array([0, 0, 0]);
+        LightEnvironment.defaultAmbientValues = new Float32Array([
+            LightEnvironment.defaultAmbientValue,
+            LightEnvironment.defaultAmbientValue,
+            LightEnvironment.defaultAmbientValue
+        ]);
+        LightEnvironment.sunDiscValues = new Float32Array(1);
+        Entities.LightEnvironment = LightEnvironment;
+    })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
+})(SourceUtils || (SourceUtils = {}));
 var SourceUtils;
 (function (SourceUtils) {
     var WebGame = Facepunch.WebGame;
@@ -700,6 +2099,10 @@ var SourceUtils;
             __extends(MoveRope, _super);
             function MoveRope(map, info) {
                 var _this = _super.call(this, map, info) || this;
+                _this.swayDir = new Facepunch.Vector3();
+                _this.swayTime = Math.random() * 10;
+                _this.simulationTime = 0;
+                _this.drawListCount = 0;
                 _this.info = info;
                 return _this;
             }
@@ -712,6 +2115,98 @@ var SourceUtils;
                 }
                 return list;
             };
+            // Not available in ES5
+            MoveRope.sinh = function (x) {
+                return (Math.exp(x) - Math.exp(-x)) * 0.5;
+            };
+            MoveRope.cosh = function (x) {
+                return (Math.exp(x) + Math.exp(-x)) * 0.5;
+            };
+            MoveRope.atanh = function (x) {
+                return 0.5 * Math.log((1 + x) / (1 - x));
+            };
+            // Appends points along a rope hanging from start to end with the given slack, not including end
+            MoveRope.addCatenaryPoints = function (start, end, slack, count, points) {
+                var dx = end.x - start.x;
+                var dy = end.y - start.y;
+                var v = end.z - start.z;
+                var h = Math.sqrt(dx * dx + dy * dy);
+                var length = Math.sqrt(h * h + v * v) + Math.max(slack, 0);
+                // Taut or vertical ropes are just straight lines
+                if (h < 0.001 || slack <= 0) {
+                    for (var j = 0; j < count; ++j) {
+                        var t = j / count;
+                        points.push(new Facepunch.Vector3(start.x + dx * t, start.y + dy * t, start.z + v * t));
+                    }
+                    return;
+                }
+                // Solve sqrt(L^2 - v^2) = 2a sinh(h / 2a) for a, substituting z = h / 2a
+                var r = Math.sqrt(length * length - v * v) / h;
+                var z = r < 3 ? Math.sqrt(6 * (r - 1)) : Math.log(2 * r) + Math.log(Math.log(2 * r));
+                for (var iter = 0; iter < 16; ++iter) {
+                    var f = MoveRope.sinh(z) - r * z;
+                    var df = MoveRope.cosh(z) - r;
+                    if (df === 0)
+                        break;
+                    var step = f / df;
+                    z -= step;
+                    if (Math.abs(step) < 1e-6)
+                        break;
+                }
+                var a = h / (2 * z);
+                var x0 = h * 0.5 - a * MoveRope.atanh(v / length);
+                var c = -a * MoveRope.cosh(-x0 / a);
+                var dirX = dx / h;
+                var dirY = dy / h;
+                for (var j = 0; j < count; ++j) {
+                    var x = h * j / count;
+                    var y = a * MoveRope.cosh((x - x0) / a) + c;
+                    points.push(new Facepunch.Vector3(start.x + dirX * x, start.y + dirY * x, start.z + y));
+                }
+            };
+            MoveRope.catmullRom = function (p0, p1, p2, p3, t) {
+                var t2 = t * t;
+                var t3 = t2 * t;
+                return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+            };
+            MoveRope.prototype.computePoints = function (points, widths) {
+                var keyframes = this.keyframes;
+                var positions = keyframes.map(function (keyframe) {
+                    var pos = new Facepunch.Vector3();
+                    keyframe.getPosition(pos);
+                    return pos;
+                });
+                var interp = this.info.positionInterp === undefined ? PositionInterpolator.Rope : this.info.positionInterp;
+                for (var i = 0; i < keyframes.length - 1; ++i) {
+                    var keyframe = keyframes[i];
+                    var count = keyframe.subDivisions + 1;
+                    var start = positions[i];
+                    var end = positions[i + 1];
+                    switch (interp) {
+                        case PositionInterpolator.Rope:
+                            MoveRope.addCatenaryPoints(start, end, keyframe.slack, count, points);
+                            break;
+                        case PositionInterpolator.CatmullRomSpline:
+                            var p0 = positions[Math.max(i - 1, 0)];
+                            var p3 = positions[Math.min(i + 2, positions.length - 1)];
+                            for (var j = 0; j < count; ++j) {
+                                var t = j / count;
+                                points.push(new Facepunch.Vector3(MoveRope.catmullRom(p0.x, start.x, end.x, p3.x, t), MoveRope.catmullRom(p0.y, start.y, end.y, p3.y, t), MoveRope.catmullRom(p0.z, start.z, end.z, p3.z, t)));
+                            }
+                            break;
+                        default:
+                            for (var j = 0; j < count; ++j) {
+                                points.push(new Facepunch.Vector3().copy(end).sub(start).multiplyScalar(j / count).add(start));
+                            }
+                            break;
+                    }
+                    for (var j = 0; j < count; ++j) {
+                        widths.push(keyframe.width);
+                    }
+                }
+                points.push(positions[positions.length - 1]);
+                widths.push(keyframes[keyframes.length - 2].width);
+            };
             MoveRope.prototype.generateMesh = function () {
                 var _this = this;
                 if (this.keyframes == null) {
@@ -730,46 +2225,49 @@ var SourceUtils;
                     vertices: [],
                     indices: []
                 };
-                var prev = new Facepunch.Vector3();
-                var next = new Facepunch.Vector3();
-                var pos = new Facepunch.Vector3();
-                var norm = new Facepunch.Vector3();
+                var points = this.points = [];
+                var widths = this.widths = [];
+                this.computePoints(points, widths);
+                var keyframePoints = [0];
+                for (var i = 0, index = 0; i < this.keyframes.length - 1; ++i) {
+                    index += this.keyframes[i].subDivisions + 1;
+                    keyframePoints.push(index);
+                }
+                var first = points[0];
+                var last = points[points.length - 1];
+                this.swayDir.set(first.y - last.y, last.x - first.x, 0);
+                if (this.swayDir.lengthSq() > 0)
+                    this.swayDir.normalize();
+                this.pinned = points.map(function (point, index) { return keyframePoints.indexOf(index) !== -1; });
+                this.prevPoints = points.map(function (point) { return new Facepunch.Vector3().copy(point); });
+                this.restLengths = [];
+                this.texCoords = [];
+                var delta = new Facepunch.Vector3();
                 var mid = new Facepunch.Vector3();
                 // TODO: check current texture res, use info.textureScale
                 var texScale = this.info.textureScale / 64;
-                this.keyframes[0].getPosition(prev);
-                mid.add(prev);
                 var totalLength = 0;
-                var indexOffset = -4;
-                for (var i = 0; i < this.keyframes.length - 1; ++i) {
-                    var keyframe = this.keyframes[i];
-                    this.keyframes[i + 1].getPosition(next);
-                    mid.add(next);
-                    var segmentLength = norm.copy(next).sub(prev).length();
-                    // TODO: this is just a rough guess
-                    // TODO: need to solve `L = 1/2 sqrt(1 + 16 h^2) + (arcsinh(4 h))/(8 h)` for h
-                    var slack = (keyframe.slack / segmentLength) * Math.sqrt(segmentLength) * 4.0;
-                    norm.normalize();
-                    for (var j = 0; j <= keyframe.subDivisions + 1; ++j) {
-                        var t = j / (keyframe.subDivisions + 1);
-                        var v = (totalLength + segmentLength * t) * texScale;
-                        var s = slack * 4 * (t * t - t);
-                        pos.copy(next).sub(prev).multiplyScalar(t).add(prev);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0.25, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0.75, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 1, v, keyframe.width, s);
-                        if (j > 0) {
-                            for (var k = 0; k < 3; ++k) {
-                                mesh.indices.push(indexOffset + k, indexOffset + k + 4, indexOffset + k + 1, indexOffset + k + 1, indexOffset + k + 4, indexOffset + k + 5);
-                            }
+                for (var i = 0; i < points.length; ++i) {
+                    if (i > 0) {
+                        var length_1 = delta.copy(points[i]).sub(points[i - 1]).length();
+                        this.restLengths.push(length_1);
+                        totalLength += length_1;
+                    }
+                    mid.add(points[i]);
+                    this.texCoords.push(totalLength * texScale);
+                    if (i > 0) {
+                        var indexOffset = (i - 1) * 4;
+                        for (var k = 0; k < 3; ++k) {
+                            mesh.indices.push(indexOffset + k, indexOffset + k + 4, indexOffset + k + 1, indexOffset + k + 1, indexOffset + k + 4, indexOffset + k + 5);
                         }
-                        indexOffset += 4;
                     }
-                    totalLength += segmentLength;
-                    prev.copy(next);
                 }
-                mid.multiplyScalar(1 / this.keyframes.length);
+                this.vertices = new Float32Array(points.length * 4 * WebGame.MeshManager.getVertexLength(mesh.attributes));
+                this.updateVertices();
+                for (var i = 0, iEnd = this.vertices.length; i < iEnd; ++i) {
+                    mesh.vertices.push(this.vertices[i]);
+                }
+                mid.multiplyScalar(1 / points.length);
                 this.map.getLeafAt(mid, function (leaf) {
                     var ambient = _this.material.properties.ambient = new Array(6);
                     leaf.getAmbientCube(mid, ambient, function (success) {
@@ -783,22 +2281,213 @@ var SourceUtils;
                     indexOffset: 0,
                     indexCount: mesh.indices.length
                 });
-                return this.map.viewer.meshes.addMeshData(mesh);
+                // Each rope gets its own group so its vertices can be rewritten while simulating
+                this.meshGroup = new WebGame.MeshGroup(this.map.viewer.context, mesh.attributes);
+                this.indices = this.meshGroup.indexSize === 4 ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices);
+                var handles = [];
+                this.meshGroup.addMeshData(mesh, null, handles);
+                return handles;
+            };
+            MoveRope.prototype.updateVertices = function () {
+                var points = this.points;
+                var verts = this.vertices;
+                var norm = MoveRope.updateVertices_norm;
+                var index = 0;
+                for (var i = 0; i < points.length; ++i) {
+                    var pos = points[i];
+                    var prev = points[Math.max(i - 1, 0)];
+                    var next = points[Math.min(i + 1, points.length - 1)];
+                    norm.copy(next).sub(prev).normalize();
+                    var v = this.texCoords[i];
+                    var width = this.widths[i];
+                    for (var k = 0; k < 4; ++k) {
+                        verts[index++] = pos.x;
+                        verts[index++] = pos.y;
+                        verts[index++] = pos.z;
+                        verts[index++] = norm.x;
+                        verts[index++] = norm.y;
+                        verts[index++] = norm.z;
+                        verts[index++] = k === 0 ? 0 : k === 1 ? 0.25 : k === 2 ? 0.75 : 1;
+                        verts[index++] = v;
+                        verts[index++] = width;
+                        verts[index++] = 0;
+                    }
+                }
+            };
+            // Steps a simple verlet simulation, with moveSpeed controlling how much the rope sways on its own
+            MoveRope.prototype.simulate = function (dt) {
+                if (this.meshGroup == null)
+                    return;
+                var viewer = this.map.viewer;
+                var step = MoveRope.simulationStep;
+                this.simulationTime += Math.min(dt, step * 4);
+                var steps = 0;
+                while (this.simulationTime >= step) {
+                    this.simulationTime -= step;
+                    this.swayTime += step;
+                    ++steps;
+                    var points = this.points;
+                    var prevPoints = this.prevPoints;
+                    var accel = MoveRope.simulate_accel;
+                    var delta = MoveRope.simulate_delta;
+                    var sway = Math.sin(this.swayTime * 1.3) * (this.info.moveSpeed || 0);
+                    for (var i = 0; i < points.length; ++i) {
+                        if (this.pinned[i])
+                            continue;
+                        var pos = points[i];
+                        var prev = prevPoints[i];
+                        // Drag towards the wind velocity, plus a sideways sway and gravity
+                        delta.copy(pos).sub(prev).multiplyScalar(1 / step);
+                        accel.copy(viewer.wind).sub(delta).multiplyScalar(0.5);
+                        accel.x += this.swayDir.x * sway;
+                        accel.y += this.swayDir.y * sway;
+                        accel.z -= viewer.ropeGravity;
+                        delta.copy(pos).sub(prev).multiplyScalar(0.99);
+                        prev.copy(pos);
+                        pos.add(delta).add(accel.multiplyScalar(step * step));
+                    }
+                    for (var iter = 0; iter < MoveRope.simulationIterations; ++iter) {
+                        for (var i = 0; i < points.length - 1; ++i) {
+                            var a = points[i];
+                            var b = points[i + 1];
+                            var pinnedA = this.pinned[i];
+                            var pinnedB = this.pinned[i + 1];
+                            if (pinnedA && pinnedB)
+                                continue;
+                            delta.copy(b).sub(a);
+                            var length_2 = delta.length();
+                            if (length_2 === 0)
+                                continue;
+                            delta.multiplyScalar((length_2 - this.restLengths[i]) / length_2);
+                            if (pinnedA) {
+                                b.sub(delta);
+                            }
+                            else if (pinnedB) {
+                                a.add(delta);
+                            }
+                            else {
+                                delta.multiplyScalar(0.5);
+                                a.add(delta);
+                                b.sub(delta);
+                            }
+                        }
+                    }
+                }
+                if (steps === 0)
+                    return;
+                this.updateVertices();
+                // The rope is the only mesh in its group, so refilling the group rewrites its
+                // buffers in place and leaves the existing mesh handles pointing at the same data
+                var group = this.meshGroup;
+                group.clear();
+                group.addVertexData(this.vertices);
+                group.addIndexData(this.indices);
+            };
+            MoveRope.prototype.dispose = function () {
+                if (this.meshGroup != null) {
+                    this.meshGroup.dispose();
+                    this.meshGroup = null;
+                }
             };
             MoveRope.prototype.onAddToDrawList = function (list) {
                 _super.prototype.onAddToDrawList.call(this, list);
                 if (this.meshHandles == null) {
                     this.meshHandles = this.generateMesh();
                 }
+                if (this.drawListCount++ === 0) {
+                    this.map.addActiveRope(this);
+                }
+            };
+            MoveRope.prototype.onRemoveFromDrawList = function (list) {
+                _super.prototype.onRemoveFromDrawList.call(this, list);
+                if (--this.drawListCount === 0) {
+                    this.map.removeActiveRope(this);
+                }
             };
             MoveRope.prototype.getMeshHandles = function () {
                 return this.meshHandles;
             };
+            MoveRope.prototype.getBounds = function (min, max) {
+                var points = this.points;
+                if (points == null || points.length === 0)
+                    return false;
+                var radius = this.width * 0.5;
+                min.x = min.y = min.z = Number.POSITIVE_INFINITY;
+                max.x = max.y = max.z = Number.NEGATIVE_INFINITY;
+                for (var _i = 0, points_1 = points; _i < points_1.length; _i++) {
+                    var point = points_1[_i];
+                    min.x = Math.min(min.x, point.x - radius);
+                    min.y = Math.min(min.y, point.y - radius);
+                    min.z = Math.min(min.z, point.z - radius);
+                    max.x = Math.max(max.x, point.x + radius);
+                    max.y = Math.max(max.y, point.y + radius);
+                    max.z = Math.max(max.z, point.z + radius);
+                }
+                return true;
+            };
             return MoveRope;
         }(KeyframeRope));
+        MoveRope.updateVertices_norm = new Facepunch.Vector3();
+        MoveRope.simulationStep = 1 / 60;
+        MoveRope.simulationIterations = 8;
+        MoveRope.simulate_accel = new Facepunch.Vector3();
+        MoveRope.simulate_delta = new Facepunch.Vector3();
         Entities.MoveRope = MoveRope;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var Entities;
+    (function (Entities) {
+        // Looks straight down at a rectangle of the map, drawing everything between
+        // two heights regardless of visibility from any leaf
+        var OverviewCamera = (function (_super) {
+            __extends(OverviewCamera, _super);
+            function OverviewCamera(viewer) {
+                var _this = _super.call(this, viewer, 1, 1, 0, 1) || this;
+                _this.overviewMatrix = new Facepunch.Matrix4().setIdentity();
+                _this.viewer = viewer;
+                // Everything is seen from the same height, so fog would only darken low areas
+                _this.fog.maxDensity = 0;
+                return _this;
+            }
+            OverviewCamera.prototype.onPopulateDrawList = function (drawList) {
+                this.viewer.map.populateDrawList(drawList, null);
+            };
+            OverviewCamera.prototype.onUpdateProjectionMatrix = function (matrix) {
+                matrix.copy(this.overviewMatrix);
+            };
+            // Maps the given world space rectangle to the render target, with +Y at the top.
+            // Anything above maxZ or below minZ is clipped, for slicing multi-level maps.
+            OverviewCamera.prototype.setView = function (minX, minY, maxX, maxY, minZ, maxZ) {
+                var xScale = 2 / (maxX - minX);
+                var yScale = 2 / (maxY - minY);
+                var zScale = 2 / (maxZ - minZ);
+                var m = this.overviewMatrix.elements;
+                m[0x0] = xScale;
+                m[0x4] = 0;
+                m[0x8] = 0;
+                m[0xc] = -(minX + maxX) * 0.5 * xScale;
+                m[0x1] = 0;
+                m[0x5] = yScale;
+                m[0x9] = 0;
+                m[0xd] = -(minY + maxY) * 0.5 * yScale;
+                m[0x2] = 0;
+                m[0x6] = 0;
+                m[0xa] = -zScale;
+                m[0xe] = maxZ * zScale - 1;
+                m[0x3] = 0;
+                m[0x7] = 0;
+                m[0xb] = 0;
+                m[0xf] = 1;
+                this.invalidateProjectionMatrix();
+            };
+            return OverviewCamera;
+        }(WebGame.OrthographicCamera));
+        Entities.OverviewCamera = OverviewCamera;
+    })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
+})(SourceUtils || (SourceUtils = {}));
 /// <reference path="PvsEntity.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
@@ -808,13 +2497,17 @@ var SourceUtils;
             __extends(StaticProp, _super);
             function StaticProp(map, info) {
                 var _this = _super.call(this, map, info) || this;
+                _this.min = new Facepunch.Vector3();
+                _this.max = new Facepunch.Vector3();
+                _this.hasBounds = false;
                 _this.info = info;
+                _this.modelIndex = info.model;
                 _this.albedoModulation = info.albedoModulation;
                 if (_this.info.vertLighting !== undefined) {
                     _this.map.viewer.vertLightingLoader.load(_this.info.vertLighting, function (value) {
                         _this.lighting = value;
                         _this.checkLoaded();
-                    });
+                    }, function () { return _this.getLoadPriority(); });
                 }
                 else {
                     // TODO: lighting offset
@@ -831,7 +2524,7 @@ var SourceUtils;
                         }
                     });
                 }
-                _this.model = map.viewer.studioModelLoader.loadModel(info.model);
+                _this.model = map.viewer.studioModelLoader.loadModel(info.model, function () { return _this.getLoadPriority(); });
                 _this.model.addUsage(_this);
                 _this.model.addOnLoadCallback(function (model) {
                     _this.checkLoaded();
@@ -843,7 +2536,19 @@ var SourceUtils;
                     return;
                 if (this.lighting === undefined)
                     return;
-                this.drawable.addMeshHandles(this.model.createMeshHandles(0, this.getMatrix(), this.lighting, this.albedoModulation));
+                this.drawable.addMeshHandles(this.model.createMeshHandles(0, this.getMatrix(), this.lighting, this.albedoModulation, this.min, this.max));
+                this.hasBounds = true;
+            };
+            StaticProp.prototype.getBounds = function (min, max) {
+                if (!this.hasBounds)
+                    return false;
+                min.x = this.min.x;
+                min.y = this.min.y;
+                min.z = this.min.z;
+                max.x = this.max.x;
+                max.y = this.max.y;
+                max.z = this.max.z;
+                return true;
             };
             return StaticProp;
         }(Entities.PvsEntity));
@@ -901,690 +2606,4816 @@ var SourceUtils;
         Entities.Worldspawn = Worldspawn;
     })(Entities = SourceUtils.Entities || (SourceUtils.Entities = {}));
 })(SourceUtils || (SourceUtils = {}));
-/// <reference path="PagedLoader.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
     var WebGame = Facepunch.WebGame;
-    var LeafGeometryPage = (function (_super) {
-        __extends(LeafGeometryPage, _super);
-        function LeafGeometryPage(viewer, page) {
-            var _this = _super.call(this, page) || this;
-            _this.viewer = viewer;
-            return _this;
+    // Picks whatever is under the cursor, highlighting it and describing it in a side panel.
+    // Brushes are traced exactly, but props, displacements and ropes only by their bounds.
+    var EntityInspector = (function () {
+        function EntityInspector(viewer) {
+            this.enabled = false;
+            this.pickButton = WebGame.MouseButton.Left;
+            // Pixels the mouse can move between press and release for it to count as a click
+            this.clickTolerance = 4;
+            this.highlightColor = new Facepunch.Vector3(1, 0.5, 0);
+            this.mouseDownPos = new Facepunch.Vector2();
+            this.mouseDownPending = false;
+            this.traceResult = new SourceUtils.TraceResult();
+            this.temp = new Facepunch.Vector3();
+            this.min = new Facepunch.Vector3();
+            this.max = new Facepunch.Vector3();
+            this.viewer = viewer;
         }
-        LeafGeometryPage.prototype.onLoadValues = function (page) {
-            this.matGroups = new Array(page.materials.length);
-            this.leafFaces = page.leaves;
-            var _loop_3 = function (i, iEnd) {
-                var matGroup = page.materials[i];
-                var mat = this_3.viewer.mapMaterialLoader.loadMaterial(matGroup.material);
-                var data = WebGame.MeshManager.decompress(matGroup.meshData);
-                this_3.matGroups[i] = this_3.viewer.meshes.addMeshData(data, function (index) { return mat; });
-            };
-            var this_3 = this;
-            for (var i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
-                _loop_3(i, iEnd);
+        EntityInspector.prototype.getSelection = function () {
+            return this.selection;
+        };
+        EntityInspector.prototype.onMouseDown = function (button, screenPos) {
+            if (button !== this.pickButton)
+                return;
+            this.mouseDownPos.copy(screenPos);
+            this.mouseDownLocked = this.viewer.isPointerLocked();
+            this.mouseDownPending = true;
+        };
+        // Picks at the cursor when orbiting, or at the centre of the screen with the pointer locked
+        EntityInspector.prototype.onMouseUp = function (button, screenPos) {
+            if (!this.enabled || button !== this.pickButton || !this.mouseDownPending)
+                return false;
+            this.mouseDownPending = false;
+            var viewer = this.viewer;
+            if (this.mouseDownLocked) {
+                this.select(this.pick(viewer.getWidth() * 0.5, viewer.getHeight() * 0.5));
+                return true;
             }
-            _super.prototype.onLoadValues.call(this, page);
+            if (!viewer.orbitController.isActive())
+                return false;
+            var dx = screenPos.x - this.mouseDownPos.x;
+            var dy = screenPos.y - this.mouseDownPos.y;
+            if (dx * dx + dy * dy > this.clickTolerance * this.clickTolerance)
+                return false;
+            this.select(this.pick(screenPos.x, screenPos.y));
+            return true;
         };
-        LeafGeometryPage.prototype.onGetValue = function (index) {
-            var leafFaces = this.leafFaces[index];
-            var handles = new Array(leafFaces.length);
-            for (var i = 0, iEnd = leafFaces.length; i < iEnd; ++i) {
-                var leafFace = leafFaces[i];
-                handles[i] = this.matGroups[leafFace.material][leafFace.element];
+        // Distance along the ray to where it enters the box, or -1 if it misses or starts inside
+        EntityInspector.rayBox = function (origin, dir, min, max) {
+            var invDir = EntityInspector.rayBox_invDir.set(1 / dir.x, 1 / dir.y, 1 / dir.z);
+            var x0 = (min.x - origin.x) * invDir.x;
+            var x1 = (max.x - origin.x) * invDir.x;
+            var y0 = (min.y - origin.y) * invDir.y;
+            var y1 = (max.y - origin.y) * invDir.y;
+            var z0 = (min.z - origin.z) * invDir.z;
+            var z1 = (max.z - origin.z) * invDir.z;
+            var enter = Math.max(Math.min(x0, x1), Math.min(y0, y1), Math.min(z0, z1));
+            var exit = Math.min(Math.max(x0, x1), Math.max(y0, y1), Math.max(z0, z1));
+            return enter > exit || enter < 0 ? -1 : enter;
+        };
+        EntityInspector.containsPoint = function (min, max, pos, margin) {
+            return pos.x >= min.x - margin && pos.y >= min.y - margin && pos.z >= min.z - margin
+                && pos.x <= max.x + margin && pos.y <= max.y + margin && pos.z <= max.z + margin;
+        };
+        EntityInspector.prototype.pick = function (screenX, screenY) {
+            var viewer = this.viewer;
+            var map = viewer.map;
+            var camera = viewer.mainCamera;
+            if (!map.isReady())
+                return null;
+            var eye = camera.getPosition(new Facepunch.Vector3());
+            var dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            var end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+            var tr = map.trace(eye, end, SourceUtils.TraceMask.Solid, this.traceResult);
+            var best = null;
+            var bestDistance = tr.hit && !tr.startSolid ? tr.fraction * camera.getFar() : Number.POSITIVE_INFINITY;
+            // Brush entities were already traced against, and displacements are checked below
+            for (var _i = 0, _a = map.getPvsEntities(); _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (ent instanceof SourceUtils.Entities.BrushEntity || ent instanceof SourceUtils.Entities.Displacement)
+                    continue;
+                if (!ent.getBounds(this.min, this.max))
+                    continue;
+                var distance = EntityInspector.rayBox(eye, dir, this.min, this.max);
+                if (distance < 0 || distance >= bestDistance)
+                    continue;
+                best = ent;
+                bestDistance = distance;
             }
-            return handles;
+            if (best != null) {
+                return {
+                    entity: best,
+                    leaf: null,
+                    position: new Facepunch.Vector3().copy(dir).multiplyScalar(bestDistance).add(eye),
+                    distance: bestDistance
+                };
+            }
+            if (!tr.hit || tr.startSolid)
+                return null;
+            var position = new Facepunch.Vector3().copy(tr.position);
+            // Displacements usually sit just above the brushes the trace hits
+            for (var _b = 0, _c = map.getPvsEntities(); _b < _c.length; _b++) {
+                var ent = _c[_b];
+                if (!(ent instanceof SourceUtils.Entities.Displacement) || !ent.getBounds(this.min, this.max))
+                    continue;
+                if (!EntityInspector.containsPoint(this.min, this.max, position, 1))
+                    continue;
+                return { entity: ent, leaf: null, position: position, distance: bestDistance };
+            }
+            var entity = tr.entity;
+            if (entity != null && !entity.isWorldSpawn) {
+                return { entity: entity, leaf: null, position: position, distance: bestDistance };
+            }
+            // The trace stops in a solid leaf, so find the one the visible face belongs to
+            var leaf = map.getLeafAt(this.temp.copy(dir).multiplyScalar(-1).add(position));
+            return { entity: null, leaf: leaf, position: position, distance: bestDistance };
         };
-        return LeafGeometryPage;
-    }(SourceUtils.ResourcePage));
-    SourceUtils.LeafGeometryPage = LeafGeometryPage;
-    var LeafGeometryLoader = (function (_super) {
-        __extends(LeafGeometryLoader, _super);
-        function LeafGeometryLoader(viewer) {
-            var _this = _super.call(this) || this;
-            _this.viewer = viewer;
-            return _this;
-        }
-        LeafGeometryLoader.prototype.onCreatePage = function (page) {
-            return new LeafGeometryPage(this.viewer, page);
+        EntityInspector.prototype.select = function (result) {
+            this.selection = result;
+            this.updateHighlight();
+            this.updatePanel();
+            if (result != null && result.entity != null) {
+                this.viewer.selectEntity(result.entity);
+            }
+            else {
+                this.viewer.selectEntity(result != null && result.leaf != null ? result.leaf.entity : null);
+            }
         };
-        return LeafGeometryLoader;
-    }(SourceUtils.PagedLoader));
-    SourceUtils.LeafGeometryLoader = LeafGeometryLoader;
+        EntityInspector.prototype.getBounds = function (result, min, max) {
+            if (result.entity != null)
+                return result.entity.getBounds(min, max);
+            if (result.leaf == null)
+                return false;
+            min.copy(result.leaf.min);
+            max.copy(result.leaf.max);
+            return true;
+        };
+        // Adds the edges of the given box to a line, without updating it
+        EntityInspector.drawBox = function (line, min, max) {
+            var corner = EntityInspector.drawBox_corner;
+            // Bottom and top rectangles, then the vertical edges
+            for (var _i = 0, _a = [min.z, max.z]; _i < _a.length; _i++) {
+                var z = _a[_i];
+                line.moveTo(corner.set(min.x, min.y, z));
+                line.lineTo(corner.set(max.x, min.y, z));
+                line.lineTo(corner.set(max.x, max.y, z));
+                line.lineTo(corner.set(min.x, max.y, z));
+                line.lineTo(corner.set(min.x, min.y, z));
+            }
+            for (var _b = 0, _c = [min.x, max.x]; _b < _c.length; _b++) {
+                var x = _c[_b];
+                for (var _d = 0, _e = [min.y, max.y]; _d < _e.length; _d++) {
+                    var y = _e[_d];
+                    line.moveTo(corner.set(x, y, min.z));
+                    line.lineTo(corner.set(x, y, max.z));
+                }
+            }
+        };
+        EntityInspector.prototype.updateHighlight = function () {
+            var map = this.viewer.map;
+            if (this.highlight == null) {
+                this.highlight = new WebGame.DebugLine(this.viewer);
+                this.highlight.setColor(this.highlightColor, new Facepunch.Vector3(1, 1, 1));
+                this.highlight.frequency = 1;
+            }
+            var line = this.highlight;
+            map.removeDynamicItem(line);
+            line.clear();
+            if (this.selection == null || !this.getBounds(this.selection, this.min, this.max)) {
+                line.update();
+                return;
+            }
+            EntityInspector.drawBox(line, this.min, this.max);
+            line.update();
+            map.addDynamicItem(line);
+        };
+        EntityInspector.prototype.getMaterialNames = function (result) {
+            var names = [];
+            var items = [];
+            if (result.entity instanceof SourceUtils.Entities.BrushEntity) {
+                var leaves = result.entity.model.getLeaves();
+                if (leaves != null)
+                    items.push.apply(items, leaves);
+            }
+            else if (result.entity != null) {
+                items.push(result.entity);
+            }
+            else if (result.leaf != null) {
+                items.push(result.leaf);
+            }
+            for (var _i = 0, items_1 = items; _i < items_1.length; _i++) {
+                var item = items_1[_i];
+                var handles = item.getMeshHandles();
+                if (handles == null)
+                    continue;
+                for (var _a = 0, handles_1 = handles; _a < handles_1.length; _a++) {
+                    var handle = handles_1[_a];
+                    if (handle.material == null)
+                        continue;
+                    var name_1 = this.viewer.mapMaterialLoader.getMaterialName(handle.material);
+                    if (name_1 != null && names.indexOf(name_1) === -1)
+                        names.push(name_1);
+                }
+            }
+            return names.sort();
+        };
+        EntityInspector.formatVector = function (vec) {
+            return vec.x.toFixed(1) + " " + vec.y.toFixed(1) + " " + vec.z.toFixed(1);
+        };
+        // Rows shown in the side panel for the given pick, as label and value pairs
+        EntityInspector.prototype.onDescribe = function (result) {
+            var rows = [];
+            var entity = result.entity;
+            var leaf = result.leaf;
+            if (entity != null) {
+                rows.push(["Classname", entity.classname]);
+                if (entity.targetname != null)
+                    rows.push(["Targetname", entity.targetname]);
+                rows.push(["Origin", EntityInspector.formatVector(entity.getPosition(this.temp))]);
+                if (entity.angles != null)
+                    rows.push(["Angles", EntityInspector.formatVector(entity.angles)]);
+                if (entity instanceof SourceUtils.Entities.BrushEntity)
+                    rows.push(["Model", "*" + entity.modelIndex]);
+                else if (entity instanceof SourceUtils.Entities.StaticProp)
+                    rows.push(["Model", entity.modelIndex.toString()]);
+            }
+            else if (leaf != null) {
+                rows.push(["Classname", "worldspawn"]);
+                rows.push(["Leaf", leaf.index.toString()]);
+            }
+            var clusters = null;
+            if (entity instanceof SourceUtils.Entities.PvsEntity)
+                clusters = entity.getClusters();
+            else if (leaf != null && leaf.cluster !== undefined)
+                clusters = [leaf.cluster];
+            rows.push(["Clusters", clusters == null ? "all" : clusters.join(", ")]);
+            rows.push(["Hit", EntityInspector.formatVector(result.position)]);
+            var materials = this.getMaterialNames(result);
+            if (materials.length > 0)
+                rows.push(["Materials", materials.join("\n")]);
+            var info = this.viewer.map.getEntityInfo(entity);
+            if (info != null && info.connections != null) {
+                var outputs = info.connections.map(function (x) { return x.output + " \u2192 " + x.target + "." + x.input; });
+                rows.push(["Outputs", outputs.join("\n")]);
+            }
+            if (entity != null && entity.keyvalues != null) {
+                for (var _i = 0, _a = Object.keys(entity.keyvalues).sort(); _i < _a.length; _i++) {
+                    var key = _a[_i];
+                    rows.push([key, entity.keyvalues[key]]);
+                }
+            }
+            return rows;
+        };
+        EntityInspector.prototype.onCreatePanel = function () {
+            var panel = document.createElement("div");
+            panel.classList.add("side-panel", "inspector-panel");
+            // Clicks on the panel shouldn't pick whatever is behind it
+            panel.addEventListener("mousedown", function (ev) { return ev.stopPropagation(); });
+            this.viewer.container.appendChild(panel);
+            return panel;
+        };
+        EntityInspector.prototype.updatePanel = function () {
+            var _this = this;
+            if (this.selection == null) {
+                if (this.panel != null)
+                    this.panel.style.display = "none";
+                return;
+            }
+            if (this.panel == null)
+                this.panel = this.onCreatePanel();
+            var panel = this.panel;
+            panel.style.display = null;
+            panel.innerHTML = "";
+            var close = document.createElement("span");
+            close.classList.add("close");
+            close.innerText = "×";
+            close.addEventListener("click", function (ev) { return _this.select(null); });
+            panel.appendChild(close);
+            for (var _i = 0, _a = this.onDescribe(this.selection); _i < _a.length; _i++) {
+                var row = _a[_i];
+                var label = document.createElement("span");
+                label.classList.add("label");
+                label.innerText = row[0] + ":";
+                var value = document.createElement("span");
+                value.classList.add("value");
+                value.innerText = row[1];
+                panel.appendChild(label);
+                panel.appendChild(value);
+                panel.appendChild(document.createElement("br"));
+            }
+        };
+        // Forgets the selection when a new map is loaded
+        EntityInspector.prototype.clear = function () {
+            this.selection = null;
+            if (this.highlight != null) {
+                this.viewer.map.removeDynamicItem(this.highlight);
+                this.highlight.dispose();
+                this.highlight = null;
+            }
+            this.updatePanel();
+        };
+        return EntityInspector;
+    }());
+    EntityInspector.rayBox_invDir = new Facepunch.Vector3();
+    EntityInspector.drawBox_corner = new Facepunch.Vector3();
+    SourceUtils.EntityInspector = EntityInspector;
 })(SourceUtils || (SourceUtils = {}));
-/// <reference path="../js/facepunch.webgame.d.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
     var WebGame = Facepunch.WebGame;
-    var Map = (function () {
-        function Map(viewer) {
-            this.namedEntities = {};
-            this.clusterVis = {};
-            this.clusterEnts = {};
-            this.worldspawnLoadedCallbacks = [];
+    var IoConnectionType;
+    (function (IoConnectionType) {
+        IoConnectionType[IoConnectionType["Output"] = 0] = "Output";
+        IoConnectionType[IoConnectionType["RopeKeyframe"] = 1] = "RopeKeyframe";
+    })(IoConnectionType = SourceUtils.IoConnectionType || (SourceUtils.IoConnectionType = {}));
+    // Draws lines between entities wired together by outputs, or by keyframe_rope nextKey chains,
+    // labelled with the output and input names
+    var EntityIoOverlay = (function () {
+        function EntityIoOverlay(viewer) {
+            this.showOutputs = true;
+            this.showRopes = false;
+            this.showLabels = true;
+            // Labels drawn at once, nearest to the camera first
+            this.maxLabels = 48;
+            this.outputColor = new Facepunch.Vector3(0.25, 1, 0.5);
+            this.ropeColor = new Facepunch.Vector3(0.75, 0.5, 1);
+            this.enabled = false;
+            this.filter = {};
+            this.invalid = true;
+            this.connections = [];
+            this.lines = {};
+            this.labels = [];
+            this.midpoints = [];
+            this.screenPos = new Facepunch.Vector2();
+            this.cameraPos = new Facepunch.Vector3();
             this.viewer = viewer;
         }
-        Map.prototype.isReady = function () {
-            return this.info != null && this.lightmap != null && this.lightmap.isLoaded() && this.worldspawn.model != null;
+        EntityIoOverlay.prototype.isEnabled = function () {
+            return this.enabled;
         };
-        Map.prototype.unload = function () {
-            throw new Error("Map unloading not implemented.");
+        EntityIoOverlay.prototype.setEnabled = function (value) {
+            if (this.enabled === value)
+                return;
+            this.enabled = value;
+            this.invalidate();
         };
-        Map.prototype.load = function (url) {
-            var _this = this;
-            Facepunch.Http.getJson(url, function (info) {
-                _this.onLoad(info);
-            });
+        EntityIoOverlay.prototype.getFilter = function () {
+            return this.filter;
         };
-        Map.prototype.getLightmapLoadProgress = function () {
-            return this.lightmap == null ? 0 : this.lightmap.getLoadProgress();
+        EntityIoOverlay.prototype.setFilter = function (filter) {
+            this.filter = filter || {};
+            this.invalidate();
         };
-        Map.prototype.onLoad = function (info) {
-            if (this.info != null)
-                this.unload();
-            this.info = info;
-            this.viewer.visLoader.setPageLayout(info.visPages);
-            this.viewer.leafGeometryLoader.setPageLayout(info.leafPages);
-            this.viewer.dispGeometryLoader.setPageLayout(info.dispPages);
-            this.viewer.mapMaterialLoader.setPageLayout(info.materialPages);
-            this.viewer.bspModelLoader.setPageLayout(info.brushModelPages);
-            this.viewer.studioModelLoader.setPageLayout(info.studioModelPages);
-            this.viewer.vertLightingLoader.setPageLayout(info.vertLightingPages);
-            this.viewer.ambientLoader.setPageLayout(info.ambientPages);
-            this.lightmap = this.viewer.textureLoader.load(info.lightmapUrl);
-            this.tSpawns = [];
-            this.ctSpawns = [];
-            this.playerSpawns = [];
-            this.pvsEntities = [];
-            for (var i = 0, iEnd = info.entities.length; i < iEnd; ++i) {
-                var ent = info.entities[i];
-                var inst = null;
-                var pvsInst = null;
-                switch (ent.classname) {
-                    case "worldspawn":
-                        var worldspawn = ent;
-                        this.worldspawn = new SourceUtils.Entities.Worldspawn(this, worldspawn);
-                        this.lightmap.addUsage(this.worldspawn);
-                        if (worldspawn.skyMaterial != null) {
-                            var skyMat = new WebGame.MaterialLoadable(this.viewer);
-                            skyMat.loadFromInfo(worldspawn.skyMaterial);
-                            this.skyCube = new SourceUtils.SkyCube(this.viewer, skyMat);
-                        }
-                        break;
-                    case "env_fog_controller":
-                        var fogController = ent;
-                        var fog = this.viewer.mainCamera.fog;
-                        if (!fogController.fogEnabled)
-                            break;
-                        fog.color.set(fogController.fogColor.r, fogController.fogColor.g, fogController.fogColor.b);
-                        fog.start = fogController.fogStart;
-                        fog.end = fogController.fogEnd;
-                        fog.maxDensity = fogController.fogMaxDensity;
-                        if (fogController.farZ !== 0)
-                            this.viewer.mainCamera.setFar(fogController.farZ);
-                        break;
-                    case "info_player_terrorist":
-                        this.tSpawns.push(ent);
-                        break;
-                    case "info_player_counterterrorist":
-                        this.ctSpawns.push(ent);
-                        break;
-                    case "info_player_start":
-                        this.playerSpawns.push(ent);
-                        break;
-                    case "displacement":
-                        pvsInst = new SourceUtils.Entities.Displacement(this, ent);
-                        break;
-                    case "func_brush":
-                        pvsInst = new SourceUtils.Entities.BrushEntity(this, ent);
-                        break;
-                    case "prop_static":
-                        if (ent.model === -1)
-                            break;
-                        pvsInst = new SourceUtils.Entities.StaticProp(this, ent);
-                        break;
-                    case "sky_camera":
-                        this.skyCamera = new SourceUtils.Entities.SkyCamera(this.viewer, ent);
-                        break;
-                    case "keyframe_rope":
-                        inst = new SourceUtils.Entities.KeyframeRope(this, ent);
-                        break;
-                    case "move_rope":
-                        pvsInst = new SourceUtils.Entities.MoveRope(this, ent);
-                        break;
-                    default:
-                        inst = new SourceUtils.Entities.Entity(this, ent);
-                        break;
-                }
-                if (pvsInst != null) {
-                    this.pvsEntities.push(pvsInst);
-                }
-            }
-            var pos = new Facepunch.Vector3();
-            if (this.viewer.mainCamera.getPosition(pos).x === 0 && pos.y === 0 && pos.z === 0) {
-                var spawn = this.tSpawns[0] || this.ctSpawns[0] || this.playerSpawns[0];
-                this.viewer.mainCamera.setPosition(spawn.origin);
-                this.viewer.mainCamera.translate(0, 0, 64);
-                this.viewer.setCameraAngles((spawn.angles.y - 90) * Math.PI / 180, spawn.angles.x * Math.PI / 180);
-            }
-            this.viewer.forceDrawListInvalidation(true);
+        // Rebuilds the lines on the next update, for when entities or options have changed
+        EntityIoOverlay.prototype.invalidate = function () {
+            this.invalid = true;
         };
-        Map.prototype.addNamedEntity = function (targetname, entity) {
-            this.namedEntities[targetname] = entity;
+        EntityIoOverlay.prototype.getConnections = function () {
+            return this.connections;
         };
-        Map.prototype.getNamedEntity = function (targetname) {
-            return this.namedEntities[targetname];
+        EntityIoOverlay.addToIndex = function (index, name, ent) {
+            if (name == null)
+                return;
+            var key = name.toLowerCase();
+            var list = index[key] || (index[key] = []);
+            list.push(ent);
         };
-        Map.prototype.addPvsEntity = function (entity) {
-            this.pvsEntities.push(entity);
-            this.clusterEnts = {};
+        // Entities an output fires at, with !self resolved. Other ! names depend on who fired it,
+        // and names matching no targetname fall back to classnames like the game does.
+        EntityIoOverlay.prototype.resolveTargets = function (source, target, byName, byClass) {
+            if (target == null || target.length === 0)
+                return [];
+            var lower = target.toLowerCase();
+            if (lower === "!self")
+                return [source];
+            if (lower.charAt(0) === "!")
+                return [];
+            if (lower.indexOf("*") !== -1) {
+                var map = this.viewer.map;
+                var named = map.findEntities({ targetname: target });
+                return named.length > 0 ? named : map.findEntities({ classname: target });
+            }
+            return byName[lower] || byClass[lower] || [];
         };
-        Map.prototype.removePvsEntity = function (entity) {
-            var index = this.pvsEntities.indexOf(entity);
-            if (index !== -1) {
-                this.pvsEntities.splice(index, 1);
-                this.clusterEnts = {};
+        EntityIoOverlay.prototype.matchesFilter = function (conn, entity, output) {
+            if (entity != null) {
+                var found = false;
+                for (var _i = 0, _a = [conn.source, conn.target]; _i < _a.length; _i++) {
+                    var end = _a[_i];
+                    if (entity.test(end.classname) || end.targetname != null && entity.test(end.targetname)) {
+                        found = true;
+                        break;
+                    }
+                }
+                if (!found)
+                    return false;
+            }
+            if (output != null) {
+                if (conn.connection == null)
+                    return false;
+                if (!output.test(conn.connection.output) && !output.test(conn.connection.input))
+                    return false;
             }
+            return true;
         };
-        Map.prototype.getPvsEntitiesInCluster = function (cluster) {
-            var ents = this.clusterEnts[cluster];
-            if (ents !== undefined)
-                return ents;
-            this.clusterEnts[cluster] = ents = [];
-            for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
+        EntityIoOverlay.prototype.findConnections = function () {
+            var map = this.viewer.map;
+            var entity = this.filter.entity != null ? SourceUtils.Map.createPattern(this.filter.entity) : null;
+            var output = this.filter.output != null ? SourceUtils.Map.createPattern(this.filter.output) : null;
+            var byName = {};
+            var byClass = {};
+            for (var _i = 0, _a = map.getEntities(); _i < _a.length; _i++) {
                 var ent = _a[_i];
-                if (ent.isInCluster(cluster)) {
-                    ents.push(ent);
+                EntityIoOverlay.addToIndex(byName, ent.targetname, ent);
+                EntityIoOverlay.addToIndex(byClass, ent.classname, ent);
+            }
+            var connections = [];
+            for (var _b = 0, _c = map.getEntities(); _b < _c.length; _b++) {
+                var ent = _c[_b];
+                if (this.showOutputs && ent.connections != null) {
+                    for (var _d = 0, _e = ent.connections; _d < _e.length; _d++) {
+                        var connection = _e[_d];
+                        for (var _f = 0, _g = this.resolveTargets(ent, connection.target, byName, byClass); _f < _g.length; _f++) {
+                            var target = _g[_f];
+                            var conn = { type: IoConnectionType.Output, source: ent, target: target, connection: connection };
+                            if (this.matchesFilter(conn, entity, output))
+                                connections.push(conn);
+                        }
+                    }
+                }
+                if (this.showRopes && (ent.classname === "keyframe_rope" || ent.classname === "move_rope")) {
+                    // Follows the same links as MoveRope.findKeyframes
+                    var rope = map.getEntityInstance(ent);
+                    var next = rope != null && rope.nextKey != null ? map.getNamedEntity(rope.nextKey) : null;
+                    var target = map.getEntityInfo(next);
+                    if (target == null)
+                        continue;
+                    var conn = { type: IoConnectionType.RopeKeyframe, source: ent, target: target };
+                    if (this.matchesFilter(conn, entity, output))
+                        connections.push(conn);
                 }
             }
-            return ents;
+            return connections;
         };
-        Map.prototype.getLeafAt = function (pos, callback) {
-            var _this = this;
-            if (this.worldspawn == null || !this.worldspawn.model.isLoaded()) {
-                if (callback != null) {
-                    var posCopy_1 = new Facepunch.Vector3().copy(pos);
-                    this.worldspawnLoadedCallbacks.push(function () { return callback(_this.getLeafAt(posCopy_1)); });
+        EntityIoOverlay.prototype.getLine = function (type) {
+            var line = this.lines[type];
+            if (line != null)
+                return line;
+            // The dashes flow from the source towards the target
+            var color = type === IoConnectionType.RopeKeyframe ? this.ropeColor : this.outputColor;
+            this.lines[type] = line = new WebGame.DebugLine(this.viewer);
+            line.setColor(color, new Facepunch.Vector3(1, 1, 1));
+            line.frequency = 0.5;
+            return line;
+        };
+        EntityIoOverlay.prototype.rebuild = function () {
+            var map = this.viewer.map;
+            this.builtOutputs = this.showOutputs;
+            this.builtRopes = this.showRopes;
+            this.connections = this.enabled ? this.findConnections() : [];
+            this.midpoints.splice(0, this.midpoints.length);
+            for (var type in this.lines) {
+                var line = this.lines[type];
+                map.removeDynamicItem(line);
+                line.clear();
+            }
+            var from = new Facepunch.Vector3();
+            var to = new Facepunch.Vector3();
+            for (var _i = 0, _a = this.connections; _i < _a.length; _i++) {
+                var conn = _a[_i];
+                if (map.getEntityCenter(conn.source, from) == null || map.getEntityCenter(conn.target, to) == null) {
+                    this.midpoints.push(null);
+                    continue;
                 }
-                return undefined;
+                var line = this.getLine(conn.type);
+                line.moveTo(from);
+                line.lineTo(to);
+                this.midpoints.push(new Facepunch.Vector3().copy(from).add(to).multiplyScalar(0.5));
+            }
+            for (var type in this.lines) {
+                var line = this.lines[type];
+                line.update();
+                map.addDynamicItem(line);
             }
-            var leaf = this.worldspawn.model.getLeafAt(pos);
-            if (callback != null)
-                callback(leaf);
-            return leaf;
         };
-        Map.prototype.update = function (dt) {
-            if (this.worldspawnLoadedCallbacks.length > 0 && this.worldspawn != null && this.worldspawn.model.isLoaded()) {
-                for (var _i = 0, _a = this.worldspawnLoadedCallbacks; _i < _a.length; _i++) {
-                    var callback = _a[_i];
-                    callback();
+        EntityIoOverlay.getLabelText = function (conn) {
+            if (conn.connection == null)
+                return "nextKey";
+            var connection = conn.connection;
+            var text = connection.output + " \u2192 " + connection.input;
+            if (connection.param != null)
+                text += "(" + connection.param + ")";
+            if (connection.delay > 0)
+                text += " +" + connection.delay + "s";
+            return text;
+        };
+        EntityIoOverlay.prototype.onCreateLabelContainer = function () {
+            var container = document.createElement("div");
+            container.classList.add("io-labels");
+            this.viewer.container.appendChild(container);
+            return container;
+        };
+        EntityIoOverlay.prototype.getLabel = function (index) {
+            var label = this.labels[index];
+            if (label != null)
+                return label;
+            if (this.labelContainer == null)
+                this.labelContainer = this.onCreateLabelContainer();
+            this.labels[index] = label = document.createElement("span");
+            label.classList.add("io-label");
+            this.labelContainer.appendChild(label);
+            return label;
+        };
+        EntityIoOverlay.prototype.updateLabels = function () {
+            var viewer = this.viewer;
+            var order = [];
+            if (this.enabled && this.showLabels && viewer.mainCamera != null) {
+                var cameraPos = viewer.mainCamera.getPosition(this.cameraPos);
+                for (var i = 0; i < this.midpoints.length; ++i) {
+                    var mid = this.midpoints[i];
+                    if (mid == null)
+                        continue;
+                    var dx = mid.x - cameraPos.x;
+                    var dy = mid.y - cameraPos.y;
+                    var dz = mid.z - cameraPos.z;
+                    order.push({ index: i, distanceSq: dx * dx + dy * dy + dz * dz });
                 }
-                this.worldspawnLoadedCallbacks = [];
+                order.sort(function (a, b) { return a.distanceSq - b.distanceSq; });
+            }
+            var shown = 0;
+            for (var _i = 0, order_1 = order; _i < order_1.length; _i++) {
+                var item = order_1[_i];
+                if (shown >= this.maxLabels)
+                    break;
+                if (viewer.worldToScreen(this.midpoints[item.index], this.screenPos) == null)
+                    continue;
+                var label = this.getLabel(shown++);
+                var text = EntityIoOverlay.getLabelText(this.connections[item.index]);
+                if (label.innerText !== text)
+                    label.innerText = text;
+                label.style.display = null;
+                label.style.left = Math.round(this.screenPos.x) + "px";
+                label.style.top = Math.round(this.screenPos.y) + "px";
+            }
+            for (var i = shown; i < this.labels.length; ++i) {
+                this.labels[i].style.display = "none";
             }
         };
-        Map.prototype.populateDrawList = function (drawList, pvsRoot) {
+        // Called each frame after the camera has moved
+        EntityIoOverlay.prototype.update = function () {
+            if (this.showOutputs !== this.builtOutputs || this.showRopes !== this.builtRopes) {
+                this.invalid = true;
+            }
+            if (this.invalid && this.viewer.map.isReady()) {
+                this.invalid = false;
+                this.rebuild();
+            }
+            this.updateLabels();
+        };
+        // Forgets the old map's connections when a new one is loaded
+        EntityIoOverlay.prototype.clear = function () {
+            for (var type in this.lines) {
+                this.viewer.map.removeDynamicItem(this.lines[type]);
+                this.lines[type].dispose();
+            }
+            this.lines = {};
+            this.connections = [];
+            this.midpoints.splice(0, this.midpoints.length);
+            this.invalid = true;
+            this.updateLabels();
+        };
+        return EntityIoOverlay;
+    }());
+    SourceUtils.EntityIoOverlay = EntityIoOverlay;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    // Lists the map's entities in a side panel, filtered by classname, targetname or key=value,
+    // flying the camera to whichever one is clicked
+    var EntityListPanel = (function () {
+        function EntityListPanel(viewer) {
             var _this = this;
-            if (this.worldspawn == null)
-                return;
-            if (pvsRoot != null && this.skyCube != null && (this.skyCamera == null || pvsRoot === this.skyCamera.getLeaf())) {
-                drawList.addItem(this.skyCube);
+            // Rows shown at once, since big maps have thousands of entities
+            this.maxRows = 200;
+            this.viewer = viewer;
+            this.element = document.createElement("div");
+            this.element.classList.add("side-panel", "entity-list-panel");
+            this.filter = document.createElement("input");
+            this.filter.type = "text";
+            this.filter.placeholder = "classname, targetname or key=value";
+            this.filter.classList.add("filter");
+            this.filter.addEventListener("input", function (ev) { return _this.refresh(); });
+            this.element.appendChild(this.filter);
+            this.status = document.createElement("div");
+            this.status.classList.add("status");
+            this.element.appendChild(this.status);
+            this.list = document.createElement("div");
+            this.list.classList.add("list");
+            this.element.appendChild(this.list);
+            // Keep typing and scrolling from reaching the viewer's own controls
+            for (var _i = 0, _a = ["keydown", "keyup"]; _i < _a.length; _i++) {
+                var type = _a[_i];
+                this.filter.addEventListener(type, function (ev) { return ev.stopPropagation(); });
             }
-            var vis = null;
-            if (this.worldspawn.model != null && pvsRoot != null && pvsRoot.cluster !== undefined) {
-                var cluster_1 = pvsRoot.cluster;
-                vis = this.clusterVis[cluster_1];
-                if (vis === undefined) {
-                    var immediate_1 = true;
-                    this.viewer.visLoader.load(cluster_1, function (loaded) {
-                        _this.clusterVis[cluster_1] = vis = loaded;
-                        if (!immediate_1)
-                            _this.viewer.forceDrawListInvalidation(true);
-                    });
-                    immediate_1 = false;
-                    if (vis === undefined) {
-                        this.clusterVis[cluster_1] = vis = null;
-                    }
-                }
+            for (var _b = 0, _c = ["mousedown", "mousewheel"]; _b < _c.length; _b++) {
+                var type = _c[_b];
+                this.element.addEventListener(type, function (ev) { return ev.stopPropagation(); });
             }
-            this.worldspawn.populateDrawList(drawList, vis);
-            if (vis == null) {
-                for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
-                    var ent = _a[_i];
-                    drawList.addItem(ent);
-                }
-                return;
+            viewer.container.appendChild(this.element);
+        }
+        EntityListPanel.prototype.setVisible = function (visible) {
+            this.element.style.display = visible ? null : "none";
+        };
+        // Entities matching the given filter text, or all of them if it is empty
+        EntityListPanel.prototype.onFilter = function (text) {
+            var map = this.viewer.map;
+            text = text.trim();
+            if (text.length === 0)
+                return map.getEntities();
+            var split = text.indexOf("=");
+            if (split !== -1) {
+                var key = text.substr(0, split).trim();
+                var value = text.substr(split + 1).trim();
+                return map.findEntities({
+                    key: key.length > 0 ? key : undefined,
+                    value: value.length > 0 ? value : undefined
+                });
             }
-            for (var _b = 0, vis_1 = vis; _b < vis_1.length; _b++) {
-                var cluster = vis_1[_b];
-                var ents = this.getPvsEntitiesInCluster(cluster);
-                for (var _c = 0, ents_1 = ents; _c < ents_1.length; _c++) {
-                    var ent = ents_1[_c];
-                    if (ent.getIsInDrawList(drawList))
-                        continue;
-                    ent.populateDrawList(drawList, vis);
+            var pattern = "*" + text + "*";
+            var byTargetname = map.findEntities({ targetname: pattern });
+            return map.findEntities({ classname: pattern })
+                .concat(byTargetname)
+                .filter(function (ent, index, array) { return array.indexOf(ent) === index; });
+        };
+        EntityListPanel.prototype.refresh = function () {
+            var _this = this;
+            var matches = this.onFilter(this.filter.value);
+            this.list.innerHTML = "";
+            var _loop_3 = function (i, iEnd) {
+                var ent = matches[i];
+                var row = document.createElement("div");
+                row.classList.add("row");
+                var classname = document.createElement("span");
+                classname.classList.add("classname");
+                classname.innerText = ent.classname;
+                row.appendChild(classname);
+                if (ent.targetname != null) {
+                    var targetname = document.createElement("span");
+                    targetname.classList.add("label");
+                    targetname.innerText = ent.targetname;
+                    row.appendChild(targetname);
                 }
+                row.addEventListener("click", function (ev) { return _this.viewer.flyToEntity(ent); });
+                this_3.list.appendChild(row);
+            };
+            var this_3 = this;
+            for (var i = 0, iEnd = Math.min(matches.length, this.maxRows); i < iEnd; ++i) {
+                _loop_3(i, iEnd);
             }
+            this.status.innerText = matches.length > this.maxRows
+                ? "Showing " + this.maxRows + " of " + matches.length + " entities"
+                : matches.length + " entities";
         };
-        Map.prototype.populateCommandBufferParameters = function (buf) {
-            var lightmap = this.lightmap != null && this.lightmap.isLoaded()
-                ? this.lightmap
-                : WebGame.TextureUtils.getWhiteTexture(this.viewer.context);
-            buf.setParameter(Map.lightmapParam, lightmap);
+        EntityListPanel.prototype.dispose = function () {
+            if (this.element.parentElement != null) {
+                this.element.parentElement.removeChild(this.element);
+            }
         };
-        return Map;
+        return EntityListPanel;
     }());
-    Map.lightmapParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Texture);
-    SourceUtils.Map = Map;
+    SourceUtils.EntityListPanel = EntityListPanel;
 })(SourceUtils || (SourceUtils = {}));
-/// <reference path="PagedLoader.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
     var WebGame = Facepunch.WebGame;
-    var MapMaterialPage = (function (_super) {
-        __extends(MapMaterialPage, _super);
-        function MapMaterialPage(viewer, page) {
-            var _this = _super.call(this, page) || this;
-            _this.viewer = viewer;
-            return _this;
+    var InputAction;
+    (function (InputAction) {
+        InputAction[InputAction["MoveForward"] = 0] = "MoveForward";
+        InputAction[InputAction["MoveBack"] = 1] = "MoveBack";
+        InputAction[InputAction["MoveLeft"] = 2] = "MoveLeft";
+        InputAction[InputAction["MoveRight"] = 3] = "MoveRight";
+        InputAction[InputAction["Sprint"] = 4] = "Sprint";
+        InputAction[InputAction["Slow"] = 5] = "Slow";
+        InputAction[InputAction["Jump"] = 6] = "Jump";
+        InputAction[InputAction["Duck"] = 7] = "Duck";
+        InputAction[InputAction["ToggleWalk"] = 8] = "ToggleWalk";
+        InputAction[InputAction["ToggleFullscreen"] = 9] = "ToggleFullscreen";
+    })(InputAction = SourceUtils.InputAction || (SourceUtils.InputAction = {}));
+    // Buttons in the standard gamepad mapping
+    var GamepadButton;
+    (function (GamepadButton) {
+        GamepadButton[GamepadButton["A"] = 0] = "A";
+        GamepadButton[GamepadButton["B"] = 1] = "B";
+        GamepadButton[GamepadButton["X"] = 2] = "X";
+        GamepadButton[GamepadButton["Y"] = 3] = "Y";
+        GamepadButton[GamepadButton["LeftBumper"] = 4] = "LeftBumper";
+        GamepadButton[GamepadButton["RightBumper"] = 5] = "RightBumper";
+        GamepadButton[GamepadButton["LeftTrigger"] = 6] = "LeftTrigger";
+        GamepadButton[GamepadButton["RightTrigger"] = 7] = "RightTrigger";
+        GamepadButton[GamepadButton["Back"] = 8] = "Back";
+        GamepadButton[GamepadButton["Start"] = 9] = "Start";
+        GamepadButton[GamepadButton["LeftStick"] = 10] = "LeftStick";
+        GamepadButton[GamepadButton["RightStick"] = 11] = "RightStick";
+        GamepadButton[GamepadButton["DPadUp"] = 12] = "DPadUp";
+        GamepadButton[GamepadButton["DPadDown"] = 13] = "DPadDown";
+        GamepadButton[GamepadButton["DPadLeft"] = 14] = "DPadLeft";
+        GamepadButton[GamepadButton["DPadRight"] = 15] = "DPadRight";
+    })(GamepadButton = SourceUtils.GamepadButton || (SourceUtils.GamepadButton = {}));
+    var InputBindings = (function () {
+        function InputBindings() {
+            this.keys = {};
+            this.buttons = {};
         }
-        MapMaterialPage.prototype.onLoadValues = function (page) {
-            this.materials = page.materials;
-            var textures = page.textures;
-            for (var i = 0, iEnd = this.materials.length; i < iEnd; ++i) {
-                var mat = this.materials[i];
-                if (mat == null)
-                    continue;
-                var props = mat.properties;
-                for (var j = 0, jEnd = props.length; j < jEnd; ++j) {
-                    var prop = props[j];
-                    if (prop.type !== WebGame.MaterialPropertyType.TextureIndex)
-                        continue;
-                    prop.type = WebGame.MaterialPropertyType.TextureInfo;
-                    prop.value = textures[prop.value];
-                }
+        InputBindings.createDefault = function () {
+            var bindings = new InputBindings();
+            bindings.bindKey(InputAction.MoveForward, WebGame.Key.W);
+            bindings.bindKey(InputAction.MoveBack, WebGame.Key.S);
+            bindings.bindKey(InputAction.MoveLeft, WebGame.Key.A);
+            bindings.bindKey(InputAction.MoveRight, WebGame.Key.D);
+            bindings.bindKey(InputAction.Sprint, WebGame.Key.Shift);
+            bindings.bindKey(InputAction.Slow, WebGame.Key.Alt);
+            bindings.bindKey(InputAction.Jump, WebGame.Key.Space);
+            bindings.bindKey(InputAction.Duck, WebGame.Key.C);
+            bindings.bindKey(InputAction.ToggleWalk, WebGame.Key.V);
+            bindings.bindKey(InputAction.ToggleFullscreen, WebGame.Key.F);
+            bindings.bindButton(InputAction.Sprint, GamepadButton.LeftStick);
+            bindings.bindButton(InputAction.Slow, GamepadButton.LeftBumper);
+            bindings.bindButton(InputAction.Jump, GamepadButton.A);
+            bindings.bindButton(InputAction.Duck, GamepadButton.B);
+            bindings.bindButton(InputAction.ToggleWalk, GamepadButton.Y);
+            return bindings;
+        };
+        InputBindings.prototype.bindKey = function (action, key) {
+            var keys = this.keys[action] || (this.keys[action] = []);
+            if (keys.indexOf(key) === -1)
+                keys.push(key);
+        };
+        // Removes the given key from the action, or all of its keys if none is given
+        InputBindings.prototype.unbindKey = function (action, key) {
+            var keys = this.keys[action];
+            if (keys == null)
+                return;
+            if (key === undefined)
+                keys.splice(0, keys.length);
+            else if (keys.indexOf(key) !== -1)
+                keys.splice(keys.indexOf(key), 1);
+        };
+        InputBindings.prototype.getKeys = function (action) {
+            return this.keys[action] || [];
+        };
+        InputBindings.prototype.getActionsForKey = function (key) {
+            var actions = [];
+            for (var action in this.keys) {
+                if (this.keys[action].indexOf(key) !== -1)
+                    actions.push(parseInt(action));
             }
-            _super.prototype.onLoadValues.call(this, page);
+            return actions;
         };
-        MapMaterialPage.prototype.onGetValue = function (index) {
-            return this.materials[index];
+        InputBindings.prototype.bindButton = function (action, button) {
+            var buttons = this.buttons[action] || (this.buttons[action] = []);
+            if (buttons.indexOf(button) === -1)
+                buttons.push(button);
         };
-        return MapMaterialPage;
-    }(SourceUtils.ResourcePage));
-    SourceUtils.MapMaterialPage = MapMaterialPage;
-    var MapMaterialLoader = (function (_super) {
-        __extends(MapMaterialLoader, _super);
-        function MapMaterialLoader(viewer) {
-            var _this = _super.call(this) || this;
-            _this.materials = {};
-            _this.viewer = viewer;
-            return _this;
+        InputBindings.prototype.unbindButton = function (action, button) {
+            var buttons = this.buttons[action];
+            if (buttons == null)
+                return;
+            if (button === undefined)
+                buttons.splice(0, buttons.length);
+            else if (buttons.indexOf(button) !== -1)
+                buttons.splice(buttons.indexOf(button), 1);
+        };
+        InputBindings.prototype.getButtons = function (action) {
+            return this.buttons[action] || [];
+        };
+        return InputBindings;
+    }());
+    SourceUtils.InputBindings = InputBindings;
+    // What a two finger touch is being used for, decided by whatever it does first
+    var TouchGesture;
+    (function (TouchGesture) {
+        TouchGesture[TouchGesture["None"] = 0] = "None";
+        TouchGesture[TouchGesture["Move"] = 1] = "Move";
+        TouchGesture[TouchGesture["Pinch"] = 2] = "Pinch";
+    })(TouchGesture || (TouchGesture = {}));
+    // Gathers keyboard, touch and gamepad input into movement and look amounts for each frame
+    var InputController = (function () {
+        function InputController(viewer) {
+            this.bindings = InputBindings.createDefault();
+            this.enableTouch = true;
+            this.enableGamepad = true;
+            // Radians of look per pixel dragged with one finger
+            this.touchLookSensitivity = 1 / 400;
+            // Pixels from where two fingers started for full speed movement
+            this.touchMoveRadius = 64;
+            // Pixels two fingers must move together, or apart, before they start moving or zooming
+            this.touchGestureThreshold = 16;
+            this.minFov = 20;
+            this.maxFov = 110;
+            this.gamepadDeadZone = 0.15;
+            // Radians per second of look at full right stick
+            this.gamepadLookSpeed = 3;
+            // Movement for this frame, from -1 to 1 (x is right, y is forward)
+            this.move = new Facepunch.Vector2();
+            // Look for this frame in radians, with the same signs as mouse look
+            this.look = new Facepunch.Vector2();
+            this.touchLook = new Facepunch.Vector2();
+            this.touchMove = new Facepunch.Vector2();
+            this.touchStart = new Facepunch.Vector2();
+            this.lastTouch = new Facepunch.Vector2();
+            this.touchCount = 0;
+            this.touchGesture = TouchGesture.None;
+            this.heldButtons = [];
+            this.gamepadActions = {};
+            this.onTouchMove_temp = new Facepunch.Vector2();
+            this.viewer = viewer;
         }
-        MapMaterialLoader.prototype.loadMaterial = function (index) {
-            var material = this.materials[index];
-            if (material !== undefined)
-                return material;
-            this.materials[index] = material = new WebGame.MaterialLoadable(this.viewer);
-            this.load(index, function (info) { return info == null ? null : material.loadFromInfo(info); });
-            return material;
+        InputController.prototype.attach = function (container) {
+            var _this = this;
+            container.addEventListener("touchstart", function (ev) { return _this.onTouchChange(ev); });
+            container.addEventListener("touchend", function (ev) { return _this.onTouchChange(ev); });
+            container.addEventListener("touchcancel", function (ev) { return _this.onTouchChange(ev); });
+            container.addEventListener("touchmove", function (ev) { return _this.onTouchMove(ev); });
         };
-        MapMaterialLoader.prototype.onCreatePage = function (page) {
-            return new MapMaterialPage(this.viewer, page);
+        InputController.getCentroid = function (touches, out) {
+            if (touches.length === 1)
+                return out.set(touches[0].pageX, touches[0].pageY);
+            return out.set((touches[0].pageX + touches[1].pageX) * 0.5, (touches[0].pageY + touches[1].pageY) * 0.5);
         };
-        return MapMaterialLoader;
-    }(SourceUtils.PagedLoader));
-    SourceUtils.MapMaterialLoader = MapMaterialLoader;
+        InputController.getDistance = function (touches) {
+            var dx = touches[1].pageX - touches[0].pageX;
+            var dy = touches[1].pageY - touches[0].pageY;
+            return Math.sqrt(dx * dx + dy * dy);
+        };
+        // Touches on the side panels and other overlays are left alone, so they can still
+        // scroll and take focus. Only touches that started on the canvas are counted.
+        InputController.prototype.isCanvasTouch = function (ev) {
+            return ev.target === this.viewer.canvas;
+        };
+        InputController.prototype.onTouchChange = function (ev) {
+            if (!this.enableTouch || !this.isCanvasTouch(ev))
+                return;
+            var touches = ev.targetTouches;
+            this.touchCount = touches.length;
+            this.touchMove.set(0, 0);
+            this.touchGesture = TouchGesture.None;
+            if (touches.length === 0)
+                return;
+            InputController.getCentroid(touches, this.touchStart);
+            this.lastTouch.copy(this.touchStart);
+            if (touches.length >= 2) {
+                this.touchStartDistance = InputController.getDistance(touches);
+                this.touchStartFov = this.viewer.mainCamera.getFov();
+            }
+            // A single finger might just be a tap, which still needs to become a click for picking
+            if (touches.length >= 2 && this.viewer.cameraMode !== SourceUtils.CameraMode.Fixed)
+                ev.preventDefault();
+        };
+        InputController.prototype.onTouchMove = function (ev) {
+            if (!this.enableTouch || this.viewer.cameraMode === SourceUtils.CameraMode.Fixed || !this.isCanvasTouch(ev))
+                return;
+            ev.preventDefault();
+            var touches = ev.targetTouches;
+            var pos = InputController.getCentroid(touches, this.onTouchMove_temp);
+            if (touches.length === 1) {
+                this.touchLook.x += (pos.x - this.lastTouch.x) * this.touchLookSensitivity;
+                this.touchLook.y += (pos.y - this.lastTouch.y) * this.touchLookSensitivity;
+                this.lastTouch.copy(pos);
+                return;
+            }
+            // Two fingers either act as a joystick around where they started or pinch to zoom,
+            // but not both, so zooming doesn't drift the camera
+            var distance = InputController.getDistance(touches);
+            if (this.touchGesture === TouchGesture.None) {
+                var threshold = this.touchGestureThreshold;
+                var dx = pos.x - this.touchStart.x;
+                var dy = pos.y - this.touchStart.y;
+                if (Math.abs(distance - this.touchStartDistance) > threshold)
+                    this.touchGesture = TouchGesture.Pinch;
+                else if (dx * dx + dy * dy > threshold * threshold)
+                    this.touchGesture = TouchGesture.Move;
+            }
+            if (this.touchGesture === TouchGesture.Move) {
+                var radius = this.touchMoveRadius;
+                this.touchMove.set(Math.max(-1, Math.min(1, (pos.x - this.touchStart.x) / radius)), Math.max(-1, Math.min(1, (this.touchStart.y - pos.y) / radius)));
+            }
+            else if (this.touchGesture === TouchGesture.Pinch && this.touchStartDistance > 0 && distance > 0) {
+                var fov = this.touchStartFov * this.touchStartDistance / distance;
+                this.viewer.mainCamera.setFov(Math.max(this.minFov, Math.min(this.maxFov, fov)));
+            }
+        };
+        InputController.prototype.isKeyActionDown = function (action) {
+            for (var _i = 0, _a = this.bindings.getKeys(action); _i < _a.length; _i++) {
+                var key = _a[_i];
+                if (this.viewer.isKeyDown(key))
+                    return true;
+            }
+            return false;
+        };
+        // Keyboard movement needs pointer lock, like mouse look
+        InputController.prototype.isActionDown = function (action) {
+            return this.viewer.isPointerLocked() && this.isKeyActionDown(action) || this.gamepadActions[action] === true;
+        };
+        InputController.prototype.applyDeadZone = function (value) {
+            var deadZone = this.gamepadDeadZone;
+            if (Math.abs(value) <= deadZone)
+                return 0;
+            return (value - (value > 0 ? deadZone : -deadZone)) / (1 - deadZone);
+        };
+        InputController.prototype.getGamepad = function () {
+            if (!this.enableGamepad || navigator.getGamepads == null)
+                return null;
+            var gamepads = navigator.getGamepads();
+            for (var i = 0; i < gamepads.length; ++i) {
+                if (gamepads[i] != null && gamepads[i].connected)
+                    return gamepads[i];
+            }
+            return null;
+        };
+        InputController.prototype.updateGamepad = function (dt) {
+            var gamepad = this.getGamepad();
+            this.gamepadActions = {};
+            if (gamepad == null) {
+                this.heldButtons = [];
+                return;
+            }
+            if (gamepad.axes.length >= 4) {
+                this.move.x += this.applyDeadZone(gamepad.axes[0]);
+                this.move.y -= this.applyDeadZone(gamepad.axes[1]);
+                this.look.x += this.applyDeadZone(gamepad.axes[2]) * this.gamepadLookSpeed * dt;
+                this.look.y += this.applyDeadZone(gamepad.axes[3]) * this.gamepadLookSpeed * dt;
+            }
+            var held = [];
+            for (var i = 0; i < gamepad.buttons.length; ++i) {
+                held[i] = gamepad.buttons[i].pressed;
+            }
+            for (var action = InputAction.MoveForward; action <= InputAction.ToggleFullscreen; ++action) {
+                for (var _i = 0, _a = this.bindings.getButtons(action); _i < _a.length; _i++) {
+                    var button = _a[_i];
+                    if (!held[button])
+                        continue;
+                    this.gamepadActions[action] = true;
+                    if (!this.heldButtons[button] && this.actionHandler != null) {
+                        this.actionHandler(action);
+                    }
+                }
+            }
+            this.heldButtons = held;
+        };
+        InputController.prototype.onKeyDown = function (key) {
+            var handled = false;
+            for (var _i = 0, _a = this.bindings.getActionsForKey(key); _i < _a.length; _i++) {
+                var action = _a[_i];
+                if (this.actionHandler != null && this.actionHandler(action))
+                    handled = true;
+            }
+            return handled;
+        };
+        InputController.prototype.update = function (dt) {
+            this.move.set(0, 0);
+            this.look.copy(this.touchLook);
+            this.touchLook.set(0, 0);
+            this.updateGamepad(dt);
+            if (this.isActionDown(InputAction.MoveForward))
+                this.move.y += 1;
+            if (this.isActionDown(InputAction.MoveBack))
+                this.move.y -= 1;
+            if (this.isActionDown(InputAction.MoveRight))
+                this.move.x += 1;
+            if (this.isActionDown(InputAction.MoveLeft))
+                this.move.x -= 1;
+            if (this.touchCount >= 2)
+                this.move.add(this.touchMove);
+            var lengthSq = this.move.x * this.move.x + this.move.y * this.move.y;
+            if (lengthSq > 1)
+                this.move.multiplyScalar(1 / Math.sqrt(lengthSq));
+        };
+        return InputController;
+    }());
+    SourceUtils.InputController = InputController;
+})(SourceUtils || (SourceUtils = {}));
+/// <reference path="PagedLoader.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var LeafGeometryPage = (function (_super) {
+        __extends(LeafGeometryPage, _super);
+        function LeafGeometryPage(viewer, page) {
+            var _this = _super.call(this, page) || this;
+            _this.viewer = viewer;
+            return _this;
+        }
+        LeafGeometryPage.prototype.getDecoder = function () {
+            return "meshes";
+        };
+        LeafGeometryPage.prototype.onLoadValues = function (page) {
+            this.matGroups = new Array(page.materials.length);
+            this.leafFaces = page.leaves;
+            var _loop_4 = function (i, iEnd) {
+                var matGroup = page.materials[i];
+                var mat = this_4.viewer.mapMaterialLoader.loadMaterial(matGroup.material);
+                var data = SourceUtils.BinaryPage.toMeshData(matGroup.meshData);
+                this_4.matGroups[i] = this_4.viewer.meshes.addMeshData(SourceUtils.BinaryPage.asMeshData(data), function (index) { return mat; });
+            };
+            var this_4 = this;
+            for (var i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
+                _loop_4(i, iEnd);
+            }
+            _super.prototype.onLoadValues.call(this, page);
+        };
+        LeafGeometryPage.prototype.onGetValue = function (index) {
+            var leafFaces = this.leafFaces[index];
+            var handles = new Array(leafFaces.length);
+            for (var i = 0, iEnd = leafFaces.length; i < iEnd; ++i) {
+                var leafFace = leafFaces[i];
+                handles[i] = this.matGroups[leafFace.material][leafFace.element];
+            }
+            return handles;
+        };
+        return LeafGeometryPage;
+    }(SourceUtils.ResourcePage));
+    SourceUtils.LeafGeometryPage = LeafGeometryPage;
+    var LeafGeometryLoader = (function (_super) {
+        __extends(LeafGeometryLoader, _super);
+        function LeafGeometryLoader(viewer) {
+            var _this = _super.call(this) || this;
+            _this.viewer = viewer;
+            return _this;
+        }
+        LeafGeometryLoader.prototype.onCreatePage = function (page) {
+            return new LeafGeometryPage(this.viewer, page);
+        };
+        return LeafGeometryLoader;
+    }(SourceUtils.PagedLoader));
+    SourceUtils.LeafGeometryLoader = LeafGeometryLoader;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var LoadingOverlay = (function () {
+        function LoadingOverlay(container) {
+            this.bars = {};
+            this.element = document.createElement("div");
+            this.element.classList.add("loading-overlay");
+            var title = document.createElement("div");
+            title.classList.add("title");
+            title.innerText = "Loading map";
+            this.element.appendChild(title);
+            this.totalBar = this.addBar(this.element, "total");
+            this.status = document.createElement("div");
+            this.status.classList.add("status");
+            this.element.appendChild(this.status);
+            for (var _i = 0, _a = LoadingOverlay.getCategories(); _i < _a.length; _i++) {
+                var category = _a[_i];
+                var row = document.createElement("div");
+                row.classList.add("category");
+                var label = document.createElement("span");
+                label.classList.add("label");
+                label.innerText = LoadingOverlay.categoryLabels[category];
+                row.appendChild(label);
+                this.bars[category] = this.addBar(row, category);
+                this.element.appendChild(row);
+            }
+            container.appendChild(this.element);
+        }
+        LoadingOverlay.getCategories = function () {
+            return Object.keys(LoadingOverlay.categoryLabels);
+        };
+        LoadingOverlay.prototype.addBar = function (parent, name) {
+            var bar = document.createElement("div");
+            bar.classList.add("bar", "bar-" + name);
+            var fill = document.createElement("div");
+            fill.classList.add("fill");
+            bar.appendChild(fill);
+            parent.appendChild(bar);
+            return fill;
+        };
+        LoadingOverlay.formatBytes = function (bytes) {
+            if (bytes < 1024)
+                return bytes + " B";
+            if (bytes < 1024 * 1024)
+                return (bytes / 1024).toFixed(1) + " KB";
+            return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+        };
+        LoadingOverlay.prototype.setVisible = function (visible) {
+            this.element.style.display = visible ? null : "none";
+        };
+        LoadingOverlay.prototype.update = function (progress) {
+            this.totalBar.style.width = Math.min(progress.total, 1) * 100 + "%";
+            var status = Math.floor(progress.total * 100) + "% (" + LoadingOverlay.formatBytes(progress.bytesLoaded) + ")";
+            if (progress.failedPages > 0)
+                status += ", " + progress.failedPages + " failed";
+            this.status.innerText = status;
+            for (var _i = 0, _a = LoadingOverlay.getCategories(); _i < _a.length; _i++) {
+                var category = _a[_i];
+                var value = progress.categories[category];
+                this.bars[category].style.width = (value == null ? 0 : Math.min(value.progress, 1) * 100) + "%";
+            }
+        };
+        LoadingOverlay.prototype.dispose = function () {
+            if (this.element.parentElement != null) {
+                this.element.parentElement.removeChild(this.element);
+            }
+        };
+        return LoadingOverlay;
+    }());
+    LoadingOverlay.categoryLabels = {
+        vis: "Visibility",
+        bsp: "Brush models",
+        lightmap: "Lightmap",
+        materials: "Materials",
+        geometry: "Geometry",
+        props: "Props"
+    };
+    SourceUtils.LoadingOverlay = LoadingOverlay;
+})(SourceUtils || (SourceUtils = {}));
+/// <reference path="../js/facepunch.webgame.d.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var Map = (function () {
+        function Map(viewer) {
+            this.namedEntities = {};
+            this.pvsEntities = [];
+            // Created entity for each of info.entities, or null for ones only kept as info
+            this.entityInstances = [];
+            this.clusterVis = {};
+            this.clusterEnts = {};
+            // Clusters potentially visible from each cluster, built from clusterVis when first needed
+            this.visibleClusterSets = {};
+            this.worldspawnLoadedCallbacks = [];
+            this.activeRopes = [];
+            // Items added from outside the map, drawn regardless of visibility
+            this.dynamicItems = [];
+            this.lightmapObjectUrls = [];
+            this.trace_result = new SourceUtils.TraceResult();
+            this.trace_origin = new Facepunch.Vector3();
+            this.trace_start = new Facepunch.Vector3();
+            this.trace_end = new Facepunch.Vector3();
+            this.viewer = viewer;
+        }
+        Map.prototype.isReady = function () {
+            return this.info != null && this.lightmap != null && this.lightmap.isLoaded() && this.worldspawn.model != null;
+        };
+        Map.prototype.unload = function () {
+            var viewer = this.viewer;
+            viewer.visLoader.clear();
+            viewer.leafGeometryLoader.clear();
+            viewer.dispGeometryLoader.clear();
+            viewer.mapMaterialLoader.clear();
+            viewer.bspModelLoader.clear();
+            viewer.studioModelLoader.clear();
+            viewer.vertLightingLoader.clear();
+            viewer.ambientLoader.clear();
+            viewer.mapTextureLoader.clear();
+            viewer.meshes.dispose();
+            for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (ent instanceof SourceUtils.Entities.MoveRope)
+                    ent.dispose();
+            }
+            if (this.skyCamera != null) {
+                this.skyCamera.dispose();
+                this.skyCamera = null;
+            }
+            this.lightEnvironment = null;
+            for (var _b = 0, _c = this.lightmapObjectUrls; _b < _c.length; _b++) {
+                var url = _c[_b];
+                URL.revokeObjectURL(url);
+            }
+            this.lightmapObjectUrls = [];
+            this.cacheScope = null;
+            viewer.setPageCacheScope(null);
+            this.info = null;
+            this.lightmap = null;
+            this.skyCube = null;
+            this.worldspawn = null;
+            this.tSpawns = [];
+            this.ctSpawns = [];
+            this.playerSpawns = [];
+            this.bombTargets = [];
+            this.namedEntities = {};
+            this.pvsEntities = [];
+            this.entityInstances = [];
+            this.clusterVis = {};
+            this.clusterEnts = {};
+            this.visibleClusterSets = {};
+            this.worldspawnLoadedCallbacks = [];
+            this.activeRopes = [];
+            this.dynamicItems = [];
+            var fog = viewer.mainCamera.fog;
+            fog.color.set(0, 0, 0);
+            fog.start = 0;
+            fog.end = 8192;
+            fog.maxDensity = 0;
+            viewer.mainCamera.setFar(8192);
+            viewer.forceDrawListInvalidation(true);
+        };
+        Map.prototype.load = function (url) {
+            var _this = this;
+            if (this.info != null)
+                this.unload();
+            this.loadingUrl = url;
+            var onIndexFailed = function (error) {
+                if (_this.loadingUrl !== url)
+                    return;
+                _this.onIndexFailed(url, error);
+            };
+            if (!this.viewer.useOfflineCache || !SourceUtils.MapCache.isSupported()) {
+                Facepunch.Http.getJson(url, function (info) {
+                    if (_this.loadingUrl !== url)
+                        return;
+                    _this.onLoad(info, null, null);
+                }, onIndexFailed);
+                return;
+            }
+            this.loadIndex(url, function (info) {
+                if (_this.loadingUrl !== url)
+                    return;
+                if (info.version == null) {
+                    _this.onLoad(info, null, null);
+                    return;
+                }
+                var scope = { map: info.name, version: String(info.version) };
+                // Drop anything cached from older exports of this map
+                SourceUtils.MapCache.clearMap(scope.map, scope.version);
+                _this.loadCachedLightmap(scope, info.lightmapUrl, function (lightmapInfo) {
+                    if (_this.loadingUrl !== url)
+                        return;
+                    _this.onLoad(info, scope, lightmapInfo);
+                });
+            }, onIndexFailed);
+        };
+        Map.prototype.onIndexFailed = function (url, error) {
+            this.loadingUrl = null;
+            if (this.indexFailedHandler == null)
+                return;
+            this.indexFailedHandler({
+                loader: "index",
+                url: url,
+                first: 0,
+                count: 1,
+                attempts: 1,
+                error: error
+            });
+        };
+        // Prefers a fresh index, so a new export is noticed, but falls back to the cache when offline
+        Map.prototype.loadIndex = function (url, success, failure) {
+            var scope = Map.indexCacheScope;
+            SourceUtils.MapCache.fetch(url, SourceUtils.PageFormat.Json, function (text) {
+                SourceUtils.MapCache.put(scope, url, text);
+                success(JSON.parse(text));
+            }, function (error) {
+                SourceUtils.MapCache.get(scope, url, function (cached) {
+                    if (cached === undefined)
+                        failure(error);
+                    else
+                        success(JSON.parse(cached));
+                });
+            });
+        };
+        Map.prototype.cacheLightmap = function (scope, url, callback) {
+            SourceUtils.MapCache.fetch(url, SourceUtils.PageFormat.Json, function (text) {
+                var info = JSON.parse(text);
+                var elements = info.elements.filter(function (x) { return x.url != null; });
+                var remaining = elements.length;
+                var success = true;
+                var onElementDone = function () {
+                    if (--remaining > 0)
+                        return;
+                    if (!success) {
+                        if (callback != null)
+                            callback(false);
+                        return;
+                    }
+                    // Only store the info once all of its images are in place
+                    SourceUtils.MapCache.put(scope, url, text, callback);
+                };
+                if (remaining === 0) {
+                    ++remaining;
+                    onElementDone();
+                    return;
+                }
+                var _loop_5 = function (element) {
+                    SourceUtils.MapCache.fetchBlob(element.url, function (blob) { return SourceUtils.MapCache.put(scope, element.url, blob, function (stored) {
+                        success = success && stored;
+                        onElementDone();
+                    }); }, function (error) {
+                        success = false;
+                        onElementDone();
+                    });
+                };
+                for (var _i = 0, elements_1 = elements; _i < elements_1.length; _i++) {
+                    var element = elements_1[_i];
+                    _loop_5(element);
+                }
+            }, function (error) {
+                if (callback != null)
+                    callback(false);
+            });
+        };
+        // Gives the cached lightmap with its images replaced by object URLs, or
+        // null if it isn't cached yet, in which case it gets cached for next time
+        Map.prototype.loadCachedLightmap = function (scope, url, callback) {
+            var _this = this;
+            SourceUtils.MapCache.get(scope, url, function (text) {
+                if (text === undefined) {
+                    _this.cacheLightmap(scope, url);
+                    callback(null);
+                    return;
+                }
+                var info = JSON.parse(text);
+                var elements = info.elements.filter(function (x) { return x.url != null; });
+                var objectUrls = [];
+                var remaining = elements.length;
+                var missing = false;
+                info.path = url;
+                var onElementDone = function () {
+                    if (--remaining > 0)
+                        return;
+                    if (missing) {
+                        for (var _i = 0, objectUrls_1 = objectUrls; _i < objectUrls_1.length; _i++) {
+                            var objectUrl = objectUrls_1[_i];
+                            URL.revokeObjectURL(objectUrl);
+                        }
+                        _this.cacheLightmap(scope, url);
+                        callback(null);
+                        return;
+                    }
+                    for (var _a = 0, objectUrls_2 = objectUrls; _a < objectUrls_2.length; _a++) {
+                        var objectUrl = objectUrls_2[_a];
+                        _this.lightmapObjectUrls.push(objectUrl);
+                    }
+                    callback(info);
+                };
+                if (remaining === 0) {
+                    ++remaining;
+                    onElementDone();
+                    return;
+                }
+                var _loop_6 = function (element) {
+                    SourceUtils.MapCache.get(scope, element.url, function (blob) {
+                        if (blob === undefined) {
+                            missing = true;
+                        }
+                        else {
+                            element.url = URL.createObjectURL(blob);
+                            objectUrls.push(element.url);
+                        }
+                        onElementDone();
+                    });
+                };
+                for (var _i = 0, elements_2 = elements; _i < elements_2.length; _i++) {
+                    var element = elements_2[_i];
+                    _loop_6(element);
+                }
+            });
+        };
+        // Stores every page of the loaded map in the MapCache, so it can be viewed offline.
+        // Needs useOfflineCache to have been enabled when the map was loaded.
+        Map.prototype.downloadForOffline = function (progress, complete) {
+            var _this = this;
+            if (this.info == null || this.cacheScope == null) {
+                throw new Error("Offline caching needs a loaded map with a version, and useOfflineCache enabled.");
+            }
+            var info = this.info;
+            var scope = this.cacheScope;
+            var pages = info.visPages.concat(info.leafPages, info.dispPages, info.materialPages, info.brushModelPages, info.studioModelPages, info.vertLightingPages, info.ambientPages)
+                .filter(function (x) { return x.url != null; });
+            // One extra task for the lightmap
+            var total = pages.length + 1;
+            var maxActive = 4;
+            var next = 0;
+            var completed = 0;
+            var failed = 0;
+            var onTaskDone = function (success) {
+                if (!success)
+                    ++failed;
+                ++completed;
+                if (progress != null)
+                    progress(completed, total);
+                if (completed === total) {
+                    if (complete != null)
+                        complete(failed);
+                    return;
+                }
+                startNext();
+            };
+            var startNext = function () {
+                if (next >= pages.length)
+                    return;
+                var page = pages[next++];
+                var format = SourceUtils.BinaryPage.getFormat(page);
+                SourceUtils.MapCache.has(scope, page.url, function (cached) {
+                    if (cached) {
+                        onTaskDone(true);
+                        return;
+                    }
+                    SourceUtils.MapCache.fetch(page.url, format, function (data) { return SourceUtils.MapCache.put(scope, page.url, data, onTaskDone); }, function (error) { return onTaskDone(false); });
+                });
+            };
+            SourceUtils.MapCache.has(scope, info.lightmapUrl, function (cached) {
+                if (cached)
+                    onTaskDone(true);
+                else
+                    _this.cacheLightmap(scope, info.lightmapUrl, onTaskDone);
+            });
+            for (var i = 0; i < maxActive; ++i) {
+                startNext();
+            }
+        };
+        Map.prototype.addDynamicItem = function (item) {
+            if (this.dynamicItems.indexOf(item) !== -1)
+                return;
+            this.dynamicItems.push(item);
+            this.viewer.forceDrawListInvalidation(true);
+        };
+        Map.prototype.removeDynamicItem = function (item) {
+            var index = this.dynamicItems.indexOf(item);
+            if (index === -1)
+                return;
+            this.dynamicItems.splice(index, 1);
+            this.viewer.forceDrawListInvalidation(true);
+        };
+        Map.prototype.getLightmapLoadProgress = function () {
+            return this.lightmap == null ? 0 : this.lightmap.getLoadProgress();
+        };
+        Map.prototype.onLoad = function (info, cacheScope, lightmapInfo) {
+            if (this.info != null)
+                this.unload();
+            this.info = info;
+            this.cacheScope = cacheScope;
+            this.viewer.setPageCacheScope(cacheScope);
+            this.viewer.visLoader.setPageLayout(info.visPages);
+            this.viewer.leafGeometryLoader.setPageLayout(info.leafPages);
+            this.viewer.dispGeometryLoader.setPageLayout(info.dispPages);
+            this.viewer.mapMaterialLoader.setPageLayout(info.materialPages);
+            this.viewer.bspModelLoader.setPageLayout(info.brushModelPages);
+            this.viewer.studioModelLoader.setPageLayout(info.studioModelPages);
+            this.viewer.vertLightingLoader.setPageLayout(info.vertLightingPages);
+            this.viewer.ambientLoader.setPageLayout(info.ambientPages);
+            this.lightmap = lightmapInfo != null
+                ? this.viewer.mapTextureLoader.loadFromInfo(lightmapInfo)
+                : this.viewer.mapTextureLoader.load(info.lightmapUrl);
+            this.tSpawns = [];
+            this.ctSpawns = [];
+            this.playerSpawns = [];
+            this.bombTargets = [];
+            this.pvsEntities = [];
+            this.entityInstances = [];
+            for (var i = 0, iEnd = info.entities.length; i < iEnd; ++i) {
+                var ent = info.entities[i];
+                var inst = null;
+                var pvsInst = null;
+                switch (ent.classname) {
+                    case "worldspawn":
+                        var worldspawn = ent;
+                        inst = this.worldspawn = new SourceUtils.Entities.Worldspawn(this, worldspawn);
+                        this.lightmap.addUsage(this.worldspawn);
+                        if (worldspawn.skyMaterial != null) {
+                            var skyMat = this.viewer.mapMaterialLoader.loadMaterialFromInfo(worldspawn.skyMaterial);
+                            this.skyCube = new SourceUtils.SkyCube(this.viewer, skyMat);
+                        }
+                        break;
+                    case "env_fog_controller":
+                        var fogController = ent;
+                        var fog = this.viewer.mainCamera.fog;
+                        if (!fogController.fogEnabled)
+                            break;
+                        fog.color.set(fogController.fogColor.r, fogController.fogColor.g, fogController.fogColor.b);
+                        fog.start = fogController.fogStart;
+                        fog.end = fogController.fogEnd;
+                        fog.maxDensity = fogController.fogMaxDensity;
+                        if (fogController.farZ !== 0)
+                            this.viewer.mainCamera.setFar(fogController.farZ);
+                        break;
+                    case "info_player_terrorist":
+                        this.tSpawns.push(ent);
+                        break;
+                    case "info_player_counterterrorist":
+                        this.ctSpawns.push(ent);
+                        break;
+                    case "info_player_start":
+                        this.playerSpawns.push(ent);
+                        break;
+                    case "func_bomb_target":
+                        this.bombTargets.push(ent);
+                        break;
+                    case "displacement":
+                        pvsInst = new SourceUtils.Entities.Displacement(this, ent);
+                        break;
+                    case "func_brush":
+                        pvsInst = new SourceUtils.Entities.BrushEntity(this, ent);
+                        break;
+                    case "prop_static":
+                        if (ent.model === -1)
+                            break;
+                        pvsInst = new SourceUtils.Entities.StaticProp(this, ent);
+                        break;
+                    case "sky_camera":
+                        this.skyCamera = new SourceUtils.Entities.SkyCamera(this.viewer, ent);
+                        break;
+                    case "light_environment":
+                        inst = this.lightEnvironment = new SourceUtils.Entities.LightEnvironment(this, ent);
+                        break;
+                    case "keyframe_rope":
+                        inst = new SourceUtils.Entities.KeyframeRope(this, ent);
+                        break;
+                    case "move_rope":
+                        pvsInst = new SourceUtils.Entities.MoveRope(this, ent);
+                        break;
+                    default:
+                        inst = new SourceUtils.Entities.Entity(this, ent);
+                        break;
+                }
+                if (pvsInst != null) {
+                    this.pvsEntities.push(pvsInst);
+                }
+                this.entityInstances.push(pvsInst || inst);
+            }
+            var pos = new Facepunch.Vector3();
+            var spawn = this.getSpawnPoint();
+            // Maps without spawns leave the camera where it is
+            if (spawn != null && this.viewer.mainCamera.getPosition(pos).x === 0 && pos.y === 0 && pos.z === 0) {
+                this.viewer.teleportToSpawn(spawn);
+            }
+            this.viewer.forceDrawListInvalidation(true);
+        };
+        Map.prototype.getSpawnPoint = function () {
+            if (this.tSpawns == null)
+                return null;
+            return this.tSpawns[0] || this.ctSpawns[0] || this.playerSpawns[0] || null;
+        };
+        Map.prototype.getTSpawns = function () {
+            return this.tSpawns || [];
+        };
+        Map.prototype.getCtSpawns = function () {
+            return this.ctSpawns || [];
+        };
+        Map.prototype.getPlayerSpawns = function () {
+            return this.playerSpawns || [];
+        };
+        Map.prototype.getBombTargets = function () {
+            return this.bombTargets || [];
+        };
+        // Bounds of the world model, returning false if it hasn't loaded yet
+        Map.prototype.getWorldBounds = function (min, max) {
+            if (this.worldspawn == null || this.worldspawn.model == null)
+                return false;
+            return this.worldspawn.model.getBounds(min, max);
+        };
+        Map.prototype.getEntities = function () {
+            return this.info == null ? [] : this.info.entities;
+        };
+        // The entity created for the given info, or null if it wasn't given one
+        Map.prototype.getEntityInstance = function (info) {
+            if (this.info == null)
+                return null;
+            var index = this.info.entities.indexOf(info);
+            return index === -1 ? null : this.entityInstances[index] || null;
+        };
+        // Centre of the entity's bounds if they are known, otherwise its origin.
+        // Returns null if it has neither.
+        Map.prototype.getEntityCenter = function (info, out) {
+            var inst = this.getEntityInstance(info);
+            var min = Map.getEntityCenter_min;
+            var max = Map.getEntityCenter_max;
+            if (inst != null && inst.getBounds(min, max)) {
+                return out.copy(min).add(max).multiplyScalar(0.5);
+            }
+            if (info.origin != null)
+                return out.copy(info.origin);
+            var target = info;
+            if (target.min != null && target.max != null) {
+                return out.copy(target.min).add(target.max).multiplyScalar(0.5);
+            }
+            return null;
+        };
+        // The info the given entity was created from, or null if it was added later
+        Map.prototype.getEntityInfo = function (entity) {
+            if (this.info == null || entity == null)
+                return null;
+            var index = this.entityInstances.indexOf(entity);
+            return index === -1 ? null : this.info.entities[index];
+        };
+        // Matches whole strings case insensitively, with * standing for any run of characters
+        Map.createPattern = function (pattern) {
+            var escaped = pattern.split("*")
+                .map(function (part) { return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"); })
+                .join(".*");
+            return new RegExp("^" + escaped + "$", "i");
+        };
+        // Entities matching every part of the query that was given
+        Map.prototype.findEntities = function (query) {
+            var classname = query.classname != null ? Map.createPattern(query.classname) : null;
+            var targetname = query.targetname != null ? Map.createPattern(query.targetname) : null;
+            var key = query.key != null ? Map.createPattern(query.key) : null;
+            var value = query.value != null ? Map.createPattern(query.value) : null;
+            var matches = [];
+            for (var _i = 0, _a = this.getEntities(); _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (classname != null && !classname.test(ent.classname))
+                    continue;
+                if (targetname != null && (ent.targetname == null || !targetname.test(ent.targetname)))
+                    continue;
+                if (key != null || value != null) {
+                    if (ent.keyvalues == null)
+                        continue;
+                    var found = false;
+                    for (var name_2 in ent.keyvalues) {
+                        if (key != null && !key.test(name_2))
+                            continue;
+                        if (value != null && !value.test(ent.keyvalues[name_2]))
+                            continue;
+                        found = true;
+                        break;
+                    }
+                    if (!found)
+                        continue;
+                }
+                matches.push(ent);
+            }
+            return matches;
+        };
+        Map.prototype.addNamedEntity = function (targetname, entity) {
+            this.namedEntities[targetname] = entity;
+        };
+        Map.prototype.getNamedEntity = function (targetname) {
+            return this.namedEntities[targetname];
+        };
+        Map.prototype.getNamedView = function (name) {
+            if (this.info == null || this.info.views == null)
+                return undefined;
+            return this.info.views[name];
+        };
+        Map.prototype.getNamedViewNames = function () {
+            if (this.info == null || this.info.views == null)
+                return [];
+            return Object.keys(this.info.views);
+        };
+        Map.prototype.getPvsEntities = function () {
+            return this.pvsEntities;
+        };
+        Map.prototype.addPvsEntity = function (entity) {
+            this.pvsEntities.push(entity);
+            this.clusterEnts = {};
+        };
+        Map.prototype.removePvsEntity = function (entity) {
+            var index = this.pvsEntities.indexOf(entity);
+            if (index !== -1) {
+                this.pvsEntities.splice(index, 1);
+                this.clusterEnts = {};
+            }
+        };
+        Map.prototype.getPvsEntitiesInCluster = function (cluster) {
+            var ents = this.clusterEnts[cluster];
+            if (ents !== undefined)
+                return ents;
+            this.clusterEnts[cluster] = ents = [];
+            for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (ent.isInCluster(cluster)) {
+                    ents.push(ent);
+                }
+            }
+            return ents;
+        };
+        Map.prototype.getLeafAt = function (pos, callback) {
+            var _this = this;
+            if (this.worldspawn == null || !this.worldspawn.model.isLoaded()) {
+                if (callback != null) {
+                    var posCopy_1 = new Facepunch.Vector3().copy(pos);
+                    this.worldspawnLoadedCallbacks.push(function () { return callback(_this.getLeafAt(posCopy_1)); });
+                }
+                return undefined;
+            }
+            var leaf = this.worldspawn.model.getLeafAt(pos);
+            if (callback != null)
+                callback(leaf);
+            return leaf;
+        };
+        Map.prototype.update = function (dt) {
+            if (this.worldspawnLoadedCallbacks.length > 0 && this.worldspawn != null && this.worldspawn.model.isLoaded()) {
+                for (var _i = 0, _a = this.worldspawnLoadedCallbacks; _i < _a.length; _i++) {
+                    var callback = _a[_i];
+                    callback();
+                }
+                this.worldspawnLoadedCallbacks = [];
+            }
+            if (this.viewer.simulateRopes && !this.viewer.freezeRopes) {
+                for (var _b = 0, _c = this.activeRopes; _b < _c.length; _b++) {
+                    var rope = _c[_b];
+                    rope.simulate(dt);
+                }
+            }
+        };
+        Map.prototype.addActiveRope = function (rope) {
+            this.activeRopes.push(rope);
+        };
+        Map.prototype.removeActiveRope = function (rope) {
+            var index = this.activeRopes.indexOf(rope);
+            if (index !== -1)
+                this.activeRopes.splice(index, 1);
+        };
+        Map.prototype.trace = function (start, end, mask, result) {
+            if (mask === void 0) { mask = SourceUtils.TraceMask.All; }
+            return this.traceBox(start, end, null, mask, result);
+        };
+        Map.prototype.traceBox = function (start, end, extents, mask, result) {
+            if (mask === void 0) { mask = SourceUtils.TraceMask.All; }
+            if (result == null)
+                result = new SourceUtils.TraceResult();
+            if (this.worldspawn == null || !this.worldspawn.model.isLoaded()) {
+                result.reset();
+                result.position.copy(end);
+                return result;
+            }
+            this.worldspawn.model.traceBox(start, end, extents, mask, result);
+            var entResult = this.trace_result;
+            var origin = this.trace_origin;
+            var localStart = this.trace_start;
+            var localEnd = this.trace_end;
+            for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (!(ent instanceof SourceUtils.Entities.BrushEntity))
+                    continue;
+                var brush = ent;
+                if (!brush.model.isLoaded())
+                    continue;
+                brush.getPosition(origin);
+                localStart.copy(start).sub(origin);
+                localEnd.copy(end).sub(origin);
+                brush.model.traceBox(localStart, localEnd, extents, mask, entResult);
+                if (!entResult.hit || entResult.fraction >= result.fraction)
+                    continue;
+                result.copy(entResult);
+                result.position.add(origin);
+            }
+            return result;
+        };
+        // True if any of the given clusters are potentially visible from the given leaf,
+        // or the main camera's leaf if not given, or if that can't be known yet
+        Map.prototype.isAnyClusterVisible = function (clusters, leaf) {
+            if (clusters == null)
+                return true;
+            if (leaf === undefined)
+                leaf = this.viewer.mainCamera.getLeaf();
+            if (leaf == null || leaf.cluster === undefined)
+                return true;
+            var visible = this.visibleClusterSets[leaf.cluster];
+            if (visible === undefined) {
+                var vis = this.clusterVis[leaf.cluster];
+                if (vis == null)
+                    return true;
+                this.visibleClusterSets[leaf.cluster] = visible = {};
+                for (var i = 0, iEnd = vis.length; i < iEnd; ++i)
+                    visible[vis[i]] = true;
+            }
+            for (var i = 0, iEnd = clusters.length; i < iEnd; ++i) {
+                if (visible[clusters[i]] === true)
+                    return true;
+            }
+            return false;
+        };
+        Map.prototype.populateDrawList = function (drawList, pvsRoot) {
+            var _this = this;
+            if (this.worldspawn == null)
+                return;
+            if (pvsRoot != null && this.skyCube != null && (this.skyCamera == null || pvsRoot === this.skyCamera.getLeaf())) {
+                drawList.addItem(this.skyCube);
+            }
+            var vis = null;
+            if (this.worldspawn.model != null && pvsRoot != null && pvsRoot.cluster !== undefined) {
+                var cluster_1 = pvsRoot.cluster;
+                vis = this.clusterVis[cluster_1];
+                if (vis === undefined) {
+                    var immediate_1 = true;
+                    this.viewer.visLoader.load(cluster_1, function (loaded) {
+                        _this.clusterVis[cluster_1] = vis = loaded;
+                        if (!immediate_1)
+                            _this.viewer.forceDrawListInvalidation(true);
+                    });
+                    immediate_1 = false;
+                    if (vis === undefined) {
+                        this.clusterVis[cluster_1] = vis = null;
+                    }
+                }
+            }
+            this.worldspawn.populateDrawList(drawList, vis);
+            if (this.dynamicItems.length > 0) {
+                drawList.addItems(this.dynamicItems);
+            }
+            if (vis == null) {
+                for (var _i = 0, _a = this.pvsEntities; _i < _a.length; _i++) {
+                    var ent = _a[_i];
+                    drawList.addItem(ent);
+                }
+                return;
+            }
+            for (var i = 0, iEnd = vis.length; i < iEnd; ++i) {
+                var ents = this.getPvsEntitiesInCluster(vis[i]);
+                for (var _b = 0, ents_1 = ents; _b < ents_1.length; _b++) {
+                    var ent = ents_1[_b];
+                    if (ent.getIsInDrawList(drawList))
+                        continue;
+                    ent.populateDrawList(drawList, vis);
+                }
+            }
+        };
+        Map.prototype.populateCommandBufferParameters = function (buf) {
+            var lightmap = this.lightmap != null && this.lightmap.isLoaded()
+                ? this.lightmap
+                : WebGame.TextureUtils.getWhiteTexture(this.viewer.context);
+            buf.setParameter(Map.lightmapParam, lightmap);
+            if (this.lightEnvironment != null) {
+                this.lightEnvironment.populateCommandBufferParameters(buf);
+            }
+            else {
+                SourceUtils.Entities.LightEnvironment.populateDefaultCommandBufferParameters(buf);
+            }
+        };
+        return Map;
+    }());
+    Map.lightmapParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Texture);
+    // Map indexes are cached without a version, since the version is read from them
+    Map.indexCacheScope = { map: "index", version: "latest" };
+    Map.getEntityCenter_min = new Facepunch.Vector3();
+    Map.getEntityCenter_max = new Facepunch.Vector3();
+    SourceUtils.Map = Map;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    // Keeps fetched map resources in IndexedDB so later visits can skip the network.
+    // Keys include the map version, so pages from an older export are never read back.
+    var MapCache = (function () {
+        function MapCache() {
+        }
+        MapCache.isSupported = function () {
+            return typeof indexedDB !== "undefined";
+        };
+        MapCache.open = function (callback) {
+            if (MapCache.db !== undefined) {
+                callback(MapCache.db);
+                return;
+            }
+            if (MapCache.openCallbacks != null) {
+                MapCache.openCallbacks.push(callback);
+                return;
+            }
+            MapCache.openCallbacks = [callback];
+            var opened = function (db) {
+                MapCache.db = db;
+                var callbacks = MapCache.openCallbacks;
+                MapCache.openCallbacks = null;
+                for (var i = 0; i < callbacks.length; ++i) {
+                    callbacks[i](db);
+                }
+            };
+            if (!MapCache.isSupported()) {
+                opened(null);
+                return;
+            }
+            var request;
+            try {
+                request = indexedDB.open(MapCache.dbName, MapCache.dbVersion);
+            }
+            catch (e) {
+                // Browsers can refuse IndexedDB, e.g. in private browsing, so carry on without a cache
+                opened(null);
+                return;
+            }
+            request.onupgradeneeded = function (ev) {
+                var db = request.result;
+                if (db.objectStoreNames.contains(MapCache.entryStore))
+                    return;
+                var store = db.createObjectStore(MapCache.entryStore, { keyPath: "key" });
+                store.createIndex(MapCache.mapIndex, "map", { unique: false });
+            };
+            request.onsuccess = function (ev) { return opened(request.result); };
+            request.onerror = function (ev) {
+                ev.preventDefault();
+                opened(null);
+            };
+        };
+        // Workers created from blobs can't resolve relative URLs, so everything
+        // passed to them and used as a cache key is made absolute first
+        MapCache.getAbsoluteUrl = function (url) {
+            if (typeof document === "undefined")
+                return url;
+            var anchor = document.createElement("a");
+            anchor.href = url;
+            return anchor.href;
+        };
+        MapCache.getKey = function (scope, url) {
+            return scope.map + "/" + scope.version + ":" + MapCache.getAbsoluteUrl(url);
+        };
+        // Gives undefined if nothing is stored for url
+        MapCache.get = function (scope, url, callback) {
+            MapCache.open(function (db) {
+                if (db == null) {
+                    callback(undefined);
+                    return;
+                }
+                var request;
+                try {
+                    request = db.transaction(MapCache.entryStore, "readonly")
+                        .objectStore(MapCache.entryStore)
+                        .get(MapCache.getKey(scope, url));
+                }
+                catch (e) {
+                    callback(undefined);
+                    return;
+                }
+                request.onsuccess = function (ev) {
+                    var entry = request.result;
+                    callback(entry === undefined ? undefined : entry.data);
+                };
+                request.onerror = function (ev) {
+                    ev.preventDefault();
+                    callback(undefined);
+                };
+            });
+        };
+        MapCache.has = function (scope, url, callback) {
+            MapCache.open(function (db) {
+                if (db == null) {
+                    callback(false);
+                    return;
+                }
+                var request;
+                try {
+                    request = db.transaction(MapCache.entryStore, "readonly")
+                        .objectStore(MapCache.entryStore)
+                        .count(MapCache.getKey(scope, url));
+                }
+                catch (e) {
+                    callback(false);
+                    return;
+                }
+                request.onsuccess = function (ev) { return callback(request.result > 0); };
+                request.onerror = function (ev) {
+                    ev.preventDefault();
+                    callback(false);
+                };
+            });
+        };
+        MapCache.put = function (scope, url, data, callback) {
+            MapCache.open(function (db) {
+                if (db == null) {
+                    if (callback != null)
+                        callback(false);
+                    return;
+                }
+                var entry = {
+                    key: MapCache.getKey(scope, url),
+                    map: scope.map,
+                    version: scope.version,
+                    data: data
+                };
+                var transaction;
+                try {
+                    transaction = db.transaction(MapCache.entryStore, "readwrite");
+                    transaction.objectStore(MapCache.entryStore).put(entry);
+                }
+                catch (e) {
+                    if (callback != null)
+                        callback(false);
+                    return;
+                }
+                transaction.oncomplete = function (ev) { if (callback != null)
+                    callback(true); };
+                transaction.onerror = function (ev) {
+                    ev.preventDefault();
+                    if (callback != null)
+                        callback(false);
+                };
+            });
+        };
+        // Removes everything stored for the given map, except entries matching keepVersion
+        MapCache.clearMap = function (map, keepVersion, callback) {
+            MapCache.open(function (db) {
+                if (db == null) {
+                    if (callback != null)
+                        callback();
+                    return;
+                }
+                var transaction;
+                try {
+                    transaction = db.transaction(MapCache.entryStore, "readwrite");
+                    var request_1 = transaction.objectStore(MapCache.entryStore)
+                        .index(MapCache.mapIndex)
+                        .openCursor(IDBKeyRange.only(map));
+                    request_1.onsuccess = function (ev) {
+                        var cursor = request_1.result;
+                        if (cursor == null)
+                            return;
+                        if (cursor.value.version !== keepVersion)
+                            cursor.delete();
+                        cursor.continue();
+                    };
+                }
+                catch (e) {
+                    if (callback != null)
+                        callback();
+                    return;
+                }
+                transaction.oncomplete = function (ev) { if (callback != null)
+                    callback(); };
+                transaction.onerror = function (ev) {
+                    ev.preventDefault();
+                    if (callback != null)
+                        callback();
+                };
+            });
+        };
+        MapCache.clearAll = function (callback) {
+            MapCache.open(function (db) {
+                if (db == null) {
+                    if (callback != null)
+                        callback();
+                    return;
+                }
+                var transaction = db.transaction(MapCache.entryStore, "readwrite");
+                transaction.objectStore(MapCache.entryStore).clear();
+                transaction.oncomplete = function (ev) { if (callback != null)
+                    callback(); };
+                transaction.onerror = function (ev) {
+                    ev.preventDefault();
+                    if (callback != null)
+                        callback();
+                };
+            });
+        };
+        // Fetches url as text, or as an ArrayBuffer for binary pages. Like every
+        // method here that fetches, returns a function that aborts it.
+        MapCache.fetch = function (url, format, success, failure, progress) {
+            var responseType = format === SourceUtils.PageFormat.Binary ? "arraybuffer" : "text";
+            return MapCache.request(url, responseType, success, failure, progress);
+        };
+        // Fetches url from the cache if possible, otherwise from the network. Responses are
+        // only stored once parse has accepted them, and parse rejects one by throwing.
+        MapCache.load = function (scope, url, format, parse, success, failure, progress) {
+            var onData = function (data, store) {
+                var result;
+                try {
+                    result = parse(data);
+                }
+                catch (e) {
+                    if (failure != null)
+                        failure(e);
+                    return;
+                }
+                // The database is already open after get(), so the entry is copied before
+                // success can hand any of its buffers over to another thread
+                if (store)
+                    MapCache.put(scope, url, data);
+                success(result);
+            };
+            if (scope == null) {
+                return MapCache.fetch(url, format, function (data) { return onData(data, false); }, failure, progress);
+            }
+            var cancelled = false;
+            var abort = null;
+            MapCache.get(scope, url, function (cached) {
+                if (cancelled)
+                    return;
+                if (cached !== undefined) {
+                    onData(cached, false);
+                    return;
+                }
+                abort = MapCache.fetch(url, format, function (data) { return onData(data, true); }, failure, progress);
+            });
+            return function () {
+                cancelled = true;
+                if (abort != null)
+                    abort();
+            };
+        };
+        MapCache.fetchBlob = function (url, success, failure) {
+            return MapCache.request(url, "blob", success, failure, null);
+        };
+        // Unlike Http.getString, treats error statuses as failures so they never get cached
+        MapCache.request = function (url, responseType, success, failure, progress) {
+            var request = new XMLHttpRequest();
+            var cancelled = false;
+            request.responseType = responseType;
+            request.addEventListener("load", function (ev) {
+                if (cancelled)
+                    return;
+                if (request.status >= 200 && request.status < 300)
+                    success(request.response);
+                else if (failure != null)
+                    failure(new Error("Unable to load '" + url + "' (status " + request.status + ")."));
+            });
+            if (failure != null) {
+                // XHR error events carry no details of their own
+                request.addEventListener("error", function (ev) {
+                    if (!cancelled)
+                        failure(new Error("Unable to load '" + url + "' (network error)."));
+                });
+                request.addEventListener("abort", function (ev) { if (!cancelled)
+                    failure(Facepunch.Http.cancelled); });
+            }
+            if (progress != null) {
+                request.onprogress = function (ev) {
+                    if (cancelled)
+                        return;
+                    if (ev.lengthComputable)
+                        progress(ev.loaded, ev.total);
+                    else
+                        progress(0, undefined);
+                };
+            }
+            request.open("get", url, true);
+            request.send();
+            return function () {
+                cancelled = true;
+                request.abort();
+            };
+        };
+        return MapCache;
+    }());
+    MapCache.dbName = "sourceutils-map-cache";
+    MapCache.dbVersion = 1;
+    MapCache.entryStore = "entries";
+    MapCache.mapIndex = "map";
+    SourceUtils.MapCache = MapCache;
+})(SourceUtils || (SourceUtils = {}));
+/// <reference path="PagedLoader.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var MapMaterialPage = (function (_super) {
+        __extends(MapMaterialPage, _super);
+        function MapMaterialPage(viewer, page) {
+            var _this = _super.call(this, page) || this;
+            _this.viewer = viewer;
+            return _this;
+        }
+        MapMaterialPage.prototype.onLoadValues = function (page) {
+            this.materials = page.materials;
+            this.textures = page.textures;
+            _super.prototype.onLoadValues.call(this, page);
+        };
+        MapMaterialPage.prototype.getTexture = function (index) {
+            return this.viewer.mapTextureLoader.loadFromInfo(this.textures[index]);
+        };
+        MapMaterialPage.prototype.onGetValue = function (index) {
+            return this.materials[index];
+        };
+        return MapMaterialPage;
+    }(SourceUtils.ResourcePage));
+    SourceUtils.MapMaterialPage = MapMaterialPage;
+    var MapMaterialLoader = (function (_super) {
+        __extends(MapMaterialLoader, _super);
+        function MapMaterialLoader(viewer) {
+            var _this = _super.call(this) || this;
+            _this.materials = {};
+            _this.materialNames = {};
+            _this.viewer = viewer;
+            return _this;
+        }
+        MapMaterialLoader.prototype.loadMaterial = function (index) {
+            var _this = this;
+            var material = this.materials[index];
+            if (material !== undefined)
+                return material;
+            this.materials[index] = material = new WebGame.MaterialLoadable(this.viewer);
+            this.load(index, function (info, page) {
+                if (info == null)
+                    return;
+                _this.materialNames[material.id] = info.name;
+                material.loadFromInfo(info, function (i) { return page.getTexture(i); });
+            });
+            return material;
+        };
+        // Path of the .vmt a loaded material came from, if the map was exported with names
+        MapMaterialLoader.prototype.getMaterialName = function (material) {
+            return this.materialNames[material.id];
+        };
+        MapMaterialLoader.prototype.loadMaterialFromInfo = function (info) {
+            var _this = this;
+            var urls = [];
+            for (var _i = 0, _a = info.properties; _i < _a.length; _i++) {
+                var prop = _a[_i];
+                if (prop.type !== WebGame.MaterialPropertyType.TextureUrl)
+                    continue;
+                urls.push(prop.value);
+                prop.type = WebGame.MaterialPropertyType.TextureIndex;
+                prop.value = urls.length - 1;
+            }
+            var material = new WebGame.MaterialLoadable(this.viewer);
+            material.loadFromInfo(info, function (i) { return _this.viewer.mapTextureLoader.load(urls[i]); });
+            return material;
+        };
+        MapMaterialLoader.prototype.clear = function () {
+            _super.prototype.clear.call(this);
+            this.materials = {};
+            this.materialNames = {};
+        };
+        MapMaterialLoader.prototype.onCreatePage = function (page) {
+            return new MapMaterialPage(this.viewer, page);
+        };
+        return MapMaterialLoader;
+    }(SourceUtils.PagedLoader));
+    SourceUtils.MapMaterialLoader = MapMaterialLoader;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    /**
+     * Mesh manager that can be disposed between maps. The base class keeps its compose
+     * frame mesh after dispose() even though the group holding it is gone, so this one
+     * owns that mesh instead and creates it again when next needed.
+     */
+    var MapMeshManager = (function (_super) {
+        __extends(MapMeshManager, _super);
+        function MapMeshManager(viewer) {
+            var _this = _super.call(this, viewer) || this;
+            _this.viewer = viewer;
+            return _this;
+        }
+        MapMeshManager.prototype.getComposeFrameMeshHandle = function () {
+            if (this.composeFrameMesh != null)
+                return this.composeFrameMesh;
+            var meshData = {
+                attributes: [WebGame.VertexAttribute.uv],
+                vertices: [-1.0, -1.0, 1.0, -1.0, 1.0, 1.0, -1.0, 1.0],
+                indices: [0, 1, 2, 0, 2, 3],
+                elements: [
+                    {
+                        mode: WebGame.DrawMode.Triangles,
+                        material: this.viewer.shaders.createMaterial(WebGame.Shaders.ComposeFrame, false),
+                        indexOffset: 0,
+                        indexCount: 6
+                    }
+                ]
+            };
+            var handle = this.composeFrameMesh = this.addMeshData(meshData)[0];
+            handle.program = handle.material.program;
+            return handle;
+        };
+        MapMeshManager.prototype.dispose = function () {
+            _super.prototype.dispose.call(this);
+            this.composeFrameMesh = null;
+        };
+        return MapMeshManager;
+    }(WebGame.MeshManager));
+    SourceUtils.MapMeshManager = MapMeshManager;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var MapTextureLoader = (function () {
+        function MapTextureLoader(viewer) {
+            this.loaded = {};
+            this.queue = [];
+            this.active = [];
+            this.completed = 0;
+            this.nextDummyId = 0;
+            this.viewer = viewer;
+        }
+        MapTextureLoader.prototype.load = function (url) {
+            var texture = this.loaded[url];
+            if (texture !== undefined)
+                return texture;
+            this.loaded[url] = texture = new WebGame.TextureLoadable(this.viewer.context, url);
+            this.queue.push(texture);
+            return texture;
+        };
+        MapTextureLoader.prototype.loadFromInfo = function (info) {
+            var url = info.path != null ? info.path : "__dummy_" + this.nextDummyId++;
+            if (this.loaded[url] !== undefined)
+                return this.loaded[url];
+            var texture = this.load(url);
+            texture.loadFromInfo(info);
+            return texture;
+        };
+        MapTextureLoader.prototype.getLoadProgress = function () {
+            var total = this.queue.length + this.active.length + this.completed;
+            var complete = this.completed;
+            for (var _i = 0, _a = this.queue; _i < _a.length; _i++) {
+                var item = _a[_i];
+                complete += item.getLoadProgress();
+            }
+            for (var _b = 0, _c = this.active; _b < _c.length; _b++) {
+                var item = _c[_b];
+                complete += item.getLoadProgress();
+            }
+            return total > 0 ? complete / total : 0;
+        };
+        MapTextureLoader.prototype.getNextToLoad = function () {
+            var bestIndex = -1;
+            var bestPriority = 0;
+            for (var i = 0, iEnd = this.queue.length; i < iEnd; ++i) {
+                var priority = this.queue[i].getLoadPriority();
+                if (priority <= bestPriority)
+                    continue;
+                bestIndex = i;
+                bestPriority = priority;
+            }
+            if (bestIndex === -1)
+                return null;
+            return this.queue.splice(bestIndex, 1)[0];
+        };
+        MapTextureLoader.prototype.update = function (requestQuota) {
+            var _this = this;
+            var _loop_7 = function () {
+                var next = this_5.getNextToLoad();
+                if (next == null)
+                    return "break";
+                this_5.active.push(next);
+                next.loadNext(function (requeue) {
+                    var index = _this.active.indexOf(next);
+                    if (index === -1) {
+                        // Cleared while loading, so release anything this step allocated
+                        _this.disposeTexture(next);
+                        return;
+                    }
+                    _this.active.splice(index, 1);
+                    if (requeue)
+                        _this.queue.push(next);
+                    else
+                        ++_this.completed;
+                });
+            };
+            var this_5 = this;
+            while (this.active.length < requestQuota) {
+                var state_2 = _loop_7();
+                if (state_2 === "break")
+                    break;
+            }
+            return this.active.length;
+        };
+        MapTextureLoader.prototype.disposeTexture = function (texture) {
+            var gl = this.viewer.context;
+            var frameCount = texture.getFrameCount() || 0;
+            for (var frame = 0; frame < frameCount; ++frame) {
+                var handle = texture.getHandle(frame);
+                if (handle !== undefined)
+                    gl.deleteTexture(handle);
+            }
+        };
+        MapTextureLoader.prototype.clear = function () {
+            for (var url in this.loaded) {
+                if (!this.loaded.hasOwnProperty(url))
+                    continue;
+                this.disposeTexture(this.loaded[url]);
+            }
+            this.loaded = {};
+            this.queue = [];
+            this.active = [];
+            this.completed = 0;
+        };
+        return MapTextureLoader;
+    }());
+    SourceUtils.MapTextureLoader = MapTextureLoader;
+})(SourceUtils || (SourceUtils = {}));
+/// <reference path="../js/facepunch.webgame.d.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var CameraMode;
+    (function (CameraMode) {
+        CameraMode[CameraMode["Fixed"] = 0] = "Fixed";
+        CameraMode[CameraMode["CanLook"] = 1] = "CanLook";
+        CameraMode[CameraMode["CanMove"] = 2] = "CanMove";
+        CameraMode[CameraMode["Walk"] = 4] = "Walk";
+        CameraMode[CameraMode["Orbit"] = 8] = "Orbit";
+        CameraMode[CameraMode["FreeCam"] = 3] = "FreeCam";
+        CameraMode[CameraMode["OrbitCam"] = 9] = "OrbitCam";
+    })(CameraMode = SourceUtils.CameraMode || (SourceUtils.CameraMode = {}));
+    var RenderFeatureFlags;
+    (function (RenderFeatureFlags) {
+        RenderFeatureFlags[RenderFeatureFlags["None"] = 0] = "None";
+        RenderFeatureFlags[RenderFeatureFlags["Shadows"] = 1] = "Shadows";
+        RenderFeatureFlags[RenderFeatureFlags["SunDisc"] = 2] = "SunDisc";
+        RenderFeatureFlags[RenderFeatureFlags["RopeSimulation"] = 4] = "RopeSimulation";
+        RenderFeatureFlags[RenderFeatureFlags["AmbientInterpolation"] = 8] = "AmbientInterpolation";
+    })(RenderFeatureFlags = SourceUtils.RenderFeatureFlags || (SourceUtils.RenderFeatureFlags = {}));
+    var MapViewer = (function (_super) {
+        __extends(MapViewer, _super);
+        function MapViewer(container) {
+            var _this = _super.call(this, container) || this;
+            // Declared before the loaders below so addPagedLoader can use them
+            _this.pagedLoaders = [];
+            _this.loadErrorHandlers = [];
+            _this.loadProgressHandlers = [];
+            _this.mapReadyHandlers = [];
+            _this.allLoadedHandlers = [];
+            _this.cameraMovedHandlers = [];
+            _this.leafChangedHandlers = [];
+            _this.entityPickedHandlers = [];
+            _this.meshes = new SourceUtils.MapMeshManager(_this);
+            _this.map = new SourceUtils.Map(_this);
+            _this.visLoader = _this.addPagedLoader("vis", new SourceUtils.VisLoader());
+            _this.bspModelLoader = _this.addPagedLoader("bspModel", new SourceUtils.BspModelLoader(_this));
+            _this.mapMaterialLoader = _this.addPagedLoader("mapMaterial", new SourceUtils.MapMaterialLoader(_this));
+            _this.mapTextureLoader = _this.addLoader(new SourceUtils.MapTextureLoader(_this));
+            _this.leafGeometryLoader = _this.addPagedLoader("leafGeometry", new SourceUtils.LeafGeometryLoader(_this));
+            _this.dispGeometryLoader = _this.addPagedLoader("dispGeometry", new SourceUtils.DispGeometryLoader(_this));
+            _this.studioModelLoader = _this.addPagedLoader("studioModel", new SourceUtils.StudioModelLoader(_this));
+            _this.vertLightingLoader = _this.addPagedLoader("vertLighting", new SourceUtils.VertexLightingLoader(_this));
+            _this.ambientLoader = _this.addPagedLoader("ambient", new SourceUtils.AmbientLoader());
+            _this.playerController = new SourceUtils.PlayerController(_this);
+            _this.cameraPathPlayer = new SourceUtils.CameraPathPlayer(_this);
+            _this.input = new SourceUtils.InputController(_this);
+            _this.orbitController = new SourceUtils.OrbitController(_this);
+            _this.overviewRenderer = new SourceUtils.OverviewRenderer(_this);
+            _this.inspector = new SourceUtils.EntityInspector(_this);
+            _this.ioOverlay = new SourceUtils.EntityIoOverlay(_this);
+            _this.gizmos = new SourceUtils.PointEntityGizmos(_this);
+            _this.measureTool = new SourceUtils.MeasureTool(_this);
+            _this.cameraMode = CameraMode.Fixed;
+            _this.saveCameraPosInHash = false;
+            _this.showDebugPanel = false;
+            _this.showLoadingOverlay = false;
+            _this.showEntityList = false;
+            _this.interpolateAmbientCubes = true;
+            // Draw a top-down radar around the camera instead of the normal view
+            _this.overviewMode = false;
+            // Clicks measure between points on the world instead of picking entities
+            _this.measureMode = false;
+            // Angular radius of the sun drawn in the sky, in degrees (0 to hide it)
+            _this.sunDiscSize = 0;
+            // Sun shadows cast by props and ropes (0 cascades to disable)
+            _this.shadowCascadeCount = 0;
+            _this.shadowResolution = 1024;
+            _this.shadowDistance = 2048;
+            _this.simulateRopes = false;
+            _this.freezeRopes = false;
+            _this.ropeGravity = 800;
+            _this.wind = new Facepunch.Vector3();
+            // Distance at which load priority hints drop to half of their nearby value
+            _this.loadPriorityFalloff = 2048;
+            // Finish loading with whatever succeeded when pages fail, rather than waiting forever
+            _this.allowPartialLoad = false;
+            // Keep map pages in IndexedDB between visits, for maps exported with a version
+            _this.useOfflineCache = false;
+            // Relative weight of each ILoadCategories entry in the total progress, defaulting to 1
+            _this.loadProgressWeights = {};
+            _this.totalLoadProgress = 0;
+            _this.savedShadowCascadeCount = 3;
+            _this.savedSunDiscSize = 1.5;
+            _this.onHashChange_temp = new Facepunch.Vector3();
+            _this.lookAngs = new Facepunch.Vector2();
+            _this.tempQuat = new Facepunch.Quaternion();
+            _this.lookQuat = new Facepunch.Quaternion();
+            _this.worldToScreen_temp = new Facepunch.Vector4();
+            _this.worldToScreen_matrix = new Facepunch.Matrix4();
+            _this.frameCount = 0;
+            _this.allLoaded = false;
+            _this.mapReady = false;
+            _this.loadPriorityOrigin = new Facepunch.Vector3();
+            _this.lastCameraPos = new Facepunch.Vector3(NaN, NaN, NaN);
+            _this.lastLookAngs = new Facepunch.Vector2(NaN, NaN);
+            _this.onUpdateFrame_temp = new Facepunch.Vector3();
+            _this.wasWalking = false;
+            _this.wasOrbiting = false;
+            container.classList.add("map-viewer");
+            _this.input.actionHandler = function (action) { return _this.onInputAction(action); };
+            _this.map.indexFailedHandler = function (error) { return _this.onPageLoadFailed(error); };
+            return _this;
+        }
+        MapViewer.prototype.addPagedLoader = function (name, loader) {
+            var _this = this;
+            loader.name = name;
+            loader.pageFailedHandler = function (error) { return _this.onPageLoadFailed(error); };
+            this.pagedLoaders.push(loader);
+            return this.addLoader(loader);
+        };
+        MapViewer.prototype.loadMap = function (url) {
+            if (this.mapUrl != null) {
+                // Let the new map choose a spawn point to start from
+                if (this.mainCamera != null)
+                    this.mainCamera.setPosition(Facepunch.Vector3.zero);
+                this.allLoaded = false;
+                this.mapReady = false;
+                this.wasWalking = false;
+                this.totalLoadProgress = 0;
+                this.inspector.clear();
+                this.ioOverlay.clear();
+                this.gizmos.clear();
+                this.measureTool.clear();
+                if (this.entityList != null)
+                    this.entityList.refresh();
+                if (this.debugPanel != null) {
+                    var loading = this.debugPanel.getElementsByClassName("debug-loading")[0];
+                    if (loading != null)
+                        loading.style.display = null;
+                }
+            }
+            this.mapUrl = url;
+            this.map.load(url);
+        };
+        MapViewer.prototype.addLoadErrorHandler = function (action) {
+            this.loadErrorHandlers.push(action);
+        };
+        MapViewer.prototype.onPageLoadFailed = function (error) {
+            for (var _i = 0, _a = this.loadErrorHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler(error);
+            }
+        };
+        MapViewer.prototype.addLoadProgressHandler = function (action) {
+            this.loadProgressHandlers.push(action);
+        };
+        MapViewer.prototype.addMapReadyHandler = function (action) {
+            this.mapReadyHandlers.push(action);
+        };
+        MapViewer.prototype.addAllLoadedHandler = function (action) {
+            this.allLoadedHandlers.push(action);
+        };
+        MapViewer.prototype.onLoadProgress = function (progress) {
+            if (this.loadingOverlay != null) {
+                this.loadingOverlay.update(progress);
+            }
+            for (var _i = 0, _a = this.loadProgressHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler(progress);
+            }
+        };
+        // Called once the world can first be drawn, with the lightmap and world model loaded
+        MapViewer.prototype.onMapReady = function () {
+            for (var _i = 0, _a = this.mapReadyHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler();
+            }
+        };
+        MapViewer.prototype.onAllLoaded = function () {
+            for (var _i = 0, _a = this.allLoadedHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler();
+            }
+        };
+        MapViewer.getCategoryProgress = function (loaders, weights) {
+            var result = { progress: 0, bytesLoaded: 0, failedPages: 0 };
+            for (var i = 0; i < loaders.length; ++i) {
+                result.progress += loaders[i].getLoadProgress() * weights[i];
+                result.bytesLoaded += loaders[i].getLoadedBytes();
+                result.failedPages += loaders[i].getFailedPageCount();
+            }
+            return result;
+        };
+        MapViewer.prototype.getLoadProgress = function () {
+            var categories = {
+                vis: MapViewer.getCategoryProgress([this.visLoader], [1]),
+                bsp: MapViewer.getCategoryProgress([this.bspModelLoader], [1]),
+                lightmap: { progress: this.map.getLightmapLoadProgress(), failedPages: 0 },
+                materials: MapViewer.getCategoryProgress([this.mapMaterialLoader], [1]),
+                geometry: MapViewer.getCategoryProgress([this.leafGeometryLoader, this.dispGeometryLoader], [0.5, 0.5]),
+                props: MapViewer.getCategoryProgress([this.vertLightingLoader, this.studioModelLoader], [0.25, 0.75])
+            };
+            var result = { total: 0, bytesLoaded: 0, failedPages: 0, categories: categories };
+            var totalWeight = 0;
+            for (var _i = 0, _a = Object.keys(categories); _i < _a.length; _i++) {
+                var name_3 = _a[_i];
+                var category = categories[name_3];
+                var weight = this.loadProgressWeights[name_3] !== undefined ? this.loadProgressWeights[name_3] : 1;
+                result.total += category.progress * weight;
+                if (category.bytesLoaded !== undefined)
+                    result.bytesLoaded += category.bytesLoaded;
+                result.failedPages += category.failedPages;
+                totalWeight += weight;
+            }
+            if (totalWeight > 0)
+                result.total /= totalWeight;
+            return result;
+        };
+        // Replaces the overlay shown while loading, disposing of the previous one (null for none)
+        MapViewer.prototype.setLoadingOverlay = function (overlay) {
+            if (this.loadingOverlay != null)
+                this.loadingOverlay.dispose();
+            this.loadingOverlay = overlay;
+            this.loadingOverlayVisible = undefined;
+        };
+        MapViewer.prototype.onCreateLoadingOverlay = function () {
+            return new SourceUtils.LoadingOverlay(this.container);
+        };
+        MapViewer.prototype.addCameraMovedHandler = function (action) {
+            this.cameraMovedHandlers.push(action);
+        };
+        MapViewer.prototype.addLeafChangedHandler = function (action) {
+            this.leafChangedHandlers.push(action);
+        };
+        MapViewer.prototype.addEntityPickedHandler = function (action) {
+            this.entityPickedHandlers.push(action);
+        };
+        MapViewer.prototype.onCameraMoved = function (camera) {
+            for (var _i = 0, _a = this.cameraMovedHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler(camera);
+            }
+        };
+        MapViewer.prototype.onLeafChanged = function (leaf) {
+            for (var _i = 0, _a = this.leafChangedHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler(leaf);
+            }
+        };
+        MapViewer.prototype.onEntityPicked = function (entity) {
+            for (var _i = 0, _a = this.entityPickedHandlers; _i < _a.length; _i++) {
+                var handler = _a[_i];
+                handler(entity);
+            }
+        };
+        MapViewer.prototype.selectEntity = function (entity) {
+            this.selectedEntity = entity;
+            this.notMovedTime = 0;
+            if (entity != null)
+                this.onEntityPicked(entity);
+        };
+        MapViewer.prototype.getCameraState = function () {
+            var pos = this.mainCamera.getPosition(new Facepunch.Vector3());
+            return {
+                position: { x: pos.x, y: pos.y, z: pos.z },
+                yaw: this.lookAngs.x * 180 / Math.PI,
+                pitch: this.lookAngs.y * 180 / Math.PI
+            };
+        };
+        // Moves the camera over the given number of seconds, or instantly if 0.
+        // Anything left out of the target stays as it is. Calls interrupted instead of
+        // complete if the movement is stopped or replaced before it finishes.
+        MapViewer.prototype.moveCamera = function (target, duration, complete, interrupted) {
+            if (duration === void 0) { duration = 0; }
+            this.stopCameraAnimation();
+            this.cameraPathPlayer.stop();
+            var toRadians = Math.PI / 180;
+            var from = new Facepunch.Vector3();
+            this.mainCamera.getPosition(from);
+            var to = new Facepunch.Vector3().copy(target.position != null ? target.position : from);
+            var toAngles = new Facepunch.Vector2(target.yaw != null ? target.yaw * toRadians : this.lookAngs.x, target.pitch != null ? target.pitch * toRadians : this.lookAngs.y);
+            // Take the shortest way around
+            var twoPi = Math.PI * 2;
+            toAngles.x = this.lookAngs.x + ((((toAngles.x - this.lookAngs.x) % twoPi) + twoPi * 1.5) % twoPi - Math.PI);
+            this.cameraAnimation = {
+                fromPosition: from,
+                toPosition: to,
+                fromAngles: new Facepunch.Vector2(this.lookAngs.x, this.lookAngs.y),
+                toAngles: toAngles,
+                duration: Math.max(duration, 0),
+                time: 0,
+                complete: complete,
+                interrupted: interrupted
+            };
+            if (duration <= 0)
+                this.updateCameraAnimation(0);
+        };
+        MapViewer.prototype.stopCameraAnimation = function () {
+            var anim = this.cameraAnimation;
+            this.cameraAnimation = null;
+            if (anim != null && anim.interrupted != null)
+                anim.interrupted();
+        };
+        MapViewer.prototype.isCameraAnimating = function () {
+            return this.cameraAnimation != null;
+        };
+        MapViewer.prototype.updateCameraAnimation = function (dt) {
+            var anim = this.cameraAnimation;
+            anim.time += dt;
+            var t = anim.duration <= 0 ? 1 : Math.min(anim.time / anim.duration, 1);
+            var eased = t * t * (3 - 2 * t);
+            var pos = this.onUpdateFrame_temp;
+            pos.copy(anim.fromPosition).multiplyScalar(1 - eased).add(anim.toPosition.x * eased, anim.toPosition.y * eased, anim.toPosition.z * eased);
+            this.mainCamera.setPosition(pos);
+            this.lookAngs.x = anim.fromAngles.x + (anim.toAngles.x - anim.fromAngles.x) * eased;
+            this.lookAngs.y = anim.fromAngles.y + (anim.toAngles.y - anim.fromAngles.y) * eased;
+            this.updateCameraAngles();
+            this.notMovedTime = 0;
+            if (t < 1)
+                return;
+            // Make walking pick up from wherever we ended up
+            this.wasWalking = false;
+            this.cameraAnimation = null;
+            if (anim.complete != null)
+                anim.complete();
+        };
+        MapViewer.prototype.getRenderFeatures = function () {
+            return {
+                shadows: this.shadowCascadeCount > 0,
+                sunDisc: this.sunDiscSize > 0,
+                ropeSimulation: this.simulateRopes,
+                ambientInterpolation: this.interpolateAmbientCubes,
+                debugPanel: this.showDebugPanel,
+                loadingOverlay: this.showLoadingOverlay
+            };
+        };
+        // Only the given features are changed
+        MapViewer.prototype.setRenderFeatures = function (features) {
+            if (features.shadows != null && features.shadows !== this.shadowCascadeCount > 0) {
+                if (features.shadows) {
+                    this.shadowCascadeCount = this.savedShadowCascadeCount;
+                }
+                else {
+                    this.savedShadowCascadeCount = this.shadowCascadeCount;
+                    this.shadowCascadeCount = 0;
+                }
+            }
+            if (features.sunDisc != null && features.sunDisc !== this.sunDiscSize > 0) {
+                if (features.sunDisc) {
+                    this.sunDiscSize = this.savedSunDiscSize;
+                }
+                else {
+                    this.savedSunDiscSize = this.sunDiscSize;
+                    this.sunDiscSize = 0;
+                }
+            }
+            if (features.ropeSimulation != null)
+                this.simulateRopes = features.ropeSimulation;
+            if (features.ambientInterpolation != null)
+                this.interpolateAmbientCubes = features.ambientInterpolation;
+            if (features.debugPanel != null)
+                this.showDebugPanel = features.debugPanel;
+            if (features.loadingOverlay != null)
+                this.showLoadingOverlay = features.loadingOverlay;
+            // Get the new state saved in the hash
+            this.notMovedTime = 0;
+            this.forceDrawListInvalidation(true);
+        };
+        MapViewer.prototype.getState = function () {
+            var leaf = this.mainCamera != null ? this.mainCamera.getLeaf() : null;
+            return {
+                mapUrl: this.mapUrl != null ? this.mapUrl : null,
+                cameraMode: this.cameraMode,
+                camera: this.mainCamera != null ? this.getCameraState() : null,
+                leaf: leaf != null ? leaf.index : -1,
+                cluster: leaf != null && leaf.cluster !== undefined ? leaf.cluster : -1,
+                loadProgress: this.totalLoadProgress,
+                allLoaded: this.allLoaded,
+                features: this.getRenderFeatures()
+            };
+        };
+        MapViewer.prototype.setPageCacheScope = function (scope) {
+            for (var _i = 0, _a = this.pagedLoaders; _i < _a.length; _i++) {
+                var loader = _a[_i];
+                loader.cacheScope = scope;
+            }
+        };
+        MapViewer.prototype.getFailedPageCount = function () {
+            var count = 0;
+            for (var _i = 0, _a = this.pagedLoaders; _i < _a.length; _i++) {
+                var loader = _a[_i];
+                count += loader.getFailedPageCount();
+            }
+            return count;
+        };
+        MapViewer.prototype.isAllLoaded = function () {
+            return this.allLoaded;
+        };
+        // True once loading has finished, but with some pages missing
+        MapViewer.prototype.isPartiallyLoaded = function () {
+            return this.allLoaded && this.getFailedPageCount() > 0;
+        };
+        MapViewer.prototype.onInitialize = function () {
+            var _this = this;
+            this.canLockPointer = true;
+            this.mainCamera = new SourceUtils.Entities.Camera(this, 75);
+            this.input.attach(this.container);
+            this.orbitController.attach(this.container);
+            var deltaAngles = new Facepunch.Vector3();
+            var lastRotationSampleTime = new Date().getTime() / 1000;
+            var deviceRotate = function (x, y, z, period, toRadians) {
+                x *= toRadians / period;
+                y *= toRadians / period;
+                z *= toRadians / period;
+                var sampleTime = new Date().getTime() / 1000;
+                var deltaTime = sampleTime - lastRotationSampleTime;
+                lastRotationSampleTime = sampleTime;
+                deltaAngles.x = x * deltaTime;
+                deltaAngles.y = y * deltaTime;
+                deltaAngles.z = z * deltaTime;
+                _this.onDeviceRotate(deltaAngles);
+            };
+            var wind = window;
+            if (wind.DeviceMotionEvent) {
+                window.addEventListener("devicemotion", function (evnt) {
+                    var rate = evnt.rotationRate;
+                    deviceRotate(rate.beta, rate.gamma, rate.alpha, 1.0, 1.0);
+                }, true);
+            }
+            if (window.location.hash != null && window.location.hash.length > 1) {
+                this.hashChange();
+            }
+            window.onhashchange = function (ev) { return _this.hashChange(); };
+            _super.prototype.onInitialize.call(this);
+        };
+        MapViewer.prototype.setHash = function (value) {
+            if (typeof value === "string") {
+                this.oldHash = value;
+                window.location.hash = value;
+                return;
+            }
+            var hash = "#";
+            var strings = "";
+            for (var key in value) {
+                if (!value.hasOwnProperty(key))
+                    continue;
+                if (!MapViewer.hashKeyRegex.test(key)) {
+                    console.warn("Invalid hash object key: " + key);
+                    continue;
+                }
+                var val = value[key];
+                if (val == null)
+                    continue;
+                // Strings always get their own segment, so a targetname like "007" is read back unchanged
+                if (typeof val === "string") {
+                    strings += "/" + key + ":" + encodeURIComponent(val);
+                    continue;
+                }
+                if (typeof val !== "number") {
+                    console.warn("Invalid hash object value: " + val);
+                    continue;
+                }
+                hash += key;
+                hash += val;
+            }
+            hash += strings;
+            this.setHash(hash);
+        };
+        MapViewer.prototype.hashChange = function () {
+            var hash = window.location.hash;
+            if (hash === this.oldHash)
+                return;
+            this.oldHash = hash;
+            if (!MapViewer.hashObjectRegex.test(hash)) {
+                this.onHashChange(hash);
+                return;
+            }
+            var obj = {};
+            var slashIndex = hash.indexOf("/");
+            var numbers = slashIndex === -1 ? hash : hash.substr(0, slashIndex);
+            var keyValRegex = /([a-z_]+)(-?[0-9]+(?:\.[0-9]+)?)/ig;
+            var match;
+            while ((match = keyValRegex.exec(numbers)) != null) {
+                obj[match[1]] = parseFloat(match[2]);
+            }
+            if (slashIndex !== -1) {
+                for (var _i = 0, _a = hash.substr(slashIndex + 1).split("/"); _i < _a.length; _i++) {
+                    var segment = _a[_i];
+                    var colonIndex = segment.indexOf(":");
+                    obj[segment.substr(0, colonIndex)] = decodeURIComponent(segment.substr(colonIndex + 1));
+                }
+            }
+            this.onHashChange(obj);
+        };
+        MapViewer.prototype.onHashChange = function (value) {
+            if (typeof value === "string")
+                return;
+            if (!this.saveCameraPosInHash)
+                return;
+            var posHash = value;
+            var pos = this.mainCamera.getPosition(this.onHashChange_temp);
+            if (posHash.x !== undefined) {
+                pos.x = posHash.x;
+            }
+            if (posHash.y !== undefined) {
+                pos.y = posHash.y;
+            }
+            if (posHash.z !== undefined) {
+                pos.z = posHash.z;
+            }
+            this.mainCamera.setPosition(pos);
+            if (posHash.r !== undefined) {
+                this.lookAngs.x = posHash.r / 180 * Math.PI;
+            }
+            if (posHash.s !== undefined) {
+                this.lookAngs.y = posHash.s / 180 * Math.PI;
+            }
+            this.updateCameraAngles();
+            if (posHash.f !== undefined)
+                this.mainCamera.setFov(posHash.f);
+            if (posHash.m !== undefined && MapViewer.isCameraMode(posHash.m))
+                this.cameraMode = posHash.m;
+            if (posHash.d !== undefined)
+                this.showDebugPanel = posHash.d !== 0;
+            if (posHash.t !== undefined)
+                this.setRenderFeatures(MapViewer.getRenderFeaturesFromFlags(posHash.t));
+            // Views and entities come from the map, so might have to wait for it.
+            // Any that the map doesn't have are ignored.
+            if (posHash.v !== undefined || posHash.e !== undefined) {
+                this.pendingHash = posHash;
+                if (this.mapReady)
+                    this.applyPendingHash();
+            }
+        };
+        // CameraMode values are combinations of its flags, so anything else in a hash is ignored
+        MapViewer.isCameraMode = function (value) {
+            var flags = CameraMode.CanLook | CameraMode.CanMove | CameraMode.Walk | CameraMode.Orbit;
+            return value >= 0 && value === Math.floor(value) && (value & ~flags) === 0;
+        };
+        MapViewer.prototype.applyPendingHash = function () {
+            var posHash = this.pendingHash;
+            if (posHash == null)
+                return;
+            this.pendingHash = null;
+            if (posHash.v !== undefined)
+                this.goToNamedView(posHash.v);
+            if (posHash.e !== undefined) {
+                var entity = this.map.getNamedEntity(posHash.e);
+                if (entity != null)
+                    this.selectEntity(entity);
+            }
+        };
+        // Keeps the hash short, to a tenth of a unit or degree
+        MapViewer.roundForHash = function (value) {
+            return Math.round(value * 10) / 10;
+        };
+        MapViewer.prototype.getHashState = function () {
+            var pos = this.mainCamera.getPosition(this.onUpdateFrame_temp);
+            var yaw = this.lookAngs.x * 180.0 / Math.PI;
+            var pitch = this.lookAngs.y * 180.0 / Math.PI;
+            var hash = {
+                x: MapViewer.roundForHash(pos.x),
+                y: MapViewer.roundForHash(pos.y),
+                z: MapViewer.roundForHash(pos.z),
+                r: MapViewer.roundForHash(yaw),
+                s: MapViewer.roundForHash(pitch),
+                f: MapViewer.roundForHash(this.mainCamera.getFov()),
+                m: this.cameraMode,
+                d: this.showDebugPanel ? 1 : 0,
+                t: MapViewer.getRenderFeatureFlags(this.getRenderFeatures())
+            };
+            if (this.selectedEntity != null && this.selectedEntity.targetname != null) {
+                hash.e = this.selectedEntity.targetname;
+            }
+            return hash;
+        };
+        MapViewer.getRenderFeatureFlags = function (features) {
+            var flags = RenderFeatureFlags.None;
+            if (features.shadows)
+                flags |= RenderFeatureFlags.Shadows;
+            if (features.sunDisc)
+                flags |= RenderFeatureFlags.SunDisc;
+            if (features.ropeSimulation)
+                flags |= RenderFeatureFlags.RopeSimulation;
+            if (features.ambientInterpolation)
+                flags |= RenderFeatureFlags.AmbientInterpolation;
+            return flags;
+        };
+        MapViewer.getRenderFeaturesFromFlags = function (flags) {
+            return {
+                shadows: (flags & RenderFeatureFlags.Shadows) !== 0,
+                sunDisc: (flags & RenderFeatureFlags.SunDisc) !== 0,
+                ropeSimulation: (flags & RenderFeatureFlags.RopeSimulation) !== 0,
+                ambientInterpolation: (flags & RenderFeatureFlags.AmbientInterpolation) !== 0
+            };
+        };
+        // Stands the camera at the given spawn point, facing the same way, returning false if there isn't one
+        MapViewer.prototype.teleportToSpawn = function (spawn, duration) {
+            if (duration === void 0) { duration = 0; }
+            if (spawn == null || spawn.origin == null)
+                return false;
+            var pos = new Facepunch.Vector3().copy(spawn.origin);
+            pos.z += SourceUtils.PlayerController.standEyeHeight;
+            // Source yaw is measured from +X and pitch is positive looking down
+            this.moveCamera({
+                position: pos,
+                yaw: spawn.angles != null ? spawn.angles.y - 90 : undefined,
+                pitch: spawn.angles != null ? -spawn.angles.x : undefined
+            }, duration);
+            return true;
+        };
+        // Moves to a viewpoint listed in the map index, returning false if there isn't one by that name
+        MapViewer.prototype.goToNamedView = function (name, duration) {
+            if (duration === void 0) { duration = 0; }
+            var view = this.map.getNamedView(name);
+            if (view == null)
+                return false;
+            if (view.fov != null)
+                this.mainCamera.setFov(view.fov);
+            // Source yaw is measured from +X and pitch is positive looking down
+            this.moveCamera({
+                position: view.origin,
+                yaw: view.angles.y - 90,
+                pitch: -view.angles.x
+            }, duration);
+            return true;
+        };
+        // Moves back from the entity's centre far enough to see all of it, keeping the current angles,
+        // and selects it. Returns false if the entity has no position.
+        MapViewer.prototype.flyToEntity = function (info, duration) {
+            if (duration === void 0) { duration = 1; }
+            var center = this.map.getEntityCenter(info, new Facepunch.Vector3());
+            if (center == null)
+                return false;
+            var inst = this.map.getEntityInstance(info);
+            var min = MapViewer.flyToEntity_min;
+            var max = MapViewer.flyToEntity_max;
+            var distance = 128;
+            if (inst != null && inst.getBounds(min, max)) {
+                distance = Math.max(distance, max.sub(min).length());
+            }
+            if (this.orbitController.isActive()) {
+                this.orbitController.setTarget(center, distance);
+            }
+            else {
+                var cosPitch = Math.cos(this.lookAngs.y);
+                var eye = new Facepunch.Vector3(Math.sin(this.lookAngs.x) * cosPitch, -Math.cos(this.lookAngs.x) * cosPitch, -Math.sin(this.lookAngs.y)).multiplyScalar(distance).add(center);
+                this.moveCamera({ position: eye }, duration);
+            }
+            if (inst == null)
+                return true;
+            if (this.inspector.enabled) {
+                this.inspector.select({ entity: inst, leaf: null, position: center, distance: 0 });
+            }
+            else {
+                this.selectEntity(inst);
+            }
+            return true;
+        };
+        MapViewer.prototype.onCreateEntityList = function () {
+            return new SourceUtils.EntityListPanel(this);
+        };
+        MapViewer.prototype.onCreateDebugPanel = function () {
+            var panel = document.createElement("div");
+            panel.classList.add("side-panel");
+            panel.innerHTML = "\n                <span class=\"label\">Frame time:</span>&nbsp;<span class=\"debug-frametime\">0</span>&nbsp;ms<br/>\n                <span class=\"label\">Frame rate:</span>&nbsp;<span class=\"debug-framerate\">0</span>&nbsp;fps<br />\n                <span class=\"label\">Draw calls:</span>&nbsp;<span class=\"debug-drawcalls\">0</span><br />\n                <div class=\"debug-loading\">\n                    <span class=\"label\">Map loaded:</span>&nbsp;<span class=\"debug-loadpercent\">0</span>%<br />\n                </div>";
+            this.container.appendChild(panel);
+            return panel;
+        };
+        MapViewer.prototype.onDeviceRotate = function (deltaAngles) {
+            if ((this.cameraMode & CameraMode.CanLook) === 0)
+                return;
+            if (window.innerWidth > window.innerHeight) {
+                this.lookAngs.x += deltaAngles.z;
+                this.lookAngs.y -= deltaAngles.x;
+            }
+            else {
+                this.lookAngs.x += deltaAngles.x;
+                this.lookAngs.y += deltaAngles.z;
+            }
+            this.notMovedTime = 0;
+            this.updateCameraAngles();
+        };
+        MapViewer.prototype.onResize = function () {
+            _super.prototype.onResize.call(this);
+            if (this.mainCamera != null) {
+                this.mainCamera.setAspect(this.getWidth() / this.getHeight());
+            }
+        };
+        MapViewer.prototype.setCameraAngles = function (yaw, pitch) {
+            this.lookAngs.x = yaw;
+            this.lookAngs.y = pitch;
+            this.updateCameraAngles();
+        };
+        MapViewer.prototype.getCameraAngles = function (target) {
+            return target.set(this.lookAngs.x, this.lookAngs.y);
+        };
+        // Point in the container in pixels for the given world position, or null if it is behind the camera
+        MapViewer.prototype.worldToScreen = function (pos, target) {
+            var camera = this.mainCamera;
+            var view = this.worldToScreen_temp.set(pos.x, pos.y, pos.z, 1)
+                .applyMatrix4(camera.getInverseMatrix(this.worldToScreen_matrix));
+            // The camera looks down -Z
+            if (view.z >= 0)
+                return null;
+            var tanHalfFov = Math.tan(camera.getFov() * Math.PI / 360);
+            var viewX = view.x / (-view.z * 2 * tanHalfFov * camera.getAspect());
+            var viewY = view.y / (-view.z * 2 * tanHalfFov);
+            return target.set((viewX + 0.5) * this.getWidth(), (0.5 - viewY) * this.getHeight());
+        };
+        // World space direction through the given point in the container, in pixels
+        MapViewer.prototype.getScreenRay = function (screenX, screenY, target) {
+            var camera = this.mainCamera;
+            var tanHalfFov = Math.tan(camera.getFov() * Math.PI / 360);
+            var viewX = screenX / this.getWidth() - 0.5;
+            var viewY = screenY / this.getHeight() - 0.5;
+            target.set(viewX * 2 * tanHalfFov * camera.getAspect(), -viewY * 2 * tanHalfFov, -1);
+            camera.applyRotationTo(target);
+            return target.normalize();
+        };
+        MapViewer.prototype.updateCameraAngles = function () {
+            if (this.lookAngs.y < -Math.PI * 0.5)
+                this.lookAngs.y = -Math.PI * 0.5;
+            if (this.lookAngs.y > Math.PI * 0.5)
+                this.lookAngs.y = Math.PI * 0.5;
+            this.lookQuat.setAxisAngle(Facepunch.Vector3.unitZ, this.lookAngs.x);
+            this.tempQuat.setAxisAngle(Facepunch.Vector3.unitX, this.lookAngs.y + Math.PI * 0.5);
+            this.lookQuat.multiply(this.tempQuat);
+            this.mainCamera.setRotation(this.lookQuat);
+        };
+        MapViewer.prototype.onMouseDown = function (button, screenPos, target) {
+            this.inspector.onMouseDown(button, screenPos);
+            this.measureTool.onMouseDown(button, screenPos);
+            // Orbiting drags with the mouse rather than locking the pointer
+            if (this.orbitController.isActive()) {
+                return target === this.canvas && this.orbitController.onMouseDown(button, screenPos);
+            }
+            return _super.prototype.onMouseDown.call(this, button, screenPos, target);
+        };
+        MapViewer.prototype.onMouseUp = function (button, screenPos, target) {
+            var wasDragging = this.orbitController.onMouseUp(button);
+            if (this.measureTool.onMouseUp(button, screenPos) || this.inspector.onMouseUp(button, screenPos) || wasDragging)
+                return true;
+            return _super.prototype.onMouseUp.call(this, button, screenPos, target);
+        };
+        MapViewer.prototype.onMouseMove = function (screenPos) {
+            _super.prototype.onMouseMove.call(this, screenPos);
+            if (this.orbitController.isActive()) {
+                this.orbitController.onMouseMove(screenPos);
+                this.notMovedTime = 0;
+            }
+        };
+        MapViewer.prototype.onMouseScroll = function (delta) {
+            if (this.orbitController.isActive()) {
+                this.notMovedTime = 0;
+                return this.orbitController.onMouseScroll(delta);
+            }
+            return _super.prototype.onMouseScroll.call(this, delta);
+        };
+        MapViewer.prototype.onMouseLook = function (delta) {
+            _super.prototype.onMouseLook.call(this, delta);
+            if ((this.cameraMode & CameraMode.CanLook) === 0)
+                return;
+            if (Math.abs(delta.x) === 0 && Math.abs(delta.y) === 0)
+                return;
+            this.lookAngs.sub(delta.multiplyScalar(1 / 800));
+            this.notMovedTime = 0;
+            this.updateCameraAngles();
+        };
+        MapViewer.prototype.toggleFullscreen = function () {
+            var container = this.container;
+            var cont = container;
+            var doc = document;
+            if (document.fullscreenElement === container || document.webkitFullscreenElement === container || doc.mozFullScreenElement === container) {
+                if (document.exitFullscreen)
+                    document.exitFullscreen();
+                else if (document.webkitExitFullscreen)
+                    document.webkitExitFullscreen();
+                else if (doc.mozCancelFullScreen)
+                    doc.mozCancelFullScreen();
+            }
+            else if (container.requestFullscreen) {
+                container.requestFullscreen();
+            }
+            else if (container.webkitRequestFullscreen) {
+                container.webkitRequestFullscreen();
+            }
+            else if (cont.mozRequestFullScreen) {
+                cont.mozRequestFullScreen();
+            }
+        };
+        MapViewer.prototype.onKeyDown = function (key) {
+            _super.prototype.onKeyDown.call(this, key);
+            return this.input.onKeyDown(key);
+        };
+        // Called when a key or gamepad button bound to an action is pressed
+        MapViewer.prototype.onInputAction = function (action) {
+            switch (action) {
+                case SourceUtils.InputAction.ToggleFullscreen:
+                    this.toggleFullscreen();
+                    return true;
+                case SourceUtils.InputAction.ToggleWalk:
+                    if ((this.cameraMode & CameraMode.CanMove) === 0)
+                        return false;
+                    this.cameraMode ^= CameraMode.Walk;
+                    return true;
+                default:
+                    return this.isPointerLocked() && (this.cameraMode & CameraMode.CanMove) !== 0;
+            }
+        };
+        MapViewer.prototype.onSetDebugText = function (className, value) {
+            var elem = this.debugPanel.getElementsByClassName(className)[0];
+            if (elem == null)
+                return;
+            elem.innerText = value;
+            if (className === "debug-loadpercent" && parseInt(value) >= 100) {
+                var loading = this.debugPanel.getElementsByClassName("debug-loading")[0];
+                if (loading != null) {
+                    loading.style.display = "none";
+                }
+            }
+        };
+        // Priority hint for loading something at the given position, higher when it is nearer
+        // the camera. Zero if it can't be seen, being outside the camera's visible clusters or
+        // beyond its far plane, so PagedLoader leaves it until the camera gets closer.
+        MapViewer.prototype.getLoadPriority = function (position, clusters) {
+            var origin = this.loadPriorityOrigin;
+            var dx = position.x - origin.x;
+            var dy = position.y - origin.y;
+            var dz = position.z - origin.z;
+            var dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+            var nearness = 1 / (1 + dist / this.loadPriorityFalloff);
+            if (dist <= this.mainCamera.getFar() && this.map.isAnyClusterVisible(clusters))
+                return nearness;
+            // The 3D skybox is drawn scaled up from the sky camera, so distance doesn't matter there
+            var skyCamera = this.map.skyCamera;
+            if (skyCamera != null && this.map.isAnyClusterVisible(clusters, skyCamera.getLeaf()))
+                return nearness;
+            return 0;
+        };
+        MapViewer.prototype.checkCameraChanged = function () {
+            var pos = this.loadPriorityOrigin;
+            var last = this.lastCameraPos;
+            if (pos.x !== last.x || pos.y !== last.y || pos.z !== last.z
+                || this.lookAngs.x !== this.lastLookAngs.x || this.lookAngs.y !== this.lastLookAngs.y) {
+                last.copy(pos);
+                this.lastLookAngs.set(this.lookAngs.x, this.lookAngs.y);
+                this.onCameraMoved(this.getCameraState());
+            }
+            if (!this.map.isReady())
+                return;
+            var leaf = this.mainCamera.getLeaf();
+            if (leaf === this.lastLeaf)
+                return;
+            this.lastLeaf = leaf;
+            this.onLeafChanged(leaf);
+        };
+        MapViewer.prototype.onUpdateFrame = function (dt) {
+            _super.prototype.onUpdateFrame.call(this, dt);
+            this.map.update(this.cameraPathPlayer.getWorldTimestep(dt));
+            var showLoadingOverlay = this.showLoadingOverlay && !this.allLoaded;
+            if (showLoadingOverlay && this.loadingOverlay === undefined) {
+                this.loadingOverlay = this.onCreateLoadingOverlay();
+            }
+            if (showLoadingOverlay !== this.loadingOverlayVisible && this.loadingOverlay != null) {
+                this.loadingOverlayVisible = showLoadingOverlay;
+                this.loadingOverlay.setVisible(showLoadingOverlay);
+            }
+            if (!this.mapReady && this.map.isReady()) {
+                this.mapReady = true;
+                this.applyPendingHash();
+                this.onMapReady();
+                if (this.entityList != null)
+                    this.entityList.refresh();
+            }
+            if (this.showEntityList !== this.entityListVisible) {
+                this.entityListVisible = this.showEntityList;
+                if (this.showEntityList && this.entityList === undefined) {
+                    this.entityList = this.onCreateEntityList();
+                    this.entityList.refresh();
+                }
+                if (this.entityList != null)
+                    this.entityList.setVisible(this.showEntityList);
+            }
+            this.measureTool.update();
+            if (this.showDebugPanel !== this.debugPanelVisible) {
+                this.debugPanelVisible = this.showDebugPanel;
+                if (this.showDebugPanel && this.debugPanel === undefined) {
+                    this.debugPanel = this.onCreateDebugPanel();
+                }
+                if (this.debugPanel != null) {
+                    if (this.showDebugPanel)
+                        this.debugPanel.style.display = null;
+                    else
+                        this.debugPanel.style.display = "none";
+                }
+            }
+            var savePosPeriod = 1;
+            var wasBeforeSavePosPeriod = this.notMovedTime < savePosPeriod;
+            var input = this.input;
+            input.update(dt);
+            if ((this.cameraMode & CameraMode.CanLook) !== 0 && input.look.lengthSq() > 0) {
+                this.lookAngs.sub(input.look);
+                this.notMovedTime = 0;
+                this.updateCameraAngles();
+            }
+            var walking = (this.cameraMode & (CameraMode.CanMove | CameraMode.Walk)) === (CameraMode.CanMove | CameraMode.Walk);
+            if (!walking)
+                this.wasWalking = false;
+            var orbiting = this.orbitController.isActive();
+            if (!orbiting)
+                this.wasOrbiting = false;
+            if (this.cameraPathPlayer.isPlaying()) {
+                this.cameraPathPlayer.update(dt);
+                this.wasWalking = false;
+                this.notMovedTime = 0;
+            }
+            else if (this.cameraAnimation != null) {
+                this.updateCameraAnimation(dt);
+            }
+            else if (orbiting) {
+                if (!this.wasOrbiting) {
+                    this.wasOrbiting = true;
+                    this.orbitController.begin();
+                }
+                this.orbitController.update(dt);
+            }
+            else if (walking && this.map.isReady()) {
+                var player = this.playerController;
+                var pos = this.onUpdateFrame_temp;
+                if (!this.wasWalking) {
+                    this.wasWalking = true;
+                    player.setEyePosition(this.mainCamera.getPosition(pos));
+                }
+                var yaw = this.lookAngs.x;
+                var forward = input.move.y;
+                var right = input.move.x;
+                var wishDir = pos.set(-Math.sin(yaw) * forward + Math.cos(yaw) * right, Math.cos(yaw) * forward + Math.sin(yaw) * right, 0);
+                // Keep partial stick or touch input, but don't let diagonals go faster
+                if (wishDir.lengthSq() > 1)
+                    wishDir.normalize();
+                player.update(dt, wishDir, input.isActionDown(SourceUtils.InputAction.Jump), input.isActionDown(SourceUtils.InputAction.Duck));
+                if (player.velocity.lengthSq() > 0)
+                    this.notMovedTime = 0;
+                this.mainCamera.setPosition(player.getEyePosition(pos));
+            }
+            else if ((this.cameraMode & CameraMode.CanMove) !== 0 && this.map.isReady()) {
+                var move = this.onUpdateFrame_temp;
+                var moveSpeed = 512 * dt
+                    * (input.isActionDown(SourceUtils.InputAction.Sprint) ? 4 : 1)
+                    * (input.isActionDown(SourceUtils.InputAction.Slow) ? 0.333 : 1);
+                move.set(input.move.x * moveSpeed, 0, -input.move.y * moveSpeed);
+                if (move.lengthSq() > 0) {
+                    this.mainCamera.applyRotationTo(move);
+                    this.mainCamera.translate(move);
+                    this.notMovedTime = 0;
+                }
+            }
+            this.notMovedTime += dt;
+            this.mainCamera.getPosition(this.loadPriorityOrigin);
+            this.checkCameraChanged();
+            if (this.saveCameraPosInHash && wasBeforeSavePosPeriod && this.notMovedTime >= savePosPeriod) {
+                this.setHash(this.getHashState());
+            }
+            // Diagnostics
+            var drawCalls = this.mainCamera.getDrawCalls();
+            if (drawCalls !== this.lastDrawCalls && this.showDebugPanel) {
+                this.lastDrawCalls = drawCalls;
+                this.onSetDebugText("debug-drawcalls", drawCalls.toString());
+            }
+            ++this.frameCount;
+            var time = performance.now();
+            if (this.lastProfileTime === undefined) {
+                this.lastProfileTime = time;
+            }
+            else if (time - this.lastProfileTime >= 500) {
+                var timeDiff = (time - this.lastProfileTime) / 1000;
+                this.avgFrameTime = timeDiff * 1000 / this.frameCount;
+                this.avgFrameRate = this.frameCount / timeDiff;
+                if (this.showDebugPanel) {
+                    this.onSetDebugText("debug-frametime", this.avgFrameTime.toPrecision(4));
+                    this.onSetDebugText("debug-framerate", this.avgFrameRate.toPrecision(4));
+                }
+                if (!this.allLoaded) {
+                    for (var _i = 0, _a = this.pagedLoaders; _i < _a.length; _i++) {
+                        var loader = _a[_i];
+                        loader.countFailedAsLoaded = this.allowPartialLoad;
+                    }
+                    var progress = this.getLoadProgress();
+                    this.totalLoadProgress = progress.total;
+                    if (this.showDebugPanel) {
+                        this.onSetDebugText("debug-loadpercent", (this.totalLoadProgress * 100).toPrecision(3));
+                    }
+                    this.onLoadProgress(progress);
+                    if (this.totalLoadProgress >= 1) {
+                        this.allLoaded = true;
+                        // Brush entity bounds are known now, so connections can meet their
+                        // centres and brush entities are no longer mistaken for point entities
+                        this.ioOverlay.invalidate();
+                        this.gizmos.invalidate();
+                        this.onAllLoaded();
+                    }
+                }
+                this.lastProfileTime = time;
+                this.frameCount = 0;
+            }
+        };
+        MapViewer.prototype.onRenderFrame = function (dt) {
+            _super.prototype.onRenderFrame.call(this, dt);
+            var gl = this.context;
+            gl.clear(gl.DEPTH_BUFFER_BIT);
+            gl.depthFunc(gl.LEQUAL);
+            gl.cullFace(gl.FRONT);
+            if (this.overviewMode) {
+                this.overviewRenderer.renderRadar();
+            }
+            else if (this.mainCamera != null) {
+                this.mainCamera.render();
+            }
+            this.ioOverlay.update();
+            this.gizmos.update();
+            this.cameraPathPlayer.onFrameRendered();
+        };
+        MapViewer.prototype.populateCommandBufferParameters = function (buf) {
+            _super.prototype.populateCommandBufferParameters.call(this, buf);
+            this.map.populateCommandBufferParameters(buf);
+        };
+        return MapViewer;
+    }(WebGame.Game));
+    MapViewer.hashKeyRegex = /^[a-z_]+$/i;
+    MapViewer.hashObjectRegex = /^#(?=.)((?:[a-z_]+)(?:-?[0-9]+(?:\.[0-9]+)?))*(\/[a-z_]+:[^\/]*)*$/i;
+    MapViewer.flyToEntity_min = new Facepunch.Vector3();
+    MapViewer.flyToEntity_max = new Facepunch.Vector3();
+    SourceUtils.MapViewer = MapViewer;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    // How a player could get from the lower point of a measurement to the higher one
+    var Reachability;
+    (function (Reachability) {
+        Reachability[Reachability["Step"] = 0] = "Step";
+        Reachability[Reachability["Jump"] = 1] = "Jump";
+        Reachability[Reachability["CrouchJump"] = 2] = "CrouchJump";
+        Reachability[Reachability["TooHigh"] = 3] = "TooHigh";
+    })(Reachability = SourceUtils.Reachability || (SourceUtils.Reachability = {}));
+    // Measures between pairs of points clicked on the world while MapViewer.measureMode is set,
+    // picking like EntityInspector does. Heights are judged against PlayerController's movement.
+    var MeasureTool = (function () {
+        function MeasureTool(viewer) {
+            this.pickButton = WebGame.MouseButton.Left;
+            this.clickTolerance = 4;
+            // Hammer units are usually taken to be an inch
+            this.metresPerUnit = 0.0254;
+            // Size of the cross drawn at each point
+            this.markerSize = 4;
+            this.lineColor = new Facepunch.Vector3(1, 1, 0.25);
+            this.measurements = [];
+            this.mouseDownPos = new Facepunch.Vector2();
+            this.mouseDownPending = false;
+            this.traceResult = new SourceUtils.TraceResult();
+            this.temp = new Facepunch.Vector3();
+            this.viewer = viewer;
+        }
+        // Highest a standing jump can reach, from the player's jump speed and gravity
+        MeasureTool.prototype.getJumpHeight = function () {
+            var player = this.viewer.playerController;
+            return player.jumpSpeed * player.jumpSpeed / (2 * player.gravity);
+        };
+        // Ducking in the air tucks the legs up by the difference in hull heights, as in walk mode
+        MeasureTool.prototype.getCrouchJumpHeight = function () {
+            return this.getJumpHeight() + SourceUtils.PlayerController.standHeight - SourceUtils.PlayerController.duckHeight;
+        };
+        // Dropping down is always possible, so only climbs are judged
+        MeasureTool.prototype.getReachability = function (height) {
+            if (height <= SourceUtils.PlayerController.stepSize)
+                return Reachability.Step;
+            if (height <= this.getJumpHeight())
+                return Reachability.Jump;
+            if (height <= this.getCrouchJumpHeight())
+                return Reachability.CrouchJump;
+            return Reachability.TooHigh;
+        };
+        MeasureTool.prototype.measure = function (start, end) {
+            var dx = end.x - start.x;
+            var dy = end.y - start.y;
+            var dz = end.z - start.z;
+            return {
+                start: { x: start.x, y: start.y, z: start.z },
+                end: { x: end.x, y: end.y, z: end.z },
+                distance: Math.sqrt(dx * dx + dy * dy + dz * dz),
+                horizontal: Math.sqrt(dx * dx + dy * dy),
+                vertical: dz,
+                reachability: this.getReachability(dz)
+            };
+        };
+        MeasureTool.prototype.getMeasurements = function () {
+            return this.measurements;
+        };
+        MeasureTool.prototype.removeMeasurement = function (index) {
+            this.measurements.splice(index, 1);
+            this.updateLine();
+            this.updatePanel();
+        };
+        MeasureTool.prototype.toJson = function () {
+            return JSON.stringify({
+                map: this.viewer.getState().mapUrl,
+                metresPerUnit: this.metresPerUnit,
+                measurements: this.measurements.map(function (x) { return ({
+                    start: x.start,
+                    end: x.end,
+                    distance: x.distance,
+                    horizontal: x.horizontal,
+                    vertical: x.vertical,
+                    reachability: MeasureTool.reachabilityLabels[x.reachability]
+                }); })
+            }, null, 2);
+        };
+        MeasureTool.prototype.onMouseDown = function (button, screenPos) {
+            if (button !== this.pickButton)
+                return;
+            this.mouseDownPos.copy(screenPos);
+            this.mouseDownLocked = this.viewer.isPointerLocked();
+            this.mouseDownPending = true;
+        };
+        // Picks at the cursor when orbiting, or at the centre of the screen with the pointer locked
+        MeasureTool.prototype.onMouseUp = function (button, screenPos) {
+            var viewer = this.viewer;
+            if (!viewer.measureMode || button !== this.pickButton || !this.mouseDownPending)
+                return false;
+            this.mouseDownPending = false;
+            if (this.mouseDownLocked) {
+                this.addPoint(this.pick(viewer.getWidth() * 0.5, viewer.getHeight() * 0.5));
+                return true;
+            }
+            if (!viewer.orbitController.isActive())
+                return false;
+            var dx = screenPos.x - this.mouseDownPos.x;
+            var dy = screenPos.y - this.mouseDownPos.y;
+            if (dx * dx + dy * dy > this.clickTolerance * this.clickTolerance)
+                return false;
+            this.addPoint(this.pick(screenPos.x, screenPos.y));
+            return true;
+        };
+        // First surface under the given point on the screen, or null if nothing was hit
+        MeasureTool.prototype.pick = function (screenX, screenY) {
+            var viewer = this.viewer;
+            var camera = viewer.mainCamera;
+            if (!viewer.map.isReady())
+                return null;
+            var eye = camera.getPosition(new Facepunch.Vector3());
+            var dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            var end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+            var tr = viewer.map.trace(eye, end, SourceUtils.TraceMask.Solid, this.traceResult);
+            if (!tr.hit || tr.startSolid)
+                return null;
+            return new Facepunch.Vector3().copy(tr.position);
+        };
+        // Starts a measurement, or finishes the one that was started
+        MeasureTool.prototype.addPoint = function (pos) {
+            if (pos == null)
+                return;
+            if (this.pending == null) {
+                this.pending = new Facepunch.Vector3().copy(pos);
+            }
+            else {
+                this.measurements.push(this.measure(this.pending, pos));
+                this.pending = null;
+            }
+            this.updateLine();
+            this.updatePanel();
+        };
+        MeasureTool.prototype.drawMarker = function (line, pos) {
+            var size = this.markerSize;
+            var temp = this.temp;
+            line.moveTo(temp.set(pos.x - size, pos.y, pos.z));
+            line.lineTo(temp.set(pos.x + size, pos.y, pos.z));
+            line.moveTo(temp.set(pos.x, pos.y - size, pos.z));
+            line.lineTo(temp.set(pos.x, pos.y + size, pos.z));
+            line.moveTo(temp.set(pos.x, pos.y, pos.z - size));
+            line.lineTo(temp.set(pos.x, pos.y, pos.z + size));
+        };
+        MeasureTool.prototype.updateLine = function () {
+            var map = this.viewer.map;
+            if (this.line == null) {
+                this.line = new WebGame.DebugLine(this.viewer);
+                this.line.setColor(this.lineColor);
+            }
+            var line = this.line;
+            map.removeDynamicItem(line);
+            line.clear();
+            if (this.active) {
+                for (var _i = 0, _a = this.measurements; _i < _a.length; _i++) {
+                    var measurement = _a[_i];
+                    this.drawMarker(line, measurement.start);
+                    this.drawMarker(line, measurement.end);
+                    line.moveTo(measurement.start);
+                    line.lineTo(measurement.end);
+                }
+                if (this.pending != null)
+                    this.drawMarker(line, this.pending);
+            }
+            line.update();
+            if (this.active)
+                map.addDynamicItem(line);
+        };
+        MeasureTool.prototype.formatLength = function (units) {
+            return units.toFixed(1) + " u (" + (units * this.metresPerUnit).toFixed(2) + " m)";
+        };
+        MeasureTool.prototype.onCreatePanel = function () {
+            var panel = document.createElement("div");
+            panel.classList.add("side-panel", "measure-panel");
+            // Clicks on the panel shouldn't pick whatever is behind it
+            panel.addEventListener("mousedown", function (ev) { return ev.stopPropagation(); });
+            this.viewer.container.appendChild(panel);
+            return panel;
+        };
+        MeasureTool.prototype.addButton = function (parent, text, action) {
+            var button = document.createElement("span");
+            button.classList.add("button");
+            button.innerText = text;
+            button.addEventListener("click", function (ev) { return action(); });
+            parent.appendChild(button);
+        };
+        MeasureTool.prototype.download = function () {
+            var link = document.createElement("a");
+            link.href = "data:application/json;charset=utf-8," + encodeURIComponent(this.toJson());
+            link.download = "measurements.json";
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+        };
+        MeasureTool.prototype.updatePanel = function () {
+            var _this = this;
+            if (!this.active) {
+                if (this.panel != null)
+                    this.panel.style.display = "none";
+                return;
+            }
+            if (this.panel == null)
+                this.panel = this.onCreatePanel();
+            var panel = this.panel;
+            panel.style.display = null;
+            panel.innerHTML = "";
+            var title = document.createElement("div");
+            title.classList.add("label");
+            title.innerText = this.pending != null ? "Click the second point" : "Click the first point";
+            panel.appendChild(title);
+            this.measurements.forEach(function (measurement, index) {
+                var item = document.createElement("div");
+                item.classList.add("measurement");
+                if (measurement.reachability === Reachability.TooHigh)
+                    item.classList.add("too-high");
+                var rise = Math.abs(measurement.vertical);
+                var reach = MeasureTool.reachabilityLabels[measurement.reachability];
+                item.innerText = "#" + (index + 1) + "\n"
+                    + ("Distance: " + _this.formatLength(measurement.distance) + "\n")
+                    + ("Horizontal: " + _this.formatLength(measurement.horizontal) + "\n")
+                    + ("Vertical: " + _this.formatLength(rise) + " " + (measurement.vertical >= 0 ? "up" : "down") + " (" + reach + ")");
+                _this.addButton(item, "×", function () { return _this.removeMeasurement(index); });
+                panel.appendChild(item);
+            });
+            if (this.measurements.length > 0) {
+                this.addButton(panel, "Export JSON", function () { return _this.download(); });
+                this.addButton(panel, "Clear", function () { return _this.clear(); });
+            }
+        };
+        // Shows or hides everything when MapViewer.measureMode changes
+        MeasureTool.prototype.update = function () {
+            var active = this.viewer.measureMode;
+            if (active === this.active)
+                return;
+            this.active = active;
+            this.pending = null;
+            this.updateLine();
+            this.updatePanel();
+        };
+        // Forgets every measurement, such as when a new map is loaded
+        MeasureTool.prototype.clear = function () {
+            this.measurements = [];
+            this.pending = null;
+            if (this.line != null) {
+                this.viewer.map.removeDynamicItem(this.line);
+                this.line.dispose();
+                this.line = null;
+            }
+            if (this.active)
+                this.updateLine();
+            this.updatePanel();
+        };
+        return MeasureTool;
+    }());
+    MeasureTool.reachabilityLabels = (_a = {},
+        _a[Reachability.Step] = "Step",
+        _a[Reachability.Jump] = "Jump",
+        _a[Reachability.CrouchJump] = "Crouch jump",
+        _a[Reachability.TooHigh] = "Too high",
+        _a);
+    SourceUtils.MeasureTool = MeasureTool;
+    var _a;
 })(SourceUtils || (SourceUtils = {}));
-/// <reference path="../js/facepunch.webgame.d.ts"/>
 var SourceUtils;
 (function (SourceUtils) {
-    var WebGame = Facepunch.WebGame;
-    var CameraMode;
-    (function (CameraMode) {
-        CameraMode[CameraMode["Fixed"] = 0] = "Fixed";
-        CameraMode[CameraMode["CanLook"] = 1] = "CanLook";
-        CameraMode[CameraMode["CanMove"] = 2] = "CanMove";
-        CameraMode[CameraMode["FreeCam"] = 3] = "FreeCam";
-    })(CameraMode = SourceUtils.CameraMode || (SourceUtils.CameraMode = {}));
-    var MapViewer = (function (_super) {
-        __extends(MapViewer, _super);
-        function MapViewer(container) {
-            var _this = _super.call(this, container) || this;
-            _this.map = new SourceUtils.Map(_this);
-            _this.visLoader = _this.addLoader(new SourceUtils.VisLoader());
-            _this.bspModelLoader = _this.addLoader(new SourceUtils.BspModelLoader(_this));
-            _this.mapMaterialLoader = _this.addLoader(new SourceUtils.MapMaterialLoader(_this));
-            _this.leafGeometryLoader = _this.addLoader(new SourceUtils.LeafGeometryLoader(_this));
-            _this.dispGeometryLoader = _this.addLoader(new SourceUtils.DispGeometryLoader(_this));
-            _this.studioModelLoader = _this.addLoader(new SourceUtils.StudioModelLoader(_this));
-            _this.vertLightingLoader = _this.addLoader(new SourceUtils.VertexLightingLoader(_this));
-            _this.ambientLoader = _this.addLoader(new SourceUtils.AmbientLoader());
-            _this.cameraMode = CameraMode.Fixed;
-            _this.saveCameraPosInHash = false;
-            _this.showDebugPanel = false;
-            _this.totalLoadProgress = 0;
-            _this.onHashChange_temp = new Facepunch.Vector3();
-            _this.lookAngs = new Facepunch.Vector2();
-            _this.tempQuat = new Facepunch.Quaternion();
-            _this.lookQuat = new Facepunch.Quaternion();
-            _this.frameCount = 0;
-            _this.allLoaded = false;
-            _this.onUpdateFrame_temp = new Facepunch.Vector3();
-            container.classList.add("map-viewer");
-            return _this;
+    // Lets a host page drive a MapViewer inside an iframe through postMessage,
+    // forwarding viewer events back to it
+    var MessageBridge = (function () {
+        function MessageBridge(viewer, origin, target) {
+            if (target === void 0) { target = window.parent; }
+            var _this = this;
+            this.messageListener = function (ev) { return _this.onMessage(ev); };
+            this.disposed = false;
+            if (origin == null || origin.length === 0 || origin === "*") {
+                throw new Error("MessageBridge needs the exact origin of the host page.");
+            }
+            this.viewer = viewer;
+            this.origin = origin;
+            this.target = target;
+            viewer.addCameraMovedHandler(function (camera) { return _this.postEvent("cameraMoved", camera); });
+            viewer.addLeafChangedHandler(function (leaf) { return _this.postEvent("leafChanged", leaf == null ? null : { index: leaf.index, cluster: leaf.cluster }); });
+            viewer.addEntityPickedHandler(function (entity) { return _this.postEvent("entityPicked", {
+                classname: entity.classname,
+                targetname: entity.targetname,
+                position: entity.getPosition(new Facepunch.Vector3())
+            }); });
+            viewer.addLoadProgressHandler(function (progress) { return _this.postEvent("loadProgress", progress); });
+            viewer.addMapReadyHandler(function () { return _this.postEvent("mapReady", viewer.getState()); });
+            viewer.addAllLoadedHandler(function () { return _this.postEvent("allLoaded", viewer.getState()); });
+            viewer.addLoadErrorHandler(function (error) { return _this.postEvent("loadError", {
+                loader: error.loader,
+                url: error.url,
+                first: error.first,
+                count: error.count,
+                attempts: error.attempts,
+                error: String(error.error)
+            }); });
+            window.addEventListener("message", this.messageListener);
         }
-        MapViewer.prototype.loadMap = function (url) {
-            this.map.load(url);
+        MessageBridge.registerCommand = function (name, command) {
+            MessageBridge.commands[name] = command;
         };
-        MapViewer.prototype.onInitialize = function () {
+        MessageBridge.getCommand = function (name) {
+            return MessageBridge.commands[name];
+        };
+        MessageBridge.prototype.postEvent = function (event, data) {
+            if (this.disposed)
+                return;
+            var message = { sourceutils: "event", event: event, data: data };
+            this.target.postMessage(message, this.origin);
+        };
+        MessageBridge.prototype.respond = function (response) {
+            if (this.disposed || response.id === undefined)
+                return;
+            this.target.postMessage(response, this.origin);
+        };
+        MessageBridge.prototype.onMessage = function (ev) {
             var _this = this;
-            this.canLockPointer = true;
-            this.mainCamera = new SourceUtils.Entities.Camera(this, 75);
-            var deltaAngles = new Facepunch.Vector3();
-            var lastRotationSampleTime = new Date().getTime() / 1000;
-            var deviceRotate = function (x, y, z, period, toRadians) {
-                x *= toRadians / period;
-                y *= toRadians / period;
-                z *= toRadians / period;
-                var sampleTime = new Date().getTime() / 1000;
-                var deltaTime = sampleTime - lastRotationSampleTime;
-                lastRotationSampleTime = sampleTime;
-                deltaAngles.x = x * deltaTime;
-                deltaAngles.y = y * deltaTime;
-                deltaAngles.z = z * deltaTime;
-                _this.onDeviceRotate(deltaAngles);
-            };
-            var wind = window;
-            if (wind.DeviceMotionEvent) {
-                window.addEventListener("devicemotion", function (evnt) {
-                    var rate = evnt.rotationRate;
-                    deviceRotate(rate.beta, rate.gamma, rate.alpha, 1.0, 1.0);
-                }, true);
+            if (ev.origin !== this.origin || ev.source !== this.target)
+                return;
+            var message = ev.data;
+            if (message == null || message.sourceutils !== "command")
+                return;
+            var command = MessageBridge.getCommand(message.command);
+            if (command === undefined) {
+                this.respond({ sourceutils: "response", id: message.id, error: "Unknown command '" + message.command + "'." });
+                return;
             }
-            if (window.location.hash != null && window.location.hash.length > 1) {
-                this.hashChange();
+            try {
+                command(this.viewer, message.args != null ? message.args : [], function (result) { return _this.respond({ sourceutils: "response", id: message.id, result: result }); }, function (error) { return _this.respond({ sourceutils: "response", id: message.id, error: error }); });
+            }
+            catch (e) {
+                this.respond({ sourceutils: "response", id: message.id, error: String(e) });
             }
-            window.onhashchange = function (ev) { return _this.hashChange(); };
-            _super.prototype.onInitialize.call(this);
         };
-        MapViewer.prototype.setHash = function (value) {
-            if (typeof value === "string") {
-                this.oldHash = value;
-                window.location.hash = value;
+        MessageBridge.prototype.dispose = function () {
+            this.disposed = true;
+            window.removeEventListener("message", this.messageListener);
+        };
+        return MessageBridge;
+    }());
+    MessageBridge.commands = {};
+    SourceUtils.MessageBridge = MessageBridge;
+    MessageBridge.registerCommand("getState", function (viewer, args, respond) { return respond(viewer.getState()); });
+    MessageBridge.registerCommand("loadMap", function (viewer, args, respond) {
+        viewer.loadMap(args[0]);
+        respond();
+    });
+    MessageBridge.registerCommand("moveCamera", function (viewer, args, respond, fail) {
+        return viewer.moveCamera(args[0], args[1], function () { return respond(viewer.getCameraState()); }, function () { return fail("Camera movement was interrupted."); });
+    });
+    MessageBridge.registerCommand("stopCameraAnimation", function (viewer, args, respond) {
+        viewer.stopCameraAnimation();
+        respond();
+    });
+    MessageBridge.registerCommand("setCameraMode", function (viewer, args, respond) {
+        viewer.cameraMode = args[0];
+        respond();
+    });
+    MessageBridge.registerCommand("getRenderFeatures", function (viewer, args, respond) { return respond(viewer.getRenderFeatures()); });
+    MessageBridge.registerCommand("setRenderFeatures", function (viewer, args, respond) {
+        viewer.setRenderFeatures(args[0]);
+        respond(viewer.getRenderFeatures());
+    });
+    MessageBridge.registerCommand("renderOverview", function (viewer, args, respond) { return respond(viewer.overviewRenderer.render(args[0])); });
+    MessageBridge.registerCommand("findEntities", function (viewer, args, respond) { return respond(viewer.map.findEntities(args[0])); });
+    MessageBridge.registerCommand("getSpawns", function (viewer, args, respond) { return respond({
+        t: viewer.map.getTSpawns(),
+        ct: viewer.map.getCtSpawns(),
+        player: viewer.map.getPlayerSpawns()
+    }); });
+    MessageBridge.registerCommand("teleportToSpawn", function (viewer, args, respond) {
+        viewer.teleportToSpawn(args[0], args[1]);
+        respond(viewer.getCameraState());
+    });
+    MessageBridge.registerCommand("setGizmos", function (viewer, args, respond) {
+        viewer.gizmos.setEnabled(args[0]);
+        var classes = (args[1] || {});
+        for (var classname in classes)
+            viewer.gizmos.setClassVisible(classname, classes[classname]);
+        respond();
+    });
+    MessageBridge.registerCommand("setMeasureMode", function (viewer, args, respond) {
+        viewer.measureMode = args[0];
+        respond();
+    });
+    MessageBridge.registerCommand("getMeasurements", function (viewer, args, respond) { return respond(viewer.measureTool.getMeasurements()); });
+    MessageBridge.registerCommand("setIoOverlay", function (viewer, args, respond) {
+        viewer.ioOverlay.setEnabled(args[0]);
+        if (args[1] !== undefined)
+            viewer.ioOverlay.setFilter(args[1]);
+        respond();
+    });
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    // Moves the main camera around a target point for CameraMode.Orbit,
+    // keeping it looking at the target from the viewer's current angles
+    var OrbitController = (function () {
+        function OrbitController(viewer) {
+            this.target = new Facepunch.Vector3();
+            this.distance = 256;
+            this.minDistance = 16;
+            this.maxDistance = 8192;
+            // Radians per pixel dragged
+            this.rotateSensitivity = 1 / 200;
+            // Distance is scaled by 2 to the power of this for each scroll step
+            this.zoomSensitivity = 0.5;
+            // Seconds to glide to a new target after double clicking
+            this.recentreDuration = 0.25;
+            this.rotateButton = WebGame.MouseButton.Left;
+            this.panButton = WebGame.MouseButton.Right;
+            this.lastDragPos = new Facepunch.Vector2();
+            this.angles = new Facepunch.Vector2();
+            this.forward = new Facepunch.Vector3();
+            this.temp = new Facepunch.Vector3();
+            this.traceResult = new SourceUtils.TraceResult();
+            this.viewer = viewer;
+        }
+        OrbitController.prototype.attach = function (container) {
+            var _this = this;
+            container.addEventListener("dblclick", function (ev) {
+                if (!_this.isActive())
+                    return;
+                var pos = _this.viewer.getMouseScreenPos();
+                if (_this.recentreAt(pos.x, pos.y))
+                    ev.preventDefault();
+            });
+        };
+        OrbitController.prototype.isActive = function () {
+            return (this.viewer.cameraMode & SourceUtils.CameraMode.Orbit) !== 0;
+        };
+        OrbitController.prototype.getForward = function () {
+            var angles = this.viewer.getCameraAngles(this.angles);
+            var cosPitch = Math.cos(angles.y);
+            return this.forward.set(-Math.sin(angles.x) * cosPitch, Math.cos(angles.x) * cosPitch, Math.sin(angles.y));
+        };
+        // Picks a target in front of the camera, on the first surface if there is one in range
+        OrbitController.prototype.begin = function () {
+            var camera = this.viewer.mainCamera;
+            var eye = camera.getPosition(new Facepunch.Vector3());
+            var forward = this.getForward();
+            var end = this.temp.copy(forward).multiplyScalar(this.maxDistance).add(eye);
+            var tr = this.viewer.map.isReady()
+                ? this.viewer.map.trace(eye, end, SourceUtils.TraceMask.Solid, this.traceResult)
+                : null;
+            if (tr != null && tr.hit && !tr.startSolid) {
+                this.distance = Math.max(this.minDistance, tr.fraction * this.maxDistance);
+            }
+            this.target.copy(forward).multiplyScalar(this.distance).add(eye);
+        };
+        OrbitController.prototype.setTarget = function (target, distance) {
+            this.target.copy(target);
+            if (distance !== undefined)
+                this.distance = Math.max(this.minDistance, Math.min(this.maxDistance, distance));
+        };
+        // Orbits around the centre of the given entity, or its origin
+        OrbitController.prototype.focusEntity = function (entity, distance) {
+            var pos = entity.getPosition(new Facepunch.Vector3());
+            if (entity instanceof SourceUtils.Entities.BrushEntity && entity.model.getCenter(this.temp) != null) {
+                pos.add(this.temp);
+            }
+            this.setTarget(pos, distance);
+        };
+        // Traces from the camera through the given screen position, orbiting around
+        // whatever surface is hit. Returns false if nothing was hit.
+        OrbitController.prototype.recentreAt = function (screenX, screenY) {
+            var viewer = this.viewer;
+            var camera = viewer.mainCamera;
+            if (!viewer.map.isReady())
+                return false;
+            var eye = camera.getPosition(new Facepunch.Vector3());
+            var dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            var end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+            var tr = viewer.map.trace(eye, end, SourceUtils.TraceMask.Solid, this.traceResult);
+            if (!tr.hit || tr.startSolid)
+                return false;
+            this.target.copy(tr.position);
+            var forward = this.getForward();
+            var newEye = new Facepunch.Vector3().copy(forward).multiplyScalar(-this.distance).add(this.target);
+            viewer.moveCamera({ position: newEye }, this.recentreDuration);
+            return true;
+        };
+        OrbitController.prototype.onMouseDown = function (button, screenPos) {
+            if (button !== this.rotateButton && button !== this.panButton)
+                return false;
+            this.dragButton = button;
+            this.lastDragPos.copy(screenPos);
+            return true;
+        };
+        OrbitController.prototype.onMouseUp = function (button) {
+            if (button !== this.dragButton)
+                return false;
+            this.dragButton = undefined;
+            return true;
+        };
+        OrbitController.prototype.onMouseMove = function (screenPos) {
+            if (this.dragButton === undefined)
                 return;
+            var dx = screenPos.x - this.lastDragPos.x;
+            var dy = screenPos.y - this.lastDragPos.y;
+            this.lastDragPos.copy(screenPos);
+            if (this.dragButton === this.rotateButton) {
+                var angles = this.viewer.getCameraAngles(this.angles);
+                this.viewer.setCameraAngles(angles.x - dx * this.rotateSensitivity, angles.y - dy * this.rotateSensitivity);
             }
-            var hash = "#";
-            for (var key in value) {
-                if (!value.hasOwnProperty(key))
-                    continue;
-                if (!MapViewer.hashKeyRegex.test(key)) {
-                    console.warn("Invalid hash object key: " + key);
-                    continue;
+            else {
+                this.pan(dx, dy);
+            }
+        };
+        // Moves the target so that it follows the cursor across the screen
+        OrbitController.prototype.pan = function (dx, dy) {
+            var camera = this.viewer.mainCamera;
+            var unitsPerPixel = 2 * this.distance * Math.tan(camera.getFov() * Math.PI / 360) / this.viewer.getHeight();
+            var move = this.temp.set(-dx * unitsPerPixel, dy * unitsPerPixel, 0);
+            camera.applyRotationTo(move);
+            this.target.add(move);
+        };
+        OrbitController.prototype.onMouseScroll = function (delta) {
+            this.distance = Math.max(this.minDistance, Math.min(this.maxDistance, this.distance * Math.pow(2, -delta * this.zoomSensitivity)));
+            return true;
+        };
+        OrbitController.prototype.update = function (dt) {
+            var forward = this.getForward();
+            var eye = this.temp.copy(forward).multiplyScalar(-this.distance).add(this.target);
+            this.viewer.mainCamera.setPosition(eye);
+        };
+        return OrbitController;
+    }());
+    SourceUtils.OrbitController = OrbitController;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var OverviewMarkerType;
+    (function (OverviewMarkerType) {
+        OverviewMarkerType[OverviewMarkerType["TSpawn"] = 0] = "TSpawn";
+        OverviewMarkerType[OverviewMarkerType["CtSpawn"] = 1] = "CtSpawn";
+        OverviewMarkerType[OverviewMarkerType["Bombsite"] = 2] = "Bombsite";
+    })(OverviewMarkerType = SourceUtils.OverviewMarkerType || (SourceUtils.OverviewMarkerType = {}));
+    // Renders the map from above, either into a PNG or live as a radar around the main camera
+    var OverviewRenderer = (function () {
+        function OverviewRenderer(viewer) {
+            this.defaultSize = 1024;
+            this.markerRadius = 6;
+            // World units per screen pixel in radar mode
+            this.radarScale = 4;
+            // How far above the main camera to slice in radar mode, hiding ceilings
+            this.radarCeiling = 128;
+            this.viewer = viewer;
+        }
+        OverviewRenderer.prototype.getCamera = function () {
+            if (this.camera == null)
+                this.camera = new SourceUtils.Entities.OverviewCamera(this.viewer);
+            return this.camera;
+        };
+        OverviewRenderer.worldToImage = function (transform, pos, out) {
+            out.x = (pos.x - transform.posX) / transform.scale;
+            out.y = (transform.posY - pos.y) / transform.scale;
+            return out;
+        };
+        OverviewRenderer.imageToWorld = function (transform, pos, out) {
+            out.x = transform.posX + pos.x * transform.scale;
+            out.y = transform.posY - pos.y * transform.scale;
+            return out;
+        };
+        // Anything that hasn't loaded yet will be missing, so wait for MapViewer.isAllLoaded().
+        // Returns null if the world model hasn't loaded.
+        OverviewRenderer.prototype.render = function (options) {
+            options = options || {};
+            var viewer = this.viewer;
+            var gl = viewer.context;
+            var camera = this.getCamera();
+            var min = new Facepunch.Vector3();
+            var max = new Facepunch.Vector3();
+            if (!viewer.map.getWorldBounds(min, max))
+                return null;
+            if (options.min != null)
+                min.copy(options.min);
+            if (options.max != null)
+                max.copy(options.max);
+            if (options.minZ != null)
+                min.z = options.minZ;
+            if (options.maxZ != null)
+                max.z = options.maxZ;
+            var size = options.size || this.defaultSize;
+            var scale = Math.max(max.x - min.x, max.y - min.y) / size;
+            var width = Math.max(1, Math.ceil((max.x - min.x) / scale));
+            var height = Math.max(1, Math.ceil((max.y - min.y) / scale));
+            var transform = { posX: min.x, posY: max.y, scale: scale };
+            var canvas = document.createElement("canvas");
+            canvas.width = width;
+            canvas.height = height;
+            var context = canvas.getContext("2d");
+            var image = context.createImageData(width, height);
+            // Drawn in tiles the size of the canvas, since the camera's
+            // translucent pass renders back to the canvas anyway
+            var tileWidth = gl.drawingBufferWidth;
+            var tileHeight = gl.drawingBufferHeight;
+            var pixels = new Uint8Array(tileWidth * tileHeight * 4);
+            var clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE);
+            gl.clearColor(0, 0, 0, 0);
+            gl.depthFunc(gl.LEQUAL);
+            gl.cullFace(gl.FRONT);
+            gl.viewport(0, 0, tileWidth, tileHeight);
+            for (var tileY = 0; tileY < height; tileY += tileHeight) {
+                for (var tileX = 0; tileX < width; tileX += tileWidth) {
+                    var left = min.x + tileX * scale;
+                    var top_1 = max.y - tileY * scale;
+                    camera.setView(left, top_1 - tileHeight * scale, left + tileWidth * scale, top_1, min.z, max.z);
+                    gl.depthMask(true);
+                    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+                    camera.render();
+                    var w = Math.min(tileWidth, width - tileX);
+                    var h = Math.min(tileHeight, height - tileY);
+                    gl.readPixels(0, tileHeight - h, w, h, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+                    // Rows are read from the bottom up
+                    for (var row = 0; row < h; ++row) {
+                        var src = (h - 1 - row) * w * 4;
+                        image.data.set(pixels.subarray(src, src + w * 4), ((tileY + row) * width + tileX) * 4);
+                    }
                 }
-                var val = value[key];
-                if (typeof val !== "number" && (typeof val !== "string" || isNaN(parseFloat(val)))) {
-                    console.warn("Invalid hash object value: " + val);
+            }
+            gl.viewport(0, 0, viewer.getWidth(), viewer.getHeight());
+            gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+            // Only leave empty space transparent, whatever alpha the materials wrote
+            var data = image.data;
+            for (var i = 0, iEnd = data.length; i < iEnd; i += 4) {
+                if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 0 || data[i + 3] !== 0)
+                    data[i + 3] = 255;
+            }
+            context.putImageData(image, 0, 0);
+            var markers = this.getMarkers(transform);
+            if (options.drawMarkers !== false)
+                this.drawMarkers(context, markers);
+            return {
+                width: width,
+                height: height,
+                minZ: min.z,
+                maxZ: max.z,
+                transform: transform,
+                markers: markers,
+                image: canvas.toDataURL("image/png")
+            };
+        };
+        OverviewRenderer.prototype.getMarkers = function (transform) {
+            var map = this.viewer.map;
+            var markers = [];
+            var pos = new Facepunch.Vector2();
+            var addSpawns = function (spawns, type) {
+                for (var _i = 0, spawns_1 = spawns; _i < spawns_1.length; _i++) {
+                    var spawn = spawns_1[_i];
+                    if (spawn.origin == null)
+                        continue;
+                    OverviewRenderer.worldToImage(transform, spawn.origin, pos);
+                    markers.push({ type: type, targetname: spawn.targetname, x: pos.x, y: pos.y });
+                }
+            };
+            addSpawns(map.getTSpawns(), OverviewMarkerType.TSpawn);
+            addSpawns(map.getCtSpawns(), OverviewMarkerType.CtSpawn);
+            for (var _i = 0, _a = map.getBombTargets(); _i < _a.length; _i++) {
+                var target = _a[_i];
+                if (target.min == null || target.max == null)
+                    continue;
+                // Image Y points down, so the world max Y is the top edge
+                var topLeft = OverviewRenderer.worldToImage(transform, { x: target.min.x, y: target.max.y, z: 0 }, new Facepunch.Vector2());
+                var bottomRight = OverviewRenderer.worldToImage(transform, { x: target.max.x, y: target.min.y, z: 0 }, new Facepunch.Vector2());
+                markers.push({
+                    type: OverviewMarkerType.Bombsite,
+                    targetname: target.targetname,
+                    x: topLeft.x,
+                    y: topLeft.y,
+                    width: bottomRight.x - topLeft.x,
+                    height: bottomRight.y - topLeft.y
+                });
+            }
+            return markers;
+        };
+        OverviewRenderer.prototype.drawMarkers = function (context, markers) {
+            context.lineWidth = 2;
+            for (var _i = 0, markers_1 = markers; _i < markers_1.length; _i++) {
+                var marker = markers_1[_i];
+                var color = OverviewRenderer.markerColors[marker.type];
+                if (marker.type === OverviewMarkerType.Bombsite) {
+                    context.fillStyle = color;
+                    context.globalAlpha = 0.25;
+                    context.fillRect(marker.x, marker.y, marker.width, marker.height);
+                    context.strokeStyle = color;
+                    context.globalAlpha = 1;
+                    context.strokeRect(marker.x, marker.y, marker.width, marker.height);
                     continue;
                 }
-                hash += key;
-                hash += val;
+                context.beginPath();
+                context.arc(marker.x, marker.y, this.markerRadius, 0, Math.PI * 2);
+                context.fillStyle = color;
+                context.fill();
+                context.strokeStyle = "#000";
+                context.stroke();
             }
-            this.setHash(hash);
         };
-        MapViewer.prototype.hashChange = function () {
-            var hash = window.location.hash;
-            if (hash === this.oldHash)
-                return;
-            this.oldHash = hash;
-            if (!MapViewer.hashObjectRegex.test(hash)) {
-                this.onHashChange(hash);
+        // Draws the map around the main camera with north at the top, sliced just above it
+        OverviewRenderer.prototype.renderRadar = function () {
+            var viewer = this.viewer;
+            var pos = OverviewRenderer.renderRadar_pos;
+            var min = OverviewRenderer.renderRadar_min;
+            var max = OverviewRenderer.renderRadar_max;
+            if (viewer.mainCamera == null || !viewer.map.getWorldBounds(min, max))
                 return;
+            viewer.mainCamera.getPosition(pos);
+            var halfWidth = viewer.getWidth() * this.radarScale * 0.5;
+            var halfHeight = viewer.getHeight() * this.radarScale * 0.5;
+            var camera = this.getCamera();
+            camera.setView(pos.x - halfWidth, pos.y - halfHeight, pos.x + halfWidth, pos.y + halfHeight, min.z, pos.z + this.radarCeiling);
+            camera.render();
+        };
+        return OverviewRenderer;
+    }());
+    OverviewRenderer.markerColors = (_a = {},
+        _a[OverviewMarkerType.TSpawn] = "#e0a030",
+        _a[OverviewMarkerType.CtSpawn] = "#4080e0",
+        _a[OverviewMarkerType.Bombsite] = "#e03030",
+        _a);
+    OverviewRenderer.renderRadar_pos = new Facepunch.Vector3();
+    OverviewRenderer.renderRadar_min = new Facepunch.Vector3();
+    OverviewRenderer.renderRadar_max = new Facepunch.Vector3();
+    SourceUtils.OverviewRenderer = OverviewRenderer;
+    var _a;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var PageDecoders = (function () {
+        function PageDecoders() {
+        }
+        PageDecoders.register = function (name, decoder) {
+            PageDecoders.decoders[name] = decoder;
+        };
+        PageDecoders.get = function (name) {
+            var decoder = PageDecoders.decoders[name];
+            if (decoder === undefined)
+                throw new Error("Unknown page decoder '" + name + "'.");
+            return decoder;
+        };
+        PageDecoders.addTransfer = function (transfer, array) {
+            if (transfer.indexOf(array.buffer) === -1)
+                transfer.push(array.buffer);
+        };
+        PageDecoders.toUint32Array = function (value, transfer) {
+            if (value == null)
+                return null;
+            var array = value instanceof Uint32Array ? value
+                : new Uint32Array(typeof value === "string" ? Facepunch.Utils.decompress(value) : value);
+            PageDecoders.addTransfer(transfer, array);
+            return array;
+        };
+        PageDecoders.decodeVis = function (payload, transfer) {
+            return {
+                values: payload.values.map(function (value) { return PageDecoders.toUint32Array(value, transfer); })
+            };
+        };
+        PageDecoders.decodeVertexLighting = function (payload, transfer) {
+            return {
+                props: payload.props.map(function (prop) { return prop == null ? null
+                    : prop.map(function (value) { return PageDecoders.toUint32Array(value, transfer); }); })
+            };
+        };
+        // Decompresses the mesh data of every item in payload.materials
+        PageDecoders.decodeMeshes = function (payload, transfer) {
+            for (var _i = 0, _a = payload.materials; _i < _a.length; _i++) {
+                var matGroup = _a[_i];
+                var src = matGroup.meshData;
+                if (src.vertices instanceof Float32Array) {
+                    var binary = src;
+                    PageDecoders.addTransfer(transfer, binary.vertices);
+                    PageDecoders.addTransfer(transfer, binary.indices);
+                    continue;
+                }
+                var compressed = src;
+                var vertices = new Float32Array(Facepunch.Utils.decompress(compressed.vertices));
+                var indexValues = Facepunch.Utils.decompress(compressed.indices);
+                var maxIndex = 0;
+                for (var i = 0, iEnd = indexValues.length; i < iEnd; ++i) {
+                    if (indexValues[i] > maxIndex)
+                        maxIndex = indexValues[i];
+                }
+                var indices = maxIndex > 0xffff ? new Uint32Array(indexValues) : new Uint16Array(indexValues);
+                PageDecoders.addTransfer(transfer, vertices);
+                PageDecoders.addTransfer(transfer, indices);
+                // Attributes are left as-is, since VertexAttribute instances can't be sent between threads
+                matGroup.meshData = {
+                    attributes: compressed.attributes,
+                    elements: compressed.elements,
+                    vertices: vertices,
+                    indices: indices
+                };
             }
-            var obj = {};
-            var keyValRegex = /([a-z_]+)(-?[0-9]+(?:\.[0-9]+)?)/ig;
-            var match;
-            while ((match = keyValRegex.exec(hash)) != null) {
-                obj[match[1]] = parseFloat(match[2]);
-            }
-            this.onHashChange(obj);
+            return payload;
         };
-        MapViewer.prototype.onHashChange = function (value) {
-            if (typeof value === "string")
+        return PageDecoders;
+    }());
+    PageDecoders.decoders = {
+        "vis": PageDecoders.decodeVis,
+        "meshes": PageDecoders.decodeMeshes,
+        "vertexLighting": PageDecoders.decodeVertexLighting
+    };
+    SourceUtils.PageDecoders = PageDecoders;
+    var PageDecodePool = (function () {
+        function PageDecodePool(workerCount) {
+            var _this = this;
+            this.workers = [];
+            this.pending = {};
+            this.pendingCounts = [];
+            this.nextId = 1;
+            if (typeof Worker === "undefined" || typeof Blob === "undefined" || typeof URL === "undefined")
                 return;
-            if (!this.saveCameraPosInHash)
+            var scriptUrls = PageDecodePool.findScriptUrls();
+            if (scriptUrls == null)
                 return;
-            var posHash = value;
-            var pos = this.mainCamera.getPosition(this.onHashChange_temp);
-            if (posHash.x !== undefined) {
-                pos.x = posHash.x;
+            // WebGame reads WebGL constants when it loads, which some browsers don't expose to workers
+            var source = "if (typeof WebGLRenderingContext === \"undefined\") self.WebGLRenderingContext = {};\n"
+                + ("importScripts(" + scriptUrls.map(function (x) { return JSON.stringify(x); }).join(", ") + ");\n")
+                + "SourceUtils.PageDecodePool.runWorker(self);\n";
+            var blobUrl;
+            try {
+                blobUrl = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+                var _loop_8 = function (i) {
+                    var worker = new Worker(blobUrl);
+                    worker.onmessage = function (ev) { return _this.onWorkerMessage(ev.data); };
+                    worker.onerror = function (ev) { return _this.onWorkerError(worker, ev); };
+                    this_6.workers.push(worker);
+                    this_6.pendingCounts.push(0);
+                };
+                var this_6 = this;
+                for (var i = 0; i < workerCount; ++i) {
+                    _loop_8(i);
+                }
             }
-            if (posHash.y !== undefined) {
-                pos.y = posHash.y;
+            catch (e) {
+                // Workers can be blocked (e.g. by a content security policy), so decode on the main thread instead
+                this.disableWorkers();
             }
-            if (posHash.z !== undefined) {
-                pos.z = posHash.z;
+        }
+        PageDecodePool.getDefault = function () {
+            if (PageDecodePool.defaultPool == null) {
+                PageDecodePool.defaultPool = new PageDecodePool(PageDecodePool.workerCount);
             }
-            this.mainCamera.setPosition(pos);
-            if (posHash.r !== undefined) {
-                this.lookAngs.x = posHash.r / 180 * Math.PI;
+            return PageDecodePool.defaultPool;
+        };
+        // Loads and decodes a page on the current thread, returning a function that aborts it
+        PageDecodePool.loadDirect = function (request, success, failure, progress) {
+            var transfer = [];
+            return SourceUtils.MapCache.load(request.cacheScope, request.url, request.format, function (data) {
+                var payload = typeof data === "string" ? JSON.parse(data) : SourceUtils.BinaryPage.decode(data);
+                return request.decoder != null ? PageDecoders.get(request.decoder)(payload, transfer) : payload;
+            }, function (payload) { return success(payload, transfer); }, failure, progress);
+        };
+        PageDecodePool.runWorker = function (scope) {
+            var aborts = {};
+            scope.onmessage = function (ev) {
+                if (ev.data.cancel) {
+                    var id = ev.data.id;
+                    var abort = aborts[id];
+                    if (abort !== undefined) {
+                        delete aborts[id];
+                        abort();
+                    }
+                    return;
+                }
+                var request = ev.data;
+                aborts[request.id] = PageDecodePool.loadDirect(request, function (payload, transfer) {
+                    delete aborts[request.id];
+                    scope.postMessage({ id: request.id, payload: payload }, transfer);
+                }, function (error) {
+                    delete aborts[request.id];
+                    scope.postMessage({ id: request.id, error: String(error) });
+                }, function (loaded, total) { return scope.postMessage({ id: request.id, loaded: loaded, total: total }); });
+            };
+        };
+        PageDecodePool.findScriptUrls = function () {
+            if (PageDecodePool.scriptUrls != null)
+                return PageDecodePool.scriptUrls;
+            if (PageDecodePool.sourceUtilsUrl == null)
+                return null;
+            var scripts = document.getElementsByTagName("script");
+            for (var i = 0; i < scripts.length; ++i) {
+                var src = scripts[i].src;
+                if (/facepunch\.webgame(\.min)?\.js(\?|$)/i.test(src)) {
+                    return [src, PageDecodePool.sourceUtilsUrl];
+                }
+            }
+            return null;
+        };
+        PageDecodePool.prototype.hasWorkers = function () {
+            return this.workers.length > 0;
+        };
+        // Returns a function that aborts the load, after which none of the callbacks are made
+        PageDecodePool.prototype.load = function (request, success, failure, progress) {
+            var _this = this;
+            var pending = {
+                request: {
+                    id: this.nextId++,
+                    url: SourceUtils.MapCache.getAbsoluteUrl(request.url),
+                    format: request.format,
+                    decoder: request.decoder,
+                    cacheScope: request.cacheScope
+                },
+                worker: null,
+                abort: null,
+                success: success,
+                failure: failure,
+                progress: progress
+            };
+            this.dispatch(pending);
+            return function () { return _this.cancel(pending); };
+        };
+        PageDecodePool.prototype.dispatch = function (pending) {
+            if (this.workers.length === 0) {
+                pending.worker = null;
+                pending.abort = PageDecodePool.loadDirect(pending.request, function (payload) { return pending.success(payload); }, function (error) { if (pending.failure != null)
+                    pending.failure(error); }, function (loaded, total) { if (pending.progress != null)
+                    pending.progress(loaded, total); });
+                return;
             }
-            if (posHash.s !== undefined) {
-                this.lookAngs.y = posHash.s / 180 * Math.PI;
+            var best = 0;
+            for (var i = 1, iEnd = this.workers.length; i < iEnd; ++i) {
+                if (this.pendingCounts[i] < this.pendingCounts[best])
+                    best = i;
             }
-            this.updateCameraAngles();
+            ++this.pendingCounts[best];
+            pending.worker = this.workers[best];
+            this.pending[pending.request.id] = pending;
+            pending.worker.postMessage(pending.request);
         };
-        MapViewer.prototype.onCreateDebugPanel = function () {
-            var panel = document.createElement("div");
-            panel.classList.add("side-panel");
-            panel.innerHTML = "\n                <span class=\"label\">Frame time:</span>&nbsp;<span class=\"debug-frametime\">0</span>&nbsp;ms<br/>\n                <span class=\"label\">Frame rate:</span>&nbsp;<span class=\"debug-framerate\">0</span>&nbsp;fps<br />\n                <span class=\"label\">Draw calls:</span>&nbsp;<span class=\"debug-drawcalls\">0</span><br />\n                <div class=\"debug-loading\">\n                    <span class=\"label\">Map loaded:</span>&nbsp;<span class=\"debug-loadpercent\">0</span>%<br />\n                </div>";
-            this.container.appendChild(panel);
-            return panel;
+        PageDecodePool.prototype.cancel = function (pending) {
+            if (pending.worker == null) {
+                if (pending.abort != null)
+                    pending.abort();
+                return;
+            }
+            var id = pending.request.id;
+            if (this.pending[id] !== pending)
+                return;
+            delete this.pending[id];
+            --this.pendingCounts[this.workers.indexOf(pending.worker)];
+            pending.worker.postMessage({ id: id, cancel: true });
         };
-        MapViewer.prototype.onDeviceRotate = function (deltaAngles) {
-            if ((this.cameraMode & CameraMode.CanLook) === 0)
+        PageDecodePool.prototype.onWorkerMessage = function (response) {
+            var pending = this.pending[response.id];
+            if (pending === undefined)
+                return;
+            if (response.loaded !== undefined) {
+                if (pending.progress != null)
+                    pending.progress(response.loaded, response.total);
                 return;
-            if (window.innerWidth > window.innerHeight) {
-                this.lookAngs.x += deltaAngles.z;
-                this.lookAngs.y -= deltaAngles.x;
             }
-            else {
-                this.lookAngs.x += deltaAngles.x;
-                this.lookAngs.y += deltaAngles.z;
+            delete this.pending[response.id];
+            --this.pendingCounts[this.workers.indexOf(pending.worker)];
+            if (response.error !== undefined) {
+                if (pending.failure != null)
+                    pending.failure(response.error);
+                return;
             }
-            this.notMovedTime = 0;
-            this.updateCameraAngles();
+            pending.success(response.payload);
         };
-        MapViewer.prototype.onResize = function () {
-            _super.prototype.onResize.call(this);
-            if (this.mainCamera != null) {
-                this.mainCamera.setAspect(this.getWidth() / this.getHeight());
+        PageDecodePool.prototype.onWorkerError = function (worker, ev) {
+            // Decoding on the main thread still works, so don't report this as an uncaught error
+            ev.preventDefault();
+            this.disableWorkers();
+        };
+        // Stops all workers and decodes anything still in flight on the main thread
+        PageDecodePool.prototype.disableWorkers = function () {
+            for (var _i = 0, _a = this.workers; _i < _a.length; _i++) {
+                var worker = _a[_i];
+                worker.terminate();
+            }
+            this.workers = [];
+            this.pendingCounts = [];
+            var pending = this.pending;
+            this.pending = {};
+            for (var id in pending) {
+                if (!pending.hasOwnProperty(id))
+                    continue;
+                this.dispatch(pending[id]);
             }
         };
-        MapViewer.prototype.setCameraAngles = function (yaw, pitch) {
-            this.lookAngs.x = yaw;
-            this.lookAngs.y = pitch;
-            this.updateCameraAngles();
+        return PageDecodePool;
+    }());
+    PageDecodePool.workerCount = typeof navigator !== "undefined" && navigator.hardwareConcurrency > 1
+        ? Math.min(navigator.hardwareConcurrency - 1, 4) : 1;
+    // Absolute URLs of facepunch.webgame.js and sourceutils.js, found from
+    // the page's script elements if not given
+    PageDecodePool.scriptUrls = null;
+    PageDecodePool.sourceUtilsUrl = typeof document !== "undefined" && document.currentScript != null
+        ? document.currentScript.src : null;
+    SourceUtils.PageDecodePool = PageDecodePool;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var PlayerController = (function () {
+        function PlayerController(viewer) {
+            this.velocity = new Facepunch.Vector3();
+            this.gravity = 800;
+            this.jumpSpeed = 268.3;
+            this.maxSpeed = 250;
+            this.duckSpeedScale = 0.34;
+            this.friction = 4;
+            this.stopSpeed = 100;
+            this.accelerate = 5.5;
+            this.airAccelerate = 12;
+            this.airSpeedCap = 30;
+            this.feetPos = new Facepunch.Vector3();
+            this.onGround = false;
+            this.ducked = false;
+            this.jumpHeld = false;
+            this.eyeHeight = PlayerController.standEyeHeight;
+            this.hull_extents = new Facepunch.Vector3();
+            this.hull_start = new Facepunch.Vector3();
+            this.hull_end = new Facepunch.Vector3();
+            this.hull_result = new SourceUtils.TraceResult();
+            this.updateDuck_temp = new Facepunch.Vector3();
+            this.categorizePosition_temp = new Facepunch.Vector3();
+            this.slideMove_end = new Facepunch.Vector3();
+            this.stepMove_startPos = new Facepunch.Vector3();
+            this.stepMove_startVel = new Facepunch.Vector3();
+            this.stepMove_downPos = new Facepunch.Vector3();
+            this.stepMove_downVel = new Facepunch.Vector3();
+            this.stepMove_temp = new Facepunch.Vector3();
+            this.stayOnGround_temp = new Facepunch.Vector3();
+            this.viewer = viewer;
+        }
+        PlayerController.prototype.isOnGround = function () {
+            return this.onGround;
         };
-        MapViewer.prototype.updateCameraAngles = function () {
-            if (this.lookAngs.y < -Math.PI * 0.5)
-                this.lookAngs.y = -Math.PI * 0.5;
-            if (this.lookAngs.y > Math.PI * 0.5)
-                this.lookAngs.y = Math.PI * 0.5;
-            this.lookQuat.setAxisAngle(Facepunch.Vector3.unitZ, this.lookAngs.x);
-            this.tempQuat.setAxisAngle(Facepunch.Vector3.unitX, this.lookAngs.y + Math.PI * 0.5);
-            this.lookQuat.multiply(this.tempQuat);
-            this.mainCamera.setRotation(this.lookQuat);
+        PlayerController.prototype.isDucked = function () {
+            return this.ducked;
         };
-        MapViewer.prototype.onMouseLook = function (delta) {
-            _super.prototype.onMouseLook.call(this, delta);
-            if ((this.cameraMode & CameraMode.CanLook) === 0)
+        PlayerController.prototype.getEyePosition = function (target) {
+            target.x = this.feetPos.x;
+            target.y = this.feetPos.y;
+            target.z = this.feetPos.z + this.eyeHeight;
+            return target;
+        };
+        PlayerController.prototype.setEyePosition = function (pos) {
+            this.ducked = false;
+            this.eyeHeight = PlayerController.standEyeHeight;
+            this.velocity.set(0, 0, 0);
+            this.feetPos.set(pos.x, pos.y, pos.z - this.eyeHeight);
+            if (!this.fitsAt(this.feetPos, false))
+                this.respawn();
+            else
+                this.categorizePosition();
+        };
+        PlayerController.prototype.respawn = function () {
+            var spawn = this.viewer.map.getSpawnPoint();
+            if (spawn == null)
                 return;
-            if (Math.abs(delta.x) === 0 && Math.abs(delta.y) === 0)
+            this.ducked = false;
+            this.eyeHeight = PlayerController.standEyeHeight;
+            this.velocity.set(0, 0, 0);
+            this.feetPos.copy(spawn.origin);
+            if (spawn.angles !== undefined) {
+                this.viewer.setCameraAngles((spawn.angles.y - 90) * Math.PI / 180, -spawn.angles.x * Math.PI / 180);
+            }
+            this.categorizePosition();
+        };
+        PlayerController.prototype.update = function (dt, wishDir, jump, duck) {
+            if (dt <= 0)
                 return;
-            this.lookAngs.sub(delta.multiplyScalar(1 / 800));
-            this.notMovedTime = 0;
-            this.updateCameraAngles();
+            if (dt > 0.1)
+                dt = 0.1;
+            // Don't fall through the world before it has loaded
+            if (this.viewer.map.getLeafAt(this.feetPos) === undefined)
+                return;
+            this.updateDuck(duck);
+            this.categorizePosition();
+            if (this.onGround) {
+                if (jump && !this.jumpHeld) {
+                    this.velocity.z = this.jumpSpeed;
+                    this.onGround = false;
+                }
+                else {
+                    this.applyFriction(dt);
+                }
+            }
+            this.jumpHeld = jump;
+            var wishSpeed = this.maxSpeed * (this.ducked ? this.duckSpeedScale : 1);
+            this.applyAcceleration(wishDir, wishSpeed, dt);
+            if (this.onGround) {
+                this.stepMove(dt);
+                this.stayOnGround();
+            }
+            else {
+                this.velocity.z -= this.gravity * dt;
+                this.slideMove(dt);
+            }
+            this.categorizePosition();
+            var targetEyeHeight = this.ducked ? PlayerController.duckEyeHeight : PlayerController.standEyeHeight;
+            var eyeDelta = targetEyeHeight - this.eyeHeight;
+            var maxEyeDelta = dt * 128;
+            this.eyeHeight += Math.max(-maxEyeDelta, Math.min(maxEyeDelta, eyeDelta));
         };
-        MapViewer.prototype.toggleFullscreen = function () {
-            var container = this.container;
-            var cont = container;
-            var doc = document;
-            if (document.fullscreenElement === container || document.webkitFullscreenElement === container || doc.mozFullScreenElement === container) {
-                if (document.exitFullscreen)
-                    document.exitFullscreen();
-                else if (document.webkitExitFullscreen)
-                    document.webkitExitFullscreen();
-                else if (doc.mozCancelFullScreen)
-                    doc.mozCancelFullScreen();
+        // Sweeps the player's hull between two feet positions
+        PlayerController.prototype.traceHull = function (from, to, ducked) {
+            if (ducked === void 0) { ducked = this.ducked; }
+            var halfHeight = (ducked ? PlayerController.duckHeight : PlayerController.standHeight) * 0.5;
+            var extents = this.hull_extents.set(PlayerController.halfWidth, PlayerController.halfWidth, halfHeight);
+            this.hull_start.set(from.x, from.y, from.z + halfHeight);
+            this.hull_end.set(to.x, to.y, to.z + halfHeight);
+            var result = this.viewer.map.traceBox(this.hull_start, this.hull_end, extents, SourceUtils.TraceMask.PlayerSolid, this.hull_result);
+            result.position.z -= halfHeight;
+            return result;
+        };
+        PlayerController.prototype.fitsAt = function (feetPos, ducked) {
+            return !this.traceHull(feetPos, feetPos, ducked).hit;
+        };
+        PlayerController.prototype.updateDuck = function (duck) {
+            var diff = PlayerController.standHeight - PlayerController.duckHeight;
+            if (duck && !this.ducked) {
+                this.ducked = true;
+                // Tuck legs up when ducking in the air
+                if (!this.onGround) {
+                    this.feetPos.z += diff;
+                    this.eyeHeight -= diff;
+                }
             }
-            else if (container.requestFullscreen) {
-                container.requestFullscreen();
+            else if (!duck && this.ducked) {
+                var lowered = this.updateDuck_temp.copy(this.feetPos);
+                lowered.z -= diff;
+                if (!this.onGround && this.fitsAt(lowered, false)) {
+                    this.feetPos.copy(lowered);
+                    this.eyeHeight += diff;
+                    this.ducked = false;
+                }
+                else if (this.fitsAt(this.feetPos, false)) {
+                    this.ducked = false;
+                }
             }
-            else if (container.webkitRequestFullscreen) {
-                container.webkitRequestFullscreen();
+        };
+        PlayerController.prototype.categorizePosition = function () {
+            if (this.velocity.z > 180) {
+                this.onGround = false;
+                return;
             }
-            else if (cont.mozRequestFullScreen) {
-                cont.mozRequestFullScreen();
+            var below = this.categorizePosition_temp.copy(this.feetPos);
+            below.z -= 2;
+            var tr = this.traceHull(this.feetPos, below);
+            this.onGround = tr.hit && !tr.startSolid && tr.normal.z >= 0.7;
+            if (this.onGround) {
+                this.feetPos.copy(tr.position);
+                if (this.velocity.z < 0)
+                    this.velocity.z = 0;
             }
         };
-        MapViewer.prototype.onKeyDown = function (key) {
-            _super.prototype.onKeyDown.call(this, key);
-            switch (key) {
-                case WebGame.Key.F:
-                    this.toggleFullscreen();
-                    return true;
-                case WebGame.Key.W:
-                case WebGame.Key.A:
-                case WebGame.Key.S:
-                case WebGame.Key.D:
-                case WebGame.Key.Shift:
-                case WebGame.Key.Alt:
-                    return this.isPointerLocked() && (this.cameraMode & CameraMode.CanMove) !== 0;
-                default:
-                    return false;
+        PlayerController.prototype.applyFriction = function (dt) {
+            var vel = this.velocity;
+            var speed = Math.sqrt(vel.x * vel.x + vel.y * vel.y);
+            if (speed < 0.1) {
+                vel.x = vel.y = 0;
+                return;
             }
+            var control = speed < this.stopSpeed ? this.stopSpeed : speed;
+            var newSpeed = Math.max(speed - control * this.friction * dt, 0);
+            vel.x *= newSpeed / speed;
+            vel.y *= newSpeed / speed;
         };
-        MapViewer.prototype.onSetDebugText = function (className, value) {
-            var elem = this.debugPanel.getElementsByClassName(className)[0];
-            if (elem == null)
+        // The length of wishDir, up to 1, scales the speed so analog input can move slowly
+        PlayerController.prototype.applyAcceleration = function (wishDir, wishSpeed, dt) {
+            var length = Math.sqrt(wishDir.x * wishDir.x + wishDir.y * wishDir.y);
+            if (length === 0)
                 return;
-            elem.innerText = value;
-            if (className === "debug-loadpercent" && parseInt(value) >= 100) {
-                var loading = this.debugPanel.getElementsByClassName("debug-loading")[0];
-                if (loading != null) {
-                    loading.style.display = "none";
+            var dirX = wishDir.x / length;
+            var dirY = wishDir.y / length;
+            wishSpeed *= Math.min(length, 1);
+            var accel = this.onGround ? this.accelerate : this.airAccelerate;
+            var cappedSpeed = this.onGround ? wishSpeed : Math.min(wishSpeed, this.airSpeedCap);
+            var currentSpeed = this.velocity.x * dirX + this.velocity.y * dirY;
+            var addSpeed = cappedSpeed - currentSpeed;
+            if (addSpeed <= 0)
+                return;
+            var accelSpeed = Math.min(accel * dt * wishSpeed, addSpeed);
+            this.velocity.x += dirX * accelSpeed;
+            this.velocity.y += dirY * accelSpeed;
+        };
+        PlayerController.prototype.slideMove = function (dt) {
+            var vel = this.velocity;
+            var end = this.slideMove_end;
+            var timeLeft = dt;
+            for (var bump = 0; bump < 4 && timeLeft > 0; ++bump) {
+                end.copy(vel).multiplyScalar(timeLeft).add(this.feetPos);
+                var tr = this.traceHull(this.feetPos, end);
+                if (tr.startSolid) {
+                    vel.set(0, 0, 0);
+                    return;
                 }
+                this.feetPos.copy(tr.position);
+                if (!tr.hit)
+                    return;
+                timeLeft -= timeLeft * tr.fraction;
+                var backoff = vel.dot(tr.normal);
+                vel.x -= tr.normal.x * backoff;
+                vel.y -= tr.normal.y * backoff;
+                vel.z -= tr.normal.z * backoff;
             }
         };
-        MapViewer.prototype.onUpdateFrame = function (dt) {
-            _super.prototype.onUpdateFrame.call(this, dt);
-            this.map.update(dt);
-            if (this.showDebugPanel !== this.debugPanelVisible) {
-                this.debugPanelVisible = this.showDebugPanel;
-                if (this.showDebugPanel && this.debugPanel === undefined) {
-                    this.debugPanel = this.onCreateDebugPanel();
-                }
-                if (this.debugPanel != null) {
-                    if (this.showDebugPanel)
-                        this.debugPanel.style.display = null;
-                    else
-                        this.debugPanel.style.display = "none";
-                }
+        // Tries moving both along the ground and after stepping up, keeping
+        // whichever gets further horizontally
+        PlayerController.prototype.stepMove = function (dt) {
+            var startPos = this.stepMove_startPos.copy(this.feetPos);
+            var startVel = this.stepMove_startVel.copy(this.velocity);
+            this.slideMove(dt);
+            var downPos = this.stepMove_downPos.copy(this.feetPos);
+            var downVel = this.stepMove_downVel.copy(this.velocity);
+            this.feetPos.copy(startPos);
+            this.velocity.copy(startVel);
+            var up = this.stepMove_temp.copy(startPos);
+            up.z += PlayerController.stepSize;
+            var tr = this.traceHull(this.feetPos, up);
+            if (!tr.startSolid)
+                this.feetPos.copy(tr.position);
+            this.slideMove(dt);
+            var down = this.stepMove_temp.copy(this.feetPos);
+            down.z -= this.feetPos.z - startPos.z;
+            tr = this.traceHull(this.feetPos, down);
+            if (!tr.startSolid)
+                this.feetPos.copy(tr.position);
+            var stepDistSq = this.horizontalDistSq(startPos, this.feetPos);
+            var downDistSq = this.horizontalDistSq(startPos, downPos);
+            if (!tr.hit || tr.normal.z < 0.7 || downDistSq >= stepDistSq) {
+                this.feetPos.copy(downPos);
+                this.velocity.copy(downVel);
+                return;
             }
-            var savePosPeriod = 1;
-            var wasBeforeSavePosPeriod = this.notMovedTime < savePosPeriod;
-            if ((this.cameraMode & CameraMode.CanMove) !== 0 && this.isPointerLocked() && this.map.isReady()) {
-                var move = this.onUpdateFrame_temp;
-                move.set(0, 0, 0);
-                var moveSpeed = 512 * dt
-                    * (this.isKeyDown(WebGame.Key.Shift) ? 4 : 1)
-                    * (this.isKeyDown(WebGame.Key.Alt) ? 0.333 : 1);
-                if (this.isKeyDown(WebGame.Key.W))
-                    move.z -= moveSpeed;
-                if (this.isKeyDown(WebGame.Key.S))
-                    move.z += moveSpeed;
-                if (this.isKeyDown(WebGame.Key.A))
-                    move.x -= moveSpeed;
-                if (this.isKeyDown(WebGame.Key.D))
-                    move.x += moveSpeed;
-                if (move.lengthSq() > 0) {
-                    this.mainCamera.applyRotationTo(move);
-                    this.mainCamera.translate(move);
-                    this.notMovedTime = 0;
-                }
+            this.velocity.z = downVel.z;
+        };
+        // Keeps the player grounded when walking down stairs or slopes
+        PlayerController.prototype.stayOnGround = function () {
+            var down = this.stayOnGround_temp.copy(this.feetPos);
+            down.z -= PlayerController.stepSize;
+            var tr = this.traceHull(this.feetPos, down);
+            if (tr.hit && !tr.startSolid && tr.fraction > 0 && tr.normal.z >= 0.7) {
+                this.feetPos.copy(tr.position);
             }
-            this.notMovedTime += dt;
-            if (this.saveCameraPosInHash && wasBeforeSavePosPeriod && this.notMovedTime >= savePosPeriod) {
-                var pos = this.mainCamera.getPosition(this.onUpdateFrame_temp);
-                var pitch = this.lookAngs.x * 180.0 / Math.PI;
-                var yaw = this.lookAngs.y * 180.0 / Math.PI;
-                this.setHash({
-                    x: pos.x.toFixed(1),
-                    y: pos.y.toFixed(1),
-                    z: pos.z.toFixed(1),
-                    r: pitch.toFixed(1),
-                    s: yaw.toFixed(1)
-                });
+        };
+        PlayerController.prototype.horizontalDistSq = function (a, b) {
+            var dx = b.x - a.x;
+            var dy = b.y - a.y;
+            return dx * dx + dy * dy;
+        };
+        return PlayerController;
+    }());
+    PlayerController.standHeight = 72;
+    PlayerController.duckHeight = 36;
+    PlayerController.standEyeHeight = 64;
+    PlayerController.duckEyeHeight = 28;
+    PlayerController.halfWidth = 16;
+    PlayerController.stepSize = 18;
+    SourceUtils.PlayerController = PlayerController;
+})(SourceUtils || (SourceUtils = {}));
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    // Draws entities that only have a position as coloured boxes, with an arrow
+    // showing which way they face. Each classname can be shown or hidden separately.
+    var PointEntityGizmos = (function () {
+        function PointEntityGizmos(viewer) {
+            // Half the width of boxes drawn for anything other than spawn points
+            this.boxExtent = 8;
+            this.arrowLength = 32;
+            this.enabled = false;
+            this.invalid = true;
+            this.visibleClasses = {};
+            this.colors = {};
+            this.lines = {};
+            this.min = new Facepunch.Vector3();
+            this.max = new Facepunch.Vector3();
+            this.temp = new Facepunch.Vector3();
+            this.viewer = viewer;
+            for (var classname in PointEntityGizmos.defaultColors) {
+                this.visibleClasses[classname] = true;
+                this.colors[classname] = PointEntityGizmos.defaultColors[classname];
             }
-            // Diagnostics
-            var drawCalls = this.mainCamera.getDrawCalls();
-            if (drawCalls !== this.lastDrawCalls && this.showDebugPanel) {
-                this.lastDrawCalls = drawCalls;
-                this.onSetDebugText("debug-drawcalls", drawCalls.toString());
+        }
+        PointEntityGizmos.prototype.isEnabled = function () {
+            return this.enabled;
+        };
+        PointEntityGizmos.prototype.setEnabled = function (value) {
+            if (this.enabled === value)
+                return;
+            this.enabled = value;
+            this.invalidate();
+        };
+        PointEntityGizmos.prototype.isClassVisible = function (classname) {
+            return this.visibleClasses[classname] === true;
+        };
+        PointEntityGizmos.prototype.setClassVisible = function (classname, visible) {
+            if (this.isClassVisible(classname) === visible)
+                return;
+            this.visibleClasses[classname] = visible;
+            this.invalidate();
+        };
+        PointEntityGizmos.prototype.getClassColor = function (classname) {
+            return this.colors[classname] || PointEntityGizmos.otherColor;
+        };
+        PointEntityGizmos.prototype.setClassColor = function (classname, color) {
+            this.colors[classname] = color;
+            var line = this.lines[classname];
+            if (line != null)
+                line.setColor(color);
+        };
+        // Entities with a position but no bounds of their own
+        PointEntityGizmos.prototype.isPointEntity = function (ent) {
+            if (ent.origin == null)
+                return false;
+            var inst = this.viewer.map.getEntityInstance(ent);
+            return inst == null || !inst.getBounds(this.min, this.max);
+        };
+        // Classnames of every point entity in the map, for listing toggles
+        PointEntityGizmos.prototype.getClassnames = function () {
+            var classnames = [];
+            for (var _i = 0, _a = this.viewer.map.getEntities(); _i < _a.length; _i++) {
+                var ent = _a[_i];
+                if (classnames.indexOf(ent.classname) !== -1 || !this.isPointEntity(ent))
+                    continue;
+                classnames.push(ent.classname);
             }
-            ++this.frameCount;
-            var time = performance.now();
-            if (this.lastProfileTime === undefined) {
-                this.lastProfileTime = time;
+            return classnames.sort();
+        };
+        PointEntityGizmos.prototype.getLine = function (classname) {
+            var line = this.lines[classname];
+            if (line != null)
+                return line;
+            this.lines[classname] = line = new WebGame.DebugLine(this.viewer);
+            line.setColor(this.getClassColor(classname));
+            return line;
+        };
+        PointEntityGizmos.prototype.drawArrow = function (line, from, angles) {
+            var toRadians = Math.PI / 180;
+            var pitch = angles.x * toRadians;
+            var yaw = angles.y * toRadians;
+            // Source angles, where yaw is measured from +X and pitch is positive looking down
+            var forward = new Facepunch.Vector3(Math.cos(pitch) * Math.cos(yaw), Math.cos(pitch) * Math.sin(yaw), -Math.sin(pitch));
+            var side = new Facepunch.Vector3(Math.sin(yaw), -Math.cos(yaw), 0);
+            var tip = new Facepunch.Vector3().copy(forward).multiplyScalar(this.arrowLength).add(from);
+            var headLength = this.arrowLength * 0.25;
+            line.moveTo(from);
+            line.lineTo(tip);
+            for (var _i = 0, _a = [-1, 1]; _i < _a.length; _i++) {
+                var sign = _a[_i];
+                line.moveTo(tip);
+                line.lineTo(this.temp.copy(forward).multiplyScalar(-headLength)
+                    .add(side.x * sign * headLength * 0.5, side.y * sign * headLength * 0.5, 0)
+                    .add(tip));
             }
-            else if (time - this.lastProfileTime >= 500) {
-                var timeDiff = (time - this.lastProfileTime) / 1000;
-                this.avgFrameTime = timeDiff * 1000 / this.frameCount;
-                this.avgFrameRate = this.frameCount / timeDiff;
-                if (this.showDebugPanel) {
-                    this.onSetDebugText("debug-frametime", this.avgFrameTime.toPrecision(4));
-                    this.onSetDebugText("debug-framerate", this.avgFrameRate.toPrecision(4));
-                }
-                if (!this.allLoaded) {
-                    var visLoaded = this.visLoader.getLoadProgress();
-                    var bspLoaded = this.bspModelLoader.getLoadProgress();
-                    var lightmapLoaded = this.map.getLightmapLoadProgress();
-                    var materialsLoaded = this.mapMaterialLoader.getLoadProgress();
-                    var geomLoaded = this.leafGeometryLoader.getLoadProgress() * 0.5
-                        + this.dispGeometryLoader.getLoadProgress() * 0.5;
-                    var propsLoaded = this.vertLightingLoader.getLoadProgress() * 0.25
-                        + this.studioModelLoader.getLoadProgress() * 0.75;
-                    this.totalLoadProgress = (visLoaded + bspLoaded + lightmapLoaded + materialsLoaded + geomLoaded + propsLoaded) / 6;
-                    if (this.showDebugPanel) {
-                        this.onSetDebugText("debug-loadpercent", (this.totalLoadProgress * 100).toPrecision(3));
+        };
+        PointEntityGizmos.prototype.rebuild = function () {
+            var map = this.viewer.map;
+            for (var classname in this.lines) {
+                var line = this.lines[classname];
+                map.removeDynamicItem(line);
+                line.clear();
+            }
+            if (this.enabled) {
+                var center = new Facepunch.Vector3();
+                for (var _i = 0, _a = map.getEntities(); _i < _a.length; _i++) {
+                    var ent = _a[_i];
+                    if (!this.isClassVisible(ent.classname) || !this.isPointEntity(ent))
+                        continue;
+                    var line = this.getLine(ent.classname);
+                    if (ent.classname.indexOf("info_player_") === 0) {
+                        this.min.copy(PointEntityGizmos.playerMin).add(ent.origin);
+                        this.max.copy(PointEntityGizmos.playerMax).add(ent.origin);
                     }
-                    if (this.totalLoadProgress >= 1) {
-                        this.allLoaded = true;
+                    else {
+                        var extent = this.boxExtent;
+                        this.min.copy(ent.origin).sub(extent, extent, extent);
+                        this.max.copy(ent.origin).add(extent, extent, extent);
+                    }
+                    SourceUtils.EntityInspector.drawBox(line, this.min, this.max);
+                    if (ent.angles != null) {
+                        this.drawArrow(line, center.copy(this.min).add(this.max).multiplyScalar(0.5), ent.angles);
                     }
                 }
-                this.lastProfileTime = time;
-                this.frameCount = 0;
+            }
+            for (var classname in this.lines) {
+                var line = this.lines[classname];
+                line.update();
+                map.addDynamicItem(line);
             }
         };
-        MapViewer.prototype.onRenderFrame = function (dt) {
-            _super.prototype.onRenderFrame.call(this, dt);
-            var gl = this.context;
-            gl.clear(gl.DEPTH_BUFFER_BIT);
-            gl.depthFunc(gl.LEQUAL);
-            gl.cullFace(gl.FRONT);
-            if (this.mainCamera != null) {
-                this.mainCamera.render();
+        // Rebuilds the boxes on the next update
+        PointEntityGizmos.prototype.invalidate = function () {
+            this.invalid = true;
+        };
+        PointEntityGizmos.prototype.update = function () {
+            if (this.invalid && this.viewer.map.isReady()) {
+                this.invalid = false;
+                this.rebuild();
             }
         };
-        MapViewer.prototype.populateCommandBufferParameters = function (buf) {
-            _super.prototype.populateCommandBufferParameters.call(this, buf);
-            this.map.populateCommandBufferParameters(buf);
+        // Forgets the old map's entities when a new one is loaded
+        PointEntityGizmos.prototype.clear = function () {
+            for (var classname in this.lines) {
+                this.viewer.map.removeDynamicItem(this.lines[classname]);
+                this.lines[classname].dispose();
+            }
+            this.lines = {};
+            this.invalid = true;
         };
-        return MapViewer;
-    }(WebGame.Game));
-    MapViewer.hashKeyRegex = /^[a-z_]+$/i;
-    MapViewer.hashObjectRegex = /^#((?:[a-z_]+)(?:-?[0-9]+(?:\.[0-9]+)?))+$/i;
-    SourceUtils.MapViewer = MapViewer;
+        return PointEntityGizmos;
+    }());
+    PointEntityGizmos.defaultColors = {
+        info_player_terrorist: { x: 0.9, y: 0.65, z: 0.2 },
+        info_player_counterterrorist: { x: 0.25, y: 0.5, z: 0.9 },
+        info_player_start: { x: 0.3, y: 0.9, z: 0.3 },
+        sky_camera: { x: 0.3, y: 0.85, z: 0.9 },
+        env_fog_controller: { x: 0.8, y: 0.8, z: 0.8 }
+    };
+    PointEntityGizmos.otherColor = { x: 0.6, y: 0.6, z: 0.6 };
+    // Standing player hull, drawn for spawn points from their origin at the feet
+    PointEntityGizmos.playerMin = { x: -16, y: -16, z: 0 };
+    PointEntityGizmos.playerMax = { x: 16, y: 16, z: 72 };
+    SourceUtils.PointEntityGizmos = PointEntityGizmos;
 })(SourceUtils || (SourceUtils = {}));
 var SourceUtils;
 (function (SourceUtils) {
@@ -1720,16 +7551,38 @@ var SourceUtils;
             function LightmappedBase(context, ctor) {
                 var _this = _super.call(this, context, ctor) || this;
                 _this.uLightmap = _this.addUniform("uLightmap", WebGame.UniformSampler);
+                _this.uSunDirection = _this.addUniform("uSunDirection", WebGame.Uniform3F);
+                _this.uSunColor = _this.addUniform("uSunColor", WebGame.Uniform3F);
+                _this.uShadowMap = _this.addUniform("uShadowMap", WebGame.UniformSampler);
+                _this.uShadowMatrix0 = _this.addUniform("uShadowMatrix0", WebGame.UniformMatrix4);
+                _this.uShadowMatrix1 = _this.addUniform("uShadowMatrix1", WebGame.UniformMatrix4);
+                _this.uShadowMatrix2 = _this.addUniform("uShadowMatrix2", WebGame.UniformMatrix4);
+                _this.uShadowMatrix3 = _this.addUniform("uShadowMatrix3", WebGame.UniformMatrix4);
+                _this.uShadowSplits = _this.addUniform("uShadowSplits", WebGame.Uniform4F);
+                _this.uShadowBias = _this.addUniform("uShadowBias", WebGame.Uniform4F);
+                _this.uShadowInfo = _this.addUniform("uShadowInfo", WebGame.Uniform4F);
                 var gl = context;
-                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec2 aLightmapCoord;\n\n                    varying vec2 vLightmapCoord;\n\n                    void LightmappedBase_main()\n                    {\n                        ModelBase_main();\n\n                        vLightmapCoord = aLightmapCoord;\n                    }");
-                _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying vec2 vLightmapCoord;\n\n                    uniform sampler2D " + _this.uLightmap + ";\n                    uniform vec4 " + _this.uLightmap.getSizeUniform() + ";\n\n                    vec3 DecompressLightmapSample(vec4 sample)\n                    {\n                        float exp = sample.a * 255.0 - 128.0;\n                        return sample.rgb * pow(2.0, exp);\n                    }\n\n                    vec3 ApplyLightmap(vec3 inColor)\n                    {\n                        const float gamma = 1.0 / 2.2;\n\n                        vec2 size = " + _this.uLightmap.getSizeUniform() + ".xy;\n                        vec2 invSize = " + _this.uLightmap.getSizeUniform() + ".zw;\n                        vec2 scaledCoord = vLightmapCoord * size - vec2(0.5, 0.5);\n                        vec2 minCoord = floor(scaledCoord) + vec2(0.5, 0.5);\n                        vec2 maxCoord = minCoord + vec2(1.0, 1.0);\n                        vec2 delta = scaledCoord - floor(scaledCoord);\n\n                        minCoord *= invSize;\n                        maxCoord *= invSize;\n\n                        vec3 sampleA = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(minCoord.x, minCoord.y)));\n                        vec3 sampleB = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(maxCoord.x, minCoord.y)));\n                        vec3 sampleC = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(minCoord.x, maxCoord.y)));\n                        vec3 sampleD = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(maxCoord.x, maxCoord.y)));\n\n                        vec3 sample = mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y);\n\n                        return inColor * pow(sample, vec3(gamma, gamma, gamma));\n                    }");
+                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aNormal;\n                    attribute vec2 aLightmapCoord;\n\n                    varying vec2 vLightmapCoord;\n                    varying highp vec3 vWorldPos;\n                    varying vec3 vWorldNormal;\n\n                    void LightmappedBase_main()\n                    {\n                        ModelBase_main();\n\n                        vLightmapCoord = aLightmapCoord;\n                        vWorldPos = (" + _this.uModel + " * vec4(aPosition, 1.0)).xyz;\n                        vWorldNormal = (" + _this.uModel + " * vec4(aNormal, 0.0)).xyz;\n                    }");
+                _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying vec2 vLightmapCoord;\n                    varying highp vec3 vWorldPos;\n                    varying vec3 vWorldNormal;\n\n                    uniform sampler2D " + _this.uLightmap + ";\n                    uniform vec4 " + _this.uLightmap.getSizeUniform() + ";\n\n                    uniform vec3 " + _this.uSunDirection + ";\n                    uniform vec3 " + _this.uSunColor + ";\n\n                    uniform sampler2D " + _this.uShadowMap + ";\n                    uniform highp mat4 " + _this.uShadowMatrix0 + ";\n                    uniform highp mat4 " + _this.uShadowMatrix1 + ";\n                    uniform highp mat4 " + _this.uShadowMatrix2 + ";\n                    uniform highp mat4 " + _this.uShadowMatrix3 + ";\n                    uniform vec4 " + _this.uShadowSplits + ";\n                    uniform highp vec4 " + _this.uShadowBias + ";\n                    uniform vec4 " + _this.uShadowInfo + ";\n\n                    vec3 DecompressLightmapSample(vec4 sample)\n                    {\n                        float exp = sample.a * 255.0 - 128.0;\n                        return sample.rgb * pow(2.0, exp);\n                    }\n\n                    float SampleShadowMap(vec2 coord, highp float depth)\n                    {\n                        vec4 sample = texture2D(" + _this.uShadowMap + ", coord);\n\n                        // Only shadows from dynamic casters are missing from the lightmap\n                        if (sample.a < 0.5) return 0.0;\n\n                        highp float casterDepth = dot(sample.rgb, vec3(1.0, 1.0 / 255.0, 1.0 / 65025.0));\n                        return casterDepth < depth ? 1.0 : 0.0;\n                    }\n\n                    vec3 ApplySunShadows(vec3 light)\n                    {\n                        int cascadeCount = int(" + _this.uShadowInfo + ".x + 0.5);\n                        if (cascadeCount == 0) return light;\n\n                        float sunDot = dot(normalize(vWorldNormal), " + _this.uSunDirection + ");\n                        if (sunDot <= 0.0) return light;\n\n                        int cascade;\n                        highp mat4 shadowMatrix;\n                        highp float bias;\n\n                        if (vDepth < " + _this.uShadowSplits + ".x) {\n                            cascade = 0;\n                            shadowMatrix = " + _this.uShadowMatrix0 + ";\n                            bias = " + _this.uShadowBias + ".x;\n                        } else if (vDepth < " + _this.uShadowSplits + ".y && cascadeCount > 1) {\n                            cascade = 1;\n                            shadowMatrix = " + _this.uShadowMatrix1 + ";\n                            bias = " + _this.uShadowBias + ".y;\n                        } else if (vDepth < " + _this.uShadowSplits + ".z && cascadeCount > 2) {\n                            cascade = 2;\n                            shadowMatrix = " + _this.uShadowMatrix2 + ";\n                            bias = " + _this.uShadowBias + ".z;\n                        } else if (vDepth < " + _this.uShadowSplits + ".w && cascadeCount > 3) {\n                            cascade = 3;\n                            shadowMatrix = " + _this.uShadowMatrix3 + ";\n                            bias = " + _this.uShadowBias + ".w;\n                        } else {\n                            return light;\n                        }\n\n                        highp vec3 shadowPos = (shadowMatrix * vec4(vWorldPos, 1.0)).xyz * 0.5 + vec3(0.5, 0.5, 0.5);\n                        highp float depth = shadowPos.z - bias;\n\n                        vec2 texel = vec2(" + _this.uShadowInfo + ".z * " + _this.uShadowInfo + ".y, " + _this.uShadowInfo + ".z);\n                        vec2 coord = clamp(shadowPos.xy, vec2(0.0, 0.0), vec2(1.0, 1.0) - " + _this.uShadowInfo + ".zz);\n                        coord.x = (coord.x + float(cascade)) * " + _this.uShadowInfo + ".y;\n\n                        float shadow = 0.25 * (\n                            SampleShadowMap(coord, depth) +\n                            SampleShadowMap(coord + vec2(texel.x, 0.0), depth) +\n                            SampleShadowMap(coord + vec2(0.0, texel.y), depth) +\n                            SampleShadowMap(coord + texel, depth));\n\n                        return max(light - " + _this.uSunColor + " * sunDot * shadow, vec3(0.0, 0.0, 0.0));\n                    }\n\n                    vec3 ApplyLightmap(vec3 inColor)\n                    {\n                        const float gamma = 1.0 / 2.2;\n\n                        vec2 size = " + _this.uLightmap.getSizeUniform() + ".xy;\n                        vec2 invSize = " + _this.uLightmap.getSizeUniform() + ".zw;\n                        vec2 scaledCoord = vLightmapCoord * size - vec2(0.5, 0.5);\n                        vec2 minCoord = floor(scaledCoord) + vec2(0.5, 0.5);\n                        vec2 maxCoord = minCoord + vec2(1.0, 1.0);\n                        vec2 delta = scaledCoord - floor(scaledCoord);\n\n                        minCoord *= invSize;\n                        maxCoord *= invSize;\n\n                        vec3 sampleA = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(minCoord.x, minCoord.y)));\n                        vec3 sampleB = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(maxCoord.x, minCoord.y)));\n                        vec3 sampleC = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(minCoord.x, maxCoord.y)));\n                        vec3 sampleD = DecompressLightmapSample(texture2D(" + _this.uLightmap + ", vec2(maxCoord.x, maxCoord.y)));\n\n                        vec3 sample = ApplySunShadows(mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y));\n\n                        return inColor * pow(sample, vec3(gamma, gamma, gamma));\n                    }");
+                _this.addAttribute("aNormal", WebGame.VertexAttribute.normal);
                 _this.addAttribute("aLightmapCoord", WebGame.VertexAttribute.uv2);
                 _this.uLightmap.setDefault(WebGame.TextureUtils.getWhiteTexture(context));
+                _this.uShadowMap.setDefault(WebGame.TextureUtils.getWhiteTexture(context));
                 return _this;
             }
             LightmappedBase.prototype.bufferSetup = function (buf) {
                 _super.prototype.bufferSetup.call(this, buf);
                 this.uLightmap.bufferParameter(buf, SourceUtils.Map.lightmapParam);
+                this.uSunDirection.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunColorParam);
+                this.uShadowMap.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowMapParam);
+                this.uShadowMatrix0.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowMatrixParams[0]);
+                this.uShadowMatrix1.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowMatrixParams[1]);
+                this.uShadowMatrix2.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowMatrixParams[2]);
+                this.uShadowMatrix3.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowMatrixParams[3]);
+                this.uShadowSplits.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowSplitsParam);
+                this.uShadowBias.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowBiasParam);
+                this.uShadowInfo.bufferParameter(buf, SourceUtils.Entities.ShadowCamera.shadowInfoParam);
             };
             return LightmappedBase;
         }(Shaders.ModelBase));
@@ -1808,6 +7661,54 @@ var SourceUtils;
         Shaders.LightmappedGeneric = LightmappedGeneric;
     })(Shaders = SourceUtils.Shaders || (SourceUtils.Shaders = {}));
 })(SourceUtils || (SourceUtils = {}));
+/// <reference path="ModelBase.ts"/>
+var SourceUtils;
+(function (SourceUtils) {
+    var WebGame = Facepunch.WebGame;
+    var Shaders;
+    (function (Shaders) {
+        var ShadowCasterMaterial = (function (_super) {
+            __extends(ShadowCasterMaterial, _super);
+            function ShadowCasterMaterial() {
+                var _this = _super !== null && _super.apply(this, arguments) || this;
+                // False for lightmapped surfaces, which only block shadows that are already baked
+                _this.caster = true;
+                _this.spline = false;
+                _this.cullFace = false;
+                return _this;
+            }
+            return ShadowCasterMaterial;
+        }(Shaders.ModelBaseMaterial));
+        Shaders.ShadowCasterMaterial = ShadowCasterMaterial;
+        var ShadowCaster = (function (_super) {
+            __extends(ShadowCaster, _super);
+            function ShadowCaster(context) {
+                var _this = _super.call(this, context, ShadowCasterMaterial) || this;
+                _this.uCaster = _this.addUniform("uCaster", WebGame.Uniform1F);
+                _this.uSpline = _this.addUniform("uSpline", WebGame.Uniform1I);
+                _this.uSunDirection = _this.addUniform("uSunDirection", WebGame.Uniform3F);
+                var gl = context;
+                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aTangent;\n                    attribute vec2 aSplineParams;\n\n                    uniform int " + _this.uSpline + ";\n                    uniform vec3 " + _this.uSunDirection + ";\n\n                    void main()\n                    {\n                        vec4 worldPos = " + _this.uModel + " * vec4(aPosition, 1.0);\n\n                        if (" + _this.uSpline + " != 0) {\n                            // Ropes are expanded to face the sun rather than the camera\n                            vec3 tangent = normalize((" + _this.uModel + " * vec4(aTangent, 0.0)).xyz);\n                            worldPos.xyz += normalize(cross(" + _this.uSunDirection + ", tangent)) * aSplineParams.x;\n                        }\n\n                        gl_Position = " + _this.uProjection + " * " + _this.uView + " * worldPos;\n\n                        vTextureCoord = aTextureCoord;\n                        vDepth = 0.0;\n                    }");
+                _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    #ifdef GL_FRAGMENT_PRECISION_HIGH\n                    precision highp float;\n                    #else\n                    precision mediump float;\n                    #endif\n\n                    uniform float " + _this.uCaster + ";\n\n                    vec3 PackDepth(float depth)\n                    {\n                        vec3 enc = fract(depth * vec3(1.0, 255.0, 65025.0));\n                        return enc - enc.yzz * vec3(1.0 / 255.0, 1.0 / 255.0, 0.0);\n                    }\n\n                    void main()\n                    {\n                        ModelBase_main();\n                        gl_FragColor = vec4(PackDepth(gl_FragCoord.z), " + _this.uCaster + ");\n                    }");
+                _this.addAttribute("aTangent", WebGame.VertexAttribute.normal);
+                _this.addAttribute("aSplineParams", WebGame.VertexAttribute.uv2);
+                _this.compile();
+                return _this;
+            }
+            ShadowCaster.prototype.bufferSetup = function (buf) {
+                _super.prototype.bufferSetup.call(this, buf);
+                this.uSunDirection.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDirectionParam);
+            };
+            ShadowCaster.prototype.bufferMaterialProps = function (buf, props) {
+                _super.prototype.bufferMaterialProps.call(this, buf, props);
+                this.uCaster.bufferValue(buf, props.caster ? 1 : 0);
+                this.uSpline.bufferValue(buf, props.spline ? 1 : 0);
+            };
+            return ShadowCaster;
+        }(Shaders.ModelBase));
+        Shaders.ShadowCaster = ShadowCaster;
+    })(Shaders = SourceUtils.Shaders || (SourceUtils.Shaders = {}));
+})(SourceUtils || (SourceUtils = {}));
 var SourceUtils;
 (function (SourceUtils) {
     var WebGame = Facepunch.WebGame;
@@ -1843,10 +7744,13 @@ var SourceUtils;
                 _this.uFacePosZ = _this.addUniform("uFacePosZ", WebGame.UniformSampler);
                 _this.uFaceNegZ = _this.addUniform("uFaceNegZ", WebGame.UniformSampler);
                 _this.uHdrCompressed = _this.addUniform("uHdrCompressed", WebGame.Uniform1I);
+                _this.uSunDirection = _this.addUniform("uSunDirection", WebGame.Uniform3F);
+                _this.uSunColor = _this.addUniform("uSunColor", WebGame.Uniform3F);
+                _this.uSunDisc = _this.addUniform("uSunDisc", WebGame.Uniform1F);
                 _this.sortOrder = -1000;
                 var gl = context;
-                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec2 aTextureCoord;\n                    attribute float aFace;\n\n                    varying float vFace;\n                    varying vec2 vTextureCoord;\n\n                    uniform mat4 " + _this.uProjection + ";\n                    uniform mat4 " + _this.uView + ";\n\n                    vec3 GetPosition()\n                    {\n                        vec2 pos = aTextureCoord - vec2(0.5, 0.5);\n                        int face = int(aFace + 0.5);\n                        if (face == 0) return vec3( 0.5, -pos.x, -pos.y);\n                        if (face == 1) return vec3(-0.5, pos.x, -pos.y);\n                        if (face == 2) return vec3( pos.x, 0.5, -pos.y);\n                        if (face == 3) return vec3(-pos.x, -0.5, -pos.y);\n                        if (face == 4) return vec3( pos.y,-pos.x, 0.5);\n                        if (face == 5) return vec3( pos.y, pos.x, -0.5);\n                        return vec3(0.0, 0.0, 0.0);\n                    }\n\n                    void main()\n                    {\n                        vec4 viewPos = " + _this.uView + " * vec4(GetPosition() * 128.0, 0.0);\n\n                        gl_Position = " + _this.uProjection + " * vec4(viewPos.xyz, 1.0);\n\n                        vFace = aFace;\n                        vTextureCoord = aTextureCoord;\n                    }");
-                _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying float vFace;\n                    varying vec2 vTextureCoord;\n\n                    uniform sampler2D " + _this.uFacePosX + "; uniform vec4 " + _this.uFacePosX.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegX + "; uniform vec4 " + _this.uFaceNegX.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFacePosY + "; uniform vec4 " + _this.uFacePosY.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegY + "; uniform vec4 " + _this.uFaceNegY.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFacePosZ + "; uniform vec4 " + _this.uFacePosZ.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegZ + "; uniform vec4 " + _this.uFaceNegZ.getSizeUniform() + ";\n\n                    uniform int " + _this.uHdrCompressed + ";\n\n                    vec4 GetFaceSize()\n                    {\n                        int face = int(vFace + 0.5);\n                        if (face == 0) return " + _this.uFacePosX.getSizeUniform() + ";\n                        if (face == 1) return " + _this.uFaceNegX.getSizeUniform() + ";\n                        if (face == 2) return " + _this.uFacePosY.getSizeUniform() + ";\n                        if (face == 3) return " + _this.uFaceNegY.getSizeUniform() + ";\n                        if (face == 4) return " + _this.uFacePosZ.getSizeUniform() + ";\n                        if (face == 5) return " + _this.uFaceNegZ.getSizeUniform() + ";\n                        return vec4(1.0, 1.0, 1.0, 1.0);\n                    }\n\n                    vec4 GetFaceSample(vec2 uv)\n                    {\n                        int face = int(vFace + 0.5);\n                        if (face == 0) return texture2D(" + _this.uFacePosX + ", uv);\n                        if (face == 1) return texture2D(" + _this.uFaceNegX + ", uv);\n                        if (face == 2) return texture2D(" + _this.uFacePosY + ", uv);\n                        if (face == 3) return texture2D(" + _this.uFaceNegY + ", uv);\n                        if (face == 4) return texture2D(" + _this.uFacePosZ + ", uv);\n                        if (face == 5) return texture2D(" + _this.uFaceNegZ + ", uv);\n                        return vec4(0.0, 0.0, 0.0, 1.0);\n                    }\n\n                    vec3 DecompressHdr(vec4 sample)\n                    {\n                        return sample.rgb * sample.a * 2.0;\n                    }\n\n                    void main()\n                    {\n                        if (" + _this.uHdrCompressed + " != 0) {\n                            vec4 size = GetFaceSize();\n                            vec2 scaledCoord = vTextureCoord * size.xy * vec2(1.0, size.x * size.w) - vec2(0.5, 0.5);\n                            vec2 minCoord = floor(scaledCoord) + vec2(0.5, 0.5);\n                            vec2 maxCoord = minCoord + vec2(1.0, 1.0);\n                            vec2 delta = scaledCoord - floor(scaledCoord);\n\n                            minCoord *= size.zw;\n                            maxCoord *= size.zw;\n\n                            vec3 sampleA = DecompressHdr(GetFaceSample(vec2(minCoord.x, minCoord.y)));\n                            vec3 sampleB = DecompressHdr(GetFaceSample(vec2(maxCoord.x, minCoord.y)));\n                            vec3 sampleC = DecompressHdr(GetFaceSample(vec2(minCoord.x, maxCoord.y)));\n                            vec3 sampleD = DecompressHdr(GetFaceSample(vec2(maxCoord.x, maxCoord.y)));\n\n                            vec3 sample = mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y);\n\n                            gl_FragColor = vec4(sample, 1.0);\n                        } else {\n                            vec4 sample = GetFaceSample(vTextureCoord);\n                            gl_FragColor = vec4(sample.rgb, 1.0);\n                        }\n                    }");
+                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec2 aTextureCoord;\n                    attribute float aFace;\n\n                    varying float vFace;\n                    varying vec2 vTextureCoord;\n                    varying vec3 vDirection;\n\n                    uniform mat4 " + _this.uProjection + ";\n                    uniform mat4 " + _this.uView + ";\n\n                    vec3 GetPosition()\n                    {\n                        vec2 pos = aTextureCoord - vec2(0.5, 0.5);\n                        int face = int(aFace + 0.5);\n                        if (face == 0) return vec3( 0.5, -pos.x, -pos.y);\n                        if (face == 1) return vec3(-0.5, pos.x, -pos.y);\n                        if (face == 2) return vec3( pos.x, 0.5, -pos.y);\n                        if (face == 3) return vec3(-pos.x, -0.5, -pos.y);\n                        if (face == 4) return vec3( pos.y,-pos.x, 0.5);\n                        if (face == 5) return vec3( pos.y, pos.x, -0.5);\n                        return vec3(0.0, 0.0, 0.0);\n                    }\n\n                    void main()\n                    {\n                        vDirection = GetPosition();\n\n                        vec4 viewPos = " + _this.uView + " * vec4(vDirection * 128.0, 0.0);\n\n                        gl_Position = " + _this.uProjection + " * vec4(viewPos.xyz, 1.0);\n\n                        vFace = aFace;\n                        vTextureCoord = aTextureCoord;\n                    }");
+                _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying float vFace;\n                    varying vec2 vTextureCoord;\n                    varying vec3 vDirection;\n\n                    uniform sampler2D " + _this.uFacePosX + "; uniform vec4 " + _this.uFacePosX.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegX + "; uniform vec4 " + _this.uFaceNegX.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFacePosY + "; uniform vec4 " + _this.uFacePosY.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegY + "; uniform vec4 " + _this.uFaceNegY.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFacePosZ + "; uniform vec4 " + _this.uFacePosZ.getSizeUniform() + ";\n                    uniform sampler2D " + _this.uFaceNegZ + "; uniform vec4 " + _this.uFaceNegZ.getSizeUniform() + ";\n\n                    uniform int " + _this.uHdrCompressed + ";\n\n                    uniform vec3 " + _this.uSunDirection + ";\n                    uniform vec3 " + _this.uSunColor + ";\n                    uniform float " + _this.uSunDisc + ";\n\n                    vec4 GetFaceSize()\n                    {\n                        int face = int(vFace + 0.5);\n                        if (face == 0) return " + _this.uFacePosX.getSizeUniform() + ";\n                        if (face == 1) return " + _this.uFaceNegX.getSizeUniform() + ";\n                        if (face == 2) return " + _this.uFacePosY.getSizeUniform() + ";\n                        if (face == 3) return " + _this.uFaceNegY.getSizeUniform() + ";\n                        if (face == 4) return " + _this.uFacePosZ.getSizeUniform() + ";\n                        if (face == 5) return " + _this.uFaceNegZ.getSizeUniform() + ";\n                        return vec4(1.0, 1.0, 1.0, 1.0);\n                    }\n\n                    vec4 GetFaceSample(vec2 uv)\n                    {\n                        int face = int(vFace + 0.5);\n                        if (face == 0) return texture2D(" + _this.uFacePosX + ", uv);\n                        if (face == 1) return texture2D(" + _this.uFaceNegX + ", uv);\n                        if (face == 2) return texture2D(" + _this.uFacePosY + ", uv);\n                        if (face == 3) return texture2D(" + _this.uFaceNegY + ", uv);\n                        if (face == 4) return texture2D(" + _this.uFacePosZ + ", uv);\n                        if (face == 5) return texture2D(" + _this.uFaceNegZ + ", uv);\n                        return vec4(0.0, 0.0, 0.0, 1.0);\n                    }\n\n                    vec3 DecompressHdr(vec4 sample)\n                    {\n                        return sample.rgb * sample.a * 2.0;\n                    }\n\n                    vec3 ApplySunDisc(vec3 color)\n                    {\n                        if (" + _this.uSunDisc + " >= 1.0) return color;\n\n                        float sunDot = dot(normalize(vDirection), " + _this.uSunDirection + ");\n                        float edge = mix(" + _this.uSunDisc + ", 1.0, 0.25);\n                        float intensity = smoothstep(" + _this.uSunDisc + ", edge, sunDot);\n\n                        return color + pow(" + _this.uSunColor + ", vec3(1.0 / 2.2)) * intensity;\n                    }\n\n                    void main()\n                    {\n                        if (" + _this.uHdrCompressed + " != 0) {\n                            vec4 size = GetFaceSize();\n                            vec2 scaledCoord = vTextureCoord * size.xy * vec2(1.0, size.x * size.w) - vec2(0.5, 0.5);\n                            vec2 minCoord = floor(scaledCoord) + vec2(0.5, 0.5);\n                            vec2 maxCoord = minCoord + vec2(1.0, 1.0);\n                            vec2 delta = scaledCoord - floor(scaledCoord);\n\n                            minCoord *= size.zw;\n                            maxCoord *= size.zw;\n\n                            vec3 sampleA = DecompressHdr(GetFaceSample(vec2(minCoord.x, minCoord.y)));\n                            vec3 sampleB = DecompressHdr(GetFaceSample(vec2(maxCoord.x, minCoord.y)));\n                            vec3 sampleC = DecompressHdr(GetFaceSample(vec2(minCoord.x, maxCoord.y)));\n                            vec3 sampleD = DecompressHdr(GetFaceSample(vec2(maxCoord.x, maxCoord.y)));\n\n                            vec3 sample = mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y);\n\n                            gl_FragColor = vec4(ApplySunDisc(sample), 1.0);\n                        } else {\n                            vec4 sample = GetFaceSample(vTextureCoord);\n                            gl_FragColor = vec4(ApplySunDisc(sample.rgb), 1.0);\n                        }\n                    }");
                 _this.addAttribute("aTextureCoord", WebGame.VertexAttribute.uv);
                 _this.addAttribute("aFace", WebGame.VertexAttribute.alpha);
                 _this.uFacePosX.setDefault(WebGame.TextureUtils.getErrorTexture(context));
@@ -1862,6 +7766,9 @@ var SourceUtils;
                 _super.prototype.bufferSetup.call(this, buf);
                 this.uProjection.bufferParameter(buf, WebGame.Camera.projectionMatrixParam);
                 this.uView.bufferParameter(buf, WebGame.Camera.viewMatrixParam);
+                this.uSunDirection.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunColorParam);
+                this.uSunDisc.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDiscParam);
                 buf.depthMask(false);
             };
             Sky.prototype.bufferMaterialProps = function (buf, props) {
@@ -1902,27 +7809,41 @@ var SourceUtils;
                 _this.uAmbient3 = _this.addUniform("uAmbient[3]", WebGame.Uniform3F);
                 _this.uAmbient4 = _this.addUniform("uAmbient[4]", WebGame.Uniform3F);
                 _this.uAmbient5 = _this.addUniform("uAmbient[5]", WebGame.Uniform3F);
+                _this.uHasAmbientCube = _this.addUniform("uHasAmbientCube", WebGame.Uniform1I);
+                _this.uSunDirection = _this.addUniform("uSunDirection", WebGame.Uniform3F);
+                _this.uSunColor = _this.addUniform("uSunColor", WebGame.Uniform3F);
+                _this.uAmbientColor = _this.addUniform("uAmbientColor", WebGame.Uniform3F);
                 _this.uAmbient = [_this.uAmbient0, _this.uAmbient1, _this.uAmbient2, _this.uAmbient3, _this.uAmbient4, _this.uAmbient5];
                 var gl = context;
-                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aTangent;\n                    attribute vec2 aSplineParams;\n\n                    uniform vec3 uAmbient[6];\n\n                    varying vec3 vAmbient;\n\n                    vec3 SampleAmbient(vec3 normal, vec3 axis, int index)\n                    {\n                        return pow(max(0.0, dot(normal, axis)), 2.0) * pow(uAmbient[index], vec3(0.5, 0.5, 0.5));\n                    }\n\n                    void main()\n                    {\n                        vec4 viewPos = " + _this.uView + " * " + _this.uModel + " * vec4(aPosition, 1.0);\n                        vec3 viewTangent = normalize((" + _this.uView + " * " + _this.uModel + " * vec4(aTangent, 0.0)).xyz);\n                        vec3 viewNormalA = normalize(cross(viewPos.xyz, viewTangent));\n                        vec3 viewNormalB = normalize(cross(viewNormalA, viewTangent));\n\n                        vec3 viewUnitX = normalize((" + _this.uView + " * vec4(1.0, 0.0, 0.0, 0.0)).xyz);\n                        vec3 viewUnitY = normalize((" + _this.uView + " * vec4(0.0, 1.0, 0.0, 0.0)).xyz);\n                        vec3 viewUnitZ = normalize((" + _this.uView + " * vec4(0.0, 0.0, 1.0, 0.0)).xyz);\n\n                        vec3 viewNormal = normalize(viewNormalA * (aTextureCoord.x - 0.5)\n                            + viewNormalB * sqrt(1.0 - pow(1.0 - aTextureCoord.x * 2.0, 2.0)) * 0.5);\n\n                        vAmbient = SampleAmbient(viewNormal,  viewUnitX, 0)\n                                 + SampleAmbient(viewNormal, -viewUnitX, 1)\n                                 + SampleAmbient(viewNormal,  viewUnitY, 2)\n                                 + SampleAmbient(viewNormal, -viewUnitY, 3)\n                                 + SampleAmbient(viewNormal,  viewUnitZ, 4)\n                                 + SampleAmbient(viewNormal, -viewUnitZ, 5);\n\n                        viewPos.xyz += viewNormal * aSplineParams.x;\n                        viewPos.xyz += viewUnitZ * aSplineParams.y;\n\n                        gl_Position = " + _this.uProjection + " * viewPos;\n\n                        vTextureCoord = aTextureCoord;\n                        vDepth = -viewPos.z;\n                    }");
+                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aTangent;\n                    attribute vec2 aSplineParams;\n\n                    uniform vec3 uAmbient[6];\n\n                    uniform int " + _this.uHasAmbientCube + ";\n                    uniform vec3 " + _this.uSunDirection + ";\n                    uniform vec3 " + _this.uSunColor + ";\n                    uniform vec3 " + _this.uAmbientColor + ";\n\n                    varying vec3 vAmbient;\n\n                    vec3 SampleAmbient(vec3 normal, vec3 axis, int index)\n                    {\n                        return pow(max(0.0, dot(normal, axis)), 2.0) * pow(uAmbient[index], vec3(0.5, 0.5, 0.5));\n                    }\n\n                    void main()\n                    {\n                        vec4 viewPos = " + _this.uView + " * " + _this.uModel + " * vec4(aPosition, 1.0);\n                        vec3 viewTangent = normalize((" + _this.uView + " * " + _this.uModel + " * vec4(aTangent, 0.0)).xyz);\n                        vec3 viewNormalA = normalize(cross(viewPos.xyz, viewTangent));\n                        vec3 viewNormalB = normalize(cross(viewNormalA, viewTangent));\n\n                        vec3 viewUnitX = normalize((" + _this.uView + " * vec4(1.0, 0.0, 0.0, 0.0)).xyz);\n                        vec3 viewUnitY = normalize((" + _this.uView + " * vec4(0.0, 1.0, 0.0, 0.0)).xyz);\n                        vec3 viewUnitZ = normalize((" + _this.uView + " * vec4(0.0, 0.0, 1.0, 0.0)).xyz);\n\n                        vec3 viewNormal = normalize(viewNormalA * (aTextureCoord.x - 0.5)\n                            + viewNormalB * sqrt(1.0 - pow(1.0 - aTextureCoord.x * 2.0, 2.0)) * 0.5);\n\n                        if (" + _this.uHasAmbientCube + " != 0) {\n                            vAmbient = SampleAmbient(viewNormal,  viewUnitX, 0)\n                                     + SampleAmbient(viewNormal, -viewUnitX, 1)\n                                     + SampleAmbient(viewNormal,  viewUnitY, 2)\n                                     + SampleAmbient(viewNormal, -viewUnitY, 3)\n                                     + SampleAmbient(viewNormal,  viewUnitZ, 4)\n                                     + SampleAmbient(viewNormal, -viewUnitZ, 5);\n                        } else {\n                            vec3 viewSunDir = normalize((" + _this.uView + " * vec4(" + _this.uSunDirection + ", 0.0)).xyz);\n                            vec3 light = " + _this.uAmbientColor + " + " + _this.uSunColor + " * max(0.0, dot(viewNormal, viewSunDir));\n                            vAmbient = pow(light, vec3(0.5, 0.5, 0.5));\n                        }\n\n                        viewPos.xyz += viewNormal * aSplineParams.x;\n                        viewPos.xyz += viewUnitZ * aSplineParams.y;\n\n                        gl_Position = " + _this.uProjection + " * viewPos;\n\n                        vTextureCoord = aTextureCoord;\n                        vDepth = -viewPos.z;\n                    }");
                 _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying vec3 vAmbient;\n\n                    void main()\n                    {\n                        vec4 mainSample = ModelBase_main();\n                        gl_FragColor = vec4(ApplyFog(mainSample.rgb * vAmbient), mainSample.a);\n                    }");
                 _this.addAttribute("aTangent", WebGame.VertexAttribute.normal);
                 _this.addAttribute("aSplineParams", WebGame.VertexAttribute.uv2);
                 _this.compile();
                 return _this;
             }
+            SplineRope.prototype.bufferSetup = function (buf) {
+                _super.prototype.bufferSetup.call(this, buf);
+                this.uSunDirection.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunColorParam);
+                this.uAmbientColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.ambientColorParam);
+            };
             SplineRope.prototype.bufferMaterialProps = function (buf, props) {
                 _super.prototype.bufferMaterialProps.call(this, buf, props);
-                if (props.ambient != null) {
+                var hasAmbientCube = props.ambient != null;
+                if (hasAmbientCube) {
                     var values = props.ambient;
                     var uniforms = this.uAmbient;
                     for (var i = 0; i < 6; ++i) {
                         var value = values[i];
-                        if (value == null)
+                        if (value == null) {
+                            hasAmbientCube = false;
                             continue;
+                        }
                         uniforms[i].bufferValue(buf, value.x, value.y, value.z);
                     }
                 }
+                this.uHasAmbientCube.bufferValue(buf, hasAmbientCube ? 1 : 0);
             };
             return SplineRope;
         }(Shaders.ModelBase));
@@ -1975,13 +7896,23 @@ var SourceUtils;
             __extends(VertexLitGeneric, _super);
             function VertexLitGeneric(context) {
                 var _this = _super.call(this, context, VertexLitGenericMaterial) || this;
+                _this.uSunDirection = _this.addUniform("uSunDirection", WebGame.Uniform3F);
+                _this.uSunColor = _this.addUniform("uSunColor", WebGame.Uniform3F);
+                _this.uAmbientColor = _this.addUniform("uAmbientColor", WebGame.Uniform3F);
                 var gl = context;
-                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aEncodedColors;\n\n                    varying vec3 vVertexLighting;\n                    varying vec3 vAlbedoModulation;\n\n                    void main()\n                    {\n                        vVertexLighting = floor(aEncodedColors) * (2.0 / 255.0);\n                        vAlbedoModulation = fract(aEncodedColors) * (256.0 / 255.0);\n\n                        ModelBase_main();\n                    }");
+                _this.includeShaderSource(gl.VERTEX_SHADER, "\n                    attribute vec3 aNormal;\n                    attribute vec3 aEncodedColors;\n\n                    uniform vec3 " + _this.uSunDirection + ";\n                    uniform vec3 " + _this.uSunColor + ";\n                    uniform vec3 " + _this.uAmbientColor + ";\n\n                    varying vec3 vVertexLighting;\n                    varying vec3 vAlbedoModulation;\n\n                    void main()\n                    {\n                        if (aEncodedColors.x < 0.0) {\n                            // No baked lighting, so fall back to the light_environment\n                            vec3 normal = normalize((" + _this.uModel + " * vec4(aNormal, 0.0)).xyz);\n                            vec3 light = " + _this.uAmbientColor + " + " + _this.uSunColor + " * max(0.0, dot(normal, " + _this.uSunDirection + "));\n                            vVertexLighting = pow(clamp(light, 0.0, 1.0), vec3(1.0 / 2.2)) * 2.0;\n                        } else {\n                            vVertexLighting = floor(aEncodedColors) * (2.0 / 255.0);\n                        }\n\n                        vAlbedoModulation = fract(aEncodedColors) * (256.0 / 255.0);\n\n                        ModelBase_main();\n                    }");
                 _this.includeShaderSource(gl.FRAGMENT_SHADER, "\n                    precision mediump float;\n\n                    varying vec3 vVertexLighting;\n                    varying vec3 vAlbedoModulation;\n\n                    void main()\n                    {\n                        vec4 mainSample = ModelBase_main();\n                        gl_FragColor = vec4(ApplyFog(mainSample.rgb * vVertexLighting * vAlbedoModulation), mainSample.a);\n                    }");
+                _this.addAttribute("aNormal", WebGame.VertexAttribute.normal);
                 _this.addAttribute("aEncodedColors", WebGame.VertexAttribute.rgb);
                 _this.compile();
                 return _this;
             }
+            VertexLitGeneric.prototype.bufferSetup = function (buf) {
+                _super.prototype.bufferSetup.call(this, buf);
+                this.uSunDirection.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.sunColorParam);
+                this.uAmbientColor.bufferParameter(buf, SourceUtils.Entities.LightEnvironment.ambientColorParam);
+            };
             return VertexLitGeneric;
         }(Shaders.ModelBase));
         Shaders.VertexLitGeneric = VertexLitGeneric;
@@ -2176,7 +8107,8 @@ var SourceUtils;
         StudioModel.sampleAmbientCube = function (leaf, pos, normal) {
             var rgb = StudioModel.sampleAmbientCube_temp.set(0, 0, 0);
             var samples = StudioModel.sampleAmbientCube_samples;
-            leaf.getAmbientCube(pos, samples);
+            if (!leaf.getAmbientCube(pos, samples))
+                return -1;
             var sample;
             var mul;
             if (normal.x < 0) {
@@ -2208,7 +8140,8 @@ var SourceUtils;
             var b = SourceUtils.ColorConversion.linearToScreenGamma(rgb.z);
             return r | (g << 8) | (b << 16);
         };
-        StudioModel.prototype.createMeshHandles = function (bodyPartIndex, transform, lighting, albedoModulation) {
+        // If given, min and max are set to the bounds of the transformed meshes
+        StudioModel.prototype.createMeshHandles = function (bodyPartIndex, transform, lighting, albedoModulation, min, max) {
             var _this = this;
             var bodyPart = this.info.bodyParts[bodyPartIndex];
             var handles = [];
@@ -2234,7 +8167,7 @@ var SourceUtils;
                     attribs.push.apply(attribs, srcGroup.attributes);
                     attribs.push(WebGame.VertexAttribute.rgb);
                     var dstGroup = StudioModel.getOrCreateMatGroup(matGroups, attribs);
-                    var newElem = WebGame.MeshManager.copyElement(srcGroup, dstGroup, mesh.element);
+                    var newElem = WebGame.MeshManager.copyElement(SourceUtils.BinaryPage.asMeshData(srcGroup), dstGroup, mesh.element);
                     var posOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.position);
                     var normalOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.normal);
                     var rgbOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.rgb);
@@ -2260,12 +8193,18 @@ var SourceUtils;
                             tempNormal.set(vertData[normalIndex], vertData[normalIndex + 1], vertData[normalIndex + 2], 0);
                             tempNormal.applyMatrix4(transform);
                             var rgb = StudioModel.sampleAmbientCube(leaf, tempPos, tempNormal);
-                            r = rgb & 0xff;
-                            g = (rgb >> 8) & 0xff;
-                            b = (rgb >> 16) & 0xff;
+                            if (rgb === -1) {
+                                r = g = b = -1;
+                            }
+                            else {
+                                r = rgb & 0xff;
+                                g = (rgb >> 8) & 0xff;
+                                b = (rgb >> 16) & 0xff;
+                            }
                         }
                         else {
-                            r = g = b = 0x7f;
+                            // Negative lighting tells the shader to use the light_environment instead
+                            r = g = b = -1;
                         }
                         vertData[rgbIndex] = StudioModel.encode2CompColor(r, albedoR);
                         vertData[rgbIndex + 1] = StudioModel.encode2CompColor(g, albedoG);
@@ -2273,15 +8212,27 @@ var SourceUtils;
                     }
                 }
             }
+            if (min != null)
+                min.set(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+            if (max != null)
+                max.set(Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY);
             for (var _d = 0, matGroups_2 = matGroups; _d < matGroups_2.length; _d++) {
                 var matGroup = matGroups_2[_d];
-                WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.position, function (pos) { return pos.applyMatrix4(transform); }, 1);
+                WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.position, function (pos) {
+                    pos.applyMatrix4(transform);
+                    if (min != null)
+                        min.set(Math.min(min.x, pos.x), Math.min(min.y, pos.y), Math.min(min.z, pos.z));
+                    if (max != null)
+                        max.set(Math.max(max.x, pos.x), Math.max(max.y, pos.y), Math.max(max.z, pos.z));
+                }, 1);
                 WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.normal, function (norm) { return norm.applyMatrix4(transform); }, 0);
                 this.viewer.meshes.addMeshData(matGroup, function (index) { return _this.viewer.mapMaterialLoader.loadMaterial(index); }, handles);
             }
             return handles;
         };
         StudioModel.prototype.loadFromInfo = function (info, page) {
+            if (info == null)
+                return;
             this.info = info;
             this.page = page;
             this.dispatchOnLoadCallbacks();
@@ -2297,6 +8248,9 @@ var SourceUtils;
         function StudioModelPage(page) {
             return _super.call(this, page) || this;
         }
+        StudioModelPage.prototype.getDecoder = function () {
+            return "meshes";
+        };
         StudioModelPage.prototype.getMaterialGroup = function (index) {
             return this.matGroups[index];
         };
@@ -2305,7 +8259,7 @@ var SourceUtils;
             this.matGroups = new Array(page.materials.length);
             for (var i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
                 var matGroup = page.materials[i];
-                this.matGroups[i] = WebGame.MeshManager.decompress(matGroup.meshData);
+                this.matGroups[i] = SourceUtils.BinaryPage.toMeshData(matGroup.meshData);
                 for (var _i = 0, _a = this.matGroups[i].elements; _i < _a.length; _i++) {
                     var element = _a[_i];
                     element.material = matGroup.material;
@@ -2330,14 +8284,22 @@ var SourceUtils;
         StudioModelLoader.prototype.update = function (requestQuota) {
             return _super.prototype.update.call(this, this.viewer.visLoader.getLoadProgress() < 1 ? 0 : requestQuota);
         };
-        StudioModelLoader.prototype.loadModel = function (index) {
+        StudioModelLoader.prototype.loadModel = function (index, priority) {
+            if (priority === void 0) { priority = SourceUtils.ResourcePage.defaultPriority; }
             var model = this.models[index];
-            if (model !== undefined)
+            if (model !== undefined) {
+                if (!model.isLoaded())
+                    this.prioritize(index, priority);
                 return model;
+            }
             this.models[index] = model = new StudioModel(this.viewer);
-            this.load(index, function (info, page) { return model.loadFromInfo(info, page); });
+            this.load(index, function (info, page) { return model.loadFromInfo(info, page); }, priority);
             return model;
         };
+        StudioModelLoader.prototype.clear = function () {
+            _super.prototype.clear.call(this);
+            this.models = {};
+        };
         StudioModelLoader.prototype.onCreatePage = function (page) {
             return new StudioModelPage(page);
         };
@@ -2349,21 +8311,11 @@ var SourceUtils;
         function VertexLightingPage() {
             return _super !== null && _super.apply(this, arguments) || this;
         }
-        VertexLightingPage.prototype.onLoadValues = function (page) {
-            this.props = new Array(page.props.length);
-            for (var i = 0, iEnd = page.props.length; i < iEnd; ++i) {
-                var srcProp = page.props[i];
-                var dstProp = this.props[i] = srcProp == null ? null : new Array(srcProp.length);
-                if (srcProp == null)
-                    continue;
-                for (var j = 0, jEnd = srcProp.length; j < jEnd; ++j) {
-                    dstProp[j] = Facepunch.Utils.decompress(srcProp[j]);
-                }
-            }
-            _super.prototype.onLoadValues.call(this, page);
+        VertexLightingPage.prototype.getDecoder = function () {
+            return "vertexLighting";
         };
         VertexLightingPage.prototype.onGetValue = function (index) {
-            return this.props[index];
+            return this.page.props[index];
         };
         return VertexLightingPage;
     }(SourceUtils.ResourcePage));
@@ -2441,10 +8393,10 @@ var SourceUtils;
         function VisPage() {
             return _super !== null && _super.apply(this, arguments) || this;
         }
+        VisPage.prototype.getDecoder = function () {
+            return "vis";
+        };
         VisPage.prototype.onGetValue = function (index) {
-            if (typeof (this.page.values[index]) === "string") {
-                this.page.values[index] = Facepunch.Utils.decompress(this.page.values[index]);
-            }
             return this.page.values[index];
         };
         return VisPage;
@@ -0,0 +1,229 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export enum PageFormat {
+        Json,
+        Binary
+    }
+
+    export enum BinaryBufferType {
+        Uint8 = 1,
+        Int8 = 2,
+        Uint16 = 3,
+        Int16 = 4,
+        Uint32 = 5,
+        Int32 = 6,
+        Float32 = 7,
+        Float64 = 8
+    }
+
+    export type TypedArray = Uint8Array | Int8Array | Uint16Array | Int16Array
+        | Uint32Array | Int32Array | Float32Array | Float64Array;
+
+    export interface IBinaryMeshData {
+        attributes: (WebGame.VertexAttribute | string)[];
+        elements: WebGame.IMeshElement[];
+        vertices: Float32Array;
+        indices: Uint16Array | Uint32Array;
+    }
+
+    // WebGame.IMeshData with its vertex and index buffers kept as typed arrays
+    export interface ITypedMeshData {
+        attributes: WebGame.VertexAttribute[];
+        elements: WebGame.IMeshElement[];
+        vertices: Float32Array;
+        indices: Uint16Array | Uint32Array;
+    }
+
+    // Layout of a binary page, all little-endian:
+    //
+    //   uint32   magic ("SUPB")
+    //   uint16   version
+    //   uint16   buffer count
+    //   uint32   metadata length in bytes
+    //   buffer descriptors, 12 bytes each:
+    //     uint8      BinaryBufferType
+    //     uint8[3]   padding
+    //     uint32     byte offset from the start of the page
+    //     uint32     element count
+    //   metadata, as UTF-8 JSON
+    //   buffer data
+    //
+    // The metadata has the same shape as the JSON page, except that any
+    // array may be replaced with { "$buffer": index } to use a typed array
+    // view of the matching buffer instead.
+    export class BinaryPage {
+        static readonly magic = 0x42505553;
+        static readonly version = 1;
+
+        private static readonly headerSize = 12;
+        private static readonly descriptorSize = 12;
+
+        private static littleEndian: boolean;
+
+        static getFormat(info: IPageInfo): PageFormat {
+            if (info.format == null) return PageFormat.Json;
+            return typeof info.format === "string" ? PageFormat[info.format as string] : info.format as PageFormat;
+        }
+
+        static decode<TPayload>(data: ArrayBuffer): TPayload {
+            if (BinaryPage.littleEndian === undefined) {
+                BinaryPage.littleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+            }
+
+            if (!BinaryPage.littleEndian) {
+                throw new Error("Binary pages are only supported on little-endian platforms.");
+            }
+
+            if (data.byteLength < BinaryPage.headerSize) {
+                throw new Error("Binary page is too short.");
+            }
+
+            const view = new DataView(data);
+
+            if (view.getUint32(0, true) !== BinaryPage.magic) {
+                throw new Error("Binary page has an invalid header.");
+            }
+
+            const version = view.getUint16(4, true);
+            if (version !== BinaryPage.version) {
+                throw new Error(`Unsupported binary page version ${version}.`);
+            }
+
+            const bufferCount = view.getUint16(6, true);
+            const metadataLength = view.getUint32(8, true);
+            const metadataOffset = BinaryPage.headerSize + bufferCount * BinaryPage.descriptorSize;
+
+            if (metadataOffset + metadataLength > data.byteLength) {
+                throw new Error("Binary page metadata is truncated.");
+            }
+
+            const buffers = new Array<TypedArray>(bufferCount);
+
+            for (let i = 0; i < bufferCount; ++i) {
+                const offset = BinaryPage.headerSize + i * BinaryPage.descriptorSize;
+                buffers[i] = BinaryPage.createView(data,
+                    view.getUint8(offset) as BinaryBufferType,
+                    view.getUint32(offset + 4, true),
+                    view.getUint32(offset + 8, true));
+            }
+
+            const metadata = BinaryPage.decodeUtf8(new Uint8Array(data, metadataOffset, metadataLength));
+
+            return JSON.parse(metadata, (key, value) => {
+                if (value == null || typeof value !== "object") return value;
+
+                const index = value["$buffer"];
+                if (typeof index !== "number") return value;
+
+                if (index < 0 || index >= bufferCount) {
+                    throw new Error(`Binary page references missing buffer ${index}.`);
+                }
+
+                return buffers[index];
+            }) as TPayload;
+        }
+
+        // Attributes arrive as names, since VertexAttribute instances can't be sent from
+        // page decode workers. The vertex and index buffers are passed through as-is.
+        static toMeshData(data: IBinaryMeshData): ITypedMeshData {
+            const attributes: WebGame.VertexAttribute[] = [];
+
+            for (let attrib of data.attributes) {
+                attributes.push(typeof attrib === "string" ? WebGame.VertexAttribute[attrib] : attrib);
+            }
+
+            return {
+                attributes: attributes,
+                elements: data.elements,
+                vertices: data.vertices,
+                indices: data.indices
+            };
+        }
+
+        // MeshManager only reads the length and elements of mesh data buffers, so
+        // typed arrays can stand in for the number arrays IMeshData declares.
+        static asMeshData(data: ITypedMeshData): WebGame.IMeshData {
+            return data as any as WebGame.IMeshData;
+        }
+
+        private static createView(data: ArrayBuffer, type: BinaryBufferType, byteOffset: number, count: number): TypedArray {
+            const elementSize = BinaryPage.getElementSize(type);
+
+            if (byteOffset + count * elementSize > data.byteLength) {
+                throw new Error("Binary page buffer is truncated.");
+            }
+
+            // Typed array views must be aligned to their element size
+            if (byteOffset % elementSize !== 0) {
+                data = data.slice(byteOffset, byteOffset + count * elementSize);
+                byteOffset = 0;
+            }
+
+            switch (type) {
+                case BinaryBufferType.Uint8: return new Uint8Array(data, byteOffset, count);
+                case BinaryBufferType.Int8: return new Int8Array(data, byteOffset, count);
+                case BinaryBufferType.Uint16: return new Uint16Array(data, byteOffset, count);
+                case BinaryBufferType.Int16: return new Int16Array(data, byteOffset, count);
+                case BinaryBufferType.Uint32: return new Uint32Array(data, byteOffset, count);
+                case BinaryBufferType.Int32: return new Int32Array(data, byteOffset, count);
+                case BinaryBufferType.Float32: return new Float32Array(data, byteOffset, count);
+                case BinaryBufferType.Float64: return new Float64Array(data, byteOffset, count);
+            }
+        }
+
+        private static getElementSize(type: BinaryBufferType): number {
+            switch (type) {
+                case BinaryBufferType.Uint8:
+                case BinaryBufferType.Int8:
+                    return 1;
+                case BinaryBufferType.Uint16:
+                case BinaryBufferType.Int16:
+                    return 2;
+                case BinaryBufferType.Uint32:
+                case BinaryBufferType.Int32:
+                case BinaryBufferType.Float32:
+                    return 4;
+                case BinaryBufferType.Float64:
+                    return 8;
+                default:
+                    throw new Error(`Unknown binary page buffer type ${type}.`);
+            }
+        }
+
+        private static decodeUtf8(bytes: Uint8Array): string {
+            const chars: number[] = [];
+            let result = "";
+
+            for (let i = 0, iEnd = bytes.length; i < iEnd;) {
+                const byte = bytes[i++];
+                let code: number;
+
+                if (byte < 0x80) {
+                    code = byte;
+                } else if (byte < 0xe0) {
+                    code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+                } else if (byte < 0xf0) {
+                    code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                } else {
+                    code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12)
+                        | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+                }
+
+                if (code > 0xffff) {
+                    code -= 0x10000;
+                    chars.push(0xd800 | (code >> 10), 0xdc00 | (code & 0x3ff));
+                } else {
+                    chars.push(code);
+                }
+
+                if (chars.length >= 8192) {
+                    result += String.fromCharCode.apply(null, chars);
+                    chars.length = 0;
+                }
+            }
+
+            return result + String.fromCharCode.apply(null, chars);
+        }
+    }
+}
@@ -24,9 +24,44 @@ namespace SourceUtils {
         Sky2D = 4
     }
 
+    export enum BrushContents {
+        Empty = 0,
+        Solid = 0x1,
+        Window = 0x2,
+        Aux = 0x4,
+        Grate = 0x8,
+        Slime = 0x10,
+        Water = 0x20,
+        Mist = 0x40,
+        Opaque = 0x80,
+        TestFogVolume = 0x100,
+        Team1 = 0x800,
+        Team2 = 0x1000,
+        IgnoreNoDrawOpaque = 0x2000,
+        Moveable = 0x4000,
+        AreaPortal = 0x8000,
+        PlayerClip = 0x10000,
+        MonsterClip = 0x20000,
+        Origin = 0x1000000,
+        Monster = 0x2000000,
+        Debris = 0x4000000,
+        Detail = 0x8000000,
+        Translucent = 0x10000000,
+        Ladder = 0x20000000,
+        Hitbox = 0x40000000
+    }
+
+    export enum TraceMask {
+        All = -1,
+        Solid = BrushContents.Solid | BrushContents.Window | BrushContents.Grate | BrushContents.Moveable | BrushContents.Monster,
+        PlayerSolid = Solid | BrushContents.PlayerClip,
+        Water = BrushContents.Water | BrushContents.Slime
+    }
+
     export interface IBspLeaf extends IBspElement {
         index: number;
         flags: LeafFlags;
+        contents?: BrushContents;
         hasFaces: boolean;
         cluster?: number;
     }
@@ -55,6 +90,42 @@ namespace SourceUtils {
         readonly isLeaf: boolean;
     }
 
+    export class TraceResult {
+        hit = false;
+        startSolid = false;
+        fraction = 1;
+
+        readonly position = new Facepunch.Vector3();
+        readonly normal = new Facepunch.Vector3();
+
+        leaf: BspLeaf = null;
+        entity: Entities.Entity = null;
+
+        reset(): this {
+            this.hit = false;
+            this.startSolid = false;
+            this.fraction = 1;
+            this.position.set(0, 0, 0);
+            this.normal.set(0, 0, 0);
+            this.leaf = null;
+            this.entity = null;
+
+            return this;
+        }
+
+        copy(other: TraceResult): this {
+            this.hit = other.hit;
+            this.startSolid = other.startSolid;
+            this.fraction = other.fraction;
+            this.position.copy(other.position);
+            this.normal.copy(other.normal);
+            this.leaf = other.leaf;
+            this.entity = other.entity;
+
+            return this;
+        }
+    }
+
     export class BspNode implements INodeOrLeaf {
         private readonly viewer: MapViewer;
 
@@ -92,12 +163,20 @@ namespace SourceUtils {
 
         readonly index: number;
         readonly flags: LeafFlags;
+        readonly contents: BrushContents;
         readonly cluster: number;
         readonly hasFaces: boolean;
 
+        readonly min = new Facepunch.Vector3();
+        readonly max = new Facepunch.Vector3();
+
+        private readonly center = new Facepunch.Vector3();
+        private readonly clusters: number[];
+
         private hasLoaded: boolean;
         private ambientSamples: IAmbientSample[];
-        private hasLoadedAmbient: boolean;
+        private ambientCubes: Facepunch.Vector3[][];
+        private ambientLoadCallbacks: ((samples: IAmbientSample[]) => void)[];
 
         constructor(viewer: MapViewer, info: IBspLeaf) {
             super();
@@ -106,29 +185,126 @@ namespace SourceUtils {
             this.index = info.index;
             this.flags = info.flags;
             this.cluster = info.cluster;
+
+            // Older exports don't include contents, but solid leaves never have a cluster
+            this.contents = info.contents !== undefined ? info.contents
+                : info.cluster === undefined ? BrushContents.Solid : BrushContents.Empty;
             this.hasFaces = info.hasFaces;
+
+            this.min.copy(info.min);
+            this.max.copy(info.max);
+
+            this.center.copy(this.min).add(this.max).multiplyScalar(0.5);
+            this.clusters = this.cluster === undefined ? null : [this.cluster];
         }
 
-        private static readonly getAmbientCube_temp = new Facepunch.Vector3();
-        getAmbientCube(pos: Facepunch.IVector3, outSamples: Facepunch.IVector3[], callback?: (success: boolean) => void): boolean {
-            if (!this.hasLoadedAmbient) {
-                this.hasLoadedAmbient = true;
-                this.viewer.ambientLoader.load(this.index, value => this.ambientSamples = value);
+        getLoadPriority(): number {
+            return this.viewer.getLoadPriority(this.center, this.clusters);
+        }
+
+        private loadAmbientSamples(callback: (samples: IAmbientSample[]) => void): void {
+            if (this.ambientSamples !== undefined) {
+                callback(this.ambientSamples);
+                return;
             }
 
-            const samples = this.ambientSamples;
-            if (samples == null) {
-                if (callback != null) {
-                    const leafCopy = this;
-                    this.viewer.ambientLoader.load(this.index, value => {
-                        if (value.length > 0) {
-                            if (pos != null) leafCopy.getAmbientCube(pos, outSamples);
-                            callback(true);
-                        } else {
-                            callback(false);
-                        }
-                    });
+            if (this.ambientLoadCallbacks != null) {
+                this.ambientLoadCallbacks.push(callback);
+                return;
+            }
+
+            this.ambientLoadCallbacks = [callback];
+            this.viewer.ambientLoader.load(this.index, value => {
+                if (value != null && value.length > 0) this.onAmbientSamplesLoaded(value);
+                else this.loadNeighbourAmbientSamples();
+            }, () => this.getLoadPriority());
+        }
+
+        private onAmbientSamplesLoaded(samples: IAmbientSample[]): void {
+            this.ambientSamples = samples;
+            this.ambientCubes = samples.map(sample => {
+                const cube = new Array<Facepunch.Vector3>(6);
+                for (let i = 0; i < 6; ++i) {
+                    ColorConversion.rgbExp32ToVector3(sample.samples[i], cube[i] = new Facepunch.Vector3());
+                }
+                return cube;
+            });
+
+            const callbacks = this.ambientLoadCallbacks;
+            this.ambientLoadCallbacks = null;
+
+            for (let callback of callbacks) {
+                callback(samples);
+            }
+        }
+
+        private static readonly findNeighbours_temp = new Facepunch.Vector3();
+
+        // Finds leaves on the other side of each face of this leaf's bounding box
+        private findNeighbours(): BspLeaf[] {
+            const neighbours: BspLeaf[] = [];
+            const brush = this.entity as Entities.BrushEntity;
+            if (brush == null || brush.model == null) return neighbours;
+
+            const probe = BspLeaf.findNeighbours_temp;
+            const min = this.min;
+            const max = this.max;
+            const offset = 2;
+
+            for (let axis = 0; axis < 3; ++axis) {
+                for (let side = 0; side < 2; ++side) {
+                    probe.set((min.x + max.x) * 0.5, (min.y + max.y) * 0.5, (min.z + max.z) * 0.5);
+
+                    switch (axis) {
+                        case 0: probe.x = side === 0 ? min.x - offset : max.x + offset; break;
+                        case 1: probe.y = side === 0 ? min.y - offset : max.y + offset; break;
+                        case 2: probe.z = side === 0 ? min.z - offset : max.z + offset; break;
+                    }
+
+                    const leaf = brush.model.getLeafAt(probe);
+                    if (leaf == null || leaf === this || (leaf.contents & BrushContents.Solid) !== 0) continue;
+                    if (neighbours.indexOf(leaf) === -1) neighbours.push(leaf);
                 }
+            }
+
+            return neighbours;
+        }
+
+        private loadNeighbourAmbientSamples(): void {
+            const neighbours = this.findNeighbours();
+            const samples: IAmbientSample[] = [];
+
+            if (neighbours.length === 0) {
+                this.onAmbientSamplesLoaded(samples);
+                return;
+            }
+
+            let remaining = neighbours.length;
+
+            // Only use each neighbour's own samples, rather than chaining through other empty leaves
+            for (let neighbour of neighbours) {
+                this.viewer.ambientLoader.load(neighbour.index, value => {
+                    if (value != null) {
+                        for (let sample of value) samples.push(sample);
+                    }
+                    if (--remaining === 0) this.onAmbientSamplesLoaded(samples);
+                }, () => this.getLoadPriority());
+            }
+        }
+
+        private static readonly getAmbientCube_temp = new Facepunch.Vector3();
+        getAmbientCube(pos: Facepunch.IVector3, outSamples: Facepunch.IVector3[], callback?: (success: boolean) => void): boolean {
+            const samples = this.ambientSamples;
+            if (samples === undefined) {
+                this.loadAmbientSamples(loaded => {
+                    if (callback == null) return;
+                    if (loaded.length > 0) {
+                        if (pos != null) this.getAmbientCube(pos, outSamples);
+                        callback(true);
+                    } else {
+                        callback(false);
+                    }
+                });
                 return false;
             }
 
@@ -138,44 +314,92 @@ namespace SourceUtils {
             }
 
             if (pos != null) {
-                let closestIndex: number = undefined;
-                let closestDistSq = Number.MAX_VALUE;
+                for (let i = 0; i < 6; ++i) {
+                    const outVec = outSamples[i] || (outSamples[i] = new Facepunch.Vector3());
+                    outVec.x = outVec.y = outVec.z = 0;
+                }
 
-                const temp = BspLeaf.getAmbientCube_temp;
+                if (this.viewer.interpolateAmbientCubes && samples.length > 1) {
+                    this.sampleInverseDistance(pos, outSamples);
+                } else {
+                    this.sampleNearest(pos, outSamples);
+                }
+            }
 
-                // TODO: interpolation
+            if (callback != null) callback(true);
 
-                for (let i = 0; i < samples.length; ++i) {
-                    const sample = samples[i];
-                    temp.copy(sample.position);
-                    temp.sub(pos);
-                    const distSq = temp.lengthSq();
+            return true;
+        }
 
-                    if (distSq < closestDistSq) {
-                        closestDistSq = distSq;
-                        closestIndex = i;
-                    }
+        private sampleNearest(pos: Facepunch.IVector3, outSamples: Facepunch.IVector3[]): void {
+            const samples = this.ambientSamples;
+            const temp = BspLeaf.getAmbientCube_temp;
+
+            let closestIndex: number = undefined;
+            let closestDistSq = Number.MAX_VALUE;
+
+            for (let i = 0; i < samples.length; ++i) {
+                temp.copy(samples[i].position);
+                temp.sub(pos);
+                const distSq = temp.lengthSq();
+
+                if (distSq < closestDistSq) {
+                    closestDistSq = distSq;
+                    closestIndex = i;
                 }
+            }
 
-                const closestSamples = samples[closestIndex].samples;
+            const cube = this.ambientCubes[closestIndex];
 
-                for (let i = 0; i < 6; ++i) {
-                    const rgbExp = closestSamples[i];
-                    const outVec = outSamples[i] || (outSamples[i] = new Facepunch.Vector3());
-                    ColorConversion.rgbExp32ToVector3(rgbExp, outVec);
+            for (let i = 0; i < 6; ++i) {
+                const outVec = outSamples[i];
+                outVec.x = cube[i].x;
+                outVec.y = cube[i].y;
+                outVec.z = cube[i].z;
+            }
+        }
+
+        private sampleInverseDistance(pos: Facepunch.IVector3, outSamples: Facepunch.IVector3[]): void {
+            const samples = this.ambientSamples;
+            const temp = BspLeaf.getAmbientCube_temp;
+
+            let totalWeight = 0;
+
+            for (let i = 0; i < samples.length; ++i) {
+                temp.copy(samples[i].position);
+                temp.sub(pos);
+
+                // Offset stops a sample right on top of pos from swamping everything else
+                const weight = 1 / (temp.lengthSq() + 1);
+                const cube = this.ambientCubes[i];
+
+                totalWeight += weight;
+
+                for (let j = 0; j < 6; ++j) {
+                    const outVec = outSamples[j];
+                    outVec.x += cube[j].x * weight;
+                    outVec.y += cube[j].y * weight;
+                    outVec.z += cube[j].z * weight;
                 }
             }
 
-            if (callback != null) callback(true);
+            const scale = 1 / totalWeight;
 
-            return true;
+            for (let i = 0; i < 6; ++i) {
+                const outVec = outSamples[i];
+                outVec.x *= scale;
+                outVec.y *= scale;
+                outVec.z *= scale;
+            }
         }
 
         getMeshHandles(): Facepunch.WebGame.MeshHandle[] {
             if (!this.hasFaces) return null;
             if (!this.hasLoaded) {
                 this.hasLoaded = true;
-                this.viewer.leafGeometryLoader.load(this.index, handles => this.addMeshHandles(handles));
+                this.viewer.leafGeometryLoader.load(this.index, handles => {
+                    if (handles != null) this.addMeshHandles(handles);
+                }, () => this.getLoadPriority());
             }
 
             return super.getMeshHandles();
@@ -201,6 +425,8 @@ namespace SourceUtils {
         }
 
         loadFromInfo(info: IBspModel): void {
+            if (info == null) return;
+
             this.info = info;
             this.headNode = new BspNode(this.viewer, info.headNode);
             this.leaves = [];
@@ -209,6 +435,33 @@ namespace SourceUtils {
             this.dispatchOnLoadCallbacks();
         }
 
+        // Centre of the model's bounds in model space, or null before it has loaded
+        getCenter(target: Facepunch.IVector3): Facepunch.IVector3 {
+            const info = this.info;
+            if (info == null) return null;
+
+            target.x = (info.min.x + info.max.x) * 0.5;
+            target.y = (info.min.y + info.max.y) * 0.5;
+            target.z = (info.min.z + info.max.z) * 0.5;
+
+            return target;
+        }
+
+        getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+            const info = this.info;
+            if (info == null) return false;
+
+            min.x = info.min.x;
+            min.y = info.min.y;
+            min.z = info.min.z;
+
+            max.x = info.max.x;
+            max.y = info.max.y;
+            max.z = info.max.z;
+
+            return true;
+        }
+
         getLeafAt(pos: Facepunch.IVector3): BspLeaf {
             if (this.headNode == null) return null;
 
@@ -222,6 +475,105 @@ namespace SourceUtils {
             return elem.isLeaf ? elem as BspLeaf : null;
         }
 
+        private static readonly trace_delta = new Facepunch.Vector3();
+
+        // Start and end are in model space
+        trace(start: Facepunch.IVector3, end: Facepunch.IVector3, mask: number = TraceMask.All, result?: TraceResult): TraceResult {
+            return this.traceBox(start, end, null, mask, result);
+        }
+
+        // Sweeps a box with the given half-size along a segment. Leaf planes are
+        // pushed out by the box's extents, so outside corners are only approximate
+        traceBox(start: Facepunch.IVector3, end: Facepunch.IVector3, extents: Facepunch.IVector3, mask: number = TraceMask.All, result?: TraceResult): TraceResult {
+            if (result == null) result = new TraceResult();
+            else result.reset();
+
+            const delta = BspModel.trace_delta.set(end.x - start.x, end.y - start.y, end.z - start.z);
+
+            if (this.headNode != null) {
+                this.traceElement(this.headNode, start, delta, extents, 0, 1, mask, null, 1, result);
+            }
+
+            result.position.copy(delta).multiplyScalar(result.fraction).add(start);
+
+            return result;
+        }
+
+        private static readonly traceBoxEpsilon = 1 / 32;
+
+        private traceElement(elem: BspNode | BspLeaf, start: Facepunch.IVector3, delta: Facepunch.Vector3,
+            extents: Facepunch.IVector3, startFrac: number, endFrac: number, mask: number,
+            enterPlane: Plane, enterSign: number, result: TraceResult): void {
+            if (startFrac >= result.fraction) return;
+
+            if (elem.isLeaf) {
+                const leaf = elem as BspLeaf;
+                if ((leaf.contents & mask) === 0) return;
+
+                result.hit = true;
+                result.fraction = startFrac;
+                result.leaf = leaf;
+                result.entity = leaf.entity as Entities.Entity;
+
+                if (enterPlane == null) {
+                    result.startSolid = true;
+                    result.normal.set(0, 0, 0);
+                } else {
+                    result.startSolid = false;
+                    result.normal.copy(enterPlane.norm).multiplyScalar(enterSign);
+                }
+
+                return;
+            }
+
+            const node = elem as BspNode;
+            const plane = node.plane;
+            const norm = plane.norm;
+
+            const offset = extents == null ? 0
+                : Math.abs(norm.x * extents.x) + Math.abs(norm.y * extents.y) + Math.abs(norm.z * extents.z);
+
+            const startDist = norm.dot(start) - plane.dist;
+            const deltaDist = norm.dot(delta);
+
+            const startSide = startDist + deltaDist * startFrac;
+            const endSide = startDist + deltaDist * endFrac;
+
+            if (startSide >= offset && endSide >= offset) {
+                this.traceElement(node.children[0], start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result);
+                return;
+            }
+
+            if (startSide < -offset && endSide < -offset) {
+                this.traceElement(node.children[1], start, delta, extents, startFrac, endFrac, mask, enterPlane, enterSign, result);
+                return;
+            }
+
+            const near = startSide >= endSide ? 0 : 1;
+            const far = 1 - near;
+
+            let nearEndFrac = endFrac;
+            let farStartFrac = startFrac;
+
+            if (deltaDist !== 0) {
+                // Boxes stop a little short of the plane so they don't start the next move touching it
+                const sign = near === 0 ? 1 : -1;
+                const dist = extents == null ? 0 : offset + BspModel.traceBoxEpsilon;
+
+                nearEndFrac = (-sign * dist - startDist) / deltaDist;
+                farStartFrac = (sign * dist - startDist) / deltaDist;
+
+                if (nearEndFrac < startFrac) nearEndFrac = startFrac;
+                else if (nearEndFrac > endFrac) nearEndFrac = endFrac;
+
+                if (farStartFrac < startFrac) farStartFrac = startFrac;
+                else if (farStartFrac > endFrac) farStartFrac = endFrac;
+            }
+
+            this.traceElement(node.children[near], start, delta, extents, startFrac, nearEndFrac, mask, enterPlane, enterSign, result);
+            this.traceElement(node.children[far], start, delta, extents, farStartFrac, endFrac, mask, plane, near === 0 ? 1 : -1, result);
+        }
+
         getLeaves(): BspLeaf[] {
             return this.leaves;
         }
@@ -260,21 +612,29 @@ namespace SourceUtils {
     export class BspModelLoader extends PagedLoader<IBspModelPage, IBspModel, BspModelPage> {
         readonly viewer: MapViewer;
 
-        private readonly models: { [index: number]: BspModel } = {};
+        private models: { [index: number]: BspModel } = {};
 
         constructor(viewer: MapViewer) {
             super();
             this.viewer = viewer;
         }
 
-        loadModel(index: number): BspModel {
+        loadModel(index: number, priority: LoadPriority = ResourcePage.defaultPriority): BspModel {
             let model = this.models[index];
-            if (model !== undefined) return model;
+            if (model !== undefined) {
+                if (!model.isLoaded()) this.prioritize(index, priority);
+                return model;
+            }
             this.models[index] = model = new BspModel(this.viewer);
-            this.load(index, info => model.loadFromInfo(info));
+            this.load(index, info => model.loadFromInfo(info), priority);
             return model;
         }
 
+        clear(): void {
+            super.clear();
+            this.models = {};
+        }
+
         onCreatePage(page: IPageInfo): BspModelPage {
             return new BspModelPage(this.viewer, page);
         }
@@ -0,0 +1,292 @@
+﻿namespace SourceUtils {
+    export enum CameraPathEase {
+        Linear = 0,
+        EaseIn = 1,
+        EaseOut = 2,
+        EaseInOut = 3
+    }
+
+    // Angles and field of view are in degrees, time in seconds from the start of the path
+    export interface ICameraKeyframe {
+        time: number;
+        position: Facepunch.IVector3;
+        yaw: number;
+        pitch: number;
+        fov: number;
+
+        // Easing of the segment from this keyframe to the next
+        ease?: CameraPathEase;
+    }
+
+    export interface ICameraPath {
+        name?: string;
+        keyframes: ICameraKeyframe[];
+    }
+
+    export class CameraPath {
+        // Gap between recorded keyframes when no time is given
+        static defaultKeyframeSpacing = 2;
+
+        name: string;
+
+        private readonly keyframes: ICameraKeyframe[] = [];
+
+        static fromJson(json: ICameraPath | string): CameraPath {
+            const info = (typeof json === "string" ? JSON.parse(json) : json) as ICameraPath;
+            const path = new CameraPath();
+
+            path.name = info.name;
+
+            for (let keyframe of info.keyframes) {
+                path.addKeyframe(keyframe);
+            }
+
+            return path;
+        }
+
+        toJson(): ICameraPath {
+            return {
+                name: this.name,
+                keyframes: this.keyframes.map(x => ({
+                    time: x.time,
+                    position: { x: x.position.x, y: x.position.y, z: x.position.z },
+                    yaw: x.yaw,
+                    pitch: x.pitch,
+                    fov: x.fov,
+                    ease: x.ease
+                }))
+            };
+        }
+
+        getKeyframes(): ICameraKeyframe[] {
+            return this.keyframes;
+        }
+
+        getDuration(): number {
+            return this.keyframes.length === 0 ? 0 : this.keyframes[this.keyframes.length - 1].time;
+        }
+
+        // Keeps keyframes sorted by time, replacing any existing keyframe at the same time
+        addKeyframe(keyframe: ICameraKeyframe): void {
+            let index = 0;
+            while (index < this.keyframes.length && this.keyframes[index].time < keyframe.time) ++index;
+
+            if (index < this.keyframes.length && this.keyframes[index].time === keyframe.time) {
+                this.keyframes[index] = keyframe;
+            } else {
+                this.keyframes.splice(index, 0, keyframe);
+            }
+        }
+
+        removeKeyframe(index: number): void {
+            this.keyframes.splice(index, 1);
+        }
+
+        clear(): void {
+            this.keyframes.splice(0, this.keyframes.length);
+        }
+
+        // Adds a keyframe from where the viewer's camera currently is
+        recordKeyframe(viewer: MapViewer, time?: number, ease: CameraPathEase = CameraPathEase.Linear): ICameraKeyframe {
+            const camera = viewer.getCameraState();
+
+            if (time === undefined) {
+                time = this.keyframes.length === 0 ? 0 : this.getDuration() + CameraPath.defaultKeyframeSpacing;
+            }
+
+            const keyframe: ICameraKeyframe = {
+                time: time,
+                position: camera.position,
+                yaw: camera.yaw,
+                pitch: camera.pitch,
+                fov: viewer.mainCamera.getFov(),
+                ease: ease
+            };
+
+            this.addKeyframe(keyframe);
+            return keyframe;
+        }
+
+        private static ease(t: number, ease: CameraPathEase): number {
+            switch (ease) {
+                case CameraPathEase.EaseIn: return t * t;
+                case CameraPathEase.EaseOut: return t * (2 - t);
+                case CameraPathEase.EaseInOut: return t * t * (3 - 2 * t);
+                default: return t;
+            }
+        }
+
+        private static catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+            const t2 = t * t;
+            const t3 = t2 * t;
+
+            return 0.5 * (2 * p1 + (p2 - p0) * t
+                + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2
+                + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+        }
+
+        // Gives the angle equivalent to b that is nearest to a
+        private static unwrapAngle(a: number, b: number): number {
+            return a + ((((b - a) % 360) + 540) % 360 - 180);
+        }
+
+        // Writes the camera state at the given time into out, clamping to the ends of the path
+        sample(time: number, out: ICameraKeyframe): ICameraKeyframe {
+            const keyframes = this.keyframes;
+            if (keyframes.length === 0) return null;
+
+            let next = 0;
+            while (next < keyframes.length && keyframes[next].time <= time) ++next;
+
+            const k1 = keyframes[Math.max(next - 1, 0)];
+            const k2 = keyframes[Math.min(next, keyframes.length - 1)];
+            const k0 = keyframes[Math.max(next - 2, 0)];
+            const k3 = keyframes[Math.min(next + 1, keyframes.length - 1)];
+
+            const span = k2.time - k1.time;
+            const t = span <= 0 ? 0 : CameraPath.ease((time - k1.time) / span, k1.ease);
+
+            const cr = CameraPath.catmullRom;
+
+            if (out.position == null) out.position = { x: 0, y: 0, z: 0 };
+
+            out.time = time;
+            out.position.x = cr(k0.position.x, k1.position.x, k2.position.x, k3.position.x, t);
+            out.position.y = cr(k0.position.y, k1.position.y, k2.position.y, k3.position.y, t);
+            out.position.z = cr(k0.position.z, k1.position.z, k2.position.z, k3.position.z, t);
+
+            const yaw1 = k1.yaw;
+            const yaw0 = CameraPath.unwrapAngle(yaw1, k0.yaw);
+            const yaw2 = CameraPath.unwrapAngle(yaw1, k2.yaw);
+            const yaw3 = CameraPath.unwrapAngle(yaw2, k3.yaw);
+
+            out.yaw = cr(yaw0, yaw1, yaw2, yaw3, t);
+            out.pitch = cr(k0.pitch, k1.pitch, k2.pitch, k3.pitch, t);
+            out.fov = cr(k0.fov, k1.fov, k2.fov, k3.fov, t);
+            out.ease = k1.ease;
+
+            return out;
+        }
+    }
+
+    export class CameraPathPlayer {
+        readonly viewer: MapViewer;
+
+        path: CameraPath;
+        loop = false;
+        speed = 1;
+
+        // Seconds of path time per frame for deterministic capture, or 0 to follow real time
+        fixedTimestep = 0;
+
+        // With a fixed timestep, hold on the first frame until the map has finished loading
+        waitForLoad = true;
+
+        // Called after each frame is rendered during playback, for capturing
+        frameRendered: (frame: number, time: number) => void;
+
+        private playing = false;
+        private time = 0;
+        private frame = 0;
+        private complete: () => void;
+
+        // Set when update moves the camera, so the frame drawn next gets reported
+        private frameUpdated = false;
+
+        private readonly sample: ICameraKeyframe = { time: 0, position: { x: 0, y: 0, z: 0 }, yaw: 0, pitch: 0, fov: 0 };
+        private readonly temp = new Facepunch.Vector3();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        play(path: CameraPath, complete?: () => void): void {
+            this.viewer.stopCameraAnimation();
+
+            this.path = path;
+            this.complete = complete;
+            this.time = 0;
+            this.frame = 0;
+            this.playing = path != null && path.getKeyframes().length > 0;
+
+            if (this.playing) this.apply();
+        }
+
+        stop(): void {
+            this.playing = false;
+            this.frame = 0;
+            this.frameUpdated = false;
+        }
+
+        isPlaying(): boolean {
+            return this.playing;
+        }
+
+        getTime(): number {
+            return this.time;
+        }
+
+        seek(time: number): void {
+            if (this.path == null) return;
+
+            this.time = Math.max(0, Math.min(time, this.path.getDuration()));
+            if (this.playing) this.apply();
+        }
+
+        private isWaiting(): boolean {
+            return this.fixedTimestep > 0 && this.waitForLoad && !this.viewer.isAllLoaded();
+        }
+
+        // Seconds the rest of the world should advance by this frame, so ropes and anything
+        // else animated stay in step with the path when capturing with a fixed timestep
+        getWorldTimestep(dt: number): number {
+            return this.playing && this.fixedTimestep > 0 && !this.isWaiting() ? this.fixedTimestep : dt;
+        }
+
+        private apply(): void {
+            const sample = this.path.sample(this.time, this.sample);
+            const toRadians = Math.PI / 180;
+            const camera = this.viewer.mainCamera;
+
+            camera.setPosition(this.temp.copy(sample.position));
+            camera.setFov(sample.fov);
+            this.viewer.setCameraAngles(sample.yaw * toRadians, sample.pitch * toRadians);
+        }
+
+        update(dt: number): void {
+            if (!this.playing || this.isWaiting()) return;
+
+            if (this.frame > 0) {
+                this.time += (this.fixedTimestep > 0 ? this.fixedTimestep : dt) * this.speed;
+            }
+
+            const duration = this.path.getDuration();
+
+            if (this.time >= duration) {
+                if (this.loop && duration > 0) {
+                    this.time %= duration;
+                } else {
+                    this.time = duration;
+                    this.playing = false;
+                }
+            }
+
+            this.apply();
+            this.frameUpdated = true;
+        }
+
+        onFrameRendered(): void {
+            if (!this.frameUpdated) return;
+            this.frameUpdated = false;
+
+            if (this.frameRendered != null) this.frameRendered(this.frame, this.time);
+            ++this.frame;
+
+            if (!this.playing) {
+                // Finished, so don't report this path's frames again
+                this.frame = 0;
+                if (this.complete != null) this.complete();
+            }
+        }
+    }
+}
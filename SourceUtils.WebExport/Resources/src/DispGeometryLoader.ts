@@ -20,6 +20,10 @@ namespace SourceUtils {
             this.viewer = viewer;
         }
 
+        getDecoder(): string {
+            return "meshes";
+        }
+
         onLoadValues(page: IDispGeometryPage): void {
             this.matGroups = new Array<WebGame.MeshHandle[]>(page.materials.length);
             this.dispFaces = page.displacements;
@@ -27,8 +31,8 @@ namespace SourceUtils {
             for (let i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
                 const matGroup = page.materials[i];
                 const mat = this.viewer.mapMaterialLoader.loadMaterial(matGroup.material);
-                const data = WebGame.MeshManager.decompress(matGroup.meshData);
-                this.matGroups[i] = this.viewer.meshes.addMeshData(data, index => mat);
+                const data = BinaryPage.toMeshData(matGroup.meshData);
+                this.matGroups[i] = this.viewer.meshes.addMeshData(BinaryPage.asMeshData(data), index => mat);
             }
 
             super.onLoadValues(page);
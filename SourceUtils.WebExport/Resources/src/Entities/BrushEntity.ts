@@ -10,14 +10,16 @@ namespace SourceUtils {
 
         export class BrushEntity extends PvsEntity {
             readonly model: BspModel;
+            readonly modelIndex: number;
             readonly isWorldSpawn: boolean;
 
             constructor(map: Map, info: IBrushEntity) {
                 super(map, info);
 
+                this.modelIndex = info.model;
                 this.isWorldSpawn = info.model === 0;
 
-                this.model = map.viewer.bspModelLoader.loadModel(info.model);
+                this.model = map.viewer.bspModelLoader.loadModel(info.model, () => this.getLoadPriority());
                 this.model.addUsage(this);
                 this.model.addOnLoadCallback(model => {
                     const leaves = model.getLeaves();
@@ -27,6 +29,24 @@ namespace SourceUtils {
                 });
             }
 
+            private static readonly getBounds_origin = new Facepunch.Vector3();
+
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+                if (!this.model.getBounds(min, max)) return false;
+
+                const origin = this.getPosition(BrushEntity.getBounds_origin);
+
+                min.x += origin.x;
+                min.y += origin.y;
+                min.z += origin.z;
+
+                max.x += origin.x;
+                max.y += origin.y;
+                max.z += origin.z;
+
+                return true;
+            }
+
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void {
                 super.onAddToDrawList(list);
 
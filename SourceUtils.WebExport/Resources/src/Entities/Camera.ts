@@ -13,6 +13,9 @@
             private leafInvalid = true;
 
             render3DSky = true;
+            renderShadows = true;
+
+            private sunShadowCamera: ShadowCamera;
 
             constructor(viewer: MapViewer, fov: number) {
                 super(viewer, fov, viewer.getWidth() / viewer.getHeight(), 1, 8192);
@@ -50,7 +53,25 @@
                 this.viewer.map.populateDrawList(drawList, this.getLeaf());
             }
 
+            private updateShadows(): void {
+                const viewer = this.viewer;
+                const lightEnv = viewer.map.lightEnvironment;
+
+                if (!this.renderShadows || viewer.shadowCascadeCount <= 0 || lightEnv == null || lightEnv.sunColor.lengthSq() === 0) {
+                    if (this.sunShadowCamera != null) this.sunShadowCamera.dispose();
+                    return;
+                }
+
+                if (this.sunShadowCamera == null) {
+                    this.sunShadowCamera = new ShadowCamera(viewer, this);
+                }
+
+                this.sunShadowCamera.renderShadows(lightEnv.sunDirection);
+            }
+
             render(): void {
+                this.updateShadows();
+
                 const leaf = this.getLeaf();
 
                 if (this.render3DSky && leaf != null && (leaf.flags & LeafFlags.Sky) !== 0) {
@@ -62,6 +83,24 @@
 
                 super.render();
             }
+
+            populateCommandBufferParameters(buf: WebGame.CommandBuffer): void {
+                super.populateCommandBufferParameters(buf);
+
+                if (this.sunShadowCamera != null) {
+                    this.sunShadowCamera.populateShadowParameters(buf);
+                } else {
+                    ShadowCamera.populateDisabledShadowParameters(buf, this.viewer.context);
+                }
+            }
+
+            dispose(): void {
+                super.dispose();
+
+                if (this.sunShadowCamera != null) {
+                    this.sunShadowCamera.dispose();
+                }
+            }
         }
 
         export class SkyCamera extends Camera {
@@ -72,6 +111,7 @@
                 super(viewer, 60);
 
                 this.render3DSky = false;
+                this.renderShadows = false;
 
                 this.origin = new Facepunch.Vector3().copy(info.origin);
                 this.skyScale = 1 / info.scale;
@@ -118,63 +158,404 @@
             }
         }
 
+        // Collects everything the target camera can see, then stands in for all of it
+        // in the shadow camera's own draw list with each handle using a shadow material
+        class ShadowCasterList extends WebGame.DrawList implements WebGame.IDrawListItem {
+            private readonly viewer: MapViewer;
+            private sources: WebGame.IDrawListItem[] = [];
+            private handles: WebGame.MeshHandle[] = null;
+            private materials: { [id: number]: WebGame.Material } = {};
+            private readonly drawLists: WebGame.DrawList[] = [];
+
+            constructor(viewer: MapViewer) {
+                super();
+
+                this.viewer = viewer;
+            }
+
+            addItem(item: WebGame.IDrawListItem): void {
+                this.sources.push(item);
+                super.addItem(item);
+            }
+
+            addItems<TItem extends WebGame.IDrawListItem>(items: TItem[]): void {
+                for (let i = 0, iEnd = items.length; i < iEnd; ++i) {
+                    this.sources.push(items[i]);
+                }
+
+                super.addItems(items);
+            }
+
+            clear(): void {
+                super.clear();
+
+                this.sources = [];
+                this.materials = {};
+                this.invalidate();
+            }
+
+            invalidate(): void {
+                super.invalidate();
+
+                this.handles = null;
+                this.invalidateDrawLists();
+            }
+
+            private getShadowMaterial(material: WebGame.Material): WebGame.Material {
+                let shadowMaterial = this.materials[material.id];
+                if (shadowMaterial !== undefined) return shadowMaterial;
+
+                const program = material.program;
+                const props = material.properties as Shaders.ModelBaseMaterial;
+
+                if (!(program instanceof Shaders.ModelBase) || props.translucent) {
+                    shadowMaterial = null;
+                } else {
+                    shadowMaterial = new WebGame.Material(this.viewer.shaders.get(Shaders.ShadowCaster), false);
+
+                    const shadowProps = shadowMaterial.properties as Shaders.ShadowCasterMaterial;
+                    shadowProps.basetexture = props.basetexture;
+                    shadowProps.alphaTest = props.alphaTest;
+                    shadowProps.caster = !(program instanceof Shaders.LightmappedBase);
+                    shadowProps.spline = program instanceof Shaders.SplineRope;
+                }
+
+                return this.materials[material.id] = shadowMaterial;
+            }
+
+            invalidateDrawLists(): void {
+                for (let i = 0, iEnd = this.drawLists.length; i < iEnd; ++i) {
+                    this.drawLists[i].invalidate();
+                }
+            }
+
+            getIsVisible(): boolean {
+                return true;
+            }
+
+            getIsInDrawList(drawList: WebGame.DrawList): boolean {
+                return this.drawLists.indexOf(drawList) !== -1;
+            }
+
+            onAddToDrawList(list: WebGame.DrawList): void {
+                if (this.drawLists.indexOf(list) === -1) this.drawLists.push(list);
+            }
+
+            onRemoveFromDrawList(list: WebGame.DrawList): void {
+                const index = this.drawLists.indexOf(list);
+                if (index !== -1) this.drawLists.splice(index, 1);
+            }
+
+            getMeshHandles(): WebGame.MeshHandle[] {
+                if (this.handles != null) return this.handles;
+
+                const handles = this.handles = [];
+
+                for (let i = 0, iEnd = this.sources.length; i < iEnd; ++i) {
+                    const sourceHandles = this.sources[i].getMeshHandles();
+                    if (sourceHandles == null) continue;
+
+                    for (let j = 0, jEnd = sourceHandles.length; j < jEnd; ++j) {
+                        const handle = sourceHandles[j];
+                        if (handle.indexCount === 0 || handle.material == null || !handle.material.enabled) continue;
+                        if (handle.material.program == null) continue;
+
+                        const shadowMaterial = this.getShadowMaterial(handle.material);
+                        if (shadowMaterial == null) continue;
+
+                        handles.push(handle.clone(handle.transform, shadowMaterial));
+                    }
+                }
+
+                return handles;
+            }
+        }
+
         export class ShadowCamera extends WebGame.OrthographicCamera {
+            static readonly maxCascades = 4;
+
+            // How far beyond each cascade towards the sun to look for shadow casters
+            static readonly casterDistance = 2048;
+
+            static readonly shadowMapParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Texture);
+            static readonly shadowMatrixParams = [
+                new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+                new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+                new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4),
+                new WebGame.CommandBufferParameter(WebGame.UniformType.Matrix4)
+            ];
+
+            // Far distance of each cascade from the target camera
+            static readonly shadowSplitsParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+
+            // Depth bias of each cascade
+            static readonly shadowBiasParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+
+            // x: cascade count, y: 1 / cascade count, z: 1 / resolution, w: unused
+            static readonly shadowInfoParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float4);
+
+            private static readonly disabledInfoValues = new Float32Array(4);
+            private static readonly identityMatrix = new Facepunch.Matrix4().setIdentity();
+
             readonly viewer: MapViewer;
 
             private readonly targetCamera: Camera;
+            private readonly casters: ShadowCasterList;
+
+            private frameBuffer: WebGame.FrameBuffer;
+            private cascadeCount = 0;
+            private resolution = 0;
+            private lastLeaf: BspLeaf;
+
+            private readonly cascadeMatrix = new Facepunch.Matrix4().setIdentity();
+            private readonly matrices: Facepunch.Matrix4[] = [];
+            private readonly splitValues = new Float32Array(4);
+            private readonly biasValues = new Float32Array(4);
+            private readonly infoValues = new Float32Array(4);
 
             constructor(viewer: MapViewer, targetCamera: Camera) {
                 super(viewer, 1, 1, 0, 1);
 
                 this.viewer = viewer;
                 this.targetCamera = targetCamera;
+                this.casters = new ShadowCasterList(viewer);
+
+                for (let i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    this.matrices.push(new Facepunch.Matrix4().setIdentity());
+                }
             }
 
             protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList): void {
-                this.viewer.map.populateDrawList(drawList, this.targetCamera.getLeaf());
+                this.casters.clear();
+                this.viewer.map.populateDrawList(this.casters, this.targetCamera.getLeaf());
+
+                drawList.addItem(this.casters);
             }
 
-            private addToFrustumBounds(invLight: Facepunch.Quaternion, vec: Facepunch.Vector4, bounds: Facepunch.Box3): void {
-                vec.applyMatrix4(this.targetCamera.getMatrix());
-                vec.applyQuaternion(invLight);
+            protected onUpdateProjectionMatrix(matrix: Facepunch.Matrix4): void {
+                matrix.copy(this.cascadeMatrix);
             }
 
-            private static readonly getFrustumBounds_vec = new Facepunch.Vector4();
-            private static readonly getFrustumBounds_invLight = new Facepunch.Quaternion();
-            private getFrustumBounds(lightRotation: Facepunch.Quaternion, near: number, far: number, bounds: Facepunch.Box3): void {
-                bounds.min.set(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
-                bounds.max.set(Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY);
+            private static readonly getFrustumSphere_vec = new Facepunch.Vector4();
+            private static readonly getFrustumSphere_corners: Facepunch.Vector3[] = [];
+
+            // Finds a sphere around the slice of the target camera's frustum between near and far
+            private getFrustumSphere(near: number, far: number, center: Facepunch.Vector3): number {
+                const vec = ShadowCamera.getFrustumSphere_vec;
+                const corners = ShadowCamera.getFrustumSphere_corners;
+                const cameraMatrix = this.targetCamera.getMatrix();
 
-                const yScale = Math.tan(this.targetCamera.getFov() * 0.5);
+                const yScale = Math.tan(this.targetCamera.getFov() * Math.PI / 360);
                 const xScale = yScale * this.targetCamera.getAspect();
 
-                const xNear = xScale * near;
-                const yNear = yScale * near;
+                center.set(0, 0, 0);
+
+                for (let i = 0; i < 8; ++i) {
+                    const depth = i < 4 ? near : far;
+                    const x = (i & 1) === 0 ? xScale : -xScale;
+                    const y = (i & 2) === 0 ? yScale : -yScale;
+
+                    vec.set(x * depth, y * depth, -depth, 1);
+                    vec.applyMatrix4(cameraMatrix);
 
-                const xFar = xScale * far;
-                const yFar = yScale * far;
+                    if (corners[i] === undefined) corners[i] = new Facepunch.Vector3();
+                    corners[i].set(vec.x, vec.y, vec.z);
+                    center.add(corners[i]);
+                }
 
-                const vec = ShadowCamera.getFrustumBounds_vec;
-                const invLight = ShadowCamera.getFrustumBounds_invLight;
+                center.multiplyScalar(1 / 8);
 
-                invLight.setInverse(lightRotation);
+                let radiusSq = 0;
+                for (let i = 0; i < 8; ++i) {
+                    const dx = corners[i].x - center.x;
+                    const dy = corners[i].y - center.y;
+                    const dz = corners[i].z - center.z;
+                    radiusSq = Math.max(radiusSq, dx * dx + dy * dy + dz * dz);
+                }
 
-                this.addToFrustumBounds(invLight, vec.set( xNear,  yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xNear,  yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set( xNear, -yNear, near, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xNear, -yNear, near, 1), bounds);
-                
-                this.addToFrustumBounds(invLight, vec.set( xFar,  yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xFar,  yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set( xFar, -yFar, far, 1), bounds);
-                this.addToFrustumBounds(invLight, vec.set(-xFar, -yFar, far, 1), bounds);
+                // Round up so the cascade doesn't change size every time the camera turns
+                return Math.ceil(Math.sqrt(radiusSq) / 16) * 16;
             }
 
-            private static readonly renderShadows_bounds = new Facepunch.Box3();
-            renderShadows(lightRotation: Facepunch.Quaternion, near: number, far: number): void {
-                const bounds = ShadowCamera.renderShadows_bounds;
+            private static readonly setupCascade_center = new Facepunch.Vector3();
+            private static readonly setupCascade_right = new Facepunch.Vector3();
+            private static readonly setupCascade_up = new Facepunch.Vector3();
+
+            private setupCascade(index: number, sunDirection: Facepunch.Vector3, near: number, far: number): void {
+                const center = ShadowCamera.setupCascade_center;
+                const right = ShadowCamera.setupCascade_right;
+                const up = ShadowCamera.setupCascade_up;
+
+                const radius = this.getFrustumSphere(near, far, center);
+
+                if (Math.abs(sunDirection.z) < 0.999) {
+                    right.set(0, 0, 1).cross(sunDirection).normalize();
+                } else {
+                    right.set(1, 0, 0);
+                }
+
+                up.copy(sunDirection).cross(right);
+
+                // Snap to whole texels to stop shadow edges crawling as the camera moves
+                const texelSize = radius * 2 / this.resolution;
+                const centerX = Math.floor(center.dot(right) / texelSize) * texelSize;
+                const centerY = Math.floor(center.dot(up) / texelSize) * texelSize;
+                const centerZ = center.dot(sunDirection);
+
+                const minZ = centerZ - radius;
+                const maxZ = centerZ + radius + ShadowCamera.casterDistance;
+                const zScale = 2 / (maxZ - minZ);
+                const scale = 1 / radius;
+
+                const m = this.cascadeMatrix.elements;
+
+                m[0x0] = right.x * scale;
+                m[0x4] = right.y * scale;
+                m[0x8] = right.z * scale;
+                m[0xc] = -centerX * scale;
+
+                m[0x1] = up.x * scale;
+                m[0x5] = up.y * scale;
+                m[0x9] = up.z * scale;
+                m[0xd] = -centerY * scale;
+
+                m[0x2] = -sunDirection.x * zScale;
+                m[0x6] = -sunDirection.y * zScale;
+                m[0xa] = -sunDirection.z * zScale;
+                m[0xe] = maxZ * zScale - 1;
+
+                m[0x3] = 0;
+                m[0x7] = 0;
+                m[0xb] = 0;
+                m[0xf] = 1;
+
+                this.matrices[index].copy(this.cascadeMatrix);
+                this.splitValues[index] = far;
+
+                // Allow for a texel and a half of slope, plus a unit for props resting on the ground
+                this.biasValues[index] = (texelSize * 1.5 + 1) * zScale * 0.5;
+
+                this.invalidateProjectionMatrix();
+            }
+
+            private setupFrameBuffer(cascadeCount: number, resolution: number): void {
+                const gl = this.viewer.context;
+                const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+
+                resolution = Math.min(resolution, Math.floor(maxSize / cascadeCount));
+
+                if (this.frameBuffer != null && this.cascadeCount === cascadeCount && this.resolution === resolution) return;
+
+                this.cascadeCount = cascadeCount;
+                this.resolution = resolution;
+
+                if (this.frameBuffer != null) {
+                    this.frameBuffer.resize(resolution * cascadeCount, resolution);
+                } else {
+                    this.frameBuffer = new WebGame.FrameBuffer(gl, resolution * cascadeCount, resolution);
+                    this.frameBuffer.addDepthAttachment();
+                }
+
+                const texture = this.frameBuffer.getColorTexture();
+                texture.setFilter(WebGame.TextureMinFilter.Nearest, WebGame.TextureMagFilter.Nearest);
+                texture.setWrapMode(WebGame.TextureWrapMode.ClampToEdge);
+            }
+
+            renderShadows(sunDirection: Facepunch.Vector3): void {
+                const viewer = this.viewer;
+                const cascadeCount = Math.min(viewer.shadowCascadeCount, ShadowCamera.maxCascades);
+
+                this.setupFrameBuffer(cascadeCount, viewer.shadowResolution);
+
+                const leaf = this.targetCamera.getLeaf();
+                if (leaf !== this.lastLeaf) {
+                    this.lastLeaf = leaf;
+                    this.invalidateGeometry();
+                }
+
+                const near = this.targetCamera.getNear();
+                const far = Math.min(viewer.shadowDistance, this.targetCamera.getFar());
+                const ratio = far / near;
+
+                const gl = viewer.context;
+                const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array;
+                const resolution = this.resolution;
+
+                this.frameBuffer.begin();
+
+                gl.viewport(0, 0, resolution * cascadeCount, resolution);
+                gl.clearColor(1, 1, 1, 0);
+                gl.depthMask(true);
+                gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+                let cascadeNear = near;
+
+                for (let i = 0; i < cascadeCount; ++i) {
+                    // Blend between logarithmic and uniform splits
+                    const frac = (i + 1) / cascadeCount;
+                    const cascadeFar = i === cascadeCount - 1 ? far
+                        : 0.75 * near * Math.pow(ratio, frac) + 0.25 * (near + (far - near) * frac);
+
+                    this.setupCascade(i, sunDirection, cascadeNear, cascadeFar);
+
+                    gl.viewport(i * resolution, 0, resolution, resolution);
+                    this.render();
+
+                    cascadeNear = cascadeFar;
+                }
+
+                this.frameBuffer.end();
+
+                gl.viewport(0, 0, viewer.getWidth(), viewer.getHeight());
+                gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+            }
+
+            static populateDisabledShadowParameters(buf: WebGame.CommandBuffer, context: WebGLRenderingContext): void {
+                buf.setParameter(ShadowCamera.shadowMapParam, WebGame.TextureUtils.getWhiteTexture(context));
+                buf.setParameter(ShadowCamera.shadowSplitsParam, ShadowCamera.disabledInfoValues);
+                buf.setParameter(ShadowCamera.shadowBiasParam, ShadowCamera.disabledInfoValues);
+                buf.setParameter(ShadowCamera.shadowInfoParam, ShadowCamera.disabledInfoValues);
+
+                for (let i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    buf.setParameter(ShadowCamera.shadowMatrixParams[i], ShadowCamera.identityMatrix.elements);
+                }
+            }
+
+            populateShadowParameters(buf: WebGame.CommandBuffer): void {
+                if (this.frameBuffer == null) {
+                    ShadowCamera.populateDisabledShadowParameters(buf, this.viewer.context);
+                    return;
+                }
+
+                const info = this.infoValues;
+                info[0] = this.cascadeCount;
+                info[1] = 1 / this.cascadeCount;
+                info[2] = 1 / this.resolution;
+
+                buf.setParameter(ShadowCamera.shadowMapParam, this.frameBuffer.getColorTexture());
+                buf.setParameter(ShadowCamera.shadowSplitsParam, this.splitValues);
+                buf.setParameter(ShadowCamera.shadowBiasParam, this.biasValues);
+                buf.setParameter(ShadowCamera.shadowInfoParam, info);
+
+                for (let i = 0; i < ShadowCamera.maxCascades; ++i) {
+                    buf.setParameter(ShadowCamera.shadowMatrixParams[i], this.matrices[i].elements);
+                }
+            }
+
+            dispose(): void {
+                if (this.frameBuffer == null) return;
+
+                super.dispose();
+
+                this.frameBuffer.dispose();
+                this.frameBuffer = null;
+
+                this.cascadeCount = 0;
+                this.resolution = 0;
 
-                this.getFrustumBounds(lightRotation, near, far, bounds);
+                // Let go of everything so ropes stop simulating for a shadow nobody sees
+                this.casters.clear();
+                this.invalidateGeometry();
             }
         }
     }
@@ -4,16 +4,34 @@
     export namespace Entities {
         export interface IDisplacement extends IPvsEntity {
             index: number;
+            min?: Facepunch.IVector3;
+            max?: Facepunch.IVector3;
         }
 
         export class Displacement extends PvsEntity {
             private readonly index: number;
+            private readonly info: IDisplacement;
             private isLoaded = false;
 
             constructor(map: Map, info: IDisplacement) {
                 super(map, info);
 
                 this.index = info.index;
+                this.info = info;
+            }
+
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+                if (this.info.min == null || this.info.max == null) return false;
+
+                min.x = this.info.min.x;
+                min.y = this.info.min.y;
+                min.z = this.info.min.z;
+
+                max.x = this.info.max.x;
+                max.y = this.info.max.y;
+                max.z = this.info.max.z;
+
+                return true;
             }
 
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void {
@@ -21,7 +39,7 @@
                     this.isLoaded = true;
                     this.map.viewer.dispGeometryLoader.load(this.index, handle => {
                         if (handle != null) this.drawable.addMeshHandles([handle]);
-                    });
+                    }, () => this.getLoadPriority());
                 }
 
                 super.onAddToDrawList(list);
@@ -0,0 +1,118 @@
+﻿/// <reference path="PvsEntity.ts"/>
+
+namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export namespace Entities {
+        export interface ILightColor extends IColor {
+            a: number;
+        }
+
+        export interface ILightEnvironment extends IEntity {
+            brightness: ILightColor;
+            ambient: ILightColor;
+            brightnessHdr: ILightColor;
+            ambientHdr: ILightColor;
+            brightnessScaleHdr: number;
+            ambientScaleHdr: number;
+            pitch: number;
+        }
+
+        export class LightEnvironment extends Entity implements WebGame.ICommandBufferParameterProvider {
+            static readonly sunDirectionParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+            static readonly sunColorParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+            static readonly ambientColorParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float3);
+            static readonly sunDiscParam = new WebGame.CommandBufferParameter(WebGame.UniformType.Float);
+
+            // Gives the same flat lighting as before when a map has no light_environment
+            private static readonly defaultAmbientValue = Math.pow(0.5, 2.2);
+
+            private static readonly defaultDirectionValues = new Float32Array([0, 0, 1]);
+            private static readonly defaultSunColorValues = new Float32Array([0, 0, 0]);
+            private static readonly defaultAmbientValues = new Float32Array([
+                LightEnvironment.defaultAmbientValue,
+                LightEnvironment.defaultAmbientValue,
+                LightEnvironment.defaultAmbientValue
+            ]);
+
+            private static readonly sunDiscValues = new Float32Array(1);
+
+            // Points towards the sun, in world space
+            readonly sunDirection = new Facepunch.Vector3();
+
+            // Linear colours, pre-multiplied by brightness
+            readonly sunColor = new Facepunch.Vector3();
+            readonly ambientColor = new Facepunch.Vector3();
+
+            private readonly sunDirectionValues = new Float32Array(3);
+            private readonly sunColorValues = new Float32Array(3);
+            private readonly ambientColorValues = new Float32Array(3);
+
+            constructor(map: Map, info: ILightEnvironment) {
+                super(map, info);
+
+                const angles = info.angles;
+                const mul = Math.PI / 180;
+
+                // Like vrad, a non-zero pitch key overrides the pitch from angles
+                const pitch = (info.pitch || (angles !== undefined ? angles.x : 0)) * mul;
+                const yaw = (angles !== undefined ? angles.y : 0) * mul;
+
+                this.sunDirection.set(
+                    -Math.cos(pitch) * Math.cos(yaw),
+                    -Math.cos(pitch) * Math.sin(yaw),
+                    -Math.sin(pitch));
+
+                LightEnvironment.getLinearColor(info.brightness, this.sunColor);
+                LightEnvironment.getLinearColor(info.ambient, this.ambientColor);
+            }
+
+            private static getLinearColor(color: ILightColor, out: Facepunch.Vector3): void {
+                if (color == null) {
+                    out.set(0, 0, 0);
+                    return;
+                }
+
+                out.set(Math.pow(color.r, 2.2), Math.pow(color.g, 2.2), Math.pow(color.b, 2.2));
+                out.multiplyScalar(color.a);
+            }
+
+            static populateDefaultCommandBufferParameters(buf: WebGame.CommandBuffer): void {
+                buf.setParameter(LightEnvironment.sunDirectionParam, LightEnvironment.defaultDirectionValues);
+                buf.setParameter(LightEnvironment.sunColorParam, LightEnvironment.defaultSunColorValues);
+                buf.setParameter(LightEnvironment.ambientColorParam, LightEnvironment.defaultAmbientValues);
+
+                LightEnvironment.populateSunDiscParameter(buf, 0);
+            }
+
+            private static populateSunDiscParameter(buf: WebGame.CommandBuffer, size: number): void {
+                // Cosine of the disc's angular radius, so 1 disables it
+                LightEnvironment.sunDiscValues[0] = size > 0 ? Math.cos(size * Math.PI / 180) : 1;
+                buf.setParameter(LightEnvironment.sunDiscParam, LightEnvironment.sunDiscValues);
+            }
+
+            populateCommandBufferParameters(buf: WebGame.CommandBuffer): void {
+                const dir = this.sunDirectionValues;
+                dir[0] = this.sunDirection.x;
+                dir[1] = this.sunDirection.y;
+                dir[2] = this.sunDirection.z;
+
+                const sun = this.sunColorValues;
+                sun[0] = this.sunColor.x;
+                sun[1] = this.sunColor.y;
+                sun[2] = this.sunColor.z;
+
+                const ambient = this.ambientColorValues;
+                ambient[0] = this.ambientColor.x;
+                ambient[1] = this.ambientColor.y;
+                ambient[2] = this.ambientColor.z;
+
+                buf.setParameter(LightEnvironment.sunDirectionParam, dir);
+                buf.setParameter(LightEnvironment.sunColorParam, sun);
+                buf.setParameter(LightEnvironment.ambientColorParam, ambient);
+
+                LightEnvironment.populateSunDiscParameter(buf, this.map.viewer.sunDiscSize);
+            }
+        }
+    }
+}
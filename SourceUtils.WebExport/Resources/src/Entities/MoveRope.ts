@@ -44,6 +44,22 @@
             private material: WebGame.Material;
             private meshHandles: WebGame.MeshHandle[];
 
+            private meshGroup: WebGame.MeshGroup;
+            private vertices: Float32Array;
+            private indices: Uint16Array | Uint32Array;
+            private texCoords: number[];
+            private widths: number[];
+
+            private points: Facepunch.Vector3[];
+            private prevPoints: Facepunch.Vector3[];
+            private pinned: boolean[];
+            private restLengths: number[];
+            private readonly swayDir = new Facepunch.Vector3();
+            private swayTime = Math.random() * 10;
+            private simulationTime = 0;
+
+            private drawListCount = 0;
+
             constructor(map: Map, info: IMoveRope) {
                 super(map, info);
 
@@ -62,6 +78,116 @@
                 return list;
             }
 
+            // Not available in ES5
+            private static sinh(x: number): number {
+                return (Math.exp(x) - Math.exp(-x)) * 0.5;
+            }
+
+            private static cosh(x: number): number {
+                return (Math.exp(x) + Math.exp(-x)) * 0.5;
+            }
+
+            private static atanh(x: number): number {
+                return 0.5 * Math.log((1 + x) / (1 - x));
+            }
+
+            // Appends points along a rope hanging from start to end with the given slack, not including end
+            private static addCatenaryPoints(start: Facepunch.IVector3, end: Facepunch.IVector3, slack: number, count: number, points: Facepunch.Vector3[]): void {
+                const dx = end.x - start.x;
+                const dy = end.y - start.y;
+                const v = end.z - start.z;
+                const h = Math.sqrt(dx * dx + dy * dy);
+                const length = Math.sqrt(h * h + v * v) + Math.max(slack, 0);
+
+                // Taut or vertical ropes are just straight lines
+                if (h < 0.001 || slack <= 0) {
+                    for (let j = 0; j < count; ++j) {
+                        const t = j / count;
+                        points.push(new Facepunch.Vector3(start.x + dx * t, start.y + dy * t, start.z + v * t));
+                    }
+                    return;
+                }
+
+                // Solve sqrt(L^2 - v^2) = 2a sinh(h / 2a) for a, substituting z = h / 2a
+                const r = Math.sqrt(length * length - v * v) / h;
+                let z = r < 3 ? Math.sqrt(6 * (r - 1)) : Math.log(2 * r) + Math.log(Math.log(2 * r));
+
+                for (let iter = 0; iter < 16; ++iter) {
+                    const f = MoveRope.sinh(z) - r * z;
+                    const df = MoveRope.cosh(z) - r;
+                    if (df === 0) break;
+                    const step = f / df;
+                    z -= step;
+                    if (Math.abs(step) < 1e-6) break;
+                }
+
+                const a = h / (2 * z);
+                const x0 = h * 0.5 - a * MoveRope.atanh(v / length);
+                const c = -a * MoveRope.cosh(-x0 / a);
+
+                const dirX = dx / h;
+                const dirY = dy / h;
+
+                for (let j = 0; j < count; ++j) {
+                    const x = h * j / count;
+                    const y = a * MoveRope.cosh((x - x0) / a) + c;
+                    points.push(new Facepunch.Vector3(start.x + dirX * x, start.y + dirY * x, start.z + y));
+                }
+            }
+
+            private static catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+                const t2 = t * t;
+                const t3 = t2 * t;
+                return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+            }
+
+            private computePoints(points: Facepunch.Vector3[], widths: number[]): void {
+                const keyframes = this.keyframes;
+                const positions = keyframes.map(keyframe => {
+                    const pos = new Facepunch.Vector3();
+                    keyframe.getPosition(pos);
+                    return pos;
+                });
+
+                const interp = this.info.positionInterp === undefined ? PositionInterpolator.Rope : this.info.positionInterp;
+
+                for (let i = 0; i < keyframes.length - 1; ++i) {
+                    const keyframe = keyframes[i];
+                    const count = keyframe.subDivisions + 1;
+                    const start = positions[i];
+                    const end = positions[i + 1];
+
+                    switch (interp) {
+                        case PositionInterpolator.Rope:
+                            MoveRope.addCatenaryPoints(start, end, keyframe.slack, count, points);
+                            break;
+                        case PositionInterpolator.CatmullRomSpline:
+                            const p0 = positions[Math.max(i - 1, 0)];
+                            const p3 = positions[Math.min(i + 2, positions.length - 1)];
+                            for (let j = 0; j < count; ++j) {
+                                const t = j / count;
+                                points.push(new Facepunch.Vector3(
+                                    MoveRope.catmullRom(p0.x, start.x, end.x, p3.x, t),
+                                    MoveRope.catmullRom(p0.y, start.y, end.y, p3.y, t),
+                                    MoveRope.catmullRom(p0.z, start.z, end.z, p3.z, t)));
+                            }
+                            break;
+                        default:
+                            for (let j = 0; j < count; ++j) {
+                                points.push(new Facepunch.Vector3().copy(end).sub(start).multiplyScalar(j / count).add(start));
+                            }
+                            break;
+                    }
+
+                    for (let j = 0; j < count; ++j) {
+                        widths.push(keyframe.width);
+                    }
+                }
+
+                points.push(positions[positions.length - 1]);
+                widths.push(keyframes[keyframes.length - 2].width);
+            }
+
             private generateMesh(): WebGame.MeshHandle[] {
                 if (this.keyframes == null) {
                     this.keyframes = this.findKeyframes();
@@ -83,64 +209,64 @@
                     indices: []
                 };
 
-                const prev = new Facepunch.Vector3();
-                const next = new Facepunch.Vector3();
-                const pos = new Facepunch.Vector3();
-                const norm = new Facepunch.Vector3();
-                const mid = new Facepunch.Vector3();
-
-                // TODO: check current texture res, use info.textureScale
-                const texScale = this.info.textureScale / 64;
+                const points: Facepunch.Vector3[] = this.points = [];
+                const widths: number[] = this.widths = [];
 
-                this.keyframes[0].getPosition(prev);
-                mid.add(prev);
+                this.computePoints(points, widths);
 
-                let totalLength = 0;
-                let indexOffset = -4;
+                const keyframePoints: number[] = [0];
+                for (let i = 0, index = 0; i < this.keyframes.length - 1; ++i) {
+                    index += this.keyframes[i].subDivisions + 1;
+                    keyframePoints.push(index);
+                }
 
-                for (let i = 0; i < this.keyframes.length - 1; ++i) {
-                    const keyframe = this.keyframes[i];
+                const first = points[0];
+                const last = points[points.length - 1];
+                this.swayDir.set(first.y - last.y, last.x - first.x, 0);
+                if (this.swayDir.lengthSq() > 0) this.swayDir.normalize();
 
-                    this.keyframes[i + 1].getPosition(next);
-                    mid.add(next);
+                this.pinned = points.map((point, index) => keyframePoints.indexOf(index) !== -1);
+                this.prevPoints = points.map(point => new Facepunch.Vector3().copy(point));
+                this.restLengths = [];
+                this.texCoords = [];
 
-                    const segmentLength = norm.copy(next).sub(prev).length();
+                const delta = new Facepunch.Vector3();
+                const mid = new Facepunch.Vector3();
 
-                    // TODO: this is just a rough guess
-                    // TODO: need to solve `L = 1/2 sqrt(1 + 16 h^2) + (arcsinh(4 h))/(8 h)` for h
-                    const slack = (keyframe.slack / segmentLength) * Math.sqrt(segmentLength) * 4.0;
-                    norm.normalize();
+                // TODO: check current texture res, use info.textureScale
+                const texScale = this.info.textureScale / 64;
 
-                    for (let j = 0; j <= keyframe.subDivisions + 1; ++j) {
-                        const t = j / (keyframe.subDivisions + 1);
-                        const v = (totalLength + segmentLength * t) * texScale;
-                        const s = slack * 4 * (t * t - t);
+                let totalLength = 0;
 
-                        pos.copy(next).sub(prev).multiplyScalar(t).add(prev);
+                for (let i = 0; i < points.length; ++i) {
+                    if (i > 0) {
+                        const length = delta.copy(points[i]).sub(points[i - 1]).length();
+                        this.restLengths.push(length);
+                        totalLength += length;
+                    }
 
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0.25, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 0.75, v, keyframe.width, s);
-                        mesh.vertices.push(pos.x, pos.y, pos.z, norm.x, norm.y, norm.z, 1, v, keyframe.width, s);
+                    mid.add(points[i]);
+                    this.texCoords.push(totalLength * texScale);
 
-                        if (j > 0) {
-                            for (let k = 0; k < 3; ++k) {
-                                mesh.indices.push(
-                                    indexOffset + k, indexOffset + k + 4, indexOffset + k + 1,
-                                    indexOffset + k + 1, indexOffset + k + 4, indexOffset + k + 5
-                                );
-                            }
+                    if (i > 0) {
+                        const indexOffset = (i - 1) * 4;
+                        for (let k = 0; k < 3; ++k) {
+                            mesh.indices.push(
+                                indexOffset + k, indexOffset + k + 4, indexOffset + k + 1,
+                                indexOffset + k + 1, indexOffset + k + 4, indexOffset + k + 5
+                            );
                         }
-
-                        indexOffset += 4;
                     }
+                }
 
-                    totalLength += segmentLength;
+                this.vertices = new Float32Array(points.length * 4 * WebGame.MeshManager.getVertexLength(mesh.attributes));
+                this.updateVertices();
 
-                    prev.copy(next);
+                for (let i = 0, iEnd = this.vertices.length; i < iEnd; ++i) {
+                    mesh.vertices.push(this.vertices[i]);
                 }
 
-                mid.multiplyScalar(1 / this.keyframes.length);
+                mid.multiplyScalar(1 / points.length);
 
                 this.map.getLeafAt(mid, leaf => {
                     const ambient = (this.material.properties as Shaders.SplineRopeMaterial).ambient = new Array<Facepunch.Vector3>(6);
@@ -156,7 +282,138 @@
                     indexCount: mesh.indices.length
                 });
 
-                return this.map.viewer.meshes.addMeshData(mesh);
+                // Each rope gets its own group so its vertices can be rewritten while simulating
+                this.meshGroup = new WebGame.MeshGroup(this.map.viewer.context, mesh.attributes);
+                this.indices = this.meshGroup.indexSize === 4 ? new Uint32Array(mesh.indices) : new Uint16Array(mesh.indices);
+
+                const handles: WebGame.MeshHandle[] = [];
+                this.meshGroup.addMeshData(mesh, null, handles);
+                return handles;
+            }
+
+            private static readonly updateVertices_norm = new Facepunch.Vector3();
+
+            private updateVertices(): void {
+                const points = this.points;
+                const verts = this.vertices;
+                const norm = MoveRope.updateVertices_norm;
+
+                let index = 0;
+
+                for (let i = 0; i < points.length; ++i) {
+                    const pos = points[i];
+                    const prev = points[Math.max(i - 1, 0)];
+                    const next = points[Math.min(i + 1, points.length - 1)];
+
+                    norm.copy(next).sub(prev).normalize();
+
+                    const v = this.texCoords[i];
+                    const width = this.widths[i];
+
+                    for (let k = 0; k < 4; ++k) {
+                        verts[index++] = pos.x;
+                        verts[index++] = pos.y;
+                        verts[index++] = pos.z;
+                        verts[index++] = norm.x;
+                        verts[index++] = norm.y;
+                        verts[index++] = norm.z;
+                        verts[index++] = k === 0 ? 0 : k === 1 ? 0.25 : k === 2 ? 0.75 : 1;
+                        verts[index++] = v;
+                        verts[index++] = width;
+                        verts[index++] = 0;
+                    }
+                }
+            }
+
+            private static readonly simulationStep = 1 / 60;
+            private static readonly simulationIterations = 8;
+            private static readonly simulate_accel = new Facepunch.Vector3();
+            private static readonly simulate_delta = new Facepunch.Vector3();
+
+            // Steps a simple verlet simulation, with moveSpeed controlling how much the rope sways on its own
+            simulate(dt: number): void {
+                if (this.meshGroup == null) return;
+
+                const viewer = this.map.viewer;
+                const step = MoveRope.simulationStep;
+
+                this.simulationTime += Math.min(dt, step * 4);
+
+                let steps = 0;
+                while (this.simulationTime >= step) {
+                    this.simulationTime -= step;
+                    this.swayTime += step;
+                    ++steps;
+
+                    const points = this.points;
+                    const prevPoints = this.prevPoints;
+                    const accel = MoveRope.simulate_accel;
+                    const delta = MoveRope.simulate_delta;
+
+                    const sway = Math.sin(this.swayTime * 1.3) * (this.info.moveSpeed || 0);
+
+                    for (let i = 0; i < points.length; ++i) {
+                        if (this.pinned[i]) continue;
+
+                        const pos = points[i];
+                        const prev = prevPoints[i];
+
+                        // Drag towards the wind velocity, plus a sideways sway and gravity
+                        delta.copy(pos).sub(prev).multiplyScalar(1 / step);
+                        accel.copy(viewer.wind).sub(delta).multiplyScalar(0.5);
+                        accel.x += this.swayDir.x * sway;
+                        accel.y += this.swayDir.y * sway;
+                        accel.z -= viewer.ropeGravity;
+
+                        delta.copy(pos).sub(prev).multiplyScalar(0.99);
+                        prev.copy(pos);
+                        pos.add(delta).add(accel.multiplyScalar(step * step));
+                    }
+
+                    for (let iter = 0; iter < MoveRope.simulationIterations; ++iter) {
+                        for (let i = 0; i < points.length - 1; ++i) {
+                            const a = points[i];
+                            const b = points[i + 1];
+                            const pinnedA = this.pinned[i];
+                            const pinnedB = this.pinned[i + 1];
+                            if (pinnedA && pinnedB) continue;
+
+                            delta.copy(b).sub(a);
+                            const length = delta.length();
+                            if (length === 0) continue;
+
+                            delta.multiplyScalar((length - this.restLengths[i]) / length);
+
+                            if (pinnedA) {
+                                b.sub(delta);
+                            } else if (pinnedB) {
+                                a.add(delta);
+                            } else {
+                                delta.multiplyScalar(0.5);
+                                a.add(delta);
+                                b.sub(delta);
+                            }
+                        }
+                    }
+                }
+
+                if (steps === 0) return;
+
+                this.updateVertices();
+
+                // The rope is the only mesh in its group, so refilling the group rewrites its
+                // buffers in place and leaves the existing mesh handles pointing at the same data
+                const group = this.meshGroup;
+                group.clear();
+                group.addVertexData(this.vertices);
+                group.addIndexData(this.indices);
+            }
+
+            dispose(): void {
+                if (this.meshGroup != null) {
+                    this.meshGroup.dispose();
+                    this.meshGroup = null;
+                }
             }
 
             onAddToDrawList(list: Facepunch.WebGame.DrawList): void {
@@ -165,11 +422,45 @@
                 if (this.meshHandles == null) {
                     this.meshHandles = this.generateMesh();
                 }
+
+                if (this.drawListCount++ === 0) {
+                    this.map.addActiveRope(this);
+                }
+            }
+
+            onRemoveFromDrawList(list: Facepunch.WebGame.DrawList): void {
+                super.onRemoveFromDrawList(list);
+
+                if (--this.drawListCount === 0) {
+                    this.map.removeActiveRope(this);
+                }
             }
 
             getMeshHandles(): Facepunch.WebGame.MeshHandle[] {
                 return this.meshHandles;
             }
+
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+                const points = this.points;
+                if (points == null || points.length === 0) return false;
+
+                const radius = this.width * 0.5;
+
+                min.x = min.y = min.z = Number.POSITIVE_INFINITY;
+                max.x = max.y = max.z = Number.NEGATIVE_INFINITY;
+
+                for (let point of points) {
+                    min.x = Math.min(min.x, point.x - radius);
+                    min.y = Math.min(min.y, point.y - radius);
+                    min.z = Math.min(min.z, point.z - radius);
+
+                    max.x = Math.max(max.x, point.x + radius);
+                    max.y = Math.max(max.y, point.y + radius);
+                    max.z = Math.max(max.z, point.z + radius);
+                }
+
+                return true;
+            }
         }
     }
 }
\ No newline at end of file
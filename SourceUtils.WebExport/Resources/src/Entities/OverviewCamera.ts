@@ -0,0 +1,62 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export namespace Entities {
+        // Looks straight down at a rectangle of the map, drawing everything between
+        // two heights regardless of visibility from any leaf
+        export class OverviewCamera extends WebGame.OrthographicCamera {
+            readonly viewer: MapViewer;
+
+            private readonly overviewMatrix = new Facepunch.Matrix4().setIdentity();
+
+            constructor(viewer: MapViewer) {
+                super(viewer, 1, 1, 0, 1);
+
+                this.viewer = viewer;
+
+                // Everything is seen from the same height, so fog would only darken low areas
+                this.fog.maxDensity = 0;
+            }
+
+            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList): void {
+                this.viewer.map.populateDrawList(drawList, null);
+            }
+
+            protected onUpdateProjectionMatrix(matrix: Facepunch.Matrix4): void {
+                matrix.copy(this.overviewMatrix);
+            }
+
+            // Maps the given world space rectangle to the render target, with +Y at the top.
+            // Anything above maxZ or below minZ is clipped, for slicing multi-level maps.
+            setView(minX: number, minY: number, maxX: number, maxY: number, minZ: number, maxZ: number): void {
+                const xScale = 2 / (maxX - minX);
+                const yScale = 2 / (maxY - minY);
+                const zScale = 2 / (maxZ - minZ);
+
+                const m = this.overviewMatrix.elements;
+
+                m[0x0] = xScale;
+                m[0x4] = 0;
+                m[0x8] = 0;
+                m[0xc] = -(minX + maxX) * 0.5 * xScale;
+
+                m[0x1] = 0;
+                m[0x5] = yScale;
+                m[0x9] = 0;
+                m[0xd] = -(minY + maxY) * 0.5 * yScale;
+
+                m[0x2] = 0;
+                m[0x6] = 0;
+                m[0xa] = -zScale;
+                m[0xe] = maxZ * zScale - 1;
+
+                m[0x3] = 0;
+                m[0x7] = 0;
+                m[0xb] = 0;
+                m[0xf] = 1;
+
+                this.invalidateProjectionMatrix();
+            }
+        }
+    }
+}
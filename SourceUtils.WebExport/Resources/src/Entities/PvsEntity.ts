@@ -2,11 +2,26 @@
     import WebGame = Facepunch.WebGame;
 
     export namespace Entities {
+        // An output from the entity lump, firing the input on every entity matching target
+        export interface IEntityConnection {
+            output: string;
+            target: string;
+            input: string;
+            param?: string;
+            delay: number;
+            times: number;
+        }
+
         export interface IEntity {
             classname: string;
             targetname?: string;
             origin?: Facepunch.IVector3;
             angles?: Facepunch.IVector3;
+
+            // Every keyvalue from the entity lump, only exported with --entity-keyvalues
+            keyvalues?: { [key: string]: string };
+
+            connections?: IEntityConnection[];
         }
 
         export interface IColor {
@@ -24,15 +39,30 @@
             fogColor: IColor;
         }
 
+        // Bounds of the bombsite brush in world space
+        export interface IBombTarget extends IEntity {
+            min?: Facepunch.IVector3;
+            max?: Facepunch.IVector3;
+        }
+
         export class Entity extends WebGame.DrawableEntity {
             readonly map: Map;
+            readonly classname: string;
             readonly targetname: string;
 
+            // As given in the map, in degrees
+            readonly angles: Facepunch.IVector3;
+
+            readonly keyvalues: { [key: string]: string };
+
             constructor(map: Map, info: IEntity) {
                 super(true);
 
                 this.map = map;
+                this.classname = info.classname;
                 this.targetname = info.targetname;
+                this.angles = info.angles;
+                this.keyvalues = info.keyvalues;
 
                 if (this.targetname != null) {
                     this.map.addNamedEntity(this.targetname, this);
@@ -47,6 +77,11 @@
                     this.setAngles(info.angles.x * mul, info.angles.y * mul, info.angles.z * mul);
                 }
             }
+
+            // World space bounds, returning false if they aren't known yet
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+                return false;
+            }
         }
 
         export interface IPvsEntity extends IEntity {
@@ -62,6 +97,16 @@
                 this.clusters = info.clusters;
             }
 
+            getClusters(): number[] {
+                return this.clusters;
+            }
+
+            private static readonly getLoadPriority_temp = new Facepunch.Vector3();
+
+            getLoadPriority(): number {
+                return this.map.viewer.getLoadPriority(this.getPosition(PvsEntity.getLoadPriority_temp), this.clusters);
+            }
+
             isInCluster(cluster: number): boolean {
                 const clusters = this.clusters;
                 if (clusters == null) return true;
@@ -71,7 +116,7 @@
                 return false;
             }
 
-            isInAnyCluster(clusters: number[]): boolean {
+            isInAnyCluster(clusters: ArrayLike<number>): boolean {
                 if (clusters == null) return true;
                 for (let i = 0, iEnd = clusters.length; i < iEnd; ++i) {
                     if (this.isInCluster(clusters[i])) return true;
@@ -79,12 +124,12 @@
                 return false;
             }
 
-            populateDrawList(drawList: WebGame.DrawList, clusters: number[]): void {
+            populateDrawList(drawList: WebGame.DrawList, clusters: ArrayLike<number>): void {
                 drawList.addItem(this);
                 this.onPopulateDrawList(drawList, clusters);
             }
 
-            protected onPopulateDrawList(drawList: WebGame.DrawList, clusters: number[]): void {}
+            protected onPopulateDrawList(drawList: WebGame.DrawList, clusters: ArrayLike<number>): void {}
         }
     }
 }
\ No newline at end of file
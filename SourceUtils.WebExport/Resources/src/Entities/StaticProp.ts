@@ -12,23 +12,28 @@ namespace SourceUtils {
 
         export class StaticProp extends PvsEntity {
             readonly model: StudioModel;
+            readonly modelIndex: number;
 
             private readonly info: IStaticProp;
+            private readonly min = new Facepunch.Vector3();
+            private readonly max = new Facepunch.Vector3();
+            private hasBounds = false;
 
-            private lighting: (number[][] | BspLeaf);
+            private lighting: (Uint32Array[] | BspLeaf);
             private albedoModulation?: number;
 
             constructor(map: Map, info: IStaticProp) {
                 super(map, info);
 
                 this.info = info;
+                this.modelIndex = info.model;
                 this.albedoModulation = info.albedoModulation;
 
                 if (this.info.vertLighting !== undefined) {
                     this.map.viewer.vertLightingLoader.load(this.info.vertLighting, value => {
                         this.lighting = value;
                         this.checkLoaded();
-                    });
+                    }, () => this.getLoadPriority());
                 } else {
                     // TODO: lighting offset
                     this.map.getLeafAt(this.info.origin, leaf => {
@@ -44,7 +49,7 @@ namespace SourceUtils {
                     });
                 }
 
-                this.model = map.viewer.studioModelLoader.loadModel(info.model);
+                this.model = map.viewer.studioModelLoader.loadModel(info.model, () => this.getLoadPriority());
                 this.model.addUsage(this);
                 this.model.addOnLoadCallback(model => {
                     this.checkLoaded();
@@ -55,7 +60,22 @@ namespace SourceUtils {
                 if (!this.model.isLoaded()) return;
                 if (this.lighting === undefined) return;
 
-                this.drawable.addMeshHandles(this.model.createMeshHandles(0, this.getMatrix(), this.lighting, this.albedoModulation));
+                this.drawable.addMeshHandles(this.model.createMeshHandles(0, this.getMatrix(), this.lighting, this.albedoModulation, this.min, this.max));
+                this.hasBounds = true;
+            }
+
+            getBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+                if (!this.hasBounds) return false;
+
+                min.x = this.min.x;
+                min.y = this.min.y;
+                min.z = this.min.z;
+
+                max.x = this.max.x;
+                max.y = this.max.y;
+                max.z = this.max.z;
+
+                return true;
             }
         }
     }
@@ -33,7 +33,7 @@
                 this.map.viewer.forceDrawListInvalidation(true);
             }
 
-            isInAnyCluster(clusters: number[]): boolean {
+            isInAnyCluster(clusters: ArrayLike<number>): boolean {
                 return true;
             }
 
@@ -41,7 +41,7 @@
                 return true;
             }
 
-            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList, clusters: number[]): void {
+            protected onPopulateDrawList(drawList: Facepunch.WebGame.DrawList, clusters: ArrayLike<number>): void {
                 if (clusters == null) {
                     const leaves = this.model.getLeaves();
                     if (leaves != null) drawList.addItems(leaves);
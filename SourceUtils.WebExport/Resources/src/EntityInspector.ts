@@ -0,0 +1,365 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export interface IPickResult {
+        // Null when the world was hit, with the leaf in front of the surface
+        entity: Entities.Entity;
+        leaf: BspLeaf;
+        position: Facepunch.Vector3;
+        distance: number;
+    }
+
+    // Picks whatever is under the cursor, highlighting it and describing it in a side panel.
+    // Brushes are traced exactly, but props, displacements and ropes only by their bounds.
+    export class EntityInspector {
+        readonly viewer: MapViewer;
+
+        enabled = false;
+        pickButton = WebGame.MouseButton.Left;
+
+        // Pixels the mouse can move between press and release for it to count as a click
+        clickTolerance = 4;
+
+        readonly highlightColor = new Facepunch.Vector3(1, 0.5, 0);
+
+        private selection: IPickResult;
+        private panel: HTMLElement;
+        private highlight: WebGame.DebugLine;
+
+        private readonly mouseDownPos = new Facepunch.Vector2();
+        private mouseDownLocked: boolean;
+        private mouseDownPending = false;
+
+        private readonly traceResult = new TraceResult();
+        private readonly temp = new Facepunch.Vector3();
+        private readonly min = new Facepunch.Vector3();
+        private readonly max = new Facepunch.Vector3();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        getSelection(): IPickResult {
+            return this.selection;
+        }
+
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): void {
+            if (button !== this.pickButton) return;
+
+            this.mouseDownPos.copy(screenPos);
+            this.mouseDownLocked = this.viewer.isPointerLocked();
+            this.mouseDownPending = true;
+        }
+
+        // Picks at the cursor when orbiting, or at the centre of the screen with the pointer locked
+        onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean {
+            if (!this.enabled || button !== this.pickButton || !this.mouseDownPending) return false;
+
+            this.mouseDownPending = false;
+
+            const viewer = this.viewer;
+
+            if (this.mouseDownLocked) {
+                this.select(this.pick(viewer.getWidth() * 0.5, viewer.getHeight() * 0.5));
+                return true;
+            }
+
+            if (!viewer.orbitController.isActive()) return false;
+
+            const dx = screenPos.x - this.mouseDownPos.x;
+            const dy = screenPos.y - this.mouseDownPos.y;
+            if (dx * dx + dy * dy > this.clickTolerance * this.clickTolerance) return false;
+
+            this.select(this.pick(screenPos.x, screenPos.y));
+            return true;
+        }
+
+        private static readonly rayBox_invDir = new Facepunch.Vector3();
+
+        // Distance along the ray to where it enters the box, or -1 if it misses or starts inside
+        private static rayBox(origin: Facepunch.IVector3, dir: Facepunch.IVector3, min: Facepunch.IVector3, max: Facepunch.IVector3): number {
+            const invDir = EntityInspector.rayBox_invDir.set(1 / dir.x, 1 / dir.y, 1 / dir.z);
+
+            const x0 = (min.x - origin.x) * invDir.x;
+            const x1 = (max.x - origin.x) * invDir.x;
+            const y0 = (min.y - origin.y) * invDir.y;
+            const y1 = (max.y - origin.y) * invDir.y;
+            const z0 = (min.z - origin.z) * invDir.z;
+            const z1 = (max.z - origin.z) * invDir.z;
+
+            const enter = Math.max(Math.min(x0, x1), Math.min(y0, y1), Math.min(z0, z1));
+            const exit = Math.min(Math.max(x0, x1), Math.max(y0, y1), Math.max(z0, z1));
+
+            return enter > exit || enter < 0 ? -1 : enter;
+        }
+
+        private static containsPoint(min: Facepunch.IVector3, max: Facepunch.IVector3, pos: Facepunch.IVector3, margin: number): boolean {
+            return pos.x >= min.x - margin && pos.y >= min.y - margin && pos.z >= min.z - margin
+                && pos.x <= max.x + margin && pos.y <= max.y + margin && pos.z <= max.z + margin;
+        }
+
+        pick(screenX: number, screenY: number): IPickResult {
+            const viewer = this.viewer;
+            const map = viewer.map;
+            const camera = viewer.mainCamera;
+
+            if (!map.isReady()) return null;
+
+            const eye = camera.getPosition(new Facepunch.Vector3()) as Facepunch.Vector3;
+            const dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            const end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+
+            const tr = map.trace(eye, end, TraceMask.Solid, this.traceResult);
+
+            let best: Entities.Entity = null;
+            let bestDistance = tr.hit && !tr.startSolid ? tr.fraction * camera.getFar() : Number.POSITIVE_INFINITY;
+
+            // Brush entities were already traced against, and displacements are checked below
+            for (let ent of map.getPvsEntities()) {
+                if (ent instanceof Entities.BrushEntity || ent instanceof Entities.Displacement) continue;
+                if (!ent.getBounds(this.min, this.max)) continue;
+
+                const distance = EntityInspector.rayBox(eye, dir, this.min, this.max);
+                if (distance < 0 || distance >= bestDistance) continue;
+
+                best = ent;
+                bestDistance = distance;
+            }
+
+            if (best != null) {
+                return {
+                    entity: best,
+                    leaf: null,
+                    position: new Facepunch.Vector3().copy(dir).multiplyScalar(bestDistance).add(eye),
+                    distance: bestDistance
+                };
+            }
+
+            if (!tr.hit || tr.startSolid) return null;
+
+            const position = new Facepunch.Vector3().copy(tr.position);
+
+            // Displacements usually sit just above the brushes the trace hits
+            for (let ent of map.getPvsEntities()) {
+                if (!(ent instanceof Entities.Displacement) || !ent.getBounds(this.min, this.max)) continue;
+                if (!EntityInspector.containsPoint(this.min, this.max, position, 1)) continue;
+
+                return { entity: ent, leaf: null, position: position, distance: bestDistance };
+            }
+
+            const entity = tr.entity as Entities.BrushEntity;
+            if (entity != null && !entity.isWorldSpawn) {
+                return { entity: entity, leaf: null, position: position, distance: bestDistance };
+            }
+
+            // The trace stops in a solid leaf, so find the one the visible face belongs to
+            const leaf = map.getLeafAt(this.temp.copy(dir).multiplyScalar(-1).add(position));
+
+            return { entity: null, leaf: leaf, position: position, distance: bestDistance };
+        }
+
+        select(result: IPickResult): void {
+            this.selection = result;
+
+            this.updateHighlight();
+            this.updatePanel();
+
+            if (result != null && result.entity != null) {
+                this.viewer.selectEntity(result.entity);
+            } else {
+                this.viewer.selectEntity(result != null && result.leaf != null ? result.leaf.entity as Entities.Entity : null);
+            }
+        }
+
+        private getBounds(result: IPickResult, min: Facepunch.Vector3, max: Facepunch.Vector3): boolean {
+            if (result.entity != null) return result.entity.getBounds(min, max);
+            if (result.leaf == null) return false;
+
+            min.copy(result.leaf.min);
+            max.copy(result.leaf.max);
+
+            return true;
+        }
+
+        private static readonly drawBox_corner = new Facepunch.Vector3();
+
+        // Adds the edges of the given box to a line, without updating it
+        static drawBox(line: WebGame.DebugLine, min: Facepunch.IVector3, max: Facepunch.IVector3): void {
+            const corner = EntityInspector.drawBox_corner;
+
+            // Bottom and top rectangles, then the vertical edges
+            for (let z of [min.z, max.z]) {
+                line.moveTo(corner.set(min.x, min.y, z));
+                line.lineTo(corner.set(max.x, min.y, z));
+                line.lineTo(corner.set(max.x, max.y, z));
+                line.lineTo(corner.set(min.x, max.y, z));
+                line.lineTo(corner.set(min.x, min.y, z));
+            }
+
+            for (let x of [min.x, max.x]) {
+                for (let y of [min.y, max.y]) {
+                    line.moveTo(corner.set(x, y, min.z));
+                    line.lineTo(corner.set(x, y, max.z));
+                }
+            }
+        }
+
+        private updateHighlight(): void {
+            const map = this.viewer.map;
+
+            if (this.highlight == null) {
+                this.highlight = new WebGame.DebugLine(this.viewer);
+                this.highlight.setColor(this.highlightColor, new Facepunch.Vector3(1, 1, 1));
+                this.highlight.frequency = 1;
+            }
+
+            const line = this.highlight;
+
+            map.removeDynamicItem(line);
+            line.clear();
+
+            if (this.selection == null || !this.getBounds(this.selection, this.min, this.max)) {
+                line.update();
+                return;
+            }
+
+            EntityInspector.drawBox(line, this.min, this.max);
+
+            line.update();
+            map.addDynamicItem(line);
+        }
+
+        private getMaterialNames(result: IPickResult): string[] {
+            const names: string[] = [];
+            const items: WebGame.IDrawListItem[] = [];
+
+            if (result.entity instanceof Entities.BrushEntity) {
+                const leaves = result.entity.model.getLeaves();
+                if (leaves != null) items.push.apply(items, leaves);
+            } else if (result.entity != null) {
+                items.push(result.entity);
+            } else if (result.leaf != null) {
+                items.push(result.leaf);
+            }
+
+            for (let item of items) {
+                const handles = item.getMeshHandles();
+                if (handles == null) continue;
+
+                for (let handle of handles) {
+                    if (handle.material == null) continue;
+
+                    const name = this.viewer.mapMaterialLoader.getMaterialName(handle.material);
+                    if (name != null && names.indexOf(name) === -1) names.push(name);
+                }
+            }
+
+            return names.sort();
+        }
+
+        private static formatVector(vec: Facepunch.IVector3): string {
+            return `${vec.x.toFixed(1)} ${vec.y.toFixed(1)} ${vec.z.toFixed(1)}`;
+        }
+
+        // Rows shown in the side panel for the given pick, as label and value pairs
+        protected onDescribe(result: IPickResult): [string, string][] {
+            const rows: [string, string][] = [];
+            const entity = result.entity;
+            const leaf = result.leaf;
+
+            if (entity != null) {
+                rows.push(["Classname", entity.classname]);
+                if (entity.targetname != null) rows.push(["Targetname", entity.targetname]);
+                rows.push(["Origin", EntityInspector.formatVector(entity.getPosition(this.temp))]);
+                if (entity.angles != null) rows.push(["Angles", EntityInspector.formatVector(entity.angles)]);
+
+                if (entity instanceof Entities.BrushEntity) rows.push(["Model", `*${entity.modelIndex}`]);
+                else if (entity instanceof Entities.StaticProp) rows.push(["Model", entity.modelIndex.toString()]);
+            } else if (leaf != null) {
+                rows.push(["Classname", "worldspawn"]);
+                rows.push(["Leaf", leaf.index.toString()]);
+            }
+
+            let clusters: number[] = null;
+            if (entity instanceof Entities.PvsEntity) clusters = entity.getClusters();
+            else if (leaf != null && leaf.cluster !== undefined) clusters = [leaf.cluster];
+
+            rows.push(["Clusters", clusters == null ? "all" : clusters.join(", ")]);
+            rows.push(["Hit", EntityInspector.formatVector(result.position)]);
+
+            const materials = this.getMaterialNames(result);
+            if (materials.length > 0) rows.push(["Materials", materials.join("\n")]);
+
+            const info = this.viewer.map.getEntityInfo(entity);
+            if (info != null && info.connections != null) {
+                const outputs = info.connections.map(x => `${x.output} → ${x.target}.${x.input}`);
+                rows.push(["Outputs", outputs.join("\n")]);
+            }
+
+            if (entity != null && entity.keyvalues != null) {
+                for (let key of Object.keys(entity.keyvalues).sort()) {
+                    rows.push([key, entity.keyvalues[key]]);
+                }
+            }
+
+            return rows;
+        }
+
+        protected onCreatePanel(): HTMLElement {
+            const panel = document.createElement("div");
+            panel.classList.add("side-panel", "inspector-panel");
+
+            // Clicks on the panel shouldn't pick whatever is behind it
+            panel.addEventListener("mousedown", ev => ev.stopPropagation());
+
+            this.viewer.container.appendChild(panel);
+            return panel;
+        }
+
+        private updatePanel(): void {
+            if (this.selection == null) {
+                if (this.panel != null) this.panel.style.display = "none";
+                return;
+            }
+
+            if (this.panel == null) this.panel = this.onCreatePanel();
+
+            const panel = this.panel;
+            panel.style.display = null;
+            panel.innerHTML = "";
+
+            const close = document.createElement("span");
+            close.classList.add("close");
+            close.innerText = "×";
+            close.addEventListener("click", ev => this.select(null));
+            panel.appendChild(close);
+
+            for (let row of this.onDescribe(this.selection)) {
+                const label = document.createElement("span");
+                label.classList.add("label");
+                label.innerText = `${row[0]}:`;
+
+                const value = document.createElement("span");
+                value.classList.add("value");
+                value.innerText = row[1];
+
+                panel.appendChild(label);
+                panel.appendChild(value);
+                panel.appendChild(document.createElement("br"));
+            }
+        }
+
+        // Forgets the selection when a new map is loaded
+        clear(): void {
+            this.selection = null;
+
+            if (this.highlight != null) {
+                this.viewer.map.removeDynamicItem(this.highlight);
+                this.highlight.dispose();
+                this.highlight = null;
+            }
+
+            this.updatePanel();
+        }
+    }
+}
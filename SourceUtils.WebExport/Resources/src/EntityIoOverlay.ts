@@ -0,0 +1,340 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export enum IoConnectionType {
+        Output,
+        RopeKeyframe
+    }
+
+    export interface IIoConnection {
+        type: IoConnectionType;
+        source: Entities.IEntity;
+        target: Entities.IEntity;
+
+        // Only given for outputs
+        connection?: Entities.IEntityConnection;
+    }
+
+    // Patterns are matched like Map.findEntities, so * stands for any run of characters
+    export interface IIoFilter {
+        // Targetname or classname of either end of a connection
+        entity?: string;
+
+        // Name of the output or the input it fires
+        output?: string;
+    }
+
+    // Draws lines between entities wired together by outputs, or by keyframe_rope nextKey chains,
+    // labelled with the output and input names
+    export class EntityIoOverlay {
+        readonly viewer: MapViewer;
+
+        showOutputs = true;
+        showRopes = false;
+        showLabels = true;
+
+        // Labels drawn at once, nearest to the camera first
+        maxLabels = 48;
+
+        readonly outputColor = new Facepunch.Vector3(0.25, 1, 0.5);
+        readonly ropeColor = new Facepunch.Vector3(0.75, 0.5, 1);
+
+        private enabled = false;
+        private filter: IIoFilter = {};
+        private invalid = true;
+
+        // Options the lines were last built with
+        private builtOutputs: boolean;
+        private builtRopes: boolean;
+
+        private connections: IIoConnection[] = [];
+        private lines: { [type: number]: WebGame.DebugLine } = {};
+
+        private labelContainer: HTMLElement;
+        private labels: HTMLElement[] = [];
+        private readonly midpoints: Facepunch.Vector3[] = [];
+
+        private readonly screenPos = new Facepunch.Vector2();
+        private readonly cameraPos = new Facepunch.Vector3();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        isEnabled(): boolean {
+            return this.enabled;
+        }
+
+        setEnabled(value: boolean): void {
+            if (this.enabled === value) return;
+
+            this.enabled = value;
+            this.invalidate();
+        }
+
+        getFilter(): IIoFilter {
+            return this.filter;
+        }
+
+        setFilter(filter: IIoFilter): void {
+            this.filter = filter || {};
+            this.invalidate();
+        }
+
+        // Rebuilds the lines on the next update, for when entities or options have changed
+        invalidate(): void {
+            this.invalid = true;
+        }
+
+        getConnections(): IIoConnection[] {
+            return this.connections;
+        }
+
+        private static addToIndex(index: { [name: string]: Entities.IEntity[] }, name: string, ent: Entities.IEntity): void {
+            if (name == null) return;
+
+            const key = name.toLowerCase();
+            const list = index[key] || (index[key] = []);
+            list.push(ent);
+        }
+
+        // Entities an output fires at, with !self resolved. Other ! names depend on who fired it,
+        // and names matching no targetname fall back to classnames like the game does.
+        private resolveTargets(source: Entities.IEntity, target: string,
+            byName: { [name: string]: Entities.IEntity[] }, byClass: { [name: string]: Entities.IEntity[] }): Entities.IEntity[] {
+            if (target == null || target.length === 0) return [];
+
+            const lower = target.toLowerCase();
+            if (lower === "!self") return [source];
+            if (lower.charAt(0) === "!") return [];
+
+            if (lower.indexOf("*") !== -1) {
+                const map = this.viewer.map;
+                const named = map.findEntities({ targetname: target });
+
+                return named.length > 0 ? named : map.findEntities({ classname: target });
+            }
+
+            return byName[lower] || byClass[lower] || [];
+        }
+
+        private matchesFilter(conn: IIoConnection, entity: RegExp, output: RegExp): boolean {
+            if (entity != null) {
+                let found = false;
+
+                for (let end of [conn.source, conn.target]) {
+                    if (entity.test(end.classname) || end.targetname != null && entity.test(end.targetname)) {
+                        found = true;
+                        break;
+                    }
+                }
+
+                if (!found) return false;
+            }
+
+            if (output != null) {
+                if (conn.connection == null) return false;
+                if (!output.test(conn.connection.output) && !output.test(conn.connection.input)) return false;
+            }
+
+            return true;
+        }
+
+        private findConnections(): IIoConnection[] {
+            const map = this.viewer.map;
+            const entity = this.filter.entity != null ? Map.createPattern(this.filter.entity) : null;
+            const output = this.filter.output != null ? Map.createPattern(this.filter.output) : null;
+
+            const byName: { [name: string]: Entities.IEntity[] } = {};
+            const byClass: { [name: string]: Entities.IEntity[] } = {};
+
+            for (let ent of map.getEntities()) {
+                EntityIoOverlay.addToIndex(byName, ent.targetname, ent);
+                EntityIoOverlay.addToIndex(byClass, ent.classname, ent);
+            }
+
+            const connections: IIoConnection[] = [];
+
+            for (let ent of map.getEntities()) {
+                if (this.showOutputs && ent.connections != null) {
+                    for (let connection of ent.connections) {
+                        for (let target of this.resolveTargets(ent, connection.target, byName, byClass)) {
+                            const conn: IIoConnection = { type: IoConnectionType.Output, source: ent, target: target, connection: connection };
+                            if (this.matchesFilter(conn, entity, output)) connections.push(conn);
+                        }
+                    }
+                }
+
+                if (this.showRopes && (ent.classname === "keyframe_rope" || ent.classname === "move_rope")) {
+                    // Follows the same links as MoveRope.findKeyframes
+                    const rope = map.getEntityInstance(ent) as Entities.KeyframeRope;
+                    const next = rope != null && rope.nextKey != null ? map.getNamedEntity(rope.nextKey) : null;
+                    const target = map.getEntityInfo(next);
+
+                    if (target == null) continue;
+
+                    const conn: IIoConnection = { type: IoConnectionType.RopeKeyframe, source: ent, target: target };
+                    if (this.matchesFilter(conn, entity, output)) connections.push(conn);
+                }
+            }
+
+            return connections;
+        }
+
+        private getLine(type: IoConnectionType): WebGame.DebugLine {
+            let line = this.lines[type];
+            if (line != null) return line;
+
+            // The dashes flow from the source towards the target
+            const color = type === IoConnectionType.RopeKeyframe ? this.ropeColor : this.outputColor;
+
+            this.lines[type] = line = new WebGame.DebugLine(this.viewer);
+            line.setColor(color, new Facepunch.Vector3(1, 1, 1));
+            line.frequency = 0.5;
+
+            return line;
+        }
+
+        private rebuild(): void {
+            const map = this.viewer.map;
+
+            this.builtOutputs = this.showOutputs;
+            this.builtRopes = this.showRopes;
+
+            this.connections = this.enabled ? this.findConnections() : [];
+            this.midpoints.splice(0, this.midpoints.length);
+
+            for (let type in this.lines) {
+                const line = this.lines[type];
+                map.removeDynamicItem(line);
+                line.clear();
+            }
+
+            const from = new Facepunch.Vector3();
+            const to = new Facepunch.Vector3();
+
+            for (let conn of this.connections) {
+                if (map.getEntityCenter(conn.source, from) == null || map.getEntityCenter(conn.target, to) == null) {
+                    this.midpoints.push(null);
+                    continue;
+                }
+
+                const line = this.getLine(conn.type);
+                line.moveTo(from);
+                line.lineTo(to);
+
+                this.midpoints.push(new Facepunch.Vector3().copy(from).add(to).multiplyScalar(0.5));
+            }
+
+            for (let type in this.lines) {
+                const line = this.lines[type];
+                line.update();
+                map.addDynamicItem(line);
+            }
+        }
+
+        private static getLabelText(conn: IIoConnection): string {
+            if (conn.connection == null) return "nextKey";
+
+            const connection = conn.connection;
+            let text = `${connection.output} → ${connection.input}`;
+
+            if (connection.param != null) text += `(${connection.param})`;
+            if (connection.delay > 0) text += ` +${connection.delay}s`;
+
+            return text;
+        }
+
+        protected onCreateLabelContainer(): HTMLElement {
+            const container = document.createElement("div");
+            container.classList.add("io-labels");
+
+            this.viewer.container.appendChild(container);
+            return container;
+        }
+
+        private getLabel(index: number): HTMLElement {
+            let label = this.labels[index];
+            if (label != null) return label;
+
+            if (this.labelContainer == null) this.labelContainer = this.onCreateLabelContainer();
+
+            this.labels[index] = label = document.createElement("span");
+            label.classList.add("io-label");
+            this.labelContainer.appendChild(label);
+
+            return label;
+        }
+
+        private updateLabels(): void {
+            const viewer = this.viewer;
+            const order: { index: number, distanceSq: number }[] = [];
+
+            if (this.enabled && this.showLabels && viewer.mainCamera != null) {
+                const cameraPos = viewer.mainCamera.getPosition(this.cameraPos);
+
+                for (let i = 0; i < this.midpoints.length; ++i) {
+                    const mid = this.midpoints[i];
+                    if (mid == null) continue;
+
+                    const dx = mid.x - cameraPos.x;
+                    const dy = mid.y - cameraPos.y;
+                    const dz = mid.z - cameraPos.z;
+
+                    order.push({ index: i, distanceSq: dx * dx + dy * dy + dz * dz });
+                }
+
+                order.sort((a, b) => a.distanceSq - b.distanceSq);
+            }
+
+            let shown = 0;
+
+            for (let item of order) {
+                if (shown >= this.maxLabels) break;
+                if (viewer.worldToScreen(this.midpoints[item.index], this.screenPos) == null) continue;
+
+                const label = this.getLabel(shown++);
+                const text = EntityIoOverlay.getLabelText(this.connections[item.index]);
+
+                if (label.innerText !== text) label.innerText = text;
+
+                label.style.display = null;
+                label.style.left = `${Math.round(this.screenPos.x)}px`;
+                label.style.top = `${Math.round(this.screenPos.y)}px`;
+            }
+
+            for (let i = shown; i < this.labels.length; ++i) {
+                this.labels[i].style.display = "none";
+            }
+        }
+
+        // Called each frame after the camera has moved
+        update(): void {
+            if (this.showOutputs !== this.builtOutputs || this.showRopes !== this.builtRopes) {
+                this.invalid = true;
+            }
+
+            if (this.invalid && this.viewer.map.isReady()) {
+                this.invalid = false;
+                this.rebuild();
+            }
+
+            this.updateLabels();
+        }
+
+        // Forgets the old map's connections when a new one is loaded
+        clear(): void {
+            for (let type in this.lines) {
+                this.viewer.map.removeDynamicItem(this.lines[type]);
+                this.lines[type].dispose();
+            }
+
+            this.lines = {};
+            this.connections = [];
+            this.midpoints.splice(0, this.midpoints.length);
+            this.invalid = true;
+
+            this.updateLabels();
+        }
+    }
+}
@@ -0,0 +1,116 @@
+﻿namespace SourceUtils {
+    // Lists the map's entities in a side panel, filtered by classname, targetname or key=value,
+    // flying the camera to whichever one is clicked
+    export class EntityListPanel {
+        readonly viewer: MapViewer;
+        readonly element: HTMLElement;
+
+        // Rows shown at once, since big maps have thousands of entities
+        maxRows = 200;
+
+        private readonly filter: HTMLInputElement;
+        private readonly list: HTMLElement;
+        private readonly status: HTMLElement;
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+
+            this.element = document.createElement("div");
+            this.element.classList.add("side-panel", "entity-list-panel");
+
+            this.filter = document.createElement("input");
+            this.filter.type = "text";
+            this.filter.placeholder = "classname, targetname or key=value";
+            this.filter.classList.add("filter");
+            this.filter.addEventListener("input", ev => this.refresh());
+            this.element.appendChild(this.filter);
+
+            this.status = document.createElement("div");
+            this.status.classList.add("status");
+            this.element.appendChild(this.status);
+
+            this.list = document.createElement("div");
+            this.list.classList.add("list");
+            this.element.appendChild(this.list);
+
+            // Keep typing and scrolling from reaching the viewer's own controls
+            for (let type of ["keydown", "keyup"]) {
+                this.filter.addEventListener(type, ev => ev.stopPropagation());
+            }
+
+            for (let type of ["mousedown", "mousewheel"]) {
+                this.element.addEventListener(type, ev => ev.stopPropagation());
+            }
+
+            viewer.container.appendChild(this.element);
+        }
+
+        setVisible(visible: boolean): void {
+            this.element.style.display = visible ? null : "none";
+        }
+
+        // Entities matching the given filter text, or all of them if it is empty
+        protected onFilter(text: string): Entities.IEntity[] {
+            const map = this.viewer.map;
+
+            text = text.trim();
+            if (text.length === 0) return map.getEntities();
+
+            const split = text.indexOf("=");
+            if (split !== -1) {
+                const key = text.substr(0, split).trim();
+                const value = text.substr(split + 1).trim();
+
+                return map.findEntities({
+                    key: key.length > 0 ? key : undefined,
+                    value: value.length > 0 ? value : undefined
+                });
+            }
+
+            const pattern = `*${text}*`;
+            const byTargetname = map.findEntities({ targetname: pattern });
+
+            return map.findEntities({ classname: pattern })
+                .concat(byTargetname)
+                .filter((ent, index, array) => array.indexOf(ent) === index);
+        }
+
+        refresh(): void {
+            const matches = this.onFilter(this.filter.value);
+
+            this.list.innerHTML = "";
+
+            for (let i = 0, iEnd = Math.min(matches.length, this.maxRows); i < iEnd; ++i) {
+                const ent = matches[i];
+
+                const row = document.createElement("div");
+                row.classList.add("row");
+
+                const classname = document.createElement("span");
+                classname.classList.add("classname");
+                classname.innerText = ent.classname;
+                row.appendChild(classname);
+
+                if (ent.targetname != null) {
+                    const targetname = document.createElement("span");
+                    targetname.classList.add("label");
+                    targetname.innerText = ent.targetname;
+                    row.appendChild(targetname);
+                }
+
+                row.addEventListener("click", ev => this.viewer.flyToEntity(ent));
+                this.list.appendChild(row);
+            }
+
+            this.status.innerText = matches.length > this.maxRows
+                ? `Showing ${this.maxRows} of ${matches.length} entities`
+                : `${matches.length} entities`;
+        }
+
+        dispose(): void {
+            if (this.element.parentElement != null) {
+                this.element.parentElement.removeChild(this.element);
+            }
+        }
+    }
+}
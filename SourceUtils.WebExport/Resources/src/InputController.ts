@@ -0,0 +1,350 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export enum InputAction {
+        MoveForward,
+        MoveBack,
+        MoveLeft,
+        MoveRight,
+        Sprint,
+        Slow,
+        Jump,
+        Duck,
+        ToggleWalk,
+        ToggleFullscreen
+    }
+
+    // Buttons in the standard gamepad mapping
+    export enum GamepadButton {
+        A = 0,
+        B = 1,
+        X = 2,
+        Y = 3,
+        LeftBumper = 4,
+        RightBumper = 5,
+        LeftTrigger = 6,
+        RightTrigger = 7,
+        Back = 8,
+        Start = 9,
+        LeftStick = 10,
+        RightStick = 11,
+        DPadUp = 12,
+        DPadDown = 13,
+        DPadLeft = 14,
+        DPadRight = 15
+    }
+
+    export class InputBindings {
+        private readonly keys: { [action: number]: WebGame.Key[] } = {};
+        private readonly buttons: { [action: number]: GamepadButton[] } = {};
+
+        static createDefault(): InputBindings {
+            const bindings = new InputBindings();
+
+            bindings.bindKey(InputAction.MoveForward, WebGame.Key.W);
+            bindings.bindKey(InputAction.MoveBack, WebGame.Key.S);
+            bindings.bindKey(InputAction.MoveLeft, WebGame.Key.A);
+            bindings.bindKey(InputAction.MoveRight, WebGame.Key.D);
+            bindings.bindKey(InputAction.Sprint, WebGame.Key.Shift);
+            bindings.bindKey(InputAction.Slow, WebGame.Key.Alt);
+            bindings.bindKey(InputAction.Jump, WebGame.Key.Space);
+            bindings.bindKey(InputAction.Duck, WebGame.Key.C);
+            bindings.bindKey(InputAction.ToggleWalk, WebGame.Key.V);
+            bindings.bindKey(InputAction.ToggleFullscreen, WebGame.Key.F);
+
+            bindings.bindButton(InputAction.Sprint, GamepadButton.LeftStick);
+            bindings.bindButton(InputAction.Slow, GamepadButton.LeftBumper);
+            bindings.bindButton(InputAction.Jump, GamepadButton.A);
+            bindings.bindButton(InputAction.Duck, GamepadButton.B);
+            bindings.bindButton(InputAction.ToggleWalk, GamepadButton.Y);
+
+            return bindings;
+        }
+
+        bindKey(action: InputAction, key: WebGame.Key): void {
+            const keys = this.keys[action] || (this.keys[action] = []);
+            if (keys.indexOf(key) === -1) keys.push(key);
+        }
+
+        // Removes the given key from the action, or all of its keys if none is given
+        unbindKey(action: InputAction, key?: WebGame.Key): void {
+            const keys = this.keys[action];
+            if (keys == null) return;
+
+            if (key === undefined) keys.splice(0, keys.length);
+            else if (keys.indexOf(key) !== -1) keys.splice(keys.indexOf(key), 1);
+        }
+
+        getKeys(action: InputAction): WebGame.Key[] {
+            return this.keys[action] || [];
+        }
+
+        getActionsForKey(key: WebGame.Key): InputAction[] {
+            const actions: InputAction[] = [];
+
+            for (let action in this.keys) {
+                if (this.keys[action].indexOf(key) !== -1) actions.push(parseInt(action));
+            }
+
+            return actions;
+        }
+
+        bindButton(action: InputAction, button: GamepadButton): void {
+            const buttons = this.buttons[action] || (this.buttons[action] = []);
+            if (buttons.indexOf(button) === -1) buttons.push(button);
+        }
+
+        unbindButton(action: InputAction, button?: GamepadButton): void {
+            const buttons = this.buttons[action];
+            if (buttons == null) return;
+
+            if (button === undefined) buttons.splice(0, buttons.length);
+            else if (buttons.indexOf(button) !== -1) buttons.splice(buttons.indexOf(button), 1);
+        }
+
+        getButtons(action: InputAction): GamepadButton[] {
+            return this.buttons[action] || [];
+        }
+    }
+
+    // What a two finger touch is being used for, decided by whatever it does first
+    enum TouchGesture {
+        None,
+        Move,
+        Pinch
+    }
+
+    // Gathers keyboard, touch and gamepad input into movement and look amounts for each frame
+    export class InputController {
+        readonly viewer: MapViewer;
+
+        bindings = InputBindings.createDefault();
+
+        enableTouch = true;
+        enableGamepad = true;
+
+        // Radians of look per pixel dragged with one finger
+        touchLookSensitivity = 1 / 400;
+
+        // Pixels from where two fingers started for full speed movement
+        touchMoveRadius = 64;
+
+        // Pixels two fingers must move together, or apart, before they start moving or zooming
+        touchGestureThreshold = 16;
+
+        minFov = 20;
+        maxFov = 110;
+
+        gamepadDeadZone = 0.15;
+
+        // Radians per second of look at full right stick
+        gamepadLookSpeed = 3;
+
+        // Called when an action's key or button is first pressed, returning true if handled
+        actionHandler: (action: InputAction) => boolean;
+
+        // Movement for this frame, from -1 to 1 (x is right, y is forward)
+        readonly move = new Facepunch.Vector2();
+
+        // Look for this frame in radians, with the same signs as mouse look
+        readonly look = new Facepunch.Vector2();
+
+        private readonly touchLook = new Facepunch.Vector2();
+        private readonly touchMove = new Facepunch.Vector2();
+        private readonly touchStart = new Facepunch.Vector2();
+        private readonly lastTouch = new Facepunch.Vector2();
+        private touchStartDistance: number;
+        private touchStartFov: number;
+        private touchCount = 0;
+        private touchGesture = TouchGesture.None;
+
+        private heldButtons: boolean[] = [];
+        private gamepadActions: { [action: number]: boolean } = {};
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        attach(container: HTMLElement): void {
+            container.addEventListener("touchstart", ev => this.onTouchChange(ev as TouchEvent));
+            container.addEventListener("touchend", ev => this.onTouchChange(ev as TouchEvent));
+            container.addEventListener("touchcancel", ev => this.onTouchChange(ev as TouchEvent));
+            container.addEventListener("touchmove", ev => this.onTouchMove(ev as TouchEvent));
+        }
+
+        private static getCentroid(touches: TouchList, out: Facepunch.Vector2): Facepunch.Vector2 {
+            if (touches.length === 1) return out.set(touches[0].pageX, touches[0].pageY);
+
+            return out.set((touches[0].pageX + touches[1].pageX) * 0.5, (touches[0].pageY + touches[1].pageY) * 0.5);
+        }
+
+        private static getDistance(touches: TouchList): number {
+            const dx = touches[1].pageX - touches[0].pageX;
+            const dy = touches[1].pageY - touches[0].pageY;
+            return Math.sqrt(dx * dx + dy * dy);
+        }
+
+        // Touches on the side panels and other overlays are left alone, so they can still
+        // scroll and take focus. Only touches that started on the canvas are counted.
+        private isCanvasTouch(ev: TouchEvent): boolean {
+            return ev.target === this.viewer.canvas;
+        }
+
+        private onTouchChange(ev: TouchEvent): void {
+            if (!this.enableTouch || !this.isCanvasTouch(ev)) return;
+
+            const touches = ev.targetTouches;
+            this.touchCount = touches.length;
+            this.touchMove.set(0, 0);
+            this.touchGesture = TouchGesture.None;
+
+            if (touches.length === 0) return;
+
+            InputController.getCentroid(touches, this.touchStart);
+            this.lastTouch.copy(this.touchStart);
+
+            if (touches.length >= 2) {
+                this.touchStartDistance = InputController.getDistance(touches);
+                this.touchStartFov = this.viewer.mainCamera.getFov();
+            }
+
+            // A single finger might just be a tap, which still needs to become a click for picking
+            if (touches.length >= 2 && this.viewer.cameraMode !== CameraMode.Fixed) ev.preventDefault();
+        }
+
+        private readonly onTouchMove_temp = new Facepunch.Vector2();
+
+        private onTouchMove(ev: TouchEvent): void {
+            if (!this.enableTouch || this.viewer.cameraMode === CameraMode.Fixed || !this.isCanvasTouch(ev)) return;
+
+            ev.preventDefault();
+
+            const touches = ev.targetTouches;
+            const pos = InputController.getCentroid(touches, this.onTouchMove_temp);
+
+            if (touches.length === 1) {
+                this.touchLook.x += (pos.x - this.lastTouch.x) * this.touchLookSensitivity;
+                this.touchLook.y += (pos.y - this.lastTouch.y) * this.touchLookSensitivity;
+                this.lastTouch.copy(pos);
+                return;
+            }
+
+            // Two fingers either act as a joystick around where they started or pinch to zoom,
+            // but not both, so zooming doesn't drift the camera
+            const distance = InputController.getDistance(touches);
+
+            if (this.touchGesture === TouchGesture.None) {
+                const threshold = this.touchGestureThreshold;
+                const dx = pos.x - this.touchStart.x;
+                const dy = pos.y - this.touchStart.y;
+
+                if (Math.abs(distance - this.touchStartDistance) > threshold) this.touchGesture = TouchGesture.Pinch;
+                else if (dx * dx + dy * dy > threshold * threshold) this.touchGesture = TouchGesture.Move;
+            }
+
+            if (this.touchGesture === TouchGesture.Move) {
+                const radius = this.touchMoveRadius;
+                this.touchMove.set(
+                    Math.max(-1, Math.min(1, (pos.x - this.touchStart.x) / radius)),
+                    Math.max(-1, Math.min(1, (this.touchStart.y - pos.y) / radius)));
+            } else if (this.touchGesture === TouchGesture.Pinch && this.touchStartDistance > 0 && distance > 0) {
+                const fov = this.touchStartFov * this.touchStartDistance / distance;
+                this.viewer.mainCamera.setFov(Math.max(this.minFov, Math.min(this.maxFov, fov)));
+            }
+        }
+
+        private isKeyActionDown(action: InputAction): boolean {
+            for (let key of this.bindings.getKeys(action)) {
+                if (this.viewer.isKeyDown(key)) return true;
+            }
+
+            return false;
+        }
+
+        // Keyboard movement needs pointer lock, like mouse look
+        isActionDown(action: InputAction): boolean {
+            return this.viewer.isPointerLocked() && this.isKeyActionDown(action) || this.gamepadActions[action] === true;
+        }
+
+        private applyDeadZone(value: number): number {
+            const deadZone = this.gamepadDeadZone;
+            if (Math.abs(value) <= deadZone) return 0;
+            return (value - (value > 0 ? deadZone : -deadZone)) / (1 - deadZone);
+        }
+
+        private getGamepad(): Gamepad {
+            if (!this.enableGamepad || navigator.getGamepads == null) return null;
+
+            const gamepads = navigator.getGamepads();
+            for (let i = 0; i < gamepads.length; ++i) {
+                if (gamepads[i] != null && gamepads[i].connected) return gamepads[i];
+            }
+
+            return null;
+        }
+
+        private updateGamepad(dt: number): void {
+            const gamepad = this.getGamepad();
+
+            this.gamepadActions = {};
+            if (gamepad == null) {
+                this.heldButtons = [];
+                return;
+            }
+
+            if (gamepad.axes.length >= 4) {
+                this.move.x += this.applyDeadZone(gamepad.axes[0]);
+                this.move.y -= this.applyDeadZone(gamepad.axes[1]);
+                this.look.x += this.applyDeadZone(gamepad.axes[2]) * this.gamepadLookSpeed * dt;
+                this.look.y += this.applyDeadZone(gamepad.axes[3]) * this.gamepadLookSpeed * dt;
+            }
+
+            const held: boolean[] = [];
+            for (let i = 0; i < gamepad.buttons.length; ++i) {
+                held[i] = gamepad.buttons[i].pressed;
+            }
+
+            for (let action = InputAction.MoveForward; action <= InputAction.ToggleFullscreen; ++action) {
+                for (let button of this.bindings.getButtons(action)) {
+                    if (!held[button]) continue;
+
+                    this.gamepadActions[action] = true;
+
+                    if (!this.heldButtons[button] && this.actionHandler != null) {
+                        this.actionHandler(action);
+                    }
+                }
+            }
+
+            this.heldButtons = held;
+        }
+
+        onKeyDown(key: WebGame.Key): boolean {
+            let handled = false;
+
+            for (let action of this.bindings.getActionsForKey(key)) {
+                if (this.actionHandler != null && this.actionHandler(action)) handled = true;
+            }
+
+            return handled;
+        }
+
+        update(dt: number): void {
+            this.move.set(0, 0);
+            this.look.copy(this.touchLook);
+            this.touchLook.set(0, 0);
+
+            this.updateGamepad(dt);
+
+            if (this.isActionDown(InputAction.MoveForward)) this.move.y += 1;
+            if (this.isActionDown(InputAction.MoveBack)) this.move.y -= 1;
+            if (this.isActionDown(InputAction.MoveRight)) this.move.x += 1;
+            if (this.isActionDown(InputAction.MoveLeft)) this.move.x -= 1;
+
+            if (this.touchCount >= 2) this.move.add(this.touchMove);
+
+            const lengthSq = this.move.x * this.move.x + this.move.y * this.move.y;
+            if (lengthSq > 1) this.move.multiplyScalar(1 / Math.sqrt(lengthSq));
+        }
+    }
+}
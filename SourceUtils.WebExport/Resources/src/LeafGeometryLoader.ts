@@ -10,7 +10,9 @@ namespace SourceUtils {
 
     export interface IMaterialGroup {
         material: number;
-        meshData: WebGame.ICompressedMeshData;
+
+        // PageDecoders gives typed arrays whichever format the page was in
+        meshData: IBinaryMeshData;
     }
 
     export interface ILeafGeometryPage {
@@ -30,6 +32,10 @@ namespace SourceUtils {
             this.viewer = viewer;
         }
 
+        getDecoder(): string {
+            return "meshes";
+        }
+
         onLoadValues(page: ILeafGeometryPage): void {
             this.matGroups = new Array<WebGame.MeshHandle[]>(page.materials.length);
             this.leafFaces = page.leaves;
@@ -37,8 +43,8 @@ namespace SourceUtils {
             for (let i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
                 const matGroup = page.materials[i];
                 const mat = this.viewer.mapMaterialLoader.loadMaterial(matGroup.material);
-                const data = WebGame.MeshManager.decompress(matGroup.meshData);
-                this.matGroups[i] = this.viewer.meshes.addMeshData(data, index => mat);
+                const data = BinaryPage.toMeshData(matGroup.meshData);
+                this.matGroups[i] = this.viewer.meshes.addMeshData(BinaryPage.asMeshData(data), index => mat);
             }
 
             super.onLoadValues(page);
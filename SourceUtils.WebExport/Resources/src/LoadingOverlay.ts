@@ -0,0 +1,126 @@
+﻿namespace SourceUtils {
+    export interface ILoadCategoryProgress {
+        progress: number;
+
+        // Not known for the lightmap, which is loaded as images rather than pages
+        bytesLoaded?: number;
+
+        failedPages: number;
+    }
+
+    export interface ILoadCategories {
+        vis: ILoadCategoryProgress;
+        bsp: ILoadCategoryProgress;
+        lightmap: ILoadCategoryProgress;
+        materials: ILoadCategoryProgress;
+        geometry: ILoadCategoryProgress;
+        props: ILoadCategoryProgress;
+    }
+
+    export interface ILoadProgress {
+        total: number;
+        bytesLoaded: number;
+        failedPages: number;
+        categories: ILoadCategories;
+    }
+
+    // Anything shown by MapViewer while a map is loading
+    export interface ILoadingOverlay {
+        setVisible(visible: boolean): void;
+        update(progress: ILoadProgress): void;
+        dispose(): void;
+    }
+
+    export class LoadingOverlay implements ILoadingOverlay {
+        static readonly categoryLabels: Record<keyof ILoadCategories, string> = {
+            vis: "Visibility",
+            bsp: "Brush models",
+            lightmap: "Lightmap",
+            materials: "Materials",
+            geometry: "Geometry",
+            props: "Props"
+        };
+
+        readonly element: HTMLElement;
+
+        private readonly bars: { [category: string]: HTMLElement } = {};
+        private readonly totalBar: HTMLElement;
+        private readonly status: HTMLElement;
+
+        constructor(container: HTMLElement) {
+            this.element = document.createElement("div");
+            this.element.classList.add("loading-overlay");
+
+            const title = document.createElement("div");
+            title.classList.add("title");
+            title.innerText = "Loading map";
+            this.element.appendChild(title);
+
+            this.totalBar = this.addBar(this.element, "total");
+
+            this.status = document.createElement("div");
+            this.status.classList.add("status");
+            this.element.appendChild(this.status);
+
+            for (let category of LoadingOverlay.getCategories()) {
+                const row = document.createElement("div");
+                row.classList.add("category");
+
+                const label = document.createElement("span");
+                label.classList.add("label");
+                label.innerText = LoadingOverlay.categoryLabels[category];
+                row.appendChild(label);
+
+                this.bars[category] = this.addBar(row, category);
+                this.element.appendChild(row);
+            }
+
+            container.appendChild(this.element);
+        }
+
+        private static getCategories(): (keyof ILoadCategories)[] {
+            return Object.keys(LoadingOverlay.categoryLabels) as (keyof ILoadCategories)[];
+        }
+
+        private addBar(parent: HTMLElement, name: string): HTMLElement {
+            const bar = document.createElement("div");
+            bar.classList.add("bar", `bar-${name}`);
+
+            const fill = document.createElement("div");
+            fill.classList.add("fill");
+            bar.appendChild(fill);
+
+            parent.appendChild(bar);
+            return fill;
+        }
+
+        private static formatBytes(bytes: number): string {
+            if (bytes < 1024) return `${bytes} B`;
+            if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+            return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        }
+
+        setVisible(visible: boolean): void {
+            this.element.style.display = visible ? null : "none";
+        }
+
+        update(progress: ILoadProgress): void {
+            this.totalBar.style.width = `${Math.min(progress.total, 1) * 100}%`;
+
+            let status = `${Math.floor(progress.total * 100)}% (${LoadingOverlay.formatBytes(progress.bytesLoaded)})`;
+            if (progress.failedPages > 0) status += `, ${progress.failedPages} failed`;
+            this.status.innerText = status;
+
+            for (let category of LoadingOverlay.getCategories()) {
+                const value = progress.categories[category];
+                this.bars[category].style.width = `${value == null ? 0 : Math.min(value.progress, 1) * 100}%`;
+            }
+        }
+
+        dispose(): void {
+            if (this.element.parentElement != null) {
+                this.element.parentElement.removeChild(this.element);
+            }
+        }
+    }
+}
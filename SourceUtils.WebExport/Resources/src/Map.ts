@@ -7,10 +7,28 @@ namespace SourceUtils {
         first: number;
         count: number;
         url: string;
+        format?: PageFormat | string;
+    }
+
+    // Viewpoint from a point_viewcontrol or similar entity, with angles as in the entity lump
+    export interface INamedView {
+        origin: Facepunch.IVector3;
+        angles: Facepunch.IVector3;
+        fov?: number;
+    }
+
+    // Matched case insensitively, with * standing for any run of characters.
+    // A value without a key matches any keyvalue, which needs --entity-keyvalues.
+    export interface IEntityQuery {
+        classname?: string;
+        targetname?: string;
+        key?: string;
+        value?: string;
     }
 
     export interface IMap {
         name: string;
+        version?: string;
         lightmapUrl: string;
         visPages: IPageInfo[];
         leafPages: IPageInfo[];
@@ -21,6 +39,7 @@ namespace SourceUtils {
         vertLightingPages: IPageInfo[];
         ambientPages: IPageInfo[];
         entities: Entities.IEntity[];
+        views?: { [name: string]: INamedView };
     }
 
     export class Map implements WebGame.ICommandBufferParameterProvider {
@@ -29,24 +48,46 @@ namespace SourceUtils {
         readonly viewer: MapViewer;
 
         skyCamera: Entities.SkyCamera;
+        lightEnvironment: Entities.LightEnvironment;
+
+        // Called if the map's index can't be loaded, since nothing else can be loaded without it
+        indexFailedHandler: (error: IPageLoadError) => void;
 
         private tSpawns: Entities.IEntity[];
         private ctSpawns: Entities.IEntity[];
         private playerSpawns: Entities.IEntity[];
+        private bombTargets: Entities.IBombTarget[];
 
         private namedEntities: { [targetname: string]: Entities.Entity } = {};
 
         private worldspawn: Entities.Worldspawn;
-        private pvsEntities: Entities.PvsEntity[];
+        private pvsEntities: Entities.PvsEntity[] = [];
+
+        // Created entity for each of info.entities, or null for ones only kept as info
+        private entityInstances: Entities.Entity[] = [];
 
         private lightmap: WebGame.TextureLoadable;
         private skyCube: SkyCube;
 
         private info: IMap;
-        private clusterVis: { [cluster: number]: number[] } = {};
+        private loadingUrl: string;
+        private clusterVis: { [cluster: number]: Uint32Array } = {};
         private clusterEnts: { [cluster: number]: Entities.PvsEntity[] } = {};
 
+        // Clusters potentially visible from each cluster, built from clusterVis when first needed
+        private visibleClusterSets: { [cluster: number]: { [cluster: number]: boolean } } = {};
+
         private worldspawnLoadedCallbacks: (() => void)[] = [];
+        private activeRopes: Entities.MoveRope[] = [];
+
+        // Items added from outside the map, drawn regardless of visibility
+        private dynamicItems: WebGame.IDrawListItem[] = [];
+
+        // Map indexes are cached without a version, since the version is read from them
+        private static readonly indexCacheScope: IMapCacheScope = { map: "index", version: "latest" };
+
+        private cacheScope: IMapCacheScope;
+        private lightmapObjectUrls: string[] = [];
 
         constructor(viewer: MapViewer) {
             this.viewer = viewer;
@@ -57,23 +98,318 @@ namespace SourceUtils {
         }
 
         unload(): void {
-            throw new Error("Map unloading not implemented.");
+            const viewer = this.viewer;
+
+            viewer.visLoader.clear();
+            viewer.leafGeometryLoader.clear();
+            viewer.dispGeometryLoader.clear();
+            viewer.mapMaterialLoader.clear();
+            viewer.bspModelLoader.clear();
+            viewer.studioModelLoader.clear();
+            viewer.vertLightingLoader.clear();
+            viewer.ambientLoader.clear();
+            viewer.mapTextureLoader.clear();
+
+            viewer.meshes.dispose();
+
+            for (let ent of this.pvsEntities) {
+                if (ent instanceof Entities.MoveRope) ent.dispose();
+            }
+
+            if (this.skyCamera != null) {
+                this.skyCamera.dispose();
+                this.skyCamera = null;
+            }
+
+            this.lightEnvironment = null;
+
+            for (let url of this.lightmapObjectUrls) {
+                URL.revokeObjectURL(url);
+            }
+
+            this.lightmapObjectUrls = [];
+            this.cacheScope = null;
+            viewer.setPageCacheScope(null);
+
+            this.info = null;
+            this.lightmap = null;
+            this.skyCube = null;
+            this.worldspawn = null;
+
+            this.tSpawns = [];
+            this.ctSpawns = [];
+            this.playerSpawns = [];
+            this.bombTargets = [];
+
+            this.namedEntities = {};
+            this.pvsEntities = [];
+            this.entityInstances = [];
+            this.clusterVis = {};
+            this.clusterEnts = {};
+            this.visibleClusterSets = {};
+
+            this.worldspawnLoadedCallbacks = [];
+            this.activeRopes = [];
+            this.dynamicItems = [];
+
+            const fog = viewer.mainCamera.fog;
+            fog.color.set(0, 0, 0);
+            fog.start = 0;
+            fog.end = 8192;
+            fog.maxDensity = 0;
+
+            viewer.mainCamera.setFar(8192);
+            viewer.forceDrawListInvalidation(true);
         }
 
         load(url: string): void {
-            Facepunch.Http.getJson<IMap>(url, info => {
-                this.onLoad(info);
+            if (this.info != null) this.unload();
+
+            this.loadingUrl = url;
+
+            const onIndexFailed = (error: any) => {
+                if (this.loadingUrl !== url) return;
+                this.onIndexFailed(url, error);
+            };
+
+            if (!this.viewer.useOfflineCache || !MapCache.isSupported()) {
+                Facepunch.Http.getJson<IMap>(url, info => {
+                    if (this.loadingUrl !== url) return;
+                    this.onLoad(info, null, null);
+                }, onIndexFailed);
+                return;
+            }
+
+            this.loadIndex(url, info => {
+                if (this.loadingUrl !== url) return;
+
+                if (info.version == null) {
+                    this.onLoad(info, null, null);
+                    return;
+                }
+
+                const scope: IMapCacheScope = { map: info.name, version: String(info.version) };
+
+                // Drop anything cached from older exports of this map
+                MapCache.clearMap(scope.map, scope.version);
+
+                this.loadCachedLightmap(scope, info.lightmapUrl, lightmapInfo => {
+                    if (this.loadingUrl !== url) return;
+                    this.onLoad(info, scope, lightmapInfo);
+                });
+            }, onIndexFailed);
+        }
+
+        private onIndexFailed(url: string, error: any): void {
+            this.loadingUrl = null;
+
+            if (this.indexFailedHandler == null) return;
+
+            this.indexFailedHandler({
+                loader: "index",
+                url: url,
+                first: 0,
+                count: 1,
+                attempts: 1,
+                error: error
+            });
+        }
+
+        // Prefers a fresh index, so a new export is noticed, but falls back to the cache when offline
+        private loadIndex(url: string, success: (info: IMap) => void, failure: (error: Error) => void): void {
+            const scope = Map.indexCacheScope;
+
+            MapCache.fetch(url, PageFormat.Json, text => {
+                MapCache.put(scope, url, text);
+                success(JSON.parse(text as string));
+            }, error => {
+                MapCache.get<string>(scope, url, cached => {
+                    if (cached === undefined) failure(error);
+                    else success(JSON.parse(cached));
+                });
+            });
+        }
+
+        private cacheLightmap(scope: IMapCacheScope, url: string, callback?: (success: boolean) => void): void {
+            MapCache.fetch(url, PageFormat.Json, text => {
+                const info = JSON.parse(text as string) as WebGame.ITextureInfo;
+                const elements = info.elements.filter(x => x.url != null);
+                let remaining = elements.length;
+                let success = true;
+
+                const onElementDone = () => {
+                    if (--remaining > 0) return;
+                    if (!success) {
+                        if (callback != null) callback(false);
+                        return;
+                    }
+
+                    // Only store the info once all of its images are in place
+                    MapCache.put(scope, url, text, callback);
+                };
+
+                if (remaining === 0) {
+                    ++remaining;
+                    onElementDone();
+                    return;
+                }
+
+                for (let element of elements) {
+                    MapCache.fetchBlob(element.url, blob => MapCache.put(scope, element.url, blob, stored => {
+                        success = success && stored;
+                        onElementDone();
+                    }), error => {
+                        success = false;
+                        onElementDone();
+                    });
+                }
+            }, error => {
+                if (callback != null) callback(false);
+            });
+        }
+
+        // Gives the cached lightmap with its images replaced by object URLs, or
+        // null if it isn't cached yet, in which case it gets cached for next time
+        private loadCachedLightmap(scope: IMapCacheScope, url: string, callback: (info: WebGame.ITextureInfo) => void): void {
+            MapCache.get<string>(scope, url, text => {
+                if (text === undefined) {
+                    this.cacheLightmap(scope, url);
+                    callback(null);
+                    return;
+                }
+
+                const info = JSON.parse(text) as WebGame.ITextureInfo;
+                const elements = info.elements.filter(x => x.url != null);
+                const objectUrls: string[] = [];
+                let remaining = elements.length;
+                let missing = false;
+
+                info.path = url;
+
+                const onElementDone = () => {
+                    if (--remaining > 0) return;
+
+                    if (missing) {
+                        for (let objectUrl of objectUrls) URL.revokeObjectURL(objectUrl);
+                        this.cacheLightmap(scope, url);
+                        callback(null);
+                        return;
+                    }
+
+                    for (let objectUrl of objectUrls) this.lightmapObjectUrls.push(objectUrl);
+                    callback(info);
+                };
+
+                if (remaining === 0) {
+                    ++remaining;
+                    onElementDone();
+                    return;
+                }
+
+                for (let element of elements) {
+                    MapCache.get<Blob>(scope, element.url, blob => {
+                        if (blob === undefined) {
+                            missing = true;
+                        } else {
+                            element.url = URL.createObjectURL(blob);
+                            objectUrls.push(element.url);
+                        }
+
+                        onElementDone();
+                    });
+                }
             });
         }
 
+        // Stores every page of the loaded map in the MapCache, so it can be viewed offline.
+        // Needs useOfflineCache to have been enabled when the map was loaded.
+        downloadForOffline(progress?: (completed: number, total: number) => void, complete?: (failed: number) => void): void {
+            if (this.info == null || this.cacheScope == null) {
+                throw new Error("Offline caching needs a loaded map with a version, and useOfflineCache enabled.");
+            }
+
+            const info = this.info;
+            const scope = this.cacheScope;
+            const pages = info.visPages.concat(info.leafPages, info.dispPages, info.materialPages,
+                info.brushModelPages, info.studioModelPages, info.vertLightingPages, info.ambientPages)
+                .filter(x => x.url != null);
+
+            // One extra task for the lightmap
+            const total = pages.length + 1;
+            const maxActive = 4;
+
+            let next = 0;
+            let completed = 0;
+            let failed = 0;
+
+            const onTaskDone = (success: boolean) => {
+                if (!success) ++failed;
+                ++completed;
+
+                if (progress != null) progress(completed, total);
+
+                if (completed === total) {
+                    if (complete != null) complete(failed);
+                    return;
+                }
+
+                startNext();
+            };
+
+            const startNext = () => {
+                if (next >= pages.length) return;
+
+                const page = pages[next++];
+                const format = BinaryPage.getFormat(page);
+
+                MapCache.has(scope, page.url, cached => {
+                    if (cached) {
+                        onTaskDone(true);
+                        return;
+                    }
+
+                    MapCache.fetch(page.url, format,
+                        data => MapCache.put(scope, page.url, data, onTaskDone),
+                        error => onTaskDone(false));
+                });
+            };
+
+            MapCache.has(scope, info.lightmapUrl, cached => {
+                if (cached) onTaskDone(true);
+                else this.cacheLightmap(scope, info.lightmapUrl, onTaskDone);
+            });
+
+            for (let i = 0; i < maxActive; ++i) {
+                startNext();
+            }
+        }
+
+        addDynamicItem(item: WebGame.IDrawListItem): void {
+            if (this.dynamicItems.indexOf(item) !== -1) return;
+
+            this.dynamicItems.push(item);
+            this.viewer.forceDrawListInvalidation(true);
+        }
+
+        removeDynamicItem(item: WebGame.IDrawListItem): void {
+            const index = this.dynamicItems.indexOf(item);
+            if (index === -1) return;
+
+            this.dynamicItems.splice(index, 1);
+            this.viewer.forceDrawListInvalidation(true);
+        }
+
         getLightmapLoadProgress(): number {
             return this.lightmap == null ? 0 : this.lightmap.getLoadProgress();
         }
 
-        private onLoad(info: IMap): void {
+        private onLoad(info: IMap, cacheScope: IMapCacheScope, lightmapInfo: WebGame.ITextureInfo): void {
             if (this.info != null) this.unload();
 
             this.info = info;
+            this.cacheScope = cacheScope;
+            this.viewer.setPageCacheScope(cacheScope);
+
             this.viewer.visLoader.setPageLayout(info.visPages);
             this.viewer.leafGeometryLoader.setPageLayout(info.leafPages);
             this.viewer.dispGeometryLoader.setPageLayout(info.dispPages);
@@ -83,13 +419,17 @@ namespace SourceUtils {
             this.viewer.vertLightingLoader.setPageLayout(info.vertLightingPages);
             this.viewer.ambientLoader.setPageLayout(info.ambientPages);
 
-            this.lightmap = this.viewer.textureLoader.load(info.lightmapUrl);
+            this.lightmap = lightmapInfo != null
+                ? this.viewer.mapTextureLoader.loadFromInfo(lightmapInfo)
+                : this.viewer.mapTextureLoader.load(info.lightmapUrl);
 
             this.tSpawns = [];
             this.ctSpawns = [];
             this.playerSpawns = [];
+            this.bombTargets = [];
 
             this.pvsEntities = [];
+            this.entityInstances = [];
             for (let i = 0, iEnd = info.entities.length; i < iEnd; ++i) {
                 const ent = info.entities[i];
                 let inst: Entities.Entity = null;
@@ -98,12 +438,11 @@ namespace SourceUtils {
                 switch (ent.classname) {
                     case "worldspawn":
                         const worldspawn = ent as Entities.IWorldspawn;
-                        this.worldspawn = new Entities.Worldspawn(this, worldspawn);
+                        inst = this.worldspawn = new Entities.Worldspawn(this, worldspawn);
                         this.lightmap.addUsage(this.worldspawn);
 
                         if (worldspawn.skyMaterial != null) {
-                            const skyMat = new WebGame.MaterialLoadable(this.viewer);
-                            skyMat.loadFromInfo(worldspawn.skyMaterial);
+                            const skyMat = this.viewer.mapMaterialLoader.loadMaterialFromInfo(worldspawn.skyMaterial);
                             this.skyCube = new SkyCube(this.viewer, skyMat);
                         }
 
@@ -128,6 +467,9 @@ namespace SourceUtils {
                     case "info_player_start":
                         this.playerSpawns.push(ent);
                         break;
+                    case "func_bomb_target":
+                        this.bombTargets.push(ent);
+                        break;
                     case "displacement":
                         pvsInst = new Entities.Displacement(this, ent as Entities.IDisplacement);
                         break;
@@ -141,6 +483,9 @@ namespace SourceUtils {
                     case "sky_camera":
                         this.skyCamera = new Entities.SkyCamera(this.viewer, ent as Entities.ISkyCamera);
                         break;
+                    case "light_environment":
+                        inst = this.lightEnvironment = new Entities.LightEnvironment(this, ent as Entities.ILightEnvironment);
+                        break;
                     case "keyframe_rope":
                         inst = new Entities.KeyframeRope(this, ent as Entities.IKeyframeRope);
                         break;
@@ -155,20 +500,135 @@ namespace SourceUtils {
                 if (pvsInst != null) {
                     this.pvsEntities.push(pvsInst);
                 }
+
+                this.entityInstances.push(pvsInst || inst);
             }
 
             const pos = new Facepunch.Vector3();
+            const spawn = this.getSpawnPoint();
 
-            if (this.viewer.mainCamera.getPosition(pos).x === 0 && pos.y === 0 && pos.z === 0) {
-                const spawn = this.tSpawns[0] || this.ctSpawns[0] || this.playerSpawns[0];
-                this.viewer.mainCamera.setPosition(spawn.origin);
-                this.viewer.mainCamera.translate(0, 0, 64);
-                this.viewer.setCameraAngles((spawn.angles.y - 90) * Math.PI / 180, spawn.angles.x * Math.PI / 180);
+            // Maps without spawns leave the camera where it is
+            if (spawn != null && this.viewer.mainCamera.getPosition(pos).x === 0 && pos.y === 0 && pos.z === 0) {
+                this.viewer.teleportToSpawn(spawn);
             }
 
             this.viewer.forceDrawListInvalidation(true);
         }
 
+        getSpawnPoint(): Entities.IEntity {
+            if (this.tSpawns == null) return null;
+            return this.tSpawns[0] || this.ctSpawns[0] || this.playerSpawns[0] || null;
+        }
+
+        getTSpawns(): Entities.IEntity[] {
+            return this.tSpawns || [];
+        }
+
+        getCtSpawns(): Entities.IEntity[] {
+            return this.ctSpawns || [];
+        }
+
+        getPlayerSpawns(): Entities.IEntity[] {
+            return this.playerSpawns || [];
+        }
+
+        getBombTargets(): Entities.IBombTarget[] {
+            return this.bombTargets || [];
+        }
+
+        // Bounds of the world model, returning false if it hasn't loaded yet
+        getWorldBounds(min: Facepunch.IVector3, max: Facepunch.IVector3): boolean {
+            if (this.worldspawn == null || this.worldspawn.model == null) return false;
+            return this.worldspawn.model.getBounds(min, max);
+        }
+
+        getEntities(): Entities.IEntity[] {
+            return this.info == null ? [] : this.info.entities;
+        }
+
+        // The entity created for the given info, or null if it wasn't given one
+        getEntityInstance(info: Entities.IEntity): Entities.Entity {
+            if (this.info == null) return null;
+
+            const index = this.info.entities.indexOf(info);
+            return index === -1 ? null : this.entityInstances[index] || null;
+        }
+
+        // Centre of the entity's bounds if they are known, otherwise its origin.
+        // Returns null if it has neither.
+        getEntityCenter(info: Entities.IEntity, out: Facepunch.Vector3): Facepunch.Vector3 {
+            const inst = this.getEntityInstance(info);
+            const min = Map.getEntityCenter_min;
+            const max = Map.getEntityCenter_max;
+
+            if (inst != null && inst.getBounds(min, max)) {
+                return out.copy(min).add(max).multiplyScalar(0.5);
+            }
+
+            if (info.origin != null) return out.copy(info.origin);
+
+            const target = info as Entities.IBombTarget;
+            if (target.min != null && target.max != null) {
+                return out.copy(target.min).add(target.max).multiplyScalar(0.5);
+            }
+
+            return null;
+        }
+
+        private static readonly getEntityCenter_min = new Facepunch.Vector3();
+        private static readonly getEntityCenter_max = new Facepunch.Vector3();
+
+        // The info the given entity was created from, or null if it was added later
+        getEntityInfo(entity: Entities.Entity): Entities.IEntity {
+            if (this.info == null || entity == null) return null;
+
+            const index = this.entityInstances.indexOf(entity);
+            return index === -1 ? null : this.info.entities[index];
+        }
+
+        // Matches whole strings case insensitively, with * standing for any run of characters
+        static createPattern(pattern: string): RegExp {
+            const escaped = pattern.split("*")
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+                .join(".*");
+
+            return new RegExp(`^${escaped}$`, "i");
+        }
+
+        // Entities matching every part of the query that was given
+        findEntities(query: IEntityQuery): Entities.IEntity[] {
+            const classname = query.classname != null ? Map.createPattern(query.classname) : null;
+            const targetname = query.targetname != null ? Map.createPattern(query.targetname) : null;
+            const key = query.key != null ? Map.createPattern(query.key) : null;
+            const value = query.value != null ? Map.createPattern(query.value) : null;
+
+            const matches: Entities.IEntity[] = [];
+
+            for (let ent of this.getEntities()) {
+                if (classname != null && !classname.test(ent.classname)) continue;
+                if (targetname != null && (ent.targetname == null || !targetname.test(ent.targetname))) continue;
+
+                if (key != null || value != null) {
+                    if (ent.keyvalues == null) continue;
+
+                    let found = false;
+                    for (let name in ent.keyvalues) {
+                        if (key != null && !key.test(name)) continue;
+                        if (value != null && !value.test(ent.keyvalues[name])) continue;
+
+                        found = true;
+                        break;
+                    }
+
+                    if (!found) continue;
+                }
+
+                matches.push(ent);
+            }
+
+            return matches;
+        }
+
         addNamedEntity(targetname: string, entity: Entities.Entity): void {
             this.namedEntities[targetname] = entity;
         }
@@ -177,6 +637,20 @@ namespace SourceUtils {
             return this.namedEntities[targetname];
         }
 
+        getNamedView(name: string): INamedView {
+            if (this.info == null || this.info.views == null) return undefined;
+            return this.info.views[name];
+        }
+
+        getNamedViewNames(): string[] {
+            if (this.info == null || this.info.views == null) return [];
+            return Object.keys(this.info.views);
+        }
+
+        getPvsEntities(): Entities.PvsEntity[] {
+            return this.pvsEntities;
+        }
+
         addPvsEntity(entity: Entities.PvsEntity): void {
             this.pvsEntities.push(entity);
             this.clusterEnts = {};
@@ -228,6 +702,91 @@ namespace SourceUtils {
 
                 this.worldspawnLoadedCallbacks = [];
             }
+
+            if (this.viewer.simulateRopes && !this.viewer.freezeRopes) {
+                for (let rope of this.activeRopes) {
+                    rope.simulate(dt);
+                }
+            }
+        }
+
+        addActiveRope(rope: Entities.MoveRope): void {
+            this.activeRopes.push(rope);
+        }
+
+        removeActiveRope(rope: Entities.MoveRope): void {
+            const index = this.activeRopes.indexOf(rope);
+            if (index !== -1) this.activeRopes.splice(index, 1);
+        }
+
+        private readonly trace_result = new TraceResult();
+        private readonly trace_origin = new Facepunch.Vector3();
+        private readonly trace_start = new Facepunch.Vector3();
+        private readonly trace_end = new Facepunch.Vector3();
+
+        trace(start: Facepunch.IVector3, end: Facepunch.IVector3, mask: number = TraceMask.All, result?: TraceResult): TraceResult {
+            return this.traceBox(start, end, null, mask, result);
+        }
+
+        traceBox(start: Facepunch.IVector3, end: Facepunch.IVector3, extents: Facepunch.IVector3, mask: number = TraceMask.All, result?: TraceResult): TraceResult {
+            if (result == null) result = new TraceResult();
+
+            if (this.worldspawn == null || !this.worldspawn.model.isLoaded()) {
+                result.reset();
+                result.position.copy(end);
+                return result;
+            }
+
+            this.worldspawn.model.traceBox(start, end, extents, mask, result);
+
+            const entResult = this.trace_result;
+            const origin = this.trace_origin;
+            const localStart = this.trace_start;
+            const localEnd = this.trace_end;
+
+            for (let ent of this.pvsEntities) {
+                if (!(ent instanceof Entities.BrushEntity)) continue;
+
+                const brush = ent as Entities.BrushEntity;
+                if (!brush.model.isLoaded()) continue;
+
+                brush.getPosition(origin);
+                localStart.copy(start).sub(origin);
+                localEnd.copy(end).sub(origin);
+
+                brush.model.traceBox(localStart, localEnd, extents, mask, entResult);
+                if (!entResult.hit || entResult.fraction >= result.fraction) continue;
+
+                result.copy(entResult);
+                result.position.add(origin);
+            }
+
+            return result;
+        }
+
+        // True if any of the given clusters are potentially visible from the given leaf,
+        // or the main camera's leaf if not given, or if that can't be known yet
+        isAnyClusterVisible(clusters: number[], leaf?: BspLeaf): boolean {
+            if (clusters == null) return true;
+
+            if (leaf === undefined) leaf = this.viewer.mainCamera.getLeaf();
+            if (leaf == null || leaf.cluster === undefined) return true;
+
+            let visible = this.visibleClusterSets[leaf.cluster];
+
+            if (visible === undefined) {
+                const vis = this.clusterVis[leaf.cluster];
+                if (vis == null) return true;
+
+                this.visibleClusterSets[leaf.cluster] = visible = {};
+                for (let i = 0, iEnd = vis.length; i < iEnd; ++i) visible[vis[i]] = true;
+            }
+
+            for (let i = 0, iEnd = clusters.length; i < iEnd; ++i) {
+                if (visible[clusters[i]] === true) return true;
+            }
+
+            return false;
         }
 
         populateDrawList(drawList: WebGame.DrawList, pvsRoot: BspLeaf): void {
@@ -237,7 +796,7 @@ namespace SourceUtils {
                 drawList.addItem(this.skyCube);
             }
 
-            let vis: number[] = null;
+            let vis: Uint32Array = null;
 
             if (this.worldspawn.model != null && pvsRoot != null && pvsRoot.cluster !== undefined) {
                 const cluster = pvsRoot.cluster;
@@ -260,6 +819,10 @@ namespace SourceUtils {
 
             this.worldspawn.populateDrawList(drawList, vis);
 
+            if (this.dynamicItems.length > 0) {
+                drawList.addItems(this.dynamicItems);
+            }
+
             if (vis == null) {
                 for (let ent of this.pvsEntities) {
                     drawList.addItem(ent);
@@ -267,8 +830,8 @@ namespace SourceUtils {
                 return;
             }
 
-            for (let cluster of vis) {
-                const ents = this.getPvsEntitiesInCluster(cluster);
+            for (let i = 0, iEnd = vis.length; i < iEnd; ++i) {
+                const ents = this.getPvsEntitiesInCluster(vis[i]);
                 for (let ent of ents) {
                     if (ent.getIsInDrawList(drawList)) continue;
                     ent.populateDrawList(drawList, vis);
@@ -282,6 +845,12 @@ namespace SourceUtils {
                 : WebGame.TextureUtils.getWhiteTexture(this.viewer.context);
 
             buf.setParameter(Map.lightmapParam, lightmap);
+
+            if (this.lightEnvironment != null) {
+                this.lightEnvironment.populateCommandBufferParameters(buf);
+            } else {
+                Entities.LightEnvironment.populateDefaultCommandBufferParameters(buf);
+            }
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,348 @@
+﻿namespace SourceUtils {
+    export interface IMapCacheScope {
+        map: string;
+        version: string;
+    }
+
+    // Page text, binary page buffers and lightmap images
+    export type MapCacheData = string | ArrayBuffer | Blob;
+
+    // Missing from the DOM typings of the TypeScript version this builds with
+    type XMLHttpRequestResponseType = "" | "arraybuffer" | "blob" | "document" | "json" | "text";
+
+    interface IMapCacheEntry {
+        key: string;
+        map: string;
+        version: string;
+        data: MapCacheData;
+    }
+
+    // Keeps fetched map resources in IndexedDB so later visits can skip the network.
+    // Keys include the map version, so pages from an older export are never read back.
+    export class MapCache {
+        static readonly dbName = "sourceutils-map-cache";
+        static readonly dbVersion = 1;
+
+        private static readonly entryStore = "entries";
+        private static readonly mapIndex = "map";
+
+        private static db: IDBDatabase;
+        private static openCallbacks: ((db: IDBDatabase) => void)[];
+
+        static isSupported(): boolean {
+            return typeof indexedDB !== "undefined";
+        }
+
+        private static open(callback: (db: IDBDatabase) => void): void {
+            if (MapCache.db !== undefined) {
+                callback(MapCache.db);
+                return;
+            }
+
+            if (MapCache.openCallbacks != null) {
+                MapCache.openCallbacks.push(callback);
+                return;
+            }
+
+            MapCache.openCallbacks = [callback];
+
+            const opened = (db: IDBDatabase) => {
+                MapCache.db = db;
+
+                const callbacks = MapCache.openCallbacks;
+                MapCache.openCallbacks = null;
+
+                for (let i = 0; i < callbacks.length; ++i) {
+                    callbacks[i](db);
+                }
+            };
+
+            if (!MapCache.isSupported()) {
+                opened(null);
+                return;
+            }
+
+            let request: IDBOpenDBRequest;
+
+            try {
+                request = indexedDB.open(MapCache.dbName, MapCache.dbVersion);
+            } catch (e) {
+                // Browsers can refuse IndexedDB, e.g. in private browsing, so carry on without a cache
+                opened(null);
+                return;
+            }
+
+            request.onupgradeneeded = ev => {
+                const db = request.result as IDBDatabase;
+                if (db.objectStoreNames.contains(MapCache.entryStore)) return;
+
+                const store = db.createObjectStore(MapCache.entryStore, { keyPath: "key" });
+                store.createIndex(MapCache.mapIndex, "map", { unique: false });
+            };
+
+            request.onsuccess = ev => opened(request.result as IDBDatabase);
+            request.onerror = ev => {
+                ev.preventDefault();
+                opened(null);
+            };
+        }
+
+        // Workers created from blobs can't resolve relative URLs, so everything
+        // passed to them and used as a cache key is made absolute first
+        static getAbsoluteUrl(url: string): string {
+            if (typeof document === "undefined") return url;
+
+            const anchor = document.createElement("a");
+            anchor.href = url;
+            return anchor.href;
+        }
+
+        private static getKey(scope: IMapCacheScope, url: string): string {
+            return `${scope.map}/${scope.version}:${MapCache.getAbsoluteUrl(url)}`;
+        }
+
+        // Gives undefined if nothing is stored for url
+        static get<TData extends MapCacheData>(scope: IMapCacheScope, url: string, callback: (data: TData) => void): void {
+            MapCache.open(db => {
+                if (db == null) {
+                    callback(undefined);
+                    return;
+                }
+
+                let request: IDBRequest;
+
+                try {
+                    request = db.transaction(MapCache.entryStore, "readonly")
+                        .objectStore(MapCache.entryStore)
+                        .get(MapCache.getKey(scope, url));
+                } catch (e) {
+                    callback(undefined);
+                    return;
+                }
+
+                request.onsuccess = ev => {
+                    const entry = request.result as IMapCacheEntry;
+                    callback(entry === undefined ? undefined : entry.data as TData);
+                };
+
+                request.onerror = ev => {
+                    ev.preventDefault();
+                    callback(undefined);
+                };
+            });
+        }
+
+        static has(scope: IMapCacheScope, url: string, callback: (cached: boolean) => void): void {
+            MapCache.open(db => {
+                if (db == null) {
+                    callback(false);
+                    return;
+                }
+
+                let request: IDBRequest;
+
+                try {
+                    request = db.transaction(MapCache.entryStore, "readonly")
+                        .objectStore(MapCache.entryStore)
+                        .count(MapCache.getKey(scope, url));
+                } catch (e) {
+                    callback(false);
+                    return;
+                }
+
+                request.onsuccess = ev => callback((request.result as number) > 0);
+                request.onerror = ev => {
+                    ev.preventDefault();
+                    callback(false);
+                };
+            });
+        }
+
+        static put(scope: IMapCacheScope, url: string, data: MapCacheData, callback?: (success: boolean) => void): void {
+            MapCache.open(db => {
+                if (db == null) {
+                    if (callback != null) callback(false);
+                    return;
+                }
+
+                const entry: IMapCacheEntry = {
+                    key: MapCache.getKey(scope, url),
+                    map: scope.map,
+                    version: scope.version,
+                    data: data
+                };
+
+                let transaction: IDBTransaction;
+
+                try {
+                    transaction = db.transaction(MapCache.entryStore, "readwrite");
+                    transaction.objectStore(MapCache.entryStore).put(entry);
+                } catch (e) {
+                    if (callback != null) callback(false);
+                    return;
+                }
+
+                transaction.oncomplete = ev => { if (callback != null) callback(true); };
+                transaction.onerror = ev => {
+                    ev.preventDefault();
+                    if (callback != null) callback(false);
+                };
+            });
+        }
+
+        // Removes everything stored for the given map, except entries matching keepVersion
+        static clearMap(map: string, keepVersion?: string, callback?: () => void): void {
+            MapCache.open(db => {
+                if (db == null) {
+                    if (callback != null) callback();
+                    return;
+                }
+
+                let transaction: IDBTransaction;
+
+                try {
+                    transaction = db.transaction(MapCache.entryStore, "readwrite");
+                    const request = transaction.objectStore(MapCache.entryStore)
+                        .index(MapCache.mapIndex)
+                        .openCursor(IDBKeyRange.only(map));
+
+                    request.onsuccess = ev => {
+                        const cursor = request.result as IDBCursorWithValue;
+                        if (cursor == null) return;
+
+                        if ((cursor.value as IMapCacheEntry).version !== keepVersion) cursor.delete();
+                        cursor.continue();
+                    };
+                } catch (e) {
+                    if (callback != null) callback();
+                    return;
+                }
+
+                transaction.oncomplete = ev => { if (callback != null) callback(); };
+                transaction.onerror = ev => {
+                    ev.preventDefault();
+                    if (callback != null) callback();
+                };
+            });
+        }
+
+        static clearAll(callback?: () => void): void {
+            MapCache.open(db => {
+                if (db == null) {
+                    if (callback != null) callback();
+                    return;
+                }
+
+                const transaction = db.transaction(MapCache.entryStore, "readwrite");
+                transaction.objectStore(MapCache.entryStore).clear();
+                transaction.oncomplete = ev => { if (callback != null) callback(); };
+                transaction.onerror = ev => {
+                    ev.preventDefault();
+                    if (callback != null) callback();
+                };
+            });
+        }
+
+        // Fetches url as text, or as an ArrayBuffer for binary pages. Like every
+        // method here that fetches, returns a function that aborts it.
+        static fetch(url: string, format: PageFormat,
+            success: (data: string | ArrayBuffer) => void,
+            failure?: (error: Error) => void,
+            progress?: (loaded: number, total: number) => void): () => void {
+            const responseType = format === PageFormat.Binary ? "arraybuffer" : "text";
+            return MapCache.request(url, responseType, success, failure, progress);
+        }
+
+        // Fetches url from the cache if possible, otherwise from the network. Responses are
+        // only stored once parse has accepted them, and parse rejects one by throwing.
+        static load<TResult>(scope: IMapCacheScope, url: string, format: PageFormat,
+            parse: (data: string | ArrayBuffer) => TResult,
+            success: (result: TResult) => void,
+            failure?: (error: Error) => void,
+            progress?: (loaded: number, total: number) => void): () => void {
+            const onData = (data: string | ArrayBuffer, store: boolean) => {
+                let result: TResult;
+
+                try {
+                    result = parse(data);
+                } catch (e) {
+                    if (failure != null) failure(e);
+                    return;
+                }
+
+                // The database is already open after get(), so the entry is copied before
+                // success can hand any of its buffers over to another thread
+                if (store) MapCache.put(scope, url, data);
+
+                success(result);
+            };
+
+            if (scope == null) {
+                return MapCache.fetch(url, format, data => onData(data, false), failure, progress);
+            }
+
+            let cancelled = false;
+            let abort: () => void = null;
+
+            MapCache.get<string | ArrayBuffer>(scope, url, cached => {
+                if (cancelled) return;
+
+                if (cached !== undefined) {
+                    onData(cached, false);
+                    return;
+                }
+
+                abort = MapCache.fetch(url, format, data => onData(data, true), failure, progress);
+            });
+
+            return () => {
+                cancelled = true;
+                if (abort != null) abort();
+            };
+        }
+
+        static fetchBlob(url: string, success: (data: Blob) => void, failure?: (error: Error) => void): () => void {
+            return MapCache.request(url, "blob", success, failure, null);
+        }
+
+        // Unlike Http.getString, treats error statuses as failures so they never get cached
+        private static request<TData extends MapCacheData>(url: string, responseType: XMLHttpRequestResponseType,
+            success: (data: TData) => void,
+            failure: (error: Error) => void,
+            progress: (loaded: number, total: number) => void): () => void {
+            const request = new XMLHttpRequest();
+            let cancelled = false;
+
+            request.responseType = responseType;
+            request.addEventListener("load", ev => {
+                if (cancelled) return;
+                if (request.status >= 200 && request.status < 300) success(request.response as TData);
+                else if (failure != null) failure(new Error(`Unable to load '${url}' (status ${request.status}).`));
+            });
+
+            if (failure != null) {
+                // XHR error events carry no details of their own
+                request.addEventListener("error", ev => {
+                    if (!cancelled) failure(new Error(`Unable to load '${url}' (network error).`));
+                });
+                request.addEventListener("abort", ev => { if (!cancelled) failure(Facepunch.Http.cancelled); });
+            }
+
+            if (progress != null) {
+                request.onprogress = ev => {
+                    if (cancelled) return;
+                    if (ev.lengthComputable) progress(ev.loaded, ev.total);
+                    else progress(0, undefined);
+                };
+            }
+
+            request.open("get", url, true);
+            request.send();
+
+            return () => {
+                cancelled = true;
+                request.abort();
+            };
+        }
+    }
+}
@@ -3,6 +3,11 @@
 namespace SourceUtils {
     import WebGame = Facepunch.WebGame;
 
+    // Material info as exported for a map, with the path of the .vmt it came from
+    export interface IMapMaterialInfo extends WebGame.IMaterialInfo {
+        name?: string;
+    }
+
     export interface IMapMaterialPage {
         textures: WebGame.ITextureInfo[];
         materials: WebGame.IMaterialInfo[];
@@ -12,6 +17,7 @@ namespace SourceUtils {
         private readonly viewer: MapViewer;
 
         private materials: WebGame.IMaterialInfo[];
+        private textures: WebGame.ITextureInfo[];
 
         constructor(viewer: MapViewer, page: IPageInfo) {
             super(page);
@@ -21,23 +27,15 @@ namespace SourceUtils {
 
         onLoadValues(page: IMapMaterialPage): void {
             this.materials = page.materials;
-
-            const textures = page.textures;
-            for (let i = 0, iEnd = this.materials.length; i < iEnd; ++i) {
-                const mat = this.materials[i];
-                if (mat == null) continue;
-                const props = mat.properties;
-                for (let j = 0, jEnd = props.length; j < jEnd; ++j) {
-                    const prop = props[j];
-                    if (prop.type !== WebGame.MaterialPropertyType.TextureIndex) continue;
-                    prop.type = WebGame.MaterialPropertyType.TextureInfo;
-                    prop.value = textures[prop.value as number];
-                }
-            }
+            this.textures = page.textures;
 
             super.onLoadValues(page);
         }
 
+        getTexture(index: number): WebGame.Texture {
+            return this.viewer.mapTextureLoader.loadFromInfo(this.textures[index]);
+        }
+
         protected onGetValue(index: number): WebGame.IMaterialInfo {
             return this.materials[index];
         }
@@ -46,7 +44,8 @@ namespace SourceUtils {
     export class MapMaterialLoader extends PagedLoader<IMapMaterialPage, WebGame.IMaterialInfo, MapMaterialPage> {
         readonly viewer: MapViewer;
 
-        private readonly materials: {[index: number]: WebGame.MaterialLoadable} = {};
+        private materials: {[index: number]: WebGame.MaterialLoadable} = {};
+        private materialNames: {[id: number]: string} = {};
 
         constructor(viewer: MapViewer) {
             super();
@@ -57,10 +56,40 @@ namespace SourceUtils {
             let material = this.materials[index];
             if (material !== undefined) return material;
             this.materials[index] = material = new WebGame.MaterialLoadable(this.viewer);
-            this.load(index, info => info == null ? null : material.loadFromInfo(info));
+            this.load(index, (info, page) => {
+                if (info == null) return;
+
+                this.materialNames[material.id] = (info as IMapMaterialInfo).name;
+                material.loadFromInfo(info, i => page.getTexture(i));
+            });
+            return material;
+        }
+
+        // Path of the .vmt a loaded material came from, if the map was exported with names
+        getMaterialName(material: WebGame.Material): string {
+            return this.materialNames[material.id];
+        }
+
+        loadMaterialFromInfo(info: WebGame.IMaterialInfo): WebGame.Material {
+            const urls: string[] = [];
+            for (let prop of info.properties) {
+                if (prop.type !== WebGame.MaterialPropertyType.TextureUrl) continue;
+                urls.push(prop.value as string);
+                prop.type = WebGame.MaterialPropertyType.TextureIndex;
+                prop.value = urls.length - 1;
+            }
+
+            const material = new WebGame.MaterialLoadable(this.viewer);
+            material.loadFromInfo(info, i => this.viewer.mapTextureLoader.load(urls[i]));
             return material;
         }
 
+        clear(): void {
+            super.clear();
+            this.materials = {};
+            this.materialNames = {};
+        }
+
         protected onCreatePage(page: IPageInfo): MapMaterialPage {
             return new MapMaterialPage(this.viewer, page);
         }
@@ -0,0 +1,48 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    /**
+     * Mesh manager that can be disposed between maps. The base class keeps its compose
+     * frame mesh after dispose() even though the group holding it is gone, so this one
+     * owns that mesh instead and creates it again when next needed.
+     */
+    export class MapMeshManager extends WebGame.MeshManager {
+        private readonly viewer: MapViewer;
+        private composeFrameMesh: WebGame.MeshHandle;
+
+        constructor(viewer: MapViewer) {
+            super(viewer);
+
+            this.viewer = viewer;
+        }
+
+        getComposeFrameMeshHandle(): WebGame.MeshHandle {
+            if (this.composeFrameMesh != null) return this.composeFrameMesh;
+
+            const meshData: WebGame.IMeshData = {
+                attributes: [WebGame.VertexAttribute.uv],
+                vertices: [-1.0, -1.0, 1.0, -1.0, 1.0, 1.0, -1.0, 1.0],
+                indices: [0, 1, 2, 0, 2, 3],
+                elements: [
+                    {
+                        mode: WebGame.DrawMode.Triangles,
+                        material: this.viewer.shaders.createMaterial(WebGame.Shaders.ComposeFrame, false),
+                        indexOffset: 0,
+                        indexCount: 6
+                    }
+                ]
+            };
+
+            const handle = this.composeFrameMesh = this.addMeshData(meshData)[0];
+            handle.program = handle.material.program;
+
+            return handle;
+        }
+
+        dispose(): void {
+            super.dispose();
+
+            this.composeFrameMesh = null;
+        }
+    }
+}
@@ -0,0 +1,109 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export class MapTextureLoader implements Facepunch.ILoader {
+        readonly viewer: MapViewer;
+
+        private loaded: { [url: string]: WebGame.TextureLoadable } = {};
+        private queue: WebGame.TextureLoadable[] = [];
+        private active: WebGame.TextureLoadable[] = [];
+        private completed = 0;
+
+        private nextDummyId = 0;
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        load(url: string): WebGame.TextureLoadable {
+            let texture = this.loaded[url];
+            if (texture !== undefined) return texture;
+            this.loaded[url] = texture = new WebGame.TextureLoadable(this.viewer.context, url);
+            this.queue.push(texture);
+            return texture;
+        }
+
+        loadFromInfo(info: WebGame.ITextureInfo): WebGame.TextureLoadable {
+            const url = info.path != null ? info.path : `__dummy_${this.nextDummyId++}`;
+            if (this.loaded[url] !== undefined) return this.loaded[url];
+
+            const texture = this.load(url);
+            texture.loadFromInfo(info);
+            return texture;
+        }
+
+        getLoadProgress(): number {
+            const total = this.queue.length + this.active.length + this.completed;
+            let complete = this.completed;
+
+            for (let item of this.queue) complete += item.getLoadProgress();
+            for (let item of this.active) complete += item.getLoadProgress();
+
+            return total > 0 ? complete / total : 0;
+        }
+
+        private getNextToLoad(): WebGame.TextureLoadable {
+            let bestIndex = -1;
+            let bestPriority = 0;
+
+            for (let i = 0, iEnd = this.queue.length; i < iEnd; ++i) {
+                const priority = this.queue[i].getLoadPriority();
+                if (priority <= bestPriority) continue;
+
+                bestIndex = i;
+                bestPriority = priority;
+            }
+
+            if (bestIndex === -1) return null;
+
+            return this.queue.splice(bestIndex, 1)[0];
+        }
+
+        update(requestQuota: number): number {
+            while (this.active.length < requestQuota) {
+                const next = this.getNextToLoad();
+                if (next == null) break;
+
+                this.active.push(next);
+                next.loadNext(requeue => {
+                    const index = this.active.indexOf(next);
+
+                    if (index === -1) {
+                        // Cleared while loading, so release anything this step allocated
+                        this.disposeTexture(next);
+                        return;
+                    }
+
+                    this.active.splice(index, 1);
+
+                    if (requeue) this.queue.push(next);
+                    else ++this.completed;
+                });
+            }
+
+            return this.active.length;
+        }
+
+        private disposeTexture(texture: WebGame.TextureLoadable): void {
+            const gl = this.viewer.context;
+            const frameCount = texture.getFrameCount() || 0;
+
+            for (let frame = 0; frame < frameCount; ++frame) {
+                const handle = texture.getHandle(frame);
+                if (handle !== undefined) gl.deleteTexture(handle);
+            }
+        }
+
+        clear(): void {
+            for (let url in this.loaded) {
+                if (!this.loaded.hasOwnProperty(url)) continue;
+                this.disposeTexture(this.loaded[url]);
+            }
+
+            this.loaded = {};
+            this.queue = [];
+            this.active = [];
+            this.completed = 0;
+        }
+    }
+}
@@ -7,36 +7,165 @@ namespace SourceUtils {
         Fixed = 0,
         CanLook = 1,
         CanMove = 2,
-        FreeCam = CanLook | CanMove
+        Walk = 4,
+        Orbit = 8,
+        FreeCam = CanLook | CanMove,
+        OrbitCam = CanLook | Orbit
     }
 
+    export enum RenderFeatureFlags {
+        None = 0,
+        Shadows = 1,
+        SunDisc = 2,
+        RopeSimulation = 4,
+        AmbientInterpolation = 8
+    }
+
+    // Numeric values are written as key then value ("#x10y20"), strings as
+    // "/key:value" segments after them, so older "#x..y..z..r..s.." links still work
     export interface IPositionHash {
         x?: number;
         y?: number;
         z?: number;
-        r?: number;
-        s?: number;
+        r?: number; // Yaw in degrees
+        s?: number; // Pitch in degrees
+        f?: number; // Field of view in degrees
+        m?: CameraMode;
+        d?: number; // Debug panel, 0 or 1
+        t?: RenderFeatureFlags;
+        e?: string; // Selected entity targetname
+        v?: string; // Named view from the map index
+    }
+
+    // Angles are in degrees, to match the position hash
+    export interface ICameraState {
+        position: Facepunch.IVector3;
+        yaw: number;
+        pitch: number;
+    }
+
+    export interface ICameraTarget {
+        position?: Facepunch.IVector3;
+        yaw?: number;
+        pitch?: number;
+    }
+
+    export interface IRenderFeatures {
+        shadows?: boolean;
+        sunDisc?: boolean;
+        ropeSimulation?: boolean;
+        ambientInterpolation?: boolean;
+        debugPanel?: boolean;
+        loadingOverlay?: boolean;
+    }
+
+    // Everything here can be passed through JSON or postMessage
+    export interface IViewerState {
+        mapUrl: string;
+        cameraMode: CameraMode;
+        camera: ICameraState;
+        leaf: number;
+        cluster: number;
+        loadProgress: number;
+        allLoaded: boolean;
+        features: IRenderFeatures;
+    }
+
+    interface ICameraAnimation {
+        fromPosition: Facepunch.Vector3;
+        toPosition: Facepunch.Vector3;
+        fromAngles: Facepunch.Vector2;
+        toAngles: Facepunch.Vector2;
+        duration: number;
+        time: number;
+        complete: () => void;
+        interrupted: () => void;
     }
 
     export class MapViewer extends WebGame.Game {
         mainCamera: Entities.Camera;
         debugPanel: HTMLElement;
 
+        // Declared before the loaders below so addPagedLoader can use them
+        private readonly pagedLoaders: PagedLoader<any, any, any>[] = [];
+        private readonly loadErrorHandlers: ((error: IPageLoadError) => void)[] = [];
+        private readonly loadProgressHandlers: ((progress: ILoadProgress) => void)[] = [];
+        private readonly mapReadyHandlers: (() => void)[] = [];
+        private readonly allLoadedHandlers: (() => void)[] = [];
+        private readonly cameraMovedHandlers: ((camera: ICameraState) => void)[] = [];
+        private readonly leafChangedHandlers: ((leaf: BspLeaf) => void)[] = [];
+        private readonly entityPickedHandlers: ((entity: Entities.Entity) => void)[] = [];
+
+        selectedEntity: Entities.Entity;
+
+        readonly meshes = new MapMeshManager(this);
+
         readonly map = new Map(this);
-        readonly visLoader = this.addLoader(new VisLoader());
-        readonly bspModelLoader = this.addLoader(new BspModelLoader(this));
-        readonly mapMaterialLoader = this.addLoader(new MapMaterialLoader(this));
-        readonly leafGeometryLoader = this.addLoader(new LeafGeometryLoader(this));
-        readonly dispGeometryLoader = this.addLoader(new DispGeometryLoader(this));
-        readonly studioModelLoader = this.addLoader(new StudioModelLoader(this));
-        readonly vertLightingLoader = this.addLoader(new VertexLightingLoader(this));
-        readonly ambientLoader = this.addLoader(new AmbientLoader());
+        readonly visLoader = this.addPagedLoader("vis", new VisLoader());
+        readonly bspModelLoader = this.addPagedLoader("bspModel", new BspModelLoader(this));
+        readonly mapMaterialLoader = this.addPagedLoader("mapMaterial", new MapMaterialLoader(this));
+        readonly mapTextureLoader = this.addLoader(new MapTextureLoader(this));
+        readonly leafGeometryLoader = this.addPagedLoader("leafGeometry", new LeafGeometryLoader(this));
+        readonly dispGeometryLoader = this.addPagedLoader("dispGeometry", new DispGeometryLoader(this));
+        readonly studioModelLoader = this.addPagedLoader("studioModel", new StudioModelLoader(this));
+        readonly vertLightingLoader = this.addPagedLoader("vertLighting", new VertexLightingLoader(this));
+        readonly ambientLoader = this.addPagedLoader("ambient", new AmbientLoader());
+
+        readonly playerController = new PlayerController(this);
+        readonly cameraPathPlayer = new CameraPathPlayer(this);
+        readonly input = new InputController(this);
+        readonly orbitController = new OrbitController(this);
+        readonly overviewRenderer = new OverviewRenderer(this);
+        readonly inspector = new EntityInspector(this);
+        readonly ioOverlay = new EntityIoOverlay(this);
+        readonly gizmos = new PointEntityGizmos(this);
+        readonly measureTool = new MeasureTool(this);
 
         private debugPanelVisible: boolean;
 
+        private loadingOverlay: ILoadingOverlay;
+        private loadingOverlayVisible: boolean;
+
+        private entityList: EntityListPanel;
+        private entityListVisible: boolean;
+
         cameraMode = CameraMode.Fixed;
         saveCameraPosInHash = false;
         showDebugPanel = false;
+        showLoadingOverlay = false;
+        showEntityList = false;
+        interpolateAmbientCubes = true;
+
+        // Draw a top-down radar around the camera instead of the normal view
+        overviewMode = false;
+
+        // Clicks measure between points on the world instead of picking entities
+        measureMode = false;
+
+        // Angular radius of the sun drawn in the sky, in degrees (0 to hide it)
+        sunDiscSize = 0;
+
+        // Sun shadows cast by props and ropes (0 cascades to disable)
+        shadowCascadeCount = 0;
+        shadowResolution = 1024;
+        shadowDistance = 2048;
+
+        simulateRopes = false;
+        freezeRopes = false;
+        ropeGravity = 800;
+        readonly wind = new Facepunch.Vector3();
+
+        // Distance at which load priority hints drop to half of their nearby value
+        loadPriorityFalloff = 2048;
+
+        // Finish loading with whatever succeeded when pages fail, rather than waiting forever
+        allowPartialLoad = false;
+
+        // Keep map pages in IndexedDB between visits, for maps exported with a version
+        useOfflineCache = false;
+
+        // Relative weight of each ILoadCategories entry in the total progress, defaulting to 1
+        readonly loadProgressWeights: { [category: string]: number } = {};
 
         totalLoadProgress = 0;
 
@@ -49,17 +178,356 @@ namespace SourceUtils {
             super(container);
 
             container.classList.add("map-viewer");
+
+            this.input.actionHandler = action => this.onInputAction(action);
+            this.map.indexFailedHandler = error => this.onPageLoadFailed(error);
         }
 
+        private addPagedLoader<TLoader extends PagedLoader<any, any, any>>(name: string, loader: TLoader): TLoader {
+            loader.name = name;
+            loader.pageFailedHandler = error => this.onPageLoadFailed(error);
+            this.pagedLoaders.push(loader);
+
+            return this.addLoader(loader);
+        }
+
+        private mapUrl: string;
+
         loadMap(url: string): void {
+            if (this.mapUrl != null) {
+                // Let the new map choose a spawn point to start from
+                if (this.mainCamera != null) this.mainCamera.setPosition(Facepunch.Vector3.zero);
+
+                this.allLoaded = false;
+                this.mapReady = false;
+                this.wasWalking = false;
+                this.totalLoadProgress = 0;
+
+                this.inspector.clear();
+                this.ioOverlay.clear();
+                this.gizmos.clear();
+                this.measureTool.clear();
+                if (this.entityList != null) this.entityList.refresh();
+
+                if (this.debugPanel != null) {
+                    const loading = this.debugPanel.getElementsByClassName("debug-loading")[0] as HTMLElement;
+                    if (loading != null) loading.style.display = null;
+                }
+            }
+
+            this.mapUrl = url;
             this.map.load(url);
         }
 
+        addLoadErrorHandler(action: (error: IPageLoadError) => void): void {
+            this.loadErrorHandlers.push(action);
+        }
+
+        protected onPageLoadFailed(error: IPageLoadError): void {
+            for (let handler of this.loadErrorHandlers) {
+                handler(error);
+            }
+        }
+
+        addLoadProgressHandler(action: (progress: ILoadProgress) => void): void {
+            this.loadProgressHandlers.push(action);
+        }
+
+        addMapReadyHandler(action: () => void): void {
+            this.mapReadyHandlers.push(action);
+        }
+
+        addAllLoadedHandler(action: () => void): void {
+            this.allLoadedHandlers.push(action);
+        }
+
+        protected onLoadProgress(progress: ILoadProgress): void {
+            if (this.loadingOverlay != null) {
+                this.loadingOverlay.update(progress);
+            }
+
+            for (let handler of this.loadProgressHandlers) {
+                handler(progress);
+            }
+        }
+
+        // Called once the world can first be drawn, with the lightmap and world model loaded
+        protected onMapReady(): void {
+            for (let handler of this.mapReadyHandlers) {
+                handler();
+            }
+        }
+
+        protected onAllLoaded(): void {
+            for (let handler of this.allLoadedHandlers) {
+                handler();
+            }
+        }
+
+        private static getCategoryProgress(loaders: PagedLoader<any, any, any>[], weights: number[]): ILoadCategoryProgress {
+            const result: ILoadCategoryProgress = { progress: 0, bytesLoaded: 0, failedPages: 0 };
+
+            for (let i = 0; i < loaders.length; ++i) {
+                result.progress += loaders[i].getLoadProgress() * weights[i];
+                result.bytesLoaded += loaders[i].getLoadedBytes();
+                result.failedPages += loaders[i].getFailedPageCount();
+            }
+
+            return result;
+        }
+
+        getLoadProgress(): ILoadProgress {
+            const categories: ILoadCategories = {
+                vis: MapViewer.getCategoryProgress([this.visLoader], [1]),
+                bsp: MapViewer.getCategoryProgress([this.bspModelLoader], [1]),
+                lightmap: { progress: this.map.getLightmapLoadProgress(), failedPages: 0 },
+                materials: MapViewer.getCategoryProgress([this.mapMaterialLoader], [1]),
+                geometry: MapViewer.getCategoryProgress([this.leafGeometryLoader, this.dispGeometryLoader], [0.5, 0.5]),
+                props: MapViewer.getCategoryProgress([this.vertLightingLoader, this.studioModelLoader], [0.25, 0.75])
+            };
+
+            const result: ILoadProgress = { total: 0, bytesLoaded: 0, failedPages: 0, categories: categories };
+            let totalWeight = 0;
+
+            for (let name of Object.keys(categories) as (keyof ILoadCategories)[]) {
+                const category = categories[name];
+                const weight = this.loadProgressWeights[name] !== undefined ? this.loadProgressWeights[name] : 1;
+
+                result.total += category.progress * weight;
+                if (category.bytesLoaded !== undefined) result.bytesLoaded += category.bytesLoaded;
+                result.failedPages += category.failedPages;
+                totalWeight += weight;
+            }
+
+            if (totalWeight > 0) result.total /= totalWeight;
+
+            return result;
+        }
+
+        // Replaces the overlay shown while loading, disposing of the previous one (null for none)
+        setLoadingOverlay(overlay: ILoadingOverlay): void {
+            if (this.loadingOverlay != null) this.loadingOverlay.dispose();
+
+            this.loadingOverlay = overlay;
+            this.loadingOverlayVisible = undefined;
+        }
+
+        protected onCreateLoadingOverlay(): ILoadingOverlay {
+            return new LoadingOverlay(this.container);
+        }
+
+        addCameraMovedHandler(action: (camera: ICameraState) => void): void {
+            this.cameraMovedHandlers.push(action);
+        }
+
+        addLeafChangedHandler(action: (leaf: BspLeaf) => void): void {
+            this.leafChangedHandlers.push(action);
+        }
+
+        addEntityPickedHandler(action: (entity: Entities.Entity) => void): void {
+            this.entityPickedHandlers.push(action);
+        }
+
+        protected onCameraMoved(camera: ICameraState): void {
+            for (let handler of this.cameraMovedHandlers) {
+                handler(camera);
+            }
+        }
+
+        protected onLeafChanged(leaf: BspLeaf): void {
+            for (let handler of this.leafChangedHandlers) {
+                handler(leaf);
+            }
+        }
+
+        protected onEntityPicked(entity: Entities.Entity): void {
+            for (let handler of this.entityPickedHandlers) {
+                handler(entity);
+            }
+        }
+
+        selectEntity(entity: Entities.Entity): void {
+            this.selectedEntity = entity;
+            this.notMovedTime = 0;
+
+            if (entity != null) this.onEntityPicked(entity);
+        }
+
+        getCameraState(): ICameraState {
+            const pos = this.mainCamera.getPosition(new Facepunch.Vector3());
+
+            return {
+                position: { x: pos.x, y: pos.y, z: pos.z },
+                yaw: this.lookAngs.x * 180 / Math.PI,
+                pitch: this.lookAngs.y * 180 / Math.PI
+            };
+        }
+
+        private cameraAnimation: ICameraAnimation;
+
+        // Moves the camera over the given number of seconds, or instantly if 0.
+        // Anything left out of the target stays as it is. Calls interrupted instead of
+        // complete if the movement is stopped or replaced before it finishes.
+        moveCamera(target: ICameraTarget, duration: number = 0, complete?: () => void, interrupted?: () => void): void {
+            this.stopCameraAnimation();
+            this.cameraPathPlayer.stop();
+
+            const toRadians = Math.PI / 180;
+            const from = new Facepunch.Vector3();
+            this.mainCamera.getPosition(from);
+
+            const to = new Facepunch.Vector3().copy(target.position != null ? target.position : from);
+            const toAngles = new Facepunch.Vector2(
+                target.yaw != null ? target.yaw * toRadians : this.lookAngs.x,
+                target.pitch != null ? target.pitch * toRadians : this.lookAngs.y);
+
+            // Take the shortest way around
+            const twoPi = Math.PI * 2;
+            toAngles.x = this.lookAngs.x + ((((toAngles.x - this.lookAngs.x) % twoPi) + twoPi * 1.5) % twoPi - Math.PI);
+
+            this.cameraAnimation = {
+                fromPosition: from,
+                toPosition: to,
+                fromAngles: new Facepunch.Vector2(this.lookAngs.x, this.lookAngs.y),
+                toAngles: toAngles,
+                duration: Math.max(duration, 0),
+                time: 0,
+                complete: complete,
+                interrupted: interrupted
+            };
+
+            if (duration <= 0) this.updateCameraAnimation(0);
+        }
+
+        stopCameraAnimation(): void {
+            const anim = this.cameraAnimation;
+            this.cameraAnimation = null;
+
+            if (anim != null && anim.interrupted != null) anim.interrupted();
+        }
+
+        isCameraAnimating(): boolean {
+            return this.cameraAnimation != null;
+        }
+
+        private updateCameraAnimation(dt: number): void {
+            const anim = this.cameraAnimation;
+
+            anim.time += dt;
+
+            const t = anim.duration <= 0 ? 1 : Math.min(anim.time / anim.duration, 1);
+            const eased = t * t * (3 - 2 * t);
+            const pos = this.onUpdateFrame_temp;
+
+            pos.copy(anim.fromPosition).multiplyScalar(1 - eased).add(anim.toPosition.x * eased, anim.toPosition.y * eased, anim.toPosition.z * eased);
+
+            this.mainCamera.setPosition(pos);
+            this.lookAngs.x = anim.fromAngles.x + (anim.toAngles.x - anim.fromAngles.x) * eased;
+            this.lookAngs.y = anim.fromAngles.y + (anim.toAngles.y - anim.fromAngles.y) * eased;
+            this.updateCameraAngles();
+
+            this.notMovedTime = 0;
+
+            if (t < 1) return;
+
+            // Make walking pick up from wherever we ended up
+            this.wasWalking = false;
+            this.cameraAnimation = null;
+
+            if (anim.complete != null) anim.complete();
+        }
+
+        private savedShadowCascadeCount = 3;
+        private savedSunDiscSize = 1.5;
+
+        getRenderFeatures(): IRenderFeatures {
+            return {
+                shadows: this.shadowCascadeCount > 0,
+                sunDisc: this.sunDiscSize > 0,
+                ropeSimulation: this.simulateRopes,
+                ambientInterpolation: this.interpolateAmbientCubes,
+                debugPanel: this.showDebugPanel,
+                loadingOverlay: this.showLoadingOverlay
+            };
+        }
+
+        // Only the given features are changed
+        setRenderFeatures(features: IRenderFeatures): void {
+            if (features.shadows != null && features.shadows !== this.shadowCascadeCount > 0) {
+                if (features.shadows) {
+                    this.shadowCascadeCount = this.savedShadowCascadeCount;
+                } else {
+                    this.savedShadowCascadeCount = this.shadowCascadeCount;
+                    this.shadowCascadeCount = 0;
+                }
+            }
+
+            if (features.sunDisc != null && features.sunDisc !== this.sunDiscSize > 0) {
+                if (features.sunDisc) {
+                    this.sunDiscSize = this.savedSunDiscSize;
+                } else {
+                    this.savedSunDiscSize = this.sunDiscSize;
+                    this.sunDiscSize = 0;
+                }
+            }
+
+            if (features.ropeSimulation != null) this.simulateRopes = features.ropeSimulation;
+            if (features.ambientInterpolation != null) this.interpolateAmbientCubes = features.ambientInterpolation;
+            if (features.debugPanel != null) this.showDebugPanel = features.debugPanel;
+            if (features.loadingOverlay != null) this.showLoadingOverlay = features.loadingOverlay;
+
+            // Get the new state saved in the hash
+            this.notMovedTime = 0;
+            this.forceDrawListInvalidation(true);
+        }
+
+        getState(): IViewerState {
+            const leaf = this.mainCamera != null ? this.mainCamera.getLeaf() : null;
+
+            return {
+                mapUrl: this.mapUrl != null ? this.mapUrl : null,
+                cameraMode: this.cameraMode,
+                camera: this.mainCamera != null ? this.getCameraState() : null,
+                leaf: leaf != null ? leaf.index : -1,
+                cluster: leaf != null && leaf.cluster !== undefined ? leaf.cluster : -1,
+                loadProgress: this.totalLoadProgress,
+                allLoaded: this.allLoaded,
+                features: this.getRenderFeatures()
+            };
+        }
+
+        setPageCacheScope(scope: IMapCacheScope): void {
+            for (let loader of this.pagedLoaders) {
+                loader.cacheScope = scope;
+            }
+        }
+
+        getFailedPageCount(): number {
+            let count = 0;
+            for (let loader of this.pagedLoaders) {
+                count += loader.getFailedPageCount();
+            }
+
+            return count;
+        }
+
+        isAllLoaded(): boolean {
+            return this.allLoaded;
+        }
+
+        // True once loading has finished, but with some pages missing
+        isPartiallyLoaded(): boolean {
+            return this.allLoaded && this.getFailedPageCount() > 0;
+        }
+
         protected onInitialize(): void {
             this.canLockPointer = true;
 
             this.mainCamera = new Entities.Camera(this, 75);
 
+            this.input.attach(this.container);
+            this.orbitController.attach(this.container);
+
             const deltaAngles = new Facepunch.Vector3();
             let lastRotationSampleTime = new Date().getTime() / 1000;
 
@@ -99,7 +567,7 @@ namespace SourceUtils {
         }
 
         private static readonly hashKeyRegex = /^[a-z_]+$/i;
-        private static readonly hashObjectRegex = /^#((?:[a-z_]+)(?:-?[0-9]+(?:\.[0-9]+)?))+$/i;
+        private static readonly hashObjectRegex = /^#(?=.)((?:[a-z_]+)(?:-?[0-9]+(?:\.[0-9]+)?))*(\/[a-z_]+:[^\/]*)*$/i;
 
         protected setHash(value: string | Object): void {
             if (typeof value === "string") {
@@ -109,6 +577,8 @@ namespace SourceUtils {
             }
 
             let hash = "#";
+            let strings = "";
+
             for (let key in value) {
                 if (!value.hasOwnProperty(key)) continue;
                 if (!MapViewer.hashKeyRegex.test(key)) {
@@ -117,7 +587,15 @@ namespace SourceUtils {
                 }
 
                 const val = value[key];
-                if (typeof val !== "number" && (typeof val !== "string" || isNaN(parseFloat(val)))) {
+                if (val == null) continue;
+
+                // Strings always get their own segment, so a targetname like "007" is read back unchanged
+                if (typeof val === "string") {
+                    strings += `/${key}:${encodeURIComponent(val)}`;
+                    continue;
+                }
+
+                if (typeof val !== "number") {
                     console.warn(`Invalid hash object value: ${val}`);
                     continue;
                 }
@@ -126,6 +604,8 @@ namespace SourceUtils {
                 hash += val;
             }
 
+            hash += strings;
+
             this.setHash(hash);
         }
 
@@ -143,13 +623,22 @@ namespace SourceUtils {
 
             const obj = {};
 
+            const slashIndex = hash.indexOf("/");
+            const numbers = slashIndex === -1 ? hash : hash.substr(0, slashIndex);
             const keyValRegex = /([a-z_]+)(-?[0-9]+(?:\.[0-9]+)?)/ig;
 
             let match: RegExpExecArray;
-            while ((match = keyValRegex.exec(hash)) != null) {
+            while ((match = keyValRegex.exec(numbers)) != null) {
                 obj[match[1]] = parseFloat(match[2]);
             }
 
+            if (slashIndex !== -1) {
+                for (let segment of hash.substr(slashIndex + 1).split("/")) {
+                    const colonIndex = segment.indexOf(":");
+                    obj[segment.substr(0, colonIndex)] = decodeURIComponent(segment.substr(colonIndex + 1));
+                }
+            }
+
             this.onHashChange(obj);
         }
 
@@ -186,6 +675,168 @@ namespace SourceUtils {
             }
 
             this.updateCameraAngles();
+
+            if (posHash.f !== undefined) this.mainCamera.setFov(posHash.f);
+            if (posHash.m !== undefined && MapViewer.isCameraMode(posHash.m)) this.cameraMode = posHash.m;
+            if (posHash.d !== undefined) this.showDebugPanel = posHash.d !== 0;
+            if (posHash.t !== undefined) this.setRenderFeatures(MapViewer.getRenderFeaturesFromFlags(posHash.t));
+
+            // Views and entities come from the map, so might have to wait for it.
+            // Any that the map doesn't have are ignored.
+            if (posHash.v !== undefined || posHash.e !== undefined) {
+                this.pendingHash = posHash;
+                if (this.mapReady) this.applyPendingHash();
+            }
+        }
+
+        private pendingHash: IPositionHash;
+
+        // CameraMode values are combinations of its flags, so anything else in a hash is ignored
+        private static isCameraMode(value: number): boolean {
+            const flags = CameraMode.CanLook | CameraMode.CanMove | CameraMode.Walk | CameraMode.Orbit;
+            return value >= 0 && value === Math.floor(value) && (value & ~flags) === 0;
+        }
+
+        private applyPendingHash(): void {
+            const posHash = this.pendingHash;
+            if (posHash == null) return;
+
+            this.pendingHash = null;
+
+            if (posHash.v !== undefined) this.goToNamedView(posHash.v);
+
+            if (posHash.e !== undefined) {
+                const entity = this.map.getNamedEntity(posHash.e);
+                if (entity != null) this.selectEntity(entity);
+            }
+        }
+
+        // Keeps the hash short, to a tenth of a unit or degree
+        private static roundForHash(value: number): number {
+            return Math.round(value * 10) / 10;
+        }
+
+        protected getHashState(): IPositionHash {
+            const pos = this.mainCamera.getPosition(this.onUpdateFrame_temp);
+            const yaw = this.lookAngs.x * 180.0 / Math.PI;
+            const pitch = this.lookAngs.y * 180.0 / Math.PI;
+
+            const hash: IPositionHash = {
+                x: MapViewer.roundForHash(pos.x),
+                y: MapViewer.roundForHash(pos.y),
+                z: MapViewer.roundForHash(pos.z),
+                r: MapViewer.roundForHash(yaw),
+                s: MapViewer.roundForHash(pitch),
+                f: MapViewer.roundForHash(this.mainCamera.getFov()),
+                m: this.cameraMode,
+                d: this.showDebugPanel ? 1 : 0,
+                t: MapViewer.getRenderFeatureFlags(this.getRenderFeatures())
+            };
+
+            if (this.selectedEntity != null && this.selectedEntity.targetname != null) {
+                hash.e = this.selectedEntity.targetname;
+            }
+
+            return hash;
+        }
+
+        private static getRenderFeatureFlags(features: IRenderFeatures): RenderFeatureFlags {
+            let flags = RenderFeatureFlags.None;
+
+            if (features.shadows) flags |= RenderFeatureFlags.Shadows;
+            if (features.sunDisc) flags |= RenderFeatureFlags.SunDisc;
+            if (features.ropeSimulation) flags |= RenderFeatureFlags.RopeSimulation;
+            if (features.ambientInterpolation) flags |= RenderFeatureFlags.AmbientInterpolation;
+
+            return flags;
+        }
+
+        private static getRenderFeaturesFromFlags(flags: RenderFeatureFlags): IRenderFeatures {
+            return {
+                shadows: (flags & RenderFeatureFlags.Shadows) !== 0,
+                sunDisc: (flags & RenderFeatureFlags.SunDisc) !== 0,
+                ropeSimulation: (flags & RenderFeatureFlags.RopeSimulation) !== 0,
+                ambientInterpolation: (flags & RenderFeatureFlags.AmbientInterpolation) !== 0
+            };
+        }
+
+        // Stands the camera at the given spawn point, facing the same way, returning false if there isn't one
+        teleportToSpawn(spawn: Entities.IEntity, duration: number = 0): boolean {
+            if (spawn == null || spawn.origin == null) return false;
+
+            const pos = new Facepunch.Vector3().copy(spawn.origin);
+            pos.z += PlayerController.standEyeHeight;
+
+            // Source yaw is measured from +X and pitch is positive looking down
+            this.moveCamera({
+                position: pos,
+                yaw: spawn.angles != null ? spawn.angles.y - 90 : undefined,
+                pitch: spawn.angles != null ? -spawn.angles.x : undefined
+            }, duration);
+
+            return true;
+        }
+
+        // Moves to a viewpoint listed in the map index, returning false if there isn't one by that name
+        goToNamedView(name: string, duration: number = 0): boolean {
+            const view = this.map.getNamedView(name);
+            if (view == null) return false;
+
+            if (view.fov != null) this.mainCamera.setFov(view.fov);
+
+            // Source yaw is measured from +X and pitch is positive looking down
+            this.moveCamera({
+                position: view.origin,
+                yaw: view.angles.y - 90,
+                pitch: -view.angles.x
+            }, duration);
+
+            return true;
+        }
+
+        private static readonly flyToEntity_min = new Facepunch.Vector3();
+        private static readonly flyToEntity_max = new Facepunch.Vector3();
+
+        // Moves back from the entity's centre far enough to see all of it, keeping the current angles,
+        // and selects it. Returns false if the entity has no position.
+        flyToEntity(info: Entities.IEntity, duration: number = 1): boolean {
+            const center = this.map.getEntityCenter(info, new Facepunch.Vector3());
+            if (center == null) return false;
+
+            const inst = this.map.getEntityInstance(info);
+            const min = MapViewer.flyToEntity_min;
+            const max = MapViewer.flyToEntity_max;
+
+            let distance = 128;
+            if (inst != null && inst.getBounds(min, max)) {
+                distance = Math.max(distance, max.sub(min).length());
+            }
+
+            if (this.orbitController.isActive()) {
+                this.orbitController.setTarget(center, distance);
+            } else {
+                const cosPitch = Math.cos(this.lookAngs.y);
+                const eye = new Facepunch.Vector3(
+                    Math.sin(this.lookAngs.x) * cosPitch,
+                    -Math.cos(this.lookAngs.x) * cosPitch,
+                    -Math.sin(this.lookAngs.y)).multiplyScalar(distance).add(center);
+
+                this.moveCamera({ position: eye }, duration);
+            }
+
+            if (inst == null) return true;
+
+            if (this.inspector.enabled) {
+                this.inspector.select({ entity: inst, leaf: null, position: center, distance: 0 });
+            } else {
+                this.selectEntity(inst);
+            }
+
+            return true;
+        }
+
+        protected onCreateEntityList(): EntityListPanel {
+            return new EntityListPanel(this);
         }
 
         protected onCreateDebugPanel(): HTMLElement {
@@ -234,6 +885,42 @@ namespace SourceUtils {
             this.updateCameraAngles();
         }
 
+        getCameraAngles(target: Facepunch.Vector2): Facepunch.Vector2 {
+            return target.set(this.lookAngs.x, this.lookAngs.y);
+        }
+
+        private readonly worldToScreen_temp = new Facepunch.Vector4();
+        private readonly worldToScreen_matrix = new Facepunch.Matrix4();
+
+        // Point in the container in pixels for the given world position, or null if it is behind the camera
+        worldToScreen(pos: Facepunch.IVector3, target: Facepunch.Vector2): Facepunch.Vector2 {
+            const camera = this.mainCamera;
+            const view = this.worldToScreen_temp.set(pos.x, pos.y, pos.z, 1)
+                .applyMatrix4(camera.getInverseMatrix(this.worldToScreen_matrix));
+
+            // The camera looks down -Z
+            if (view.z >= 0) return null;
+
+            const tanHalfFov = Math.tan(camera.getFov() * Math.PI / 360);
+            const viewX = view.x / (-view.z * 2 * tanHalfFov * camera.getAspect());
+            const viewY = view.y / (-view.z * 2 * tanHalfFov);
+
+            return target.set((viewX + 0.5) * this.getWidth(), (0.5 - viewY) * this.getHeight());
+        }
+
+        // World space direction through the given point in the container, in pixels
+        getScreenRay(screenX: number, screenY: number, target: Facepunch.Vector3): Facepunch.Vector3 {
+            const camera = this.mainCamera;
+            const tanHalfFov = Math.tan(camera.getFov() * Math.PI / 360);
+            const viewX = screenX / this.getWidth() - 0.5;
+            const viewY = screenY / this.getHeight() - 0.5;
+
+            target.set(viewX * 2 * tanHalfFov * camera.getAspect(), -viewY * 2 * tanHalfFov, -1);
+            camera.applyRotationTo(target);
+
+            return target.normalize();
+        }
+
         private updateCameraAngles(): void {
             if (this.lookAngs.y < -Math.PI * 0.5) this.lookAngs.y = -Math.PI * 0.5;
             if (this.lookAngs.y > Math.PI * 0.5) this.lookAngs.y = Math.PI * 0.5;
@@ -245,6 +932,44 @@ namespace SourceUtils {
             this.mainCamera.setRotation(this.lookQuat);
         }
 
+        protected onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2, target: EventTarget): boolean {
+            this.inspector.onMouseDown(button, screenPos);
+            this.measureTool.onMouseDown(button, screenPos);
+
+            // Orbiting drags with the mouse rather than locking the pointer
+            if (this.orbitController.isActive()) {
+                return target === this.canvas && this.orbitController.onMouseDown(button, screenPos);
+            }
+
+            return super.onMouseDown(button, screenPos, target);
+        }
+
+        protected onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2, target: EventTarget): boolean {
+            const wasDragging = this.orbitController.onMouseUp(button);
+
+            if (this.measureTool.onMouseUp(button, screenPos) || this.inspector.onMouseUp(button, screenPos) || wasDragging) return true;
+
+            return super.onMouseUp(button, screenPos, target);
+        }
+
+        protected onMouseMove(screenPos: Facepunch.Vector2): void {
+            super.onMouseMove(screenPos);
+
+            if (this.orbitController.isActive()) {
+                this.orbitController.onMouseMove(screenPos);
+                this.notMovedTime = 0;
+            }
+        }
+
+        protected onMouseScroll(delta: number): boolean {
+            if (this.orbitController.isActive()) {
+                this.notMovedTime = 0;
+                return this.orbitController.onMouseScroll(delta);
+            }
+
+            return super.onMouseScroll(delta);
+        }
+
         protected onMouseLook(delta: Facepunch.Vector2): void {
             super.onMouseLook(delta);
 
@@ -277,19 +1002,21 @@ namespace SourceUtils {
         protected onKeyDown(key: WebGame.Key): boolean {
             super.onKeyDown(key);
 
-            switch (key) {
-                case WebGame.Key.F:
+            return this.input.onKeyDown(key);
+        }
+
+        // Called when a key or gamepad button bound to an action is pressed
+        protected onInputAction(action: InputAction): boolean {
+            switch (action) {
+                case InputAction.ToggleFullscreen:
                     this.toggleFullscreen();
                     return true;
-                case WebGame.Key.W:
-                case WebGame.Key.A:
-                case WebGame.Key.S:
-                case WebGame.Key.D:
-                case WebGame.Key.Shift:
-                case WebGame.Key.Alt:
-                    return this.isPointerLocked() && (this.cameraMode & CameraMode.CanMove) !== 0;
+                case InputAction.ToggleWalk:
+                    if ((this.cameraMode & CameraMode.CanMove) === 0) return false;
+                    this.cameraMode ^= CameraMode.Walk;
+                    return true;
                 default:
-                    return false;
+                    return this.isPointerLocked() && (this.cameraMode & CameraMode.CanMove) !== 0;
             }
         }
 
@@ -297,6 +1024,7 @@ namespace SourceUtils {
         private frameCount = 0;
         private lastDrawCalls: number;
         private allLoaded = false;
+        private mapReady = false;
 
         protected onSetDebugText(className: string, value: string): void {
             const elem = this.debugPanel.getElementsByClassName(className)[0] as HTMLElement;
@@ -312,12 +1040,93 @@ namespace SourceUtils {
             }
         }
 
+        private readonly loadPriorityOrigin = new Facepunch.Vector3();
+
+        // Priority hint for loading something at the given position, higher when it is nearer
+        // the camera. Zero if it can't be seen, being outside the camera's visible clusters or
+        // beyond its far plane, so PagedLoader leaves it until the camera gets closer.
+        getLoadPriority(position: Facepunch.IVector3, clusters?: number[]): number {
+            const origin = this.loadPriorityOrigin;
+            const dx = position.x - origin.x;
+            const dy = position.y - origin.y;
+            const dz = position.z - origin.z;
+            const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+            const nearness = 1 / (1 + dist / this.loadPriorityFalloff);
+
+            if (dist <= this.mainCamera.getFar() && this.map.isAnyClusterVisible(clusters)) return nearness;
+
+            // The 3D skybox is drawn scaled up from the sky camera, so distance doesn't matter there
+            const skyCamera = this.map.skyCamera;
+            if (skyCamera != null && this.map.isAnyClusterVisible(clusters, skyCamera.getLeaf())) return nearness;
+
+            return 0;
+        }
+
+        private readonly lastCameraPos = new Facepunch.Vector3(NaN, NaN, NaN);
+        private readonly lastLookAngs = new Facepunch.Vector2(NaN, NaN);
+        private lastLeaf: BspLeaf;
+
+        private checkCameraChanged(): void {
+            const pos = this.loadPriorityOrigin;
+            const last = this.lastCameraPos;
+
+            if (pos.x !== last.x || pos.y !== last.y || pos.z !== last.z
+                || this.lookAngs.x !== this.lastLookAngs.x || this.lookAngs.y !== this.lastLookAngs.y) {
+                last.copy(pos);
+                this.lastLookAngs.set(this.lookAngs.x, this.lookAngs.y);
+
+                this.onCameraMoved(this.getCameraState());
+            }
+
+            if (!this.map.isReady()) return;
+
+            const leaf = this.mainCamera.getLeaf();
+            if (leaf === this.lastLeaf) return;
+
+            this.lastLeaf = leaf;
+            this.onLeafChanged(leaf);
+        }
+
         private readonly onUpdateFrame_temp = new Facepunch.Vector3();
+        private wasWalking = false;
+        private wasOrbiting = false;
 
         protected onUpdateFrame(dt: number): void {
             super.onUpdateFrame(dt);
 
-            this.map.update(dt);
+            this.map.update(this.cameraPathPlayer.getWorldTimestep(dt));
+
+            const showLoadingOverlay = this.showLoadingOverlay && !this.allLoaded;
+            if (showLoadingOverlay && this.loadingOverlay === undefined) {
+                this.loadingOverlay = this.onCreateLoadingOverlay();
+            }
+
+            if (showLoadingOverlay !== this.loadingOverlayVisible && this.loadingOverlay != null) {
+                this.loadingOverlayVisible = showLoadingOverlay;
+                this.loadingOverlay.setVisible(showLoadingOverlay);
+            }
+
+            if (!this.mapReady && this.map.isReady()) {
+                this.mapReady = true;
+                this.applyPendingHash();
+                this.onMapReady();
+
+                if (this.entityList != null) this.entityList.refresh();
+            }
+
+            if (this.showEntityList !== this.entityListVisible) {
+                this.entityListVisible = this.showEntityList;
+
+                if (this.showEntityList && this.entityList === undefined) {
+                    this.entityList = this.onCreateEntityList();
+                    this.entityList.refresh();
+                }
+
+                if (this.entityList != null) this.entityList.setVisible(this.showEntityList);
+            }
+
+            this.measureTool.update();
 
             if (this.showDebugPanel !== this.debugPanelVisible) {
                 this.debugPanelVisible = this.showDebugPanel;
@@ -335,18 +1144,68 @@ namespace SourceUtils {
             const savePosPeriod = 1;
             const wasBeforeSavePosPeriod = this.notMovedTime < savePosPeriod;
 
-            if ((this.cameraMode & CameraMode.CanMove) !== 0 && this.isPointerLocked() && this.map.isReady()) {
+            const input = this.input;
+            input.update(dt);
+
+            if ((this.cameraMode & CameraMode.CanLook) !== 0 && input.look.lengthSq() > 0) {
+                this.lookAngs.sub(input.look);
+                this.notMovedTime = 0;
+                this.updateCameraAngles();
+            }
+
+            const walking = (this.cameraMode & (CameraMode.CanMove | CameraMode.Walk)) === (CameraMode.CanMove | CameraMode.Walk);
+            if (!walking) this.wasWalking = false;
+
+            const orbiting = this.orbitController.isActive();
+            if (!orbiting) this.wasOrbiting = false;
+
+            if (this.cameraPathPlayer.isPlaying()) {
+                this.cameraPathPlayer.update(dt);
+                this.wasWalking = false;
+                this.notMovedTime = 0;
+            } else if (this.cameraAnimation != null) {
+                this.updateCameraAnimation(dt);
+            } else if (orbiting) {
+                if (!this.wasOrbiting) {
+                    this.wasOrbiting = true;
+                    this.orbitController.begin();
+                }
+
+                this.orbitController.update(dt);
+            } else if (walking && this.map.isReady()) {
+                const player = this.playerController;
+                const pos = this.onUpdateFrame_temp;
+
+                if (!this.wasWalking) {
+                    this.wasWalking = true;
+                    player.setEyePosition(this.mainCamera.getPosition(pos));
+                }
+
+                const yaw = this.lookAngs.x;
+                const forward = input.move.y;
+                const right = input.move.x;
+
+                const wishDir = pos.set(-Math.sin(yaw) * forward + Math.cos(yaw) * right,
+                    Math.cos(yaw) * forward + Math.sin(yaw) * right, 0);
+
+                // Keep partial stick or touch input, but don't let diagonals go faster
+                if (wishDir.lengthSq() > 1) wishDir.normalize();
+
+                player.update(dt, wishDir,
+                    input.isActionDown(InputAction.Jump),
+                    input.isActionDown(InputAction.Duck));
+
+                if (player.velocity.lengthSq() > 0) this.notMovedTime = 0;
+
+                this.mainCamera.setPosition(player.getEyePosition(pos));
+            } else if ((this.cameraMode & CameraMode.CanMove) !== 0 && this.map.isReady()) {
                 const move = this.onUpdateFrame_temp;
 
-                move.set(0, 0, 0);
                 const moveSpeed = 512 * dt
-                    * (this.isKeyDown(WebGame.Key.Shift) ? 4 : 1)
-                    * (this.isKeyDown(WebGame.Key.Alt) ? 0.333 : 1);
+                    * (input.isActionDown(InputAction.Sprint) ? 4 : 1)
+                    * (input.isActionDown(InputAction.Slow) ? 0.333 : 1);
 
-                if (this.isKeyDown(WebGame.Key.W)) move.z -= moveSpeed;
-                if (this.isKeyDown(WebGame.Key.S)) move.z += moveSpeed;
-                if (this.isKeyDown(WebGame.Key.A)) move.x -= moveSpeed;
-                if (this.isKeyDown(WebGame.Key.D)) move.x += moveSpeed;
+                move.set(input.move.x * moveSpeed, 0, -input.move.y * moveSpeed);
 
                 if (move.lengthSq() > 0) {
                     this.mainCamera.applyRotationTo(move);
@@ -357,18 +1216,12 @@ namespace SourceUtils {
 
             this.notMovedTime += dt;
 
-            if (this.saveCameraPosInHash && wasBeforeSavePosPeriod && this.notMovedTime >= savePosPeriod) {
-                const pos = this.mainCamera.getPosition(this.onUpdateFrame_temp);
-                const pitch = this.lookAngs.x * 180.0 / Math.PI;
-                const yaw = this.lookAngs.y * 180.0 / Math.PI;
+            this.mainCamera.getPosition(this.loadPriorityOrigin);
 
-                this.setHash({
-                    x: pos.x.toFixed(1),
-                    y: pos.y.toFixed(1),
-                    z: pos.z.toFixed(1),
-                    r: pitch.toFixed(1),
-                    s: yaw.toFixed(1)
-                });
+            this.checkCameraChanged();
+
+            if (this.saveCameraPosInHash && wasBeforeSavePosPeriod && this.notMovedTime >= savePosPeriod) {
+                this.setHash(this.getHashState());
             }
 
             // Diagnostics
@@ -395,25 +1248,27 @@ namespace SourceUtils {
                 }
 
                 if (!this.allLoaded) {
-                    const visLoaded = this.visLoader.getLoadProgress();
-                    const bspLoaded = this.bspModelLoader.getLoadProgress();
-                    const lightmapLoaded = this.map.getLightmapLoadProgress();
-                    const materialsLoaded = this.mapMaterialLoader.getLoadProgress();
-
-                    const geomLoaded = this.leafGeometryLoader.getLoadProgress() * 0.5
-                        + this.dispGeometryLoader.getLoadProgress() * 0.5;
-
-                    const propsLoaded = this.vertLightingLoader.getLoadProgress() * 0.25
-                        + this.studioModelLoader.getLoadProgress() * 0.75;
+                    for (let loader of this.pagedLoaders) {
+                        loader.countFailedAsLoaded = this.allowPartialLoad;
+                    }
 
-                    this.totalLoadProgress = (visLoaded + bspLoaded + lightmapLoaded + materialsLoaded + geomLoaded + propsLoaded) / 6;
+                    const progress = this.getLoadProgress();
+                    this.totalLoadProgress = progress.total;
 
                     if (this.showDebugPanel) {
                         this.onSetDebugText("debug-loadpercent", (this.totalLoadProgress * 100).toPrecision(3));
                     }
 
+                    this.onLoadProgress(progress);
+
                     if (this.totalLoadProgress >= 1) {
                         this.allLoaded = true;
+
+                        // Brush entity bounds are known now, so connections can meet their
+                        // centres and brush entities are no longer mistaken for point entities
+                        this.ioOverlay.invalidate();
+                        this.gizmos.invalidate();
+                        this.onAllLoaded();
                     }
                 }
 
@@ -431,9 +1286,15 @@ namespace SourceUtils {
             gl.depthFunc(gl.LEQUAL);
             gl.cullFace(gl.FRONT);
 
-            if (this.mainCamera != null) {
+            if (this.overviewMode) {
+                this.overviewRenderer.renderRadar();
+            } else if (this.mainCamera != null) {
                 this.mainCamera.render();
             }
+
+            this.ioOverlay.update();
+            this.gizmos.update();
+            this.cameraPathPlayer.onFrameRendered();
         }
 
         populateCommandBufferParameters(buf: WebGame.CommandBuffer): void {
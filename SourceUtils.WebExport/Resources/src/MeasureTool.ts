@@ -0,0 +1,330 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    // How a player could get from the lower point of a measurement to the higher one
+    export enum Reachability {
+        Step,
+        Jump,
+        CrouchJump,
+        TooHigh
+    }
+
+    export interface IMeasurement {
+        start: Facepunch.IVector3;
+        end: Facepunch.IVector3;
+
+        // In Hammer units, with vertical positive when the end is higher
+        distance: number;
+        horizontal: number;
+        vertical: number;
+
+        reachability: Reachability;
+    }
+
+    // Measures between pairs of points clicked on the world while MapViewer.measureMode is set,
+    // picking like EntityInspector does. Heights are judged against PlayerController's movement.
+    export class MeasureTool {
+        static readonly reachabilityLabels: { [reachability: number]: string } = {
+            [Reachability.Step]: "Step",
+            [Reachability.Jump]: "Jump",
+            [Reachability.CrouchJump]: "Crouch jump",
+            [Reachability.TooHigh]: "Too high"
+        };
+
+        readonly viewer: MapViewer;
+
+        pickButton = WebGame.MouseButton.Left;
+        clickTolerance = 4;
+
+        // Hammer units are usually taken to be an inch
+        metresPerUnit = 0.0254;
+
+        // Size of the cross drawn at each point
+        markerSize = 4;
+
+        readonly lineColor = new Facepunch.Vector3(1, 1, 0.25);
+
+        private measurements: IMeasurement[] = [];
+        private pending: Facepunch.Vector3;
+
+        private active: boolean;
+        private line: WebGame.DebugLine;
+        private panel: HTMLElement;
+
+        private readonly mouseDownPos = new Facepunch.Vector2();
+        private mouseDownLocked: boolean;
+        private mouseDownPending = false;
+
+        private readonly traceResult = new TraceResult();
+        private readonly temp = new Facepunch.Vector3();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        // Highest a standing jump can reach, from the player's jump speed and gravity
+        getJumpHeight(): number {
+            const player = this.viewer.playerController;
+            return player.jumpSpeed * player.jumpSpeed / (2 * player.gravity);
+        }
+
+        // Ducking in the air tucks the legs up by the difference in hull heights, as in walk mode
+        getCrouchJumpHeight(): number {
+            return this.getJumpHeight() + PlayerController.standHeight - PlayerController.duckHeight;
+        }
+
+        // Dropping down is always possible, so only climbs are judged
+        getReachability(height: number): Reachability {
+            if (height <= PlayerController.stepSize) return Reachability.Step;
+            if (height <= this.getJumpHeight()) return Reachability.Jump;
+            if (height <= this.getCrouchJumpHeight()) return Reachability.CrouchJump;
+
+            return Reachability.TooHigh;
+        }
+
+        measure(start: Facepunch.IVector3, end: Facepunch.IVector3): IMeasurement {
+            const dx = end.x - start.x;
+            const dy = end.y - start.y;
+            const dz = end.z - start.z;
+
+            return {
+                start: { x: start.x, y: start.y, z: start.z },
+                end: { x: end.x, y: end.y, z: end.z },
+                distance: Math.sqrt(dx * dx + dy * dy + dz * dz),
+                horizontal: Math.sqrt(dx * dx + dy * dy),
+                vertical: dz,
+                reachability: this.getReachability(dz)
+            };
+        }
+
+        getMeasurements(): IMeasurement[] {
+            return this.measurements;
+        }
+
+        removeMeasurement(index: number): void {
+            this.measurements.splice(index, 1);
+            this.updateLine();
+            this.updatePanel();
+        }
+
+        toJson(): string {
+            return JSON.stringify({
+                map: this.viewer.getState().mapUrl,
+                metresPerUnit: this.metresPerUnit,
+                measurements: this.measurements.map(x => ({
+                    start: x.start,
+                    end: x.end,
+                    distance: x.distance,
+                    horizontal: x.horizontal,
+                    vertical: x.vertical,
+                    reachability: MeasureTool.reachabilityLabels[x.reachability]
+                }))
+            }, null, 2);
+        }
+
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): void {
+            if (button !== this.pickButton) return;
+
+            this.mouseDownPos.copy(screenPos);
+            this.mouseDownLocked = this.viewer.isPointerLocked();
+            this.mouseDownPending = true;
+        }
+
+        // Picks at the cursor when orbiting, or at the centre of the screen with the pointer locked
+        onMouseUp(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean {
+            const viewer = this.viewer;
+
+            if (!viewer.measureMode || button !== this.pickButton || !this.mouseDownPending) return false;
+
+            this.mouseDownPending = false;
+
+            if (this.mouseDownLocked) {
+                this.addPoint(this.pick(viewer.getWidth() * 0.5, viewer.getHeight() * 0.5));
+                return true;
+            }
+
+            if (!viewer.orbitController.isActive()) return false;
+
+            const dx = screenPos.x - this.mouseDownPos.x;
+            const dy = screenPos.y - this.mouseDownPos.y;
+            if (dx * dx + dy * dy > this.clickTolerance * this.clickTolerance) return false;
+
+            this.addPoint(this.pick(screenPos.x, screenPos.y));
+            return true;
+        }
+
+        // First surface under the given point on the screen, or null if nothing was hit
+        pick(screenX: number, screenY: number): Facepunch.Vector3 {
+            const viewer = this.viewer;
+            const camera = viewer.mainCamera;
+
+            if (!viewer.map.isReady()) return null;
+
+            const eye = camera.getPosition(new Facepunch.Vector3()) as Facepunch.Vector3;
+            const dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            const end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+
+            const tr = viewer.map.trace(eye, end, TraceMask.Solid, this.traceResult);
+            if (!tr.hit || tr.startSolid) return null;
+
+            return new Facepunch.Vector3().copy(tr.position);
+        }
+
+        // Starts a measurement, or finishes the one that was started
+        addPoint(pos: Facepunch.IVector3): void {
+            if (pos == null) return;
+
+            if (this.pending == null) {
+                this.pending = new Facepunch.Vector3().copy(pos);
+            } else {
+                this.measurements.push(this.measure(this.pending, pos));
+                this.pending = null;
+            }
+
+            this.updateLine();
+            this.updatePanel();
+        }
+
+        private drawMarker(line: WebGame.DebugLine, pos: Facepunch.IVector3): void {
+            const size = this.markerSize;
+            const temp = this.temp;
+
+            line.moveTo(temp.set(pos.x - size, pos.y, pos.z));
+            line.lineTo(temp.set(pos.x + size, pos.y, pos.z));
+            line.moveTo(temp.set(pos.x, pos.y - size, pos.z));
+            line.lineTo(temp.set(pos.x, pos.y + size, pos.z));
+            line.moveTo(temp.set(pos.x, pos.y, pos.z - size));
+            line.lineTo(temp.set(pos.x, pos.y, pos.z + size));
+        }
+
+        private updateLine(): void {
+            const map = this.viewer.map;
+
+            if (this.line == null) {
+                this.line = new WebGame.DebugLine(this.viewer);
+                this.line.setColor(this.lineColor);
+            }
+
+            const line = this.line;
+
+            map.removeDynamicItem(line);
+            line.clear();
+
+            if (this.active) {
+                for (let measurement of this.measurements) {
+                    this.drawMarker(line, measurement.start);
+                    this.drawMarker(line, measurement.end);
+
+                    line.moveTo(measurement.start);
+                    line.lineTo(measurement.end);
+                }
+
+                if (this.pending != null) this.drawMarker(line, this.pending);
+            }
+
+            line.update();
+            if (this.active) map.addDynamicItem(line);
+        }
+
+        private formatLength(units: number): string {
+            return `${units.toFixed(1)} u (${(units * this.metresPerUnit).toFixed(2)} m)`;
+        }
+
+        protected onCreatePanel(): HTMLElement {
+            const panel = document.createElement("div");
+            panel.classList.add("side-panel", "measure-panel");
+
+            // Clicks on the panel shouldn't pick whatever is behind it
+            panel.addEventListener("mousedown", ev => ev.stopPropagation());
+
+            this.viewer.container.appendChild(panel);
+            return panel;
+        }
+
+        private addButton(parent: HTMLElement, text: string, action: () => void): void {
+            const button = document.createElement("span");
+            button.classList.add("button");
+            button.innerText = text;
+            button.addEventListener("click", ev => action());
+            parent.appendChild(button);
+        }
+
+        private download(): void {
+            const link = document.createElement("a");
+            link.href = `data:application/json;charset=utf-8,${encodeURIComponent(this.toJson())}`;
+            link.download = "measurements.json";
+
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+        }
+
+        private updatePanel(): void {
+            if (!this.active) {
+                if (this.panel != null) this.panel.style.display = "none";
+                return;
+            }
+
+            if (this.panel == null) this.panel = this.onCreatePanel();
+
+            const panel = this.panel;
+            panel.style.display = null;
+            panel.innerHTML = "";
+
+            const title = document.createElement("div");
+            title.classList.add("label");
+            title.innerText = this.pending != null ? "Click the second point" : "Click the first point";
+            panel.appendChild(title);
+
+            this.measurements.forEach((measurement, index) => {
+                const item = document.createElement("div");
+                item.classList.add("measurement");
+
+                if (measurement.reachability === Reachability.TooHigh) item.classList.add("too-high");
+
+                const rise = Math.abs(measurement.vertical);
+                const reach = MeasureTool.reachabilityLabels[measurement.reachability];
+
+                item.innerText = `#${index + 1}\n`
+                    + `Distance: ${this.formatLength(measurement.distance)}\n`
+                    + `Horizontal: ${this.formatLength(measurement.horizontal)}\n`
+                    + `Vertical: ${this.formatLength(rise)} ${measurement.vertical >= 0 ? "up" : "down"} (${reach})`;
+
+                this.addButton(item, "×", () => this.removeMeasurement(index));
+                panel.appendChild(item);
+            });
+
+            if (this.measurements.length > 0) {
+                this.addButton(panel, "Export JSON", () => this.download());
+                this.addButton(panel, "Clear", () => this.clear());
+            }
+        }
+
+        // Shows or hides everything when MapViewer.measureMode changes
+        update(): void {
+            const active = this.viewer.measureMode;
+            if (active === this.active) return;
+
+            this.active = active;
+            this.pending = null;
+
+            this.updateLine();
+            this.updatePanel();
+        }
+
+        // Forgets every measurement, such as when a new map is loaded
+        clear(): void {
+            this.measurements = [];
+            this.pending = null;
+
+            if (this.line != null) {
+                this.viewer.map.removeDynamicItem(this.line);
+                this.line.dispose();
+                this.line = null;
+            }
+
+            if (this.active) this.updateLine();
+            this.updatePanel();
+        }
+    }
+}
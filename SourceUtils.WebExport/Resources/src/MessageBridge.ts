@@ -0,0 +1,168 @@
+﻿namespace SourceUtils {
+    // Commands call respond with their result, or fail if they couldn't finish
+    export type MessageCommand = (viewer: MapViewer, args: any[],
+        respond: (result?: any) => void, fail: (error: string) => void) => void;
+
+    export interface IMessageCommand {
+        sourceutils: "command";
+        id?: number | string;
+        command: string;
+        args?: any[];
+    }
+
+    export interface IMessageResponse {
+        sourceutils: "response";
+        id: number | string;
+        result?: any;
+        error?: string;
+    }
+
+    export interface IMessageEvent {
+        sourceutils: "event";
+        event: string;
+        data?: any;
+    }
+
+    // Lets a host page drive a MapViewer inside an iframe through postMessage,
+    // forwarding viewer events back to it
+    export class MessageBridge {
+        private static readonly commands: { [name: string]: MessageCommand } = {};
+
+        static registerCommand(name: string, command: MessageCommand): void {
+            MessageBridge.commands[name] = command;
+        }
+
+        static getCommand(name: string): MessageCommand {
+            return MessageBridge.commands[name];
+        }
+
+        readonly viewer: MapViewer;
+        readonly target: Window;
+
+        // Only messages from this origin are accepted, and events are only sent to it.
+        // Must be given exactly, since "*" would let any page drive the viewer.
+        readonly origin: string;
+
+        private readonly messageListener = (ev: MessageEvent) => this.onMessage(ev);
+        private disposed = false;
+
+        constructor(viewer: MapViewer, origin: string, target: Window = window.parent) {
+            if (origin == null || origin.length === 0 || origin === "*") {
+                throw new Error("MessageBridge needs the exact origin of the host page.");
+            }
+
+            this.viewer = viewer;
+            this.origin = origin;
+            this.target = target;
+
+            viewer.addCameraMovedHandler(camera => this.postEvent("cameraMoved", camera));
+            viewer.addLeafChangedHandler(leaf => this.postEvent("leafChanged",
+                leaf == null ? null : { index: leaf.index, cluster: leaf.cluster }));
+            viewer.addEntityPickedHandler(entity => this.postEvent("entityPicked", {
+                classname: entity.classname,
+                targetname: entity.targetname,
+                position: entity.getPosition(new Facepunch.Vector3())
+            }));
+            viewer.addLoadProgressHandler(progress => this.postEvent("loadProgress", progress));
+            viewer.addMapReadyHandler(() => this.postEvent("mapReady", viewer.getState()));
+            viewer.addAllLoadedHandler(() => this.postEvent("allLoaded", viewer.getState()));
+            viewer.addLoadErrorHandler(error => this.postEvent("loadError", {
+                loader: error.loader,
+                url: error.url,
+                first: error.first,
+                count: error.count,
+                attempts: error.attempts,
+                error: String(error.error)
+            }));
+
+            window.addEventListener("message", this.messageListener);
+        }
+
+        postEvent(event: string, data?: any): void {
+            if (this.disposed) return;
+
+            const message: IMessageEvent = { sourceutils: "event", event: event, data: data };
+            this.target.postMessage(message, this.origin);
+        }
+
+        private respond(response: IMessageResponse): void {
+            if (this.disposed || response.id === undefined) return;
+            this.target.postMessage(response, this.origin);
+        }
+
+        private onMessage(ev: MessageEvent): void {
+            if (ev.origin !== this.origin || ev.source !== this.target) return;
+
+            const message = ev.data as IMessageCommand;
+            if (message == null || message.sourceutils !== "command") return;
+
+            const command = MessageBridge.getCommand(message.command);
+            if (command === undefined) {
+                this.respond({ sourceutils: "response", id: message.id, error: `Unknown command '${message.command}'.` });
+                return;
+            }
+
+            try {
+                command(this.viewer, message.args != null ? message.args : [],
+                    result => this.respond({ sourceutils: "response", id: message.id, result: result }),
+                    error => this.respond({ sourceutils: "response", id: message.id, error: error }));
+            } catch (e) {
+                this.respond({ sourceutils: "response", id: message.id, error: String(e) });
+            }
+        }
+
+        dispose(): void {
+            this.disposed = true;
+            window.removeEventListener("message", this.messageListener);
+        }
+    }
+
+    MessageBridge.registerCommand("getState", (viewer, args, respond) => respond(viewer.getState()));
+    MessageBridge.registerCommand("loadMap", (viewer, args, respond) => {
+        viewer.loadMap(args[0]);
+        respond();
+    });
+    MessageBridge.registerCommand("moveCamera", (viewer, args, respond, fail) =>
+        viewer.moveCamera(args[0], args[1], () => respond(viewer.getCameraState()),
+            () => fail("Camera movement was interrupted.")));
+    MessageBridge.registerCommand("stopCameraAnimation", (viewer, args, respond) => {
+        viewer.stopCameraAnimation();
+        respond();
+    });
+    MessageBridge.registerCommand("setCameraMode", (viewer, args, respond) => {
+        viewer.cameraMode = args[0];
+        respond();
+    });
+    MessageBridge.registerCommand("getRenderFeatures", (viewer, args, respond) => respond(viewer.getRenderFeatures()));
+    MessageBridge.registerCommand("setRenderFeatures", (viewer, args, respond) => {
+        viewer.setRenderFeatures(args[0]);
+        respond(viewer.getRenderFeatures());
+    });
+    MessageBridge.registerCommand("renderOverview", (viewer, args, respond) => respond(viewer.overviewRenderer.render(args[0])));
+    MessageBridge.registerCommand("findEntities", (viewer, args, respond) => respond(viewer.map.findEntities(args[0])));
+    MessageBridge.registerCommand("getSpawns", (viewer, args, respond) => respond({
+        t: viewer.map.getTSpawns(),
+        ct: viewer.map.getCtSpawns(),
+        player: viewer.map.getPlayerSpawns()
+    }));
+    MessageBridge.registerCommand("teleportToSpawn", (viewer, args, respond) => {
+        viewer.teleportToSpawn(args[0], args[1]);
+        respond(viewer.getCameraState());
+    });
+    MessageBridge.registerCommand("setGizmos", (viewer, args, respond) => {
+        viewer.gizmos.setEnabled(args[0]);
+        const classes = (args[1] || {}) as { [classname: string]: boolean };
+        for (let classname in classes) viewer.gizmos.setClassVisible(classname, classes[classname]);
+        respond();
+    });
+    MessageBridge.registerCommand("setMeasureMode", (viewer, args, respond) => {
+        viewer.measureMode = args[0];
+        respond();
+    });
+    MessageBridge.registerCommand("getMeasurements", (viewer, args, respond) => respond(viewer.measureTool.getMeasurements()));
+    MessageBridge.registerCommand("setIoOverlay", (viewer, args, respond) => {
+        viewer.ioOverlay.setEnabled(args[0]);
+        if (args[1] !== undefined) viewer.ioOverlay.setFilter(args[1]);
+        respond();
+    });
+}
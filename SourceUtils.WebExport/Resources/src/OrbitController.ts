@@ -0,0 +1,174 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    // Moves the main camera around a target point for CameraMode.Orbit,
+    // keeping it looking at the target from the viewer's current angles
+    export class OrbitController {
+        readonly viewer: MapViewer;
+        readonly target = new Facepunch.Vector3();
+
+        distance = 256;
+        minDistance = 16;
+        maxDistance = 8192;
+
+        // Radians per pixel dragged
+        rotateSensitivity = 1 / 200;
+
+        // Distance is scaled by 2 to the power of this for each scroll step
+        zoomSensitivity = 0.5;
+
+        // Seconds to glide to a new target after double clicking
+        recentreDuration = 0.25;
+
+        rotateButton = WebGame.MouseButton.Left;
+        panButton = WebGame.MouseButton.Right;
+
+        private dragButton: WebGame.MouseButton;
+        private readonly lastDragPos = new Facepunch.Vector2();
+
+        private readonly angles = new Facepunch.Vector2();
+        private readonly forward = new Facepunch.Vector3();
+        private readonly temp = new Facepunch.Vector3();
+        private readonly traceResult = new TraceResult();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        attach(container: HTMLElement): void {
+            container.addEventListener("dblclick", ev => {
+                if (!this.isActive()) return;
+
+                const pos = this.viewer.getMouseScreenPos();
+                if (this.recentreAt(pos.x, pos.y)) ev.preventDefault();
+            });
+        }
+
+        isActive(): boolean {
+            return (this.viewer.cameraMode & CameraMode.Orbit) !== 0;
+        }
+
+        private getForward(): Facepunch.Vector3 {
+            const angles = this.viewer.getCameraAngles(this.angles);
+            const cosPitch = Math.cos(angles.y);
+
+            return this.forward.set(-Math.sin(angles.x) * cosPitch, Math.cos(angles.x) * cosPitch, Math.sin(angles.y));
+        }
+
+        // Picks a target in front of the camera, on the first surface if there is one in range
+        begin(): void {
+            const camera = this.viewer.mainCamera;
+            const eye = camera.getPosition(new Facepunch.Vector3()) as Facepunch.Vector3;
+            const forward = this.getForward();
+            const end = this.temp.copy(forward).multiplyScalar(this.maxDistance).add(eye);
+
+            const tr = this.viewer.map.isReady()
+                ? this.viewer.map.trace(eye, end, TraceMask.Solid, this.traceResult)
+                : null;
+
+            if (tr != null && tr.hit && !tr.startSolid) {
+                this.distance = Math.max(this.minDistance, tr.fraction * this.maxDistance);
+            }
+
+            this.target.copy(forward).multiplyScalar(this.distance).add(eye);
+        }
+
+        setTarget(target: Facepunch.IVector3, distance?: number): void {
+            this.target.copy(target);
+            if (distance !== undefined) this.distance = Math.max(this.minDistance, Math.min(this.maxDistance, distance));
+        }
+
+        // Orbits around the centre of the given entity, or its origin
+        focusEntity(entity: Entities.Entity, distance?: number): void {
+            const pos = entity.getPosition(new Facepunch.Vector3()) as Facepunch.Vector3;
+
+            if (entity instanceof Entities.BrushEntity && entity.model.getCenter(this.temp) != null) {
+                pos.add(this.temp);
+            }
+
+            this.setTarget(pos, distance);
+        }
+
+        // Traces from the camera through the given screen position, orbiting around
+        // whatever surface is hit. Returns false if nothing was hit.
+        recentreAt(screenX: number, screenY: number): boolean {
+            const viewer = this.viewer;
+            const camera = viewer.mainCamera;
+
+            if (!viewer.map.isReady()) return false;
+
+            const eye = camera.getPosition(new Facepunch.Vector3()) as Facepunch.Vector3;
+            const dir = viewer.getScreenRay(screenX, screenY, new Facepunch.Vector3());
+            const end = this.temp.copy(dir).multiplyScalar(camera.getFar()).add(eye);
+
+            const tr = viewer.map.trace(eye, end, TraceMask.Solid, this.traceResult);
+            if (!tr.hit || tr.startSolid) return false;
+
+            this.target.copy(tr.position);
+
+            const forward = this.getForward();
+            const newEye = new Facepunch.Vector3().copy(forward).multiplyScalar(-this.distance).add(this.target);
+
+            viewer.moveCamera({ position: newEye }, this.recentreDuration);
+
+            return true;
+        }
+
+        onMouseDown(button: WebGame.MouseButton, screenPos: Facepunch.Vector2): boolean {
+            if (button !== this.rotateButton && button !== this.panButton) return false;
+
+            this.dragButton = button;
+            this.lastDragPos.copy(screenPos);
+
+            return true;
+        }
+
+        onMouseUp(button: WebGame.MouseButton): boolean {
+            if (button !== this.dragButton) return false;
+
+            this.dragButton = undefined;
+            return true;
+        }
+
+        onMouseMove(screenPos: Facepunch.Vector2): void {
+            if (this.dragButton === undefined) return;
+
+            const dx = screenPos.x - this.lastDragPos.x;
+            const dy = screenPos.y - this.lastDragPos.y;
+
+            this.lastDragPos.copy(screenPos);
+
+            if (this.dragButton === this.rotateButton) {
+                const angles = this.viewer.getCameraAngles(this.angles);
+                this.viewer.setCameraAngles(angles.x - dx * this.rotateSensitivity, angles.y - dy * this.rotateSensitivity);
+            } else {
+                this.pan(dx, dy);
+            }
+        }
+
+        // Moves the target so that it follows the cursor across the screen
+        pan(dx: number, dy: number): void {
+            const camera = this.viewer.mainCamera;
+            const unitsPerPixel = 2 * this.distance * Math.tan(camera.getFov() * Math.PI / 360) / this.viewer.getHeight();
+
+            const move = this.temp.set(-dx * unitsPerPixel, dy * unitsPerPixel, 0);
+            camera.applyRotationTo(move);
+
+            this.target.add(move);
+        }
+
+        onMouseScroll(delta: number): boolean {
+            this.distance = Math.max(this.minDistance, Math.min(this.maxDistance,
+                this.distance * Math.pow(2, -delta * this.zoomSensitivity)));
+
+            return true;
+        }
+
+        update(dt: number): void {
+            const forward = this.getForward();
+            const eye = this.temp.copy(forward).multiplyScalar(-this.distance).add(this.target);
+
+            this.viewer.mainCamera.setPosition(eye);
+        }
+    }
+}
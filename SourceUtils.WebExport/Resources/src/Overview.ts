@@ -0,0 +1,277 @@
+﻿namespace SourceUtils {
+    export enum OverviewMarkerType {
+        TSpawn,
+        CtSpawn,
+        Bombsite
+    }
+
+    // Same meaning as pos_x, pos_y and scale in CS overview description files:
+    // the world position of the image's top left corner, and world units per pixel
+    export interface IOverviewTransform {
+        posX: number;
+        posY: number;
+        scale: number;
+    }
+
+    // Position in image pixels, with a size for bombsites
+    export interface IOverviewMarker {
+        type: OverviewMarkerType;
+        targetname?: string;
+        x: number;
+        y: number;
+        width?: number;
+        height?: number;
+    }
+
+    export interface IOverviewOptions {
+        // Pixels along the longest side of the image
+        size?: number;
+
+        // World space bounds to render, defaulting to the bounds of the world
+        min?: Facepunch.IVector3;
+        max?: Facepunch.IVector3;
+
+        // Heights to slice between, overriding the bounds for multi-level maps
+        minZ?: number;
+        maxZ?: number;
+
+        drawMarkers?: boolean;
+    }
+
+    export interface IOverview {
+        width: number;
+        height: number;
+        minZ: number;
+        maxZ: number;
+        transform: IOverviewTransform;
+        markers: IOverviewMarker[];
+
+        // PNG data URL
+        image: string;
+    }
+
+    // Renders the map from above, either into a PNG or live as a radar around the main camera
+    export class OverviewRenderer {
+        static readonly markerColors: { [type: number]: string } = {
+            [OverviewMarkerType.TSpawn]: "#e0a030",
+            [OverviewMarkerType.CtSpawn]: "#4080e0",
+            [OverviewMarkerType.Bombsite]: "#e03030"
+        };
+
+        readonly viewer: MapViewer;
+
+        defaultSize = 1024;
+        markerRadius = 6;
+
+        // World units per screen pixel in radar mode
+        radarScale = 4;
+
+        // How far above the main camera to slice in radar mode, hiding ceilings
+        radarCeiling = 128;
+
+        private camera: Entities.OverviewCamera;
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        private getCamera(): Entities.OverviewCamera {
+            if (this.camera == null) this.camera = new Entities.OverviewCamera(this.viewer);
+            return this.camera;
+        }
+
+        static worldToImage(transform: IOverviewTransform, pos: Facepunch.IVector3, out: Facepunch.IVector2): Facepunch.IVector2 {
+            out.x = (pos.x - transform.posX) / transform.scale;
+            out.y = (transform.posY - pos.y) / transform.scale;
+            return out;
+        }
+
+        static imageToWorld(transform: IOverviewTransform, pos: Facepunch.IVector2, out: Facepunch.IVector3): Facepunch.IVector3 {
+            out.x = transform.posX + pos.x * transform.scale;
+            out.y = transform.posY - pos.y * transform.scale;
+            return out;
+        }
+
+        // Anything that hasn't loaded yet will be missing, so wait for MapViewer.isAllLoaded().
+        // Returns null if the world model hasn't loaded.
+        render(options?: IOverviewOptions): IOverview {
+            options = options || {};
+
+            const viewer = this.viewer;
+            const gl = viewer.context;
+            const camera = this.getCamera();
+
+            const min = new Facepunch.Vector3();
+            const max = new Facepunch.Vector3();
+
+            if (!viewer.map.getWorldBounds(min, max)) return null;
+
+            if (options.min != null) min.copy(options.min);
+            if (options.max != null) max.copy(options.max);
+            if (options.minZ != null) min.z = options.minZ;
+            if (options.maxZ != null) max.z = options.maxZ;
+
+            const size = options.size || this.defaultSize;
+            const scale = Math.max(max.x - min.x, max.y - min.y) / size;
+            const width = Math.max(1, Math.ceil((max.x - min.x) / scale));
+            const height = Math.max(1, Math.ceil((max.y - min.y) / scale));
+            const transform: IOverviewTransform = { posX: min.x, posY: max.y, scale: scale };
+
+            const canvas = document.createElement("canvas");
+            canvas.width = width;
+            canvas.height = height;
+
+            const context = canvas.getContext("2d");
+            const image = context.createImageData(width, height);
+
+            // Drawn in tiles the size of the canvas, since the camera's
+            // translucent pass renders back to the canvas anyway
+            const tileWidth = gl.drawingBufferWidth;
+            const tileHeight = gl.drawingBufferHeight;
+            const pixels = new Uint8Array(tileWidth * tileHeight * 4);
+            const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array;
+
+            gl.clearColor(0, 0, 0, 0);
+            gl.depthFunc(gl.LEQUAL);
+            gl.cullFace(gl.FRONT);
+            gl.viewport(0, 0, tileWidth, tileHeight);
+
+            for (let tileY = 0; tileY < height; tileY += tileHeight) {
+                for (let tileX = 0; tileX < width; tileX += tileWidth) {
+                    const left = min.x + tileX * scale;
+                    const top = max.y - tileY * scale;
+
+                    camera.setView(left, top - tileHeight * scale, left + tileWidth * scale, top, min.z, max.z);
+
+                    gl.depthMask(true);
+                    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+                    camera.render();
+
+                    const w = Math.min(tileWidth, width - tileX);
+                    const h = Math.min(tileHeight, height - tileY);
+
+                    gl.readPixels(0, tileHeight - h, w, h, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+                    // Rows are read from the bottom up
+                    for (let row = 0; row < h; ++row) {
+                        const src = (h - 1 - row) * w * 4;
+                        image.data.set(pixels.subarray(src, src + w * 4), ((tileY + row) * width + tileX) * 4);
+                    }
+                }
+            }
+
+            gl.viewport(0, 0, viewer.getWidth(), viewer.getHeight());
+            gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+
+            // Only leave empty space transparent, whatever alpha the materials wrote
+            const data = image.data;
+            for (let i = 0, iEnd = data.length; i < iEnd; i += 4) {
+                if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 0 || data[i + 3] !== 0) data[i + 3] = 255;
+            }
+
+            context.putImageData(image, 0, 0);
+
+            const markers = this.getMarkers(transform);
+            if (options.drawMarkers !== false) this.drawMarkers(context, markers);
+
+            return {
+                width: width,
+                height: height,
+                minZ: min.z,
+                maxZ: max.z,
+                transform: transform,
+                markers: markers,
+                image: canvas.toDataURL("image/png")
+            };
+        }
+
+        getMarkers(transform: IOverviewTransform): IOverviewMarker[] {
+            const map = this.viewer.map;
+            const markers: IOverviewMarker[] = [];
+            const pos = new Facepunch.Vector2();
+
+            const addSpawns = (spawns: Entities.IEntity[], type: OverviewMarkerType) => {
+                for (let spawn of spawns) {
+                    if (spawn.origin == null) continue;
+
+                    OverviewRenderer.worldToImage(transform, spawn.origin, pos);
+                    markers.push({ type: type, targetname: spawn.targetname, x: pos.x, y: pos.y });
+                }
+            };
+
+            addSpawns(map.getTSpawns(), OverviewMarkerType.TSpawn);
+            addSpawns(map.getCtSpawns(), OverviewMarkerType.CtSpawn);
+
+            for (let target of map.getBombTargets()) {
+                if (target.min == null || target.max == null) continue;
+
+                // Image Y points down, so the world max Y is the top edge
+                const topLeft = OverviewRenderer.worldToImage(transform, { x: target.min.x, y: target.max.y, z: 0 }, new Facepunch.Vector2());
+                const bottomRight = OverviewRenderer.worldToImage(transform, { x: target.max.x, y: target.min.y, z: 0 }, new Facepunch.Vector2());
+
+                markers.push({
+                    type: OverviewMarkerType.Bombsite,
+                    targetname: target.targetname,
+                    x: topLeft.x,
+                    y: topLeft.y,
+                    width: bottomRight.x - topLeft.x,
+                    height: bottomRight.y - topLeft.y
+                });
+            }
+
+            return markers;
+        }
+
+        private drawMarkers(context: CanvasRenderingContext2D, markers: IOverviewMarker[]): void {
+            context.lineWidth = 2;
+
+            for (let marker of markers) {
+                const color = OverviewRenderer.markerColors[marker.type];
+
+                if (marker.type === OverviewMarkerType.Bombsite) {
+                    context.fillStyle = color;
+                    context.globalAlpha = 0.25;
+                    context.fillRect(marker.x, marker.y, marker.width, marker.height);
+
+                    context.strokeStyle = color;
+                    context.globalAlpha = 1;
+                    context.strokeRect(marker.x, marker.y, marker.width, marker.height);
+                    continue;
+                }
+
+                context.beginPath();
+                context.arc(marker.x, marker.y, this.markerRadius, 0, Math.PI * 2);
+                context.fillStyle = color;
+                context.fill();
+                context.strokeStyle = "#000";
+                context.stroke();
+            }
+        }
+
+        private static readonly renderRadar_pos = new Facepunch.Vector3();
+        private static readonly renderRadar_min = new Facepunch.Vector3();
+        private static readonly renderRadar_max = new Facepunch.Vector3();
+
+        // Draws the map around the main camera with north at the top, sliced just above it
+        renderRadar(): void {
+            const viewer = this.viewer;
+            const pos = OverviewRenderer.renderRadar_pos;
+            const min = OverviewRenderer.renderRadar_min;
+            const max = OverviewRenderer.renderRadar_max;
+
+            if (viewer.mainCamera == null || !viewer.map.getWorldBounds(min, max)) return;
+
+            viewer.mainCamera.getPosition(pos);
+
+            const halfWidth = viewer.getWidth() * this.radarScale * 0.5;
+            const halfHeight = viewer.getHeight() * this.radarScale * 0.5;
+
+            const camera = this.getCamera();
+
+            camera.setView(pos.x - halfWidth, pos.y - halfHeight, pos.x + halfWidth, pos.y + halfHeight,
+                min.z, pos.z + this.radarCeiling);
+            camera.render();
+        }
+    }
+}
@@ -0,0 +1,357 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    // Converts a parsed page payload into the form given to ResourcePage.onLoadValues,
+    // adding any ArrayBuffers that can be moved back to the main thread to transfer
+    export type PageDecoder = (payload: any, transfer: ArrayBuffer[]) => any;
+
+    export interface IPageLoadRequest {
+        url: string;
+        format: PageFormat;
+        decoder: string;
+        cacheScope: IMapCacheScope;
+    }
+
+    // Lists of numbers as they appear in either page format, before decoding
+    type EncodedList = number[] | string | Uint32Array;
+
+    interface IEncodedMaterialGroup {
+        material: number;
+        meshData: WebGame.ICompressedMeshData | IBinaryMeshData;
+    }
+
+    interface IPageDecodeRequest extends IPageLoadRequest {
+        id: number;
+    }
+
+    // Sent to a worker to abort the request with the same id
+    interface IPageDecodeCancel {
+        id: number;
+        cancel: boolean;
+    }
+
+    interface IPageDecodeResponse {
+        id: number;
+        payload?: any;
+        error?: string;
+        loaded?: number;
+        total?: number;
+    }
+
+    interface IPendingDecode {
+        request: IPageDecodeRequest;
+        worker: Worker;
+        abort: () => void;
+        success: (payload: any) => void;
+        failure: (error: any) => void;
+        progress: (loaded: number, total: number) => void;
+    }
+
+    export class PageDecoders {
+        private static decoders: { [name: string]: PageDecoder } = {
+            "vis": PageDecoders.decodeVis,
+            "meshes": PageDecoders.decodeMeshes,
+            "vertexLighting": PageDecoders.decodeVertexLighting
+        };
+
+        static register(name: string, decoder: PageDecoder): void {
+            PageDecoders.decoders[name] = decoder;
+        }
+
+        static get(name: string): PageDecoder {
+            const decoder = PageDecoders.decoders[name];
+            if (decoder === undefined) throw new Error(`Unknown page decoder '${name}'.`);
+            return decoder;
+        }
+
+        static addTransfer(transfer: ArrayBuffer[], array: TypedArray): void {
+            if (transfer.indexOf(array.buffer) === -1) transfer.push(array.buffer);
+        }
+
+        private static toUint32Array(value: EncodedList, transfer: ArrayBuffer[]): Uint32Array {
+            if (value == null) return null;
+
+            const array = value instanceof Uint32Array ? value
+                : new Uint32Array(typeof value === "string" ? Facepunch.Utils.decompress<number[]>(value) : value);
+
+            PageDecoders.addTransfer(transfer, array);
+            return array;
+        }
+
+        private static decodeVis(payload: { values: EncodedList[] }, transfer: ArrayBuffer[]): IVisPage {
+            return {
+                values: payload.values.map(value => PageDecoders.toUint32Array(value, transfer))
+            };
+        }
+
+        private static decodeVertexLighting(payload: { props: EncodedList[][] }, transfer: ArrayBuffer[]): IVertexLightingPage {
+            return {
+                props: payload.props.map(prop => prop == null ? null
+                    : prop.map(value => PageDecoders.toUint32Array(value, transfer)))
+            };
+        }
+
+        // Decompresses the mesh data of every item in payload.materials
+        private static decodeMeshes(payload: { materials: IEncodedMaterialGroup[] }, transfer: ArrayBuffer[]): any {
+            for (let matGroup of payload.materials) {
+                const src = matGroup.meshData;
+
+                if (src.vertices instanceof Float32Array) {
+                    const binary = src as IBinaryMeshData;
+                    PageDecoders.addTransfer(transfer, binary.vertices);
+                    PageDecoders.addTransfer(transfer, binary.indices);
+                    continue;
+                }
+
+                const compressed = src as WebGame.ICompressedMeshData;
+                const vertices = new Float32Array(Facepunch.Utils.decompress<number[]>(compressed.vertices));
+                const indexValues = Facepunch.Utils.decompress<number[]>(compressed.indices);
+
+                let maxIndex = 0;
+                for (let i = 0, iEnd = indexValues.length; i < iEnd; ++i) {
+                    if (indexValues[i] > maxIndex) maxIndex = indexValues[i];
+                }
+
+                const indices = maxIndex > 0xffff ? new Uint32Array(indexValues) : new Uint16Array(indexValues);
+
+                PageDecoders.addTransfer(transfer, vertices);
+                PageDecoders.addTransfer(transfer, indices);
+
+                // Attributes are left as-is, since VertexAttribute instances can't be sent between threads
+                matGroup.meshData = {
+                    attributes: compressed.attributes,
+                    elements: compressed.elements,
+                    vertices: vertices,
+                    indices: indices
+                };
+            }
+
+            return payload;
+        }
+    }
+
+    export class PageDecodePool {
+        static workerCount = typeof navigator !== "undefined" && navigator.hardwareConcurrency > 1
+            ? Math.min(navigator.hardwareConcurrency - 1, 4) : 1;
+
+        // Absolute URLs of facepunch.webgame.js and sourceutils.js, found from
+        // the page's script elements if not given
+        static scriptUrls: string[] = null;
+
+        private static sourceUtilsUrl = typeof document !== "undefined" && document.currentScript != null
+            ? (document.currentScript as HTMLScriptElement).src : null;
+
+        private static defaultPool: PageDecodePool;
+
+        static getDefault(): PageDecodePool {
+            if (PageDecodePool.defaultPool == null) {
+                PageDecodePool.defaultPool = new PageDecodePool(PageDecodePool.workerCount);
+            }
+
+            return PageDecodePool.defaultPool;
+        }
+
+        // Loads and decodes a page on the current thread, returning a function that aborts it
+        static loadDirect(request: IPageLoadRequest,
+            success: (payload: any, transfer: ArrayBuffer[]) => void,
+            failure: (error: any) => void,
+            progress: (loaded: number, total: number) => void): () => void {
+            const transfer: ArrayBuffer[] = [];
+
+            return MapCache.load<any>(request.cacheScope, request.url, request.format, data => {
+                const payload = typeof data === "string" ? JSON.parse(data) : BinaryPage.decode(data);
+                return request.decoder != null ? PageDecoders.get(request.decoder)(payload, transfer) : payload;
+            }, payload => success(payload, transfer), failure, progress);
+        }
+
+        static runWorker(scope: any): void {
+            const aborts: { [id: number]: () => void } = {};
+
+            scope.onmessage = (ev: MessageEvent) => {
+                if ((ev.data as IPageDecodeCancel).cancel) {
+                    const id = (ev.data as IPageDecodeCancel).id;
+                    const abort = aborts[id];
+
+                    if (abort !== undefined) {
+                        delete aborts[id];
+                        abort();
+                    }
+
+                    return;
+                }
+
+                const request = ev.data as IPageDecodeRequest;
+
+                aborts[request.id] = PageDecodePool.loadDirect(request,
+                    (payload, transfer) => {
+                        delete aborts[request.id];
+                        scope.postMessage({ id: request.id, payload: payload } as IPageDecodeResponse, transfer);
+                    },
+                    error => {
+                        delete aborts[request.id];
+                        scope.postMessage({ id: request.id, error: String(error) } as IPageDecodeResponse);
+                    },
+                    (loaded, total) => scope.postMessage({ id: request.id, loaded: loaded, total: total } as IPageDecodeResponse));
+            };
+        }
+
+        private static findScriptUrls(): string[] {
+            if (PageDecodePool.scriptUrls != null) return PageDecodePool.scriptUrls;
+            if (PageDecodePool.sourceUtilsUrl == null) return null;
+
+            const scripts = document.getElementsByTagName("script");
+            for (let i = 0; i < scripts.length; ++i) {
+                const src = scripts[i].src;
+                if (/facepunch\.webgame(\.min)?\.js(\?|$)/i.test(src)) {
+                    return [src, PageDecodePool.sourceUtilsUrl];
+                }
+            }
+
+            return null;
+        }
+
+        private workers: Worker[] = [];
+        private pending: { [id: number]: IPendingDecode } = {};
+        private pendingCounts: number[] = [];
+        private nextId = 1;
+
+        constructor(workerCount: number) {
+            if (typeof Worker === "undefined" || typeof Blob === "undefined" || typeof URL === "undefined") return;
+
+            const scriptUrls = PageDecodePool.findScriptUrls();
+            if (scriptUrls == null) return;
+
+            // WebGame reads WebGL constants when it loads, which some browsers don't expose to workers
+            const source = `if (typeof WebGLRenderingContext === "undefined") self.WebGLRenderingContext = {};\n`
+                + `importScripts(${scriptUrls.map(x => JSON.stringify(x)).join(", ")});\n`
+                + `SourceUtils.PageDecodePool.runWorker(self);\n`;
+
+            let blobUrl: string;
+
+            try {
+                blobUrl = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+
+                for (let i = 0; i < workerCount; ++i) {
+                    const worker = new Worker(blobUrl);
+                    worker.onmessage = ev => this.onWorkerMessage(ev.data as IPageDecodeResponse);
+                    worker.onerror = ev => this.onWorkerError(worker, ev);
+                    this.workers.push(worker);
+                    this.pendingCounts.push(0);
+                }
+            } catch (e) {
+                // Workers can be blocked (e.g. by a content security policy), so decode on the main thread instead
+                this.disableWorkers();
+            }
+        }
+
+        hasWorkers(): boolean {
+            return this.workers.length > 0;
+        }
+
+        // Returns a function that aborts the load, after which none of the callbacks are made
+        load<TPayload>(request: IPageLoadRequest,
+            success: (payload: TPayload) => void,
+            failure?: (error: any) => void,
+            progress?: (loaded: number, total: number) => void): () => void {
+            const pending: IPendingDecode = {
+                request: {
+                    id: this.nextId++,
+                    url: MapCache.getAbsoluteUrl(request.url),
+                    format: request.format,
+                    decoder: request.decoder,
+                    cacheScope: request.cacheScope
+                },
+                worker: null,
+                abort: null,
+                success: success,
+                failure: failure,
+                progress: progress
+            };
+
+            this.dispatch(pending);
+
+            return () => this.cancel(pending);
+        }
+
+        private dispatch(pending: IPendingDecode): void {
+            if (this.workers.length === 0) {
+                pending.worker = null;
+                pending.abort = PageDecodePool.loadDirect(pending.request,
+                    payload => pending.success(payload),
+                    error => { if (pending.failure != null) pending.failure(error); },
+                    (loaded, total) => { if (pending.progress != null) pending.progress(loaded, total); });
+                return;
+            }
+
+            let best = 0;
+            for (let i = 1, iEnd = this.workers.length; i < iEnd; ++i) {
+                if (this.pendingCounts[i] < this.pendingCounts[best]) best = i;
+            }
+
+            ++this.pendingCounts[best];
+
+            pending.worker = this.workers[best];
+            this.pending[pending.request.id] = pending;
+
+            pending.worker.postMessage(pending.request);
+        }
+
+        private cancel(pending: IPendingDecode): void {
+            if (pending.worker == null) {
+                if (pending.abort != null) pending.abort();
+                return;
+            }
+
+            const id = pending.request.id;
+            if (this.pending[id] !== pending) return;
+
+            delete this.pending[id];
+            --this.pendingCounts[this.workers.indexOf(pending.worker)];
+
+            pending.worker.postMessage({ id: id, cancel: true } as IPageDecodeCancel);
+        }
+
+        private onWorkerMessage(response: IPageDecodeResponse): void {
+            const pending = this.pending[response.id];
+            if (pending === undefined) return;
+
+            if (response.loaded !== undefined) {
+                if (pending.progress != null) pending.progress(response.loaded, response.total);
+                return;
+            }
+
+            delete this.pending[response.id];
+            --this.pendingCounts[this.workers.indexOf(pending.worker)];
+
+            if (response.error !== undefined) {
+                if (pending.failure != null) pending.failure(response.error);
+                return;
+            }
+
+            pending.success(response.payload);
+        }
+
+        private onWorkerError(worker: Worker, ev: ErrorEvent): void {
+            // Decoding on the main thread still works, so don't report this as an uncaught error
+            ev.preventDefault();
+
+            this.disableWorkers();
+        }
+
+        // Stops all workers and decodes anything still in flight on the main thread
+        private disableWorkers(): void {
+            for (let worker of this.workers) worker.terminate();
+
+            this.workers = [];
+            this.pendingCounts = [];
+
+            const pending = this.pending;
+            this.pending = {};
+
+            for (let id in pending) {
+                if (!pending.hasOwnProperty(id)) continue;
+                this.dispatch(pending[id]);
+            }
+        }
+    }
+}
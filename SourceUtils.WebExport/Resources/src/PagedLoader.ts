@@ -1,29 +1,83 @@
 ﻿namespace SourceUtils {
+    // How soon a request is needed, with higher values loading first. Functions are
+    // evaluated each time a page is chosen, so priorities can follow the camera. Pages whose
+    // requests all have a priority of zero or less are ignored until they are wanted again,
+    // and are cancelled if they were already loading.
+    export type LoadPriority = number | (() => number);
+
+    export interface IPageLoadError {
+        loader: string;
+        url: string;
+        first: number;
+        count: number;
+        attempts: number;
+        error: any;
+    }
+
     export interface IPageRequest<TValue, TPage> {
         index: number;
         callback: (payload: TValue, page: TPage) => void;
+        priority: LoadPriority;
+    }
+
+    interface IActivePageLoad<TPage> {
+        page: TPage;
+        cancel: () => void;
     }
 
     export abstract class ResourcePage<TPayload, TValue> {
         readonly first: number;
         readonly count: number;
         readonly url: string;
+        readonly format: PageFormat;
 
         private readonly values: TValue[];
 
         private toLoad: IPageRequest<TValue, ResourcePage<TPayload, TValue>>[] = [];
+        private failed = false;
+        private loadPriority = 0;
 
         protected page: TPayload;
 
+        loadAttempts = 0;
+
         constructor(info: IPageInfo) {
             this.first = info.first;
             this.count = info.count;
             this.url = info.url;
+            this.format = BinaryPage.getFormat(info);
             this.values = new Array<TValue>(info.count);
         }
 
+        static readonly defaultPriority = 1;
+
+        // Evaluates the priority hint of every request, which can be costly, so PagedLoader
+        // does this once per update and everything else reads the result from getLoadPriority()
+        updateLoadPriority(): number {
+            let best = 0;
+
+            if (this.toLoad != null) {
+                for (let i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                    const hint = this.toLoad[i].priority;
+                    const priority = typeof hint === "function" ? hint() : hint;
+                    if (priority > best) best = priority;
+                }
+            }
+
+            return this.loadPriority = best;
+        }
+
         getLoadPriority(): number {
-            return this.toLoad.length;
+            return this.loadPriority;
+        }
+
+        getRequestCount(): number {
+            return this.toLoad == null ? 0 : this.toLoad.length;
+        }
+
+        // Name of a PageDecoder to run before onLoadValues, in a worker if possible
+        getDecoder(): string {
+            return null;
         }
 
         getValue(index: number): TValue {
@@ -38,14 +92,39 @@
 
         protected abstract onGetValue(index: number): TValue;
 
-        load(index: number, callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void): TValue {
+        load(index: number, callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void,
+            priority: LoadPriority = ResourcePage.defaultPriority): TValue {
             if (this.page != null) {
                 const value = this.getValue(index);
                 callback(value, this);
                 return value;
             }
 
-            this.toLoad.push({ index: index, callback: callback });
+            if (this.failed) {
+                callback(null, this);
+                return null;
+            }
+
+            this.toLoad.push({ index: index, callback: callback, priority: priority });
+        }
+
+        // Adds another priority hint for an index that has already been requested
+        prioritize(index: number, priority: LoadPriority): void {
+            if (this.toLoad == null) return;
+            this.toLoad.push({ index: index, callback: null, priority: priority });
+        }
+
+        cancel(callback: (payload: TValue, page: ResourcePage<TPayload, TValue>) => void): boolean {
+            if (this.toLoad == null) return false;
+
+            for (let i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                if (this.toLoad[i].callback !== callback) continue;
+
+                this.toLoad.splice(i, 1);
+                return true;
+            }
+
+            return false;
         }
 
         onLoadValues(page: TPayload): void {
@@ -53,31 +132,104 @@
 
             for (let i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
                 const request = this.toLoad[i];
+                if (request.callback == null) continue;
                 request.callback(this.getValue(request.index), this);
             }
 
             this.toLoad = null;
         }
+
+        // Gives up on this page, passing null to anything waiting on it
+        onLoadFailed(): void {
+            this.failed = true;
+
+            const toLoad = this.toLoad;
+            this.toLoad = null;
+
+            for (let i = 0, iEnd = toLoad.length; i < iEnd; ++i) {
+                const request = toLoad[i];
+                if (request.callback == null) continue;
+                request.callback(null, this);
+            }
+        }
+
+        hasFailed(): boolean {
+            return this.failed;
+        }
     }
 
     export abstract class PagedLoader<TPayload, TValue, TPage extends ResourcePage<TPayload, TValue>> implements Facepunch.ILoader {
 
         private pages: TPage[];
 
-        private readonly toLoad: TPage[] = [];
+        private toLoad: TPage[] = [];
+        private loading: IActivePageLoad<TPage>[] = [];
 
         private active = 0;
         private loadProgress = 0;
+        private loadedBytes = 0;
+        private failedPages = 0;
 
         protected abstract onCreatePage(page: IPageInfo): TPage;
 
         throwIfNotFound = true;
 
+        // Used to identify this loader in IPageLoadError
+        name: string;
+
+        maxRetries = 3;
+
+        // Milliseconds before the first retry, doubling after each failed attempt
+        retryDelay = 1000;
+
+        // Milliseconds to wait for each attempt, or 0 to wait forever
+        timeout = 30000;
+
+        // If true, pages that failed to load count towards getLoadProgress()
+        countFailedAsLoaded = false;
+
+        // Called once a page has failed every attempt, with retries happening quietly until then
+        pageFailedHandler: (error: IPageLoadError) => void;
+
+        // Pages are read from and stored in the MapCache under this scope, if set
+        cacheScope: IMapCacheScope = null;
+
         getLoadProgress(): number {
-            return this.pages == null ? 0 : this.loadProgress / this.pages.length;
+            if (this.pages == null) return 0;
+            const failed = this.countFailedAsLoaded ? this.failedPages : 0;
+            return (this.loadProgress + failed) / this.pages.length;
+        }
+
+        // Bytes received so far, including any for failed attempts
+        getLoadedBytes(): number {
+            return this.loadedBytes;
+        }
+
+        getFailedPageCount(): number {
+            return this.failedPages;
+        }
+
+        load(index: number, callback: (payload: TValue, page: TPage) => void,
+            priority: LoadPriority = ResourcePage.defaultPriority): TValue {
+            const page = this.findPage(index);
+            if (page != null) return page.load(index, callback, priority);
+        }
+
+        prioritize(index: number, priority: LoadPriority): void {
+            const page = this.findPage(index);
+            if (page != null) page.prioritize(index, priority);
         }
 
-        load(index: number, callback: (payload: TValue, page: TPage) => void): TValue {
+        // Removes a request made with load(), returning false if it wasn't pending.
+        // Pages with no remaining requests won't be loaded until something asks again.
+        cancel(index: number, callback: (payload: TValue, page: TPage) => void): boolean {
+            if (this.pages == null) return false;
+
+            const page = this.findPage(index);
+            return page != null && page.cancel(callback);
+        }
+
+        private findPage(index: number): TPage {
             if (this.pages == null) {
                 throw new Error("Page layout not loaded.");
             }
@@ -85,18 +237,20 @@
             for (let i = 0, iEnd = this.pages.length; i < iEnd; ++i) {
                 const page = this.pages[i];
                 if (index >= page.first && index < page.first + page.count) {
-                    return page.load(index, callback);
+                    return page;
                 }
             }
 
             if (this.throwIfNotFound) {
                 throw new Error(`Unable to find page for index ${index}.`);
             }
+
+            return null;
         }
 
         setPageLayout(pages: IPageInfo[]): void {
             if (this.pages != null) {
-                throw new Error("Changing page layout not implemented.");
+                this.clear();
             }
 
             this.pages = new Array<TPage>(pages.length);
@@ -107,17 +261,37 @@
             }
         }
 
+        clear(): void {
+            // Cancelling removes each load from this.loading, so go through a copy
+            for (let load of this.loading.slice(0)) {
+                load.cancel();
+            }
+
+            this.pages = null;
+            this.toLoad = [];
+            this.loading = [];
+            this.loadProgress = 0;
+            this.loadedBytes = 0;
+            this.failedPages = 0;
+        }
+
         private getNextToLoad(): TPage {
             let bestScore = 0;
+            let bestCount = 0;
             let bestIndex = -1;
 
             for (let i = 0; i < this.toLoad.length; ++i) {
                 const page = this.toLoad[i];
                 const score = page.getLoadPriority();
-                if (score > bestScore) {
-                    bestIndex = i;
-                    bestScore = score;
-                }
+                if (score <= 0 || score < bestScore) continue;
+
+                // Break ties by how many things are waiting on each page
+                const count = page.getRequestCount();
+                if (score === bestScore && count <= bestCount) continue;
+
+                bestIndex = i;
+                bestScore = score;
+                bestCount = count;
             }
 
             if (bestIndex === -1) return null;
@@ -125,32 +299,151 @@
             return this.toLoad.splice(bestIndex, 1)[0];
         }
 
+        // Stops loading pages that nothing wants any more, such as when the camera has moved
+        // away, putting them back in the queue until something wants them again
+        private cancelUnwanted(): void {
+            for (let i = this.loading.length - 1; i >= 0; --i) {
+                const load = this.loading[i];
+                if (load.page.getLoadPriority() > 0) continue;
+
+                load.cancel();
+                this.toLoad.push(load.page);
+            }
+        }
+
+        private updateLoadPriorities(): void {
+            for (let i = 0, iEnd = this.toLoad.length; i < iEnd; ++i) {
+                this.toLoad[i].updateLoadPriority();
+            }
+
+            for (let i = 0, iEnd = this.loading.length; i < iEnd; ++i) {
+                this.loading[i].page.updateLoadPriority();
+            }
+        }
+
         update(requestQuota: number): number {
+            this.updateLoadPriorities();
+            this.cancelUnwanted();
+
             while (this.active < requestQuota) {
                 const next = this.getNextToLoad();
                 if (next == null) break;
 
+                const pages = this.pages;
                 let lastProgress = 0;
+                let lastLoaded = 0;
 
-                ++this.active;
-                Facepunch.Http.getJson<TPayload>(next.url, page => {
+                let finished = false;
+                let timer: number;
+                let abort: () => void;
+
+                // Only the first of a success, failure, timeout or cancellation is handled for each attempt
+                const finish = () => {
+                    if (finished) return false;
+                    finished = true;
                     --this.active;
+                    if (timer !== undefined) clearTimeout(timer);
+
+                    const index = this.loading.indexOf(load);
+                    if (index !== -1) this.loading.splice(index, 1);
+
+                    return true;
+                };
+
+                const load: IActivePageLoad<TPage> = {
+                    page: next,
+                    cancel: () => {
+                        if (!finish()) return;
+                        this.loadProgress -= lastProgress;
+                        lastProgress = 0;
+                        abort();
+                    }
+                };
+
+                const onLoad = (page: TPayload) => {
+                    if (!finish() || this.pages !== pages) return;
                     this.loadProgress += 1 - lastProgress;
                     lastProgress = 1;
                     next.onLoadValues(page);
-                }, error => {
-                    --this.active;
-                    console.warn(error);
-                }, (loaded, total) => {
+                };
+
+                const onError = (error: any) => {
+                    if (!finish() || this.pages !== pages) return;
+                    this.loadProgress -= lastProgress;
+                    lastProgress = 0;
+                    this.onPageError(next, error);
+                };
+
+                const onProgress = (loaded: number, total: number) => {
+                    if (finished || this.pages !== pages) return;
+
+                    this.loadedBytes += loaded - lastLoaded;
+                    lastLoaded = loaded;
+
                     if (total !== undefined) {
                         const progress = loaded / total;
                         this.loadProgress += (progress - lastProgress);
                         lastProgress = progress;
                     }
-                });
+                };
+
+                const request: IPageLoadRequest = {
+                    url: next.url,
+                    format: next.format,
+                    decoder: next.getDecoder(),
+                    cacheScope: this.cacheScope
+                };
+
+                ++this.active;
+                this.loading.push(load);
+
+                // Aborts the attempt so its results are ignored if they arrive late, then retries as usual
+                if (this.timeout > 0) {
+                    timer = setTimeout(() => {
+                        timer = undefined;
+                        if (finished) return;
+
+                        abort();
+                        onError(new Error(`Timed out after ${this.timeout}ms.`));
+                    }, this.timeout);
+                }
+
+                if (request.decoder != null) {
+                    abort = PageDecodePool.getDefault().load(request, onLoad, onError, onProgress);
+                } else {
+                    abort = PageDecodePool.loadDirect(request, onLoad, onError, onProgress);
+                }
             }
 
             return this.active;
         }
+
+        private onPageError(page: TPage, error: any): void {
+            const pages = this.pages;
+            const attempts = ++page.loadAttempts;
+
+            if (attempts <= this.maxRetries) {
+                const delay = this.retryDelay * Math.pow(2, attempts - 1);
+
+                setTimeout(() => {
+                    if (this.pages === pages) this.toLoad.push(page);
+                }, delay);
+                return;
+            }
+
+            ++this.failedPages;
+            page.onLoadFailed();
+
+            const info: IPageLoadError = {
+                loader: this.name,
+                url: page.url,
+                first: page.first,
+                count: page.count,
+                attempts: attempts,
+                error: error
+            };
+
+            if (this.pageFailedHandler != null) this.pageFailedHandler(info);
+        }
     }
 }
\ No newline at end of file
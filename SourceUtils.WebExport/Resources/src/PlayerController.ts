@@ -0,0 +1,315 @@
+﻿namespace SourceUtils {
+    export class PlayerController {
+        static readonly standHeight = 72;
+        static readonly duckHeight = 36;
+        static readonly standEyeHeight = 64;
+        static readonly duckEyeHeight = 28;
+        static readonly halfWidth = 16;
+        static readonly stepSize = 18;
+
+        readonly viewer: MapViewer;
+        readonly velocity = new Facepunch.Vector3();
+
+        gravity = 800;
+        jumpSpeed = 268.3;
+        maxSpeed = 250;
+        duckSpeedScale = 0.34;
+        friction = 4;
+        stopSpeed = 100;
+        accelerate = 5.5;
+        airAccelerate = 12;
+        airSpeedCap = 30;
+
+        private readonly feetPos = new Facepunch.Vector3();
+        private onGround = false;
+        private ducked = false;
+        private jumpHeld = false;
+        private eyeHeight = PlayerController.standEyeHeight;
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+        }
+
+        isOnGround(): boolean {
+            return this.onGround;
+        }
+
+        isDucked(): boolean {
+            return this.ducked;
+        }
+
+        getEyePosition(target: Facepunch.IVector3): Facepunch.IVector3 {
+            target.x = this.feetPos.x;
+            target.y = this.feetPos.y;
+            target.z = this.feetPos.z + this.eyeHeight;
+            return target;
+        }
+
+        setEyePosition(pos: Facepunch.IVector3): void {
+            this.ducked = false;
+            this.eyeHeight = PlayerController.standEyeHeight;
+            this.velocity.set(0, 0, 0);
+            this.feetPos.set(pos.x, pos.y, pos.z - this.eyeHeight);
+
+            if (!this.fitsAt(this.feetPos, false)) this.respawn();
+            else this.categorizePosition();
+        }
+
+        respawn(): void {
+            const spawn = this.viewer.map.getSpawnPoint();
+            if (spawn == null) return;
+
+            this.ducked = false;
+            this.eyeHeight = PlayerController.standEyeHeight;
+            this.velocity.set(0, 0, 0);
+            this.feetPos.copy(spawn.origin);
+
+            if (spawn.angles !== undefined) {
+                this.viewer.setCameraAngles((spawn.angles.y - 90) * Math.PI / 180, -spawn.angles.x * Math.PI / 180);
+            }
+
+            this.categorizePosition();
+        }
+
+        update(dt: number, wishDir: Facepunch.IVector3, jump: boolean, duck: boolean): void {
+            if (dt <= 0) return;
+            if (dt > 0.1) dt = 0.1;
+
+            // Don't fall through the world before it has loaded
+            if (this.viewer.map.getLeafAt(this.feetPos) === undefined) return;
+
+            this.updateDuck(duck);
+            this.categorizePosition();
+
+            if (this.onGround) {
+                if (jump && !this.jumpHeld) {
+                    this.velocity.z = this.jumpSpeed;
+                    this.onGround = false;
+                } else {
+                    this.applyFriction(dt);
+                }
+            }
+
+            this.jumpHeld = jump;
+
+            const wishSpeed = this.maxSpeed * (this.ducked ? this.duckSpeedScale : 1);
+            this.applyAcceleration(wishDir, wishSpeed, dt);
+
+            if (this.onGround) {
+                this.stepMove(dt);
+                this.stayOnGround();
+            } else {
+                this.velocity.z -= this.gravity * dt;
+                this.slideMove(dt);
+            }
+
+            this.categorizePosition();
+
+            const targetEyeHeight = this.ducked ? PlayerController.duckEyeHeight : PlayerController.standEyeHeight;
+            const eyeDelta = targetEyeHeight - this.eyeHeight;
+            const maxEyeDelta = dt * 128;
+            this.eyeHeight += Math.max(-maxEyeDelta, Math.min(maxEyeDelta, eyeDelta));
+        }
+
+        private readonly hull_extents = new Facepunch.Vector3();
+        private readonly hull_start = new Facepunch.Vector3();
+        private readonly hull_end = new Facepunch.Vector3();
+        private readonly hull_result = new TraceResult();
+
+        // Sweeps the player's hull between two feet positions
+        private traceHull(from: Facepunch.IVector3, to: Facepunch.IVector3, ducked: boolean = this.ducked): TraceResult {
+            const halfHeight = (ducked ? PlayerController.duckHeight : PlayerController.standHeight) * 0.5;
+            const extents = this.hull_extents.set(PlayerController.halfWidth, PlayerController.halfWidth, halfHeight);
+
+            this.hull_start.set(from.x, from.y, from.z + halfHeight);
+            this.hull_end.set(to.x, to.y, to.z + halfHeight);
+
+            const result = this.viewer.map.traceBox(this.hull_start, this.hull_end, extents, TraceMask.PlayerSolid, this.hull_result);
+            result.position.z -= halfHeight;
+
+            return result;
+        }
+
+        private fitsAt(feetPos: Facepunch.IVector3, ducked: boolean): boolean {
+            return !this.traceHull(feetPos, feetPos, ducked).hit;
+        }
+
+        private readonly updateDuck_temp = new Facepunch.Vector3();
+
+        private updateDuck(duck: boolean): void {
+            const diff = PlayerController.standHeight - PlayerController.duckHeight;
+
+            if (duck && !this.ducked) {
+                this.ducked = true;
+
+                // Tuck legs up when ducking in the air
+                if (!this.onGround) {
+                    this.feetPos.z += diff;
+                    this.eyeHeight -= diff;
+                }
+            } else if (!duck && this.ducked) {
+                const lowered = this.updateDuck_temp.copy(this.feetPos);
+                lowered.z -= diff;
+
+                if (!this.onGround && this.fitsAt(lowered, false)) {
+                    this.feetPos.copy(lowered);
+                    this.eyeHeight += diff;
+                    this.ducked = false;
+                } else if (this.fitsAt(this.feetPos, false)) {
+                    this.ducked = false;
+                }
+            }
+        }
+
+        private readonly categorizePosition_temp = new Facepunch.Vector3();
+
+        private categorizePosition(): void {
+            if (this.velocity.z > 180) {
+                this.onGround = false;
+                return;
+            }
+
+            const below = this.categorizePosition_temp.copy(this.feetPos);
+            below.z -= 2;
+
+            const tr = this.traceHull(this.feetPos, below);
+            this.onGround = tr.hit && !tr.startSolid && tr.normal.z >= 0.7;
+
+            if (this.onGround) {
+                this.feetPos.copy(tr.position);
+                if (this.velocity.z < 0) this.velocity.z = 0;
+            }
+        }
+
+        private applyFriction(dt: number): void {
+            const vel = this.velocity;
+            const speed = Math.sqrt(vel.x * vel.x + vel.y * vel.y);
+            if (speed < 0.1) {
+                vel.x = vel.y = 0;
+                return;
+            }
+
+            const control = speed < this.stopSpeed ? this.stopSpeed : speed;
+            const newSpeed = Math.max(speed - control * this.friction * dt, 0);
+
+            vel.x *= newSpeed / speed;
+            vel.y *= newSpeed / speed;
+        }
+
+        // The length of wishDir, up to 1, scales the speed so analog input can move slowly
+        private applyAcceleration(wishDir: Facepunch.IVector3, wishSpeed: number, dt: number): void {
+            const length = Math.sqrt(wishDir.x * wishDir.x + wishDir.y * wishDir.y);
+            if (length === 0) return;
+
+            const dirX = wishDir.x / length;
+            const dirY = wishDir.y / length;
+            wishSpeed *= Math.min(length, 1);
+
+            const accel = this.onGround ? this.accelerate : this.airAccelerate;
+            const cappedSpeed = this.onGround ? wishSpeed : Math.min(wishSpeed, this.airSpeedCap);
+
+            const currentSpeed = this.velocity.x * dirX + this.velocity.y * dirY;
+            const addSpeed = cappedSpeed - currentSpeed;
+            if (addSpeed <= 0) return;
+
+            const accelSpeed = Math.min(accel * dt * wishSpeed, addSpeed);
+
+            this.velocity.x += dirX * accelSpeed;
+            this.velocity.y += dirY * accelSpeed;
+        }
+
+        private readonly slideMove_end = new Facepunch.Vector3();
+
+        private slideMove(dt: number): void {
+            const vel = this.velocity;
+            const end = this.slideMove_end;
+
+            let timeLeft = dt;
+
+            for (let bump = 0; bump < 4 && timeLeft > 0; ++bump) {
+                end.copy(vel).multiplyScalar(timeLeft).add(this.feetPos);
+
+                const tr = this.traceHull(this.feetPos, end);
+                if (tr.startSolid) {
+                    vel.set(0, 0, 0);
+                    return;
+                }
+
+                this.feetPos.copy(tr.position);
+                if (!tr.hit) return;
+
+                timeLeft -= timeLeft * tr.fraction;
+
+                const backoff = vel.dot(tr.normal);
+                vel.x -= tr.normal.x * backoff;
+                vel.y -= tr.normal.y * backoff;
+                vel.z -= tr.normal.z * backoff;
+            }
+        }
+
+        private readonly stepMove_startPos = new Facepunch.Vector3();
+        private readonly stepMove_startVel = new Facepunch.Vector3();
+        private readonly stepMove_downPos = new Facepunch.Vector3();
+        private readonly stepMove_downVel = new Facepunch.Vector3();
+        private readonly stepMove_temp = new Facepunch.Vector3();
+
+        // Tries moving both along the ground and after stepping up, keeping
+        // whichever gets further horizontally
+        private stepMove(dt: number): void {
+            const startPos = this.stepMove_startPos.copy(this.feetPos);
+            const startVel = this.stepMove_startVel.copy(this.velocity);
+
+            this.slideMove(dt);
+
+            const downPos = this.stepMove_downPos.copy(this.feetPos);
+            const downVel = this.stepMove_downVel.copy(this.velocity);
+
+            this.feetPos.copy(startPos);
+            this.velocity.copy(startVel);
+
+            const up = this.stepMove_temp.copy(startPos);
+            up.z += PlayerController.stepSize;
+
+            let tr = this.traceHull(this.feetPos, up);
+            if (!tr.startSolid) this.feetPos.copy(tr.position);
+
+            this.slideMove(dt);
+
+            const down = this.stepMove_temp.copy(this.feetPos);
+            down.z -= this.feetPos.z - startPos.z;
+
+            tr = this.traceHull(this.feetPos, down);
+            if (!tr.startSolid) this.feetPos.copy(tr.position);
+
+            const stepDistSq = this.horizontalDistSq(startPos, this.feetPos);
+            const downDistSq = this.horizontalDistSq(startPos, downPos);
+
+            if (!tr.hit || tr.normal.z < 0.7 || downDistSq >= stepDistSq) {
+                this.feetPos.copy(downPos);
+                this.velocity.copy(downVel);
+                return;
+            }
+
+            this.velocity.z = downVel.z;
+        }
+
+        private readonly stayOnGround_temp = new Facepunch.Vector3();
+
+        // Keeps the player grounded when walking down stairs or slopes
+        private stayOnGround(): void {
+            const down = this.stayOnGround_temp.copy(this.feetPos);
+            down.z -= PlayerController.stepSize;
+
+            const tr = this.traceHull(this.feetPos, down);
+            if (tr.hit && !tr.startSolid && tr.fraction > 0 && tr.normal.z >= 0.7) {
+                this.feetPos.copy(tr.position);
+            }
+        }
+
+        private horizontalDistSq(a: Facepunch.IVector3, b: Facepunch.IVector3): number {
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            return dx * dx + dy * dy;
+        }
+    }
+}
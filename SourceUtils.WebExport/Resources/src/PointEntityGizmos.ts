@@ -0,0 +1,197 @@
+﻿namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    // Draws entities that only have a position as coloured boxes, with an arrow
+    // showing which way they face. Each classname can be shown or hidden separately.
+    export class PointEntityGizmos {
+        static readonly defaultColors: { [classname: string]: Facepunch.IVector3 } = {
+            info_player_terrorist: { x: 0.9, y: 0.65, z: 0.2 },
+            info_player_counterterrorist: { x: 0.25, y: 0.5, z: 0.9 },
+            info_player_start: { x: 0.3, y: 0.9, z: 0.3 },
+            sky_camera: { x: 0.3, y: 0.85, z: 0.9 },
+            env_fog_controller: { x: 0.8, y: 0.8, z: 0.8 }
+        };
+
+        static readonly otherColor: Facepunch.IVector3 = { x: 0.6, y: 0.6, z: 0.6 };
+
+        // Standing player hull, drawn for spawn points from their origin at the feet
+        static readonly playerMin: Facepunch.IVector3 = { x: -16, y: -16, z: 0 };
+        static readonly playerMax: Facepunch.IVector3 = { x: 16, y: 16, z: 72 };
+
+        readonly viewer: MapViewer;
+
+        // Half the width of boxes drawn for anything other than spawn points
+        boxExtent = 8;
+        arrowLength = 32;
+
+        private enabled = false;
+        private invalid = true;
+
+        private readonly visibleClasses: { [classname: string]: boolean } = {};
+        private readonly colors: { [classname: string]: Facepunch.IVector3 } = {};
+        private lines: { [classname: string]: WebGame.DebugLine } = {};
+
+        private readonly min = new Facepunch.Vector3();
+        private readonly max = new Facepunch.Vector3();
+        private readonly temp = new Facepunch.Vector3();
+
+        constructor(viewer: MapViewer) {
+            this.viewer = viewer;
+
+            for (let classname in PointEntityGizmos.defaultColors) {
+                this.visibleClasses[classname] = true;
+                this.colors[classname] = PointEntityGizmos.defaultColors[classname];
+            }
+        }
+
+        isEnabled(): boolean {
+            return this.enabled;
+        }
+
+        setEnabled(value: boolean): void {
+            if (this.enabled === value) return;
+
+            this.enabled = value;
+            this.invalidate();
+        }
+
+        isClassVisible(classname: string): boolean {
+            return this.visibleClasses[classname] === true;
+        }
+
+        setClassVisible(classname: string, visible: boolean): void {
+            if (this.isClassVisible(classname) === visible) return;
+
+            this.visibleClasses[classname] = visible;
+            this.invalidate();
+        }
+
+        getClassColor(classname: string): Facepunch.IVector3 {
+            return this.colors[classname] || PointEntityGizmos.otherColor;
+        }
+
+        setClassColor(classname: string, color: Facepunch.IVector3): void {
+            this.colors[classname] = color;
+
+            const line = this.lines[classname];
+            if (line != null) line.setColor(color);
+        }
+
+        // Entities with a position but no bounds of their own
+        private isPointEntity(ent: Entities.IEntity): boolean {
+            if (ent.origin == null) return false;
+
+            const inst = this.viewer.map.getEntityInstance(ent);
+            return inst == null || !inst.getBounds(this.min, this.max);
+        }
+
+        // Classnames of every point entity in the map, for listing toggles
+        getClassnames(): string[] {
+            const classnames: string[] = [];
+
+            for (let ent of this.viewer.map.getEntities()) {
+                if (classnames.indexOf(ent.classname) !== -1 || !this.isPointEntity(ent)) continue;
+                classnames.push(ent.classname);
+            }
+
+            return classnames.sort();
+        }
+
+        private getLine(classname: string): WebGame.DebugLine {
+            let line = this.lines[classname];
+            if (line != null) return line;
+
+            this.lines[classname] = line = new WebGame.DebugLine(this.viewer);
+            line.setColor(this.getClassColor(classname));
+
+            return line;
+        }
+
+        private drawArrow(line: WebGame.DebugLine, from: Facepunch.IVector3, angles: Facepunch.IVector3): void {
+            const toRadians = Math.PI / 180;
+            const pitch = angles.x * toRadians;
+            const yaw = angles.y * toRadians;
+
+            // Source angles, where yaw is measured from +X and pitch is positive looking down
+            const forward = new Facepunch.Vector3(Math.cos(pitch) * Math.cos(yaw), Math.cos(pitch) * Math.sin(yaw), -Math.sin(pitch));
+            const side = new Facepunch.Vector3(Math.sin(yaw), -Math.cos(yaw), 0);
+
+            const tip = new Facepunch.Vector3().copy(forward).multiplyScalar(this.arrowLength).add(from);
+            const headLength = this.arrowLength * 0.25;
+
+            line.moveTo(from);
+            line.lineTo(tip);
+
+            for (let sign of [-1, 1]) {
+                line.moveTo(tip);
+                line.lineTo(this.temp.copy(forward).multiplyScalar(-headLength)
+                    .add(side.x * sign * headLength * 0.5, side.y * sign * headLength * 0.5, 0)
+                    .add(tip));
+            }
+        }
+
+        private rebuild(): void {
+            const map = this.viewer.map;
+
+            for (let classname in this.lines) {
+                const line = this.lines[classname];
+                map.removeDynamicItem(line);
+                line.clear();
+            }
+
+            if (this.enabled) {
+                const center = new Facepunch.Vector3();
+
+                for (let ent of map.getEntities()) {
+                    if (!this.isClassVisible(ent.classname) || !this.isPointEntity(ent)) continue;
+
+                    const line = this.getLine(ent.classname);
+
+                    if (ent.classname.indexOf("info_player_") === 0) {
+                        this.min.copy(PointEntityGizmos.playerMin).add(ent.origin);
+                        this.max.copy(PointEntityGizmos.playerMax).add(ent.origin);
+                    } else {
+                        const extent = this.boxExtent;
+                        this.min.copy(ent.origin).sub(extent, extent, extent);
+                        this.max.copy(ent.origin).add(extent, extent, extent);
+                    }
+
+                    EntityInspector.drawBox(line, this.min, this.max);
+
+                    if (ent.angles != null) {
+                        this.drawArrow(line, center.copy(this.min).add(this.max).multiplyScalar(0.5), ent.angles);
+                    }
+                }
+            }
+
+            for (let classname in this.lines) {
+                const line = this.lines[classname];
+                line.update();
+                map.addDynamicItem(line);
+            }
+        }
+
+        // Rebuilds the boxes on the next update
+        invalidate(): void {
+            this.invalid = true;
+        }
+
+        update(): void {
+            if (this.invalid && this.viewer.map.isReady()) {
+                this.invalid = false;
+                this.rebuild();
+            }
+        }
+
+        // Forgets the old map's entities when a new one is loaded
+        clear(): void {
+            for (let classname in this.lines) {
+                this.viewer.map.removeDynamicItem(this.lines[classname]);
+                this.lines[classname].dispose();
+            }
+
+            this.lines = {};
+            this.invalid = true;
+        }
+    }
+}
@@ -11,37 +11,127 @@ namespace SourceUtils {
         export abstract class LightmappedBase<TMaterial extends LightmappedBaseMaterial> extends ModelBase<TMaterial> {
             readonly uLightmap = this.addUniform("uLightmap", WebGame.UniformSampler);
 
+            readonly uSunDirection = this.addUniform("uSunDirection", WebGame.Uniform3F);
+            readonly uSunColor = this.addUniform("uSunColor", WebGame.Uniform3F);
+
+            readonly uShadowMap = this.addUniform("uShadowMap", WebGame.UniformSampler);
+            readonly uShadowMatrix0 = this.addUniform("uShadowMatrix0", WebGame.UniformMatrix4);
+            readonly uShadowMatrix1 = this.addUniform("uShadowMatrix1", WebGame.UniformMatrix4);
+            readonly uShadowMatrix2 = this.addUniform("uShadowMatrix2", WebGame.UniformMatrix4);
+            readonly uShadowMatrix3 = this.addUniform("uShadowMatrix3", WebGame.UniformMatrix4);
+            readonly uShadowSplits = this.addUniform("uShadowSplits", WebGame.Uniform4F);
+            readonly uShadowBias = this.addUniform("uShadowBias", WebGame.Uniform4F);
+            readonly uShadowInfo = this.addUniform("uShadowInfo", WebGame.Uniform4F);
+
             constructor(context: WebGLRenderingContext, ctor: { new(): TMaterial }) {
                 super(context, ctor);
 
                 const gl = context;
 
                 this.includeShaderSource(gl.VERTEX_SHADER, `
+                    attribute vec3 aNormal;
                     attribute vec2 aLightmapCoord;
 
                     varying vec2 vLightmapCoord;
+                    varying highp vec3 vWorldPos;
+                    varying vec3 vWorldNormal;
 
                     void LightmappedBase_main()
                     {
                         ModelBase_main();
 
                         vLightmapCoord = aLightmapCoord;
+                        vWorldPos = (${this.uModel} * vec4(aPosition, 1.0)).xyz;
+                        vWorldNormal = (${this.uModel} * vec4(aNormal, 0.0)).xyz;
                     }`);
 
                 this.includeShaderSource(gl.FRAGMENT_SHADER, `
                     precision mediump float;
 
                     varying vec2 vLightmapCoord;
+                    varying highp vec3 vWorldPos;
+                    varying vec3 vWorldNormal;
 
                     uniform sampler2D ${this.uLightmap};
                     uniform vec4 ${this.uLightmap.getSizeUniform()};
 
+                    uniform vec3 ${this.uSunDirection};
+                    uniform vec3 ${this.uSunColor};
+
+                    uniform sampler2D ${this.uShadowMap};
+                    uniform highp mat4 ${this.uShadowMatrix0};
+                    uniform highp mat4 ${this.uShadowMatrix1};
+                    uniform highp mat4 ${this.uShadowMatrix2};
+                    uniform highp mat4 ${this.uShadowMatrix3};
+                    uniform vec4 ${this.uShadowSplits};
+                    uniform highp vec4 ${this.uShadowBias};
+                    uniform vec4 ${this.uShadowInfo};
+
                     vec3 DecompressLightmapSample(vec4 sample)
                     {
                         float exp = sample.a * 255.0 - 128.0;
                         return sample.rgb * pow(2.0, exp);
                     }
 
+                    float SampleShadowMap(vec2 coord, highp float depth)
+                    {
+                        vec4 sample = texture2D(${this.uShadowMap}, coord);
+
+                        // Only shadows from dynamic casters are missing from the lightmap
+                        if (sample.a < 0.5) return 0.0;
+
+                        highp float casterDepth = dot(sample.rgb, vec3(1.0, 1.0 / 255.0, 1.0 / 65025.0));
+                        return casterDepth < depth ? 1.0 : 0.0;
+                    }
+
+                    vec3 ApplySunShadows(vec3 light)
+                    {
+                        int cascadeCount = int(${this.uShadowInfo}.x + 0.5);
+                        if (cascadeCount == 0) return light;
+
+                        float sunDot = dot(normalize(vWorldNormal), ${this.uSunDirection});
+                        if (sunDot <= 0.0) return light;
+
+                        int cascade;
+                        highp mat4 shadowMatrix;
+                        highp float bias;
+
+                        if (vDepth < ${this.uShadowSplits}.x) {
+                            cascade = 0;
+                            shadowMatrix = ${this.uShadowMatrix0};
+                            bias = ${this.uShadowBias}.x;
+                        } else if (vDepth < ${this.uShadowSplits}.y && cascadeCount > 1) {
+                            cascade = 1;
+                            shadowMatrix = ${this.uShadowMatrix1};
+                            bias = ${this.uShadowBias}.y;
+                        } else if (vDepth < ${this.uShadowSplits}.z && cascadeCount > 2) {
+                            cascade = 2;
+                            shadowMatrix = ${this.uShadowMatrix2};
+                            bias = ${this.uShadowBias}.z;
+                        } else if (vDepth < ${this.uShadowSplits}.w && cascadeCount > 3) {
+                            cascade = 3;
+                            shadowMatrix = ${this.uShadowMatrix3};
+                            bias = ${this.uShadowBias}.w;
+                        } else {
+                            return light;
+                        }
+
+                        highp vec3 shadowPos = (shadowMatrix * vec4(vWorldPos, 1.0)).xyz * 0.5 + vec3(0.5, 0.5, 0.5);
+                        highp float depth = shadowPos.z - bias;
+
+                        vec2 texel = vec2(${this.uShadowInfo}.z * ${this.uShadowInfo}.y, ${this.uShadowInfo}.z);
+                        vec2 coord = clamp(shadowPos.xy, vec2(0.0, 0.0), vec2(1.0, 1.0) - ${this.uShadowInfo}.zz);
+                        coord.x = (coord.x + float(cascade)) * ${this.uShadowInfo}.y;
+
+                        float shadow = 0.25 * (
+                            SampleShadowMap(coord, depth) +
+                            SampleShadowMap(coord + vec2(texel.x, 0.0), depth) +
+                            SampleShadowMap(coord + vec2(0.0, texel.y), depth) +
+                            SampleShadowMap(coord + texel, depth));
+
+                        return max(light - ${this.uSunColor} * sunDot * shadow, vec3(0.0, 0.0, 0.0));
+                    }
+
                     vec3 ApplyLightmap(vec3 inColor)
                     {
                         const float gamma = 1.0 / 2.2;
@@ -61,20 +151,34 @@ namespace SourceUtils {
                         vec3 sampleC = DecompressLightmapSample(texture2D(${this.uLightmap}, vec2(minCoord.x, maxCoord.y)));
                         vec3 sampleD = DecompressLightmapSample(texture2D(${this.uLightmap}, vec2(maxCoord.x, maxCoord.y)));
 
-                        vec3 sample = mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y);
+                        vec3 sample = ApplySunShadows(mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y));
 
                         return inColor * pow(sample, vec3(gamma, gamma, gamma));
                     }`);
 
+                this.addAttribute("aNormal", WebGame.VertexAttribute.normal);
                 this.addAttribute("aLightmapCoord", WebGame.VertexAttribute.uv2);
 
                 this.uLightmap.setDefault(WebGame.TextureUtils.getWhiteTexture(context));
+                this.uShadowMap.setDefault(WebGame.TextureUtils.getWhiteTexture(context));
             }
 
             bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void {
                 super.bufferSetup(buf);
 
                 this.uLightmap.bufferParameter(buf, Map.lightmapParam);
+
+                this.uSunDirection.bufferParameter(buf, Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, Entities.LightEnvironment.sunColorParam);
+
+                this.uShadowMap.bufferParameter(buf, Entities.ShadowCamera.shadowMapParam);
+                this.uShadowMatrix0.bufferParameter(buf, Entities.ShadowCamera.shadowMatrixParams[0]);
+                this.uShadowMatrix1.bufferParameter(buf, Entities.ShadowCamera.shadowMatrixParams[1]);
+                this.uShadowMatrix2.bufferParameter(buf, Entities.ShadowCamera.shadowMatrixParams[2]);
+                this.uShadowMatrix3.bufferParameter(buf, Entities.ShadowCamera.shadowMatrixParams[3]);
+                this.uShadowSplits.bufferParameter(buf, Entities.ShadowCamera.shadowSplitsParam);
+                this.uShadowBias.bufferParameter(buf, Entities.ShadowCamera.shadowBiasParam);
+                this.uShadowInfo.bufferParameter(buf, Entities.ShadowCamera.shadowInfoParam);
             }
         }
     }
@@ -0,0 +1,88 @@
+﻿/// <reference path="ModelBase.ts"/>
+
+namespace SourceUtils {
+    import WebGame = Facepunch.WebGame;
+
+    export namespace Shaders {
+        export class ShadowCasterMaterial extends ModelBaseMaterial {
+            // False for lightmapped surfaces, which only block shadows that are already baked
+            caster = true;
+            spline = false;
+            cullFace = false;
+        }
+
+        export class ShadowCaster extends ModelBase<ShadowCasterMaterial> {
+            readonly uCaster = this.addUniform("uCaster", WebGame.Uniform1F);
+            readonly uSpline = this.addUniform("uSpline", WebGame.Uniform1I);
+            readonly uSunDirection = this.addUniform("uSunDirection", WebGame.Uniform3F);
+
+            constructor(context: WebGLRenderingContext) {
+                super(context, ShadowCasterMaterial);
+
+                const gl = context;
+
+                this.includeShaderSource(gl.VERTEX_SHADER, `
+                    attribute vec3 aTangent;
+                    attribute vec2 aSplineParams;
+
+                    uniform int ${this.uSpline};
+                    uniform vec3 ${this.uSunDirection};
+
+                    void main()
+                    {
+                        vec4 worldPos = ${this.uModel} * vec4(aPosition, 1.0);
+
+                        if (${this.uSpline} != 0) {
+                            // Ropes are expanded to face the sun rather than the camera
+                            vec3 tangent = normalize((${this.uModel} * vec4(aTangent, 0.0)).xyz);
+                            worldPos.xyz += normalize(cross(${this.uSunDirection}, tangent)) * aSplineParams.x;
+                        }
+
+                        gl_Position = ${this.uProjection} * ${this.uView} * worldPos;
+
+                        vTextureCoord = aTextureCoord;
+                        vDepth = 0.0;
+                    }`);
+
+                this.includeShaderSource(gl.FRAGMENT_SHADER, `
+                    #ifdef GL_FRAGMENT_PRECISION_HIGH
+                    precision highp float;
+                    #else
+                    precision mediump float;
+                    #endif
+
+                    uniform float ${this.uCaster};
+
+                    vec3 PackDepth(float depth)
+                    {
+                        vec3 enc = fract(depth * vec3(1.0, 255.0, 65025.0));
+                        return enc - enc.yzz * vec3(1.0 / 255.0, 1.0 / 255.0, 0.0);
+                    }
+
+                    void main()
+                    {
+                        ModelBase_main();
+                        gl_FragColor = vec4(PackDepth(gl_FragCoord.z), ${this.uCaster});
+                    }`);
+
+                this.addAttribute("aTangent", WebGame.VertexAttribute.normal);
+                this.addAttribute("aSplineParams", WebGame.VertexAttribute.uv2);
+
+                this.compile();
+            }
+
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void {
+                super.bufferSetup(buf);
+
+                this.uSunDirection.bufferParameter(buf, Entities.LightEnvironment.sunDirectionParam);
+            }
+
+            bufferMaterialProps(buf: Facepunch.WebGame.CommandBuffer, props: ShadowCasterMaterial): void {
+                super.bufferMaterialProps(buf, props);
+
+                this.uCaster.bufferValue(buf, props.caster ? 1 : 0);
+                this.uSpline.bufferValue(buf, props.spline ? 1 : 0);
+            }
+        }
+    }
+}
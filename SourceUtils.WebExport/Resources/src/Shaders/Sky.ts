@@ -26,6 +26,10 @@
 
             readonly uHdrCompressed = this.addUniform("uHdrCompressed", WebGame.Uniform1I);
 
+            readonly uSunDirection = this.addUniform("uSunDirection", WebGame.Uniform3F);
+            readonly uSunColor = this.addUniform("uSunColor", WebGame.Uniform3F);
+            readonly uSunDisc = this.addUniform("uSunDisc", WebGame.Uniform1F);
+
             constructor(context: WebGLRenderingContext) {
                 super(context, SkyMaterial);
 
@@ -39,6 +43,7 @@
 
                     varying float vFace;
                     varying vec2 vTextureCoord;
+                    varying vec3 vDirection;
 
                     uniform mat4 ${this.uProjection};
                     uniform mat4 ${this.uView};
@@ -58,7 +63,9 @@
 
                     void main()
                     {
-                        vec4 viewPos = ${this.uView} * vec4(GetPosition() * 128.0, 0.0);
+                        vDirection = GetPosition();
+
+                        vec4 viewPos = ${this.uView} * vec4(vDirection * 128.0, 0.0);
 
                         gl_Position = ${this.uProjection} * vec4(viewPos.xyz, 1.0);
 
@@ -71,6 +78,7 @@
 
                     varying float vFace;
                     varying vec2 vTextureCoord;
+                    varying vec3 vDirection;
 
                     uniform sampler2D ${this.uFacePosX}; uniform vec4 ${this.uFacePosX.getSizeUniform()};
                     uniform sampler2D ${this.uFaceNegX}; uniform vec4 ${this.uFaceNegX.getSizeUniform()};
@@ -81,6 +89,10 @@
 
                     uniform int ${this.uHdrCompressed};
 
+                    uniform vec3 ${this.uSunDirection};
+                    uniform vec3 ${this.uSunColor};
+                    uniform float ${this.uSunDisc};
+
                     vec4 GetFaceSize()
                     {
                         int face = int(vFace + 0.5);
@@ -110,6 +122,17 @@
                         return sample.rgb * sample.a * 2.0;
                     }
 
+                    vec3 ApplySunDisc(vec3 color)
+                    {
+                        if (${this.uSunDisc} >= 1.0) return color;
+
+                        float sunDot = dot(normalize(vDirection), ${this.uSunDirection});
+                        float edge = mix(${this.uSunDisc}, 1.0, 0.25);
+                        float intensity = smoothstep(${this.uSunDisc}, edge, sunDot);
+
+                        return color + pow(${this.uSunColor}, vec3(1.0 / 2.2)) * intensity;
+                    }
+
                     void main()
                     {
                         if (${this.uHdrCompressed} != 0) {
@@ -129,10 +152,10 @@
 
                             vec3 sample = mix(mix(sampleA, sampleB, delta.x), mix(sampleC, sampleD, delta.x), delta.y);
 
-                            gl_FragColor = vec4(sample, 1.0);
+                            gl_FragColor = vec4(ApplySunDisc(sample), 1.0);
                         } else {
                             vec4 sample = GetFaceSample(vTextureCoord);
-                            gl_FragColor = vec4(sample.rgb, 1.0);
+                            gl_FragColor = vec4(ApplySunDisc(sample.rgb), 1.0);
                         }
                     }`);
 
@@ -155,6 +178,10 @@
                 this.uProjection.bufferParameter(buf, WebGame.Camera.projectionMatrixParam);
                 this.uView.bufferParameter(buf, WebGame.Camera.viewMatrixParam);
 
+                this.uSunDirection.bufferParameter(buf, Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, Entities.LightEnvironment.sunColorParam);
+                this.uSunDisc.bufferParameter(buf, Entities.LightEnvironment.sunDiscParam);
+
                 buf.depthMask(false);
             }
 
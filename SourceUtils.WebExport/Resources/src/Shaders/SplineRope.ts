@@ -16,6 +16,11 @@
 
             uAmbient: WebGame.Uniform3F[];
 
+            readonly uHasAmbientCube = this.addUniform("uHasAmbientCube", WebGame.Uniform1I);
+            readonly uSunDirection = this.addUniform("uSunDirection", WebGame.Uniform3F);
+            readonly uSunColor = this.addUniform("uSunColor", WebGame.Uniform3F);
+            readonly uAmbientColor = this.addUniform("uAmbientColor", WebGame.Uniform3F);
+
             constructor(context: WebGLRenderingContext) {
                 super(context, SplineRopeMaterial);
 
@@ -29,6 +34,11 @@
 
                     uniform vec3 uAmbient[6];
 
+                    uniform int ${this.uHasAmbientCube};
+                    uniform vec3 ${this.uSunDirection};
+                    uniform vec3 ${this.uSunColor};
+                    uniform vec3 ${this.uAmbientColor};
+
                     varying vec3 vAmbient;
 
                     vec3 SampleAmbient(vec3 normal, vec3 axis, int index)
@@ -50,12 +60,18 @@
                         vec3 viewNormal = normalize(viewNormalA * (aTextureCoord.x - 0.5)
                             + viewNormalB * sqrt(1.0 - pow(1.0 - aTextureCoord.x * 2.0, 2.0)) * 0.5);
 
-                        vAmbient = SampleAmbient(viewNormal,  viewUnitX, 0)
-                                 + SampleAmbient(viewNormal, -viewUnitX, 1)
-                                 + SampleAmbient(viewNormal,  viewUnitY, 2)
-                                 + SampleAmbient(viewNormal, -viewUnitY, 3)
-                                 + SampleAmbient(viewNormal,  viewUnitZ, 4)
-                                 + SampleAmbient(viewNormal, -viewUnitZ, 5);
+                        if (${this.uHasAmbientCube} != 0) {
+                            vAmbient = SampleAmbient(viewNormal,  viewUnitX, 0)
+                                     + SampleAmbient(viewNormal, -viewUnitX, 1)
+                                     + SampleAmbient(viewNormal,  viewUnitY, 2)
+                                     + SampleAmbient(viewNormal, -viewUnitY, 3)
+                                     + SampleAmbient(viewNormal,  viewUnitZ, 4)
+                                     + SampleAmbient(viewNormal, -viewUnitZ, 5);
+                        } else {
+                            vec3 viewSunDir = normalize((${this.uView} * vec4(${this.uSunDirection}, 0.0)).xyz);
+                            vec3 light = ${this.uAmbientColor} + ${this.uSunColor} * max(0.0, dot(viewNormal, viewSunDir));
+                            vAmbient = pow(light, vec3(0.5, 0.5, 0.5));
+                        }
 
                         viewPos.xyz += viewNormal * aSplineParams.x;
                         viewPos.xyz += viewUnitZ * aSplineParams.y;
@@ -83,18 +99,33 @@
                 this.compile();
             }
 
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void {
+                super.bufferSetup(buf);
+
+                this.uSunDirection.bufferParameter(buf, Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, Entities.LightEnvironment.sunColorParam);
+                this.uAmbientColor.bufferParameter(buf, Entities.LightEnvironment.ambientColorParam);
+            }
+
             bufferMaterialProps(buf: Facepunch.WebGame.CommandBuffer, props: SplineRopeMaterial): void {
                 super.bufferMaterialProps(buf, props);
 
-                if (props.ambient != null) {
+                let hasAmbientCube = props.ambient != null;
+
+                if (hasAmbientCube) {
                     const values = props.ambient;
                     const uniforms = this.uAmbient;
                     for (let i = 0; i < 6; ++i) {
                         const value = values[i];
-                        if (value == null) continue;
+                        if (value == null) {
+                            hasAmbientCube = false;
+                            continue;
+                        }
                         uniforms[i].bufferValue(buf, value.x, value.y, value.z);
                     }
                 }
+
+                this.uHasAmbientCube.bufferValue(buf, hasAmbientCube ? 1 : 0);
             }
         }
     }
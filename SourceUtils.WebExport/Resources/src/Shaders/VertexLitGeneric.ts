@@ -9,20 +9,37 @@ namespace SourceUtils {
         }
 
         export class VertexLitGeneric extends ModelBase<VertexLitGenericMaterial> {
+            readonly uSunDirection = this.addUniform("uSunDirection", WebGame.Uniform3F);
+            readonly uSunColor = this.addUniform("uSunColor", WebGame.Uniform3F);
+            readonly uAmbientColor = this.addUniform("uAmbientColor", WebGame.Uniform3F);
+
             constructor(context: WebGLRenderingContext) {
                 super(context, VertexLitGenericMaterial);
 
                 const gl = context;
 
                 this.includeShaderSource(gl.VERTEX_SHADER, `
+                    attribute vec3 aNormal;
                     attribute vec3 aEncodedColors;
 
+                    uniform vec3 ${this.uSunDirection};
+                    uniform vec3 ${this.uSunColor};
+                    uniform vec3 ${this.uAmbientColor};
+
                     varying vec3 vVertexLighting;
                     varying vec3 vAlbedoModulation;
 
                     void main()
                     {
-                        vVertexLighting = floor(aEncodedColors) * (2.0 / 255.0);
+                        if (aEncodedColors.x < 0.0) {
+                            // No baked lighting, so fall back to the light_environment
+                            vec3 normal = normalize((${this.uModel} * vec4(aNormal, 0.0)).xyz);
+                            vec3 light = ${this.uAmbientColor} + ${this.uSunColor} * max(0.0, dot(normal, ${this.uSunDirection}));
+                            vVertexLighting = pow(clamp(light, 0.0, 1.0), vec3(1.0 / 2.2)) * 2.0;
+                        } else {
+                            vVertexLighting = floor(aEncodedColors) * (2.0 / 255.0);
+                        }
+
                         vAlbedoModulation = fract(aEncodedColors) * (256.0 / 255.0);
 
                         ModelBase_main();
@@ -40,10 +57,19 @@ namespace SourceUtils {
                         gl_FragColor = vec4(ApplyFog(mainSample.rgb * vVertexLighting * vAlbedoModulation), mainSample.a);
                     }`);
 
+                this.addAttribute("aNormal", WebGame.VertexAttribute.normal);
                 this.addAttribute("aEncodedColors", WebGame.VertexAttribute.rgb);
 
                 this.compile();
             }
+
+            bufferSetup(buf: Facepunch.WebGame.CommandBuffer): void {
+                super.bufferSetup(buf);
+
+                this.uSunDirection.bufferParameter(buf, Entities.LightEnvironment.sunDirectionParam);
+                this.uSunColor.bufferParameter(buf, Entities.LightEnvironment.sunColorParam);
+                this.uAmbientColor.bufferParameter(buf, Entities.LightEnvironment.ambientColorParam);
+            }
         }
     }
 }
\ No newline at end of file
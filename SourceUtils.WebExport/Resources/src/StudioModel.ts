@@ -61,7 +61,7 @@ namespace SourceUtils {
             const rgb = StudioModel.sampleAmbientCube_temp.set(0, 0, 0);
             const samples = StudioModel.sampleAmbientCube_samples;
 
-            leaf.getAmbientCube(pos, samples);
+            if (!leaf.getAmbientCube(pos, samples)) return -1;
 
             let sample: Facepunch.IVector3;
             let mul: number;
@@ -100,7 +100,9 @@ namespace SourceUtils {
             return r | (g << 8) | (b << 16);
         }
 
-        createMeshHandles(bodyPartIndex: number, transform: Facepunch.Matrix4, lighting?: (number[][] | BspLeaf), albedoModulation?: number): WebGame.MeshHandle[] {
+        // If given, min and max are set to the bounds of the transformed meshes
+        createMeshHandles(bodyPartIndex: number, transform: Facepunch.Matrix4, lighting?: (Uint32Array[] | BspLeaf), albedoModulation?: number,
+            min?: Facepunch.Vector3, max?: Facepunch.Vector3): WebGame.MeshHandle[] {
             const bodyPart = this.info.bodyParts[bodyPartIndex];
             const handles: WebGame.MeshHandle[] = [];
 
@@ -128,13 +130,13 @@ namespace SourceUtils {
                     attribs.push(WebGame.VertexAttribute.rgb);
 
                     const dstGroup = StudioModel.getOrCreateMatGroup(matGroups, attribs);
-                    const newElem = WebGame.MeshManager.copyElement(srcGroup, dstGroup, mesh.element);
+                    const newElem = WebGame.MeshManager.copyElement(BinaryPage.asMeshData(srcGroup), dstGroup, mesh.element);
 
                     const posOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.position);
                     const normalOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.normal);
                     const rgbOffset = WebGame.MeshManager.getAttributeOffset(attribs, WebGame.VertexAttribute.rgb);
                     const vertLength = WebGame.MeshManager.getVertexLength(attribs);
-                    const vertLighting = hasVertLighting ? (lighting as number[][])[mesh.meshId] : null;
+                    const vertLighting = hasVertLighting ? (lighting as Uint32Array[])[mesh.meshId] : null;
 
                     const vertData = dstGroup.vertices;
                     for (let i = newElem.vertexOffset,
@@ -160,11 +162,16 @@ namespace SourceUtils {
                             tempNormal.set(vertData[normalIndex], vertData[normalIndex + 1], vertData[normalIndex + 2], 0);
                             tempNormal.applyMatrix4(transform);
                             const rgb = StudioModel.sampleAmbientCube(leaf, tempPos, tempNormal);
-                            r = rgb & 0xff;
-                            g = (rgb >> 8) & 0xff;
-                            b = (rgb >> 16) & 0xff;
+                            if (rgb === -1) {
+                                r = g = b = -1;
+                            } else {
+                                r = rgb & 0xff;
+                                g = (rgb >> 8) & 0xff;
+                                b = (rgb >> 16) & 0xff;
+                            }
                         } else {
-                            r = g = b = 0x7f;
+                            // Negative lighting tells the shader to use the light_environment instead
+                            r = g = b = -1;
                         }
 
                         vertData[rgbIndex] = StudioModel.encode2CompColor(r, albedoR);
@@ -174,8 +181,16 @@ namespace SourceUtils {
                 }
             }
 
+            if (min != null) min.set(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY);
+            if (max != null) max.set(Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY);
+
             for (let matGroup of matGroups) {
-                WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.position, pos => pos.applyMatrix4(transform), 1);
+                WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.position, pos => {
+                    pos.applyMatrix4(transform);
+
+                    if (min != null) min.set(Math.min(min.x, pos.x), Math.min(min.y, pos.y), Math.min(min.z, pos.z));
+                    if (max != null) max.set(Math.max(max.x, pos.x), Math.max(max.y, pos.y), Math.max(max.z, pos.z));
+                }, 1);
                 WebGame.MeshManager.transform4F(matGroup, WebGame.VertexAttribute.normal, norm => norm.applyMatrix4(transform), 0);
 
                 this.viewer.meshes.addMeshData(matGroup, index => this.viewer.mapMaterialLoader.loadMaterial(index), handles);
@@ -185,6 +200,8 @@ namespace SourceUtils {
         }
 
         loadFromInfo(info: IStudioModel, page: StudioModelPage): void {
+            if (info == null) return;
+
             this.info = info;
             this.page = page;
             this.dispatchOnLoadCallbacks();
@@ -199,24 +216,28 @@ namespace SourceUtils {
     }
 
     export class StudioModelPage extends ResourcePage<IStudioModelPage, IStudioModel> {
-        private matGroups: WebGame.IMeshData[];
+        private matGroups: ITypedMeshData[];
         private models: IStudioModel[];
 
         constructor(page: IPageInfo) {
             super(page);
         }
 
+        getDecoder(): string {
+            return "meshes";
+        }
+
         getMaterialGroup(index: number) {
             return this.matGroups[index];
         }
 
         onLoadValues(page: IStudioModelPage): void {
             this.models = page.models;
-            this.matGroups = new Array<Facepunch.WebGame.IMeshData>(page.materials.length);
+            this.matGroups = new Array<ITypedMeshData>(page.materials.length);
 
             for (let i = 0, iEnd = page.materials.length; i < iEnd; ++i) {
                 const matGroup = page.materials[i];
-                this.matGroups[i] = WebGame.MeshManager.decompress(matGroup.meshData);
+                this.matGroups[i] = BinaryPage.toMeshData(matGroup.meshData);
                 for (let element of this.matGroups[i].elements) {
                     element.material = matGroup.material;
                 }
@@ -233,7 +254,7 @@ namespace SourceUtils {
     export class StudioModelLoader extends PagedLoader<IStudioModelPage, IStudioModel, StudioModelPage> {
         readonly viewer: MapViewer;
 
-        private readonly models: { [index: number]: StudioModel } = {};
+        private models: { [index: number]: StudioModel } = {};
 
         constructor(viewer: MapViewer) {
             super();
@@ -244,48 +265,42 @@ namespace SourceUtils {
             return super.update(this.viewer.visLoader.getLoadProgress() < 1 ? 0 : requestQuota);
         }
 
-        loadModel(index: number): StudioModel {
+        loadModel(index: number, priority: LoadPriority = ResourcePage.defaultPriority): StudioModel {
             let model = this.models[index];
-            if (model !== undefined) return model;
+            if (model !== undefined) {
+                if (!model.isLoaded()) this.prioritize(index, priority);
+                return model;
+            }
             this.models[index] = model = new StudioModel(this.viewer);
-            this.load(index, (info, page) => model.loadFromInfo(info, page));
+            this.load(index, (info, page) => model.loadFromInfo(info, page), priority);
             return model;
         }
 
+        clear(): void {
+            super.clear();
+            this.models = {};
+        }
+
         onCreatePage(page: IPageInfo): StudioModelPage {
             return new StudioModelPage(page);
         }
     }
 
     export interface IVertexLightingPage {
-        props: (string | number[])[][];
+        props: Uint32Array[][];
     }
 
-    export class VertexLightingPage extends ResourcePage<IVertexLightingPage, number[][]> {
-        private props: number[][][];
-
-        onLoadValues(page: IVertexLightingPage): void {
-            this.props = new Array<number[][]>(page.props.length);
-
-            for (let i = 0, iEnd = page.props.length; i < iEnd; ++i) {
-                const srcProp = page.props[i];
-                const dstProp = this.props[i] = srcProp == null ? null : new Array<number[]>(srcProp.length);
-
-                if (srcProp == null) continue;
-                for (let j = 0, jEnd = srcProp.length; j < jEnd; ++j) {
-                    dstProp[j] = Facepunch.Utils.decompress(srcProp[j]);
-                }
-            }
-
-            super.onLoadValues(page);
+    export class VertexLightingPage extends ResourcePage<IVertexLightingPage, Uint32Array[]> {
+        getDecoder(): string {
+            return "vertexLighting";
         }
 
-        protected onGetValue(index: number): number[][] {
-            return this.props[index];
+        protected onGetValue(index: number): Uint32Array[] {
+            return this.page.props[index];
         }
     }
 
-    export class VertexLightingLoader extends PagedLoader<IVertexLightingPage, number[][], VertexLightingPage> {
+    export class VertexLightingLoader extends PagedLoader<IVertexLightingPage, Uint32Array[], VertexLightingPage> {
         readonly viewer: MapViewer;
 
         constructor(viewer: MapViewer) {
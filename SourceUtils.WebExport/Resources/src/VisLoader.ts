@@ -1,19 +1,19 @@
 ﻿namespace SourceUtils {
     export interface IVisPage {
-        values: (number[] | string)[];
+        values: Uint32Array[];
     }
 
-    export class VisPage extends ResourcePage<IVisPage, number[]> {
-        protected onGetValue(index: number): number[] {
-            if (typeof (this.page.values[index]) === "string") {
-                this.page.values[index] = Facepunch.Utils.decompress(this.page.values[index]);
-            }
+    export class VisPage extends ResourcePage<IVisPage, Uint32Array> {
+        getDecoder(): string {
+            return "vis";
+        }
 
-            return this.page.values[index] as number[];
+        protected onGetValue(index: number): Uint32Array {
+            return this.page.values[index];
         }
     }
 
-    export class VisLoader extends PagedLoader<IVisPage, number[], VisPage> {
+    export class VisLoader extends PagedLoader<IVisPage, Uint32Array, VisPage> {
         constructor() {
             super();
             this.throwIfNotFound = false;
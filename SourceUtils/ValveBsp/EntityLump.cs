@@ -75,17 +75,26 @@ namespace SourceUtils
 
                     foreach ( var entity in keyValues )
                     {
-                        var className = entity["classname"];
-
-                        Func<Entity> ctor;
-                        var ent = _sEntityCtors.TryGetValue( className, out ctor ) ? ctor() : new Entity();
-                        ent.Initialize( entity );
-
-                        _entities.Add( ent );
+                        _entities.Add( CreateEntity( entity ) );
                     }
                 }
             }
 
+            /// <summary>
+            /// Creates an entity of the type registered for its classname, or a plain
+            /// <see cref="Entity"/> if there isn't one, from a block of the entity lump.
+            /// </summary>
+            public static Entity CreateEntity( KeyValues keyValues )
+            {
+                var className = keyValues["classname"];
+
+                Func<Entity> ctor;
+                var ent = _sEntityCtors.TryGetValue( className, out ctor ) ? ctor() : new Entity();
+                ent.Initialize( keyValues );
+
+                return ent;
+            }
+
             public T GetFirst<T>( bool inherit = true )
                 where T : Entity
             {
@@ -156,6 +165,11 @@ namespace SourceUtils
                 return Entity.Converters.ToVector3( prop._entity.GetRawPropertyValue( prop._name ) );
             }
 
+            public static implicit operator Vector4( EntityProperty prop )
+            {
+                return Entity.Converters.ToVector4( prop._entity.GetRawPropertyValue( prop._name ) );
+            }
+
             public static implicit operator Color32( EntityProperty prop )
             {
                 return Entity.Converters.ToColor32( prop._entity.GetRawPropertyValue( prop._name ) );
@@ -171,6 +185,75 @@ namespace SourceUtils
             }
         }
 
+        public class EntityConnection
+        {
+            public string Output { get; }
+            public string Target { get; }
+            public string Input { get; }
+            public string Parameter { get; }
+            public float Delay { get; }
+            public int TimesToFire { get; }
+
+            private EntityConnection( string output, string target, string input, string parameter, float delay, int timesToFire )
+            {
+                Output = output;
+                Target = target;
+                Input = input;
+                Parameter = parameter;
+                Delay = delay;
+                TimesToFire = timesToFire;
+            }
+
+            /// <summary>
+            /// Outputs that don't follow the usual On* or Out* naming, mostly from game_ui.
+            /// </summary>
+            private static readonly HashSet<string> _sOtherOutputNames = new HashSet<string>( StringComparer.OrdinalIgnoreCase )
+            {
+                "PlayerOn", "PlayerOff",
+                "PressedMoveLeft", "PressedMoveRight", "PressedForward", "PressedBack", "PressedAttack", "PressedAttack2",
+                "UnpressedMoveLeft", "UnpressedMoveRight", "UnpressedForward", "UnpressedBack", "UnpressedAttack", "UnpressedAttack2",
+                "XAxis", "YAxis", "AttackAxis", "Attack2Axis"
+            };
+
+            private static bool IsOutputName( string key )
+            {
+                if ( string.IsNullOrEmpty( key ) ) return false;
+
+                return key.StartsWith( "On", StringComparison.Ordinal )
+                    || key.StartsWith( "Out", StringComparison.Ordinal )
+                    || _sOtherOutputNames.Contains( key );
+            }
+
+            private static bool IsName( string value )
+            {
+                return !string.IsNullOrWhiteSpace( value ) && !float.TryParse( value, out _ );
+            }
+
+            public static bool TryParse( string output, string value, out EntityConnection connection )
+            {
+                connection = null;
+
+                if ( value == null || !IsOutputName( output ) ) return false;
+
+                // Older maps separate fields with commas, newer ones with escape characters
+                var separator = value.IndexOf( '\x1b' ) != -1 ? '\x1b' : ',';
+                var split = value.Split( separator );
+
+                if ( split.Length != 5 ) return false;
+                if ( !IsName( split[0] ) || !IsName( split[1] ) ) return false;
+                if ( !float.TryParse( split[3], out var delay ) ) return false;
+                if ( !int.TryParse( split[4], out var timesToFire ) ) return false;
+
+                connection = new EntityConnection( output, split[0], split[1], split[2], delay, timesToFire );
+                return true;
+            }
+
+            public override string ToString()
+            {
+                return $"{Output} -> {Target}.{Input}({Parameter})";
+            }
+        }
+
         public class Entity
         {
             private static readonly Dictionary<Type, Dictionary<string, Action<Entity, string>>> _sPropertyActions;
@@ -251,6 +334,19 @@ namespace SourceUtils
                     return new Vector3( x, y, z );
                 }
 
+                public static Vector4 ToVector4( string param )
+                {
+                    if ( param == null ) return new Vector4( 0f, 0f, 0f, 0f );
+
+                    var split = param.Split( new[] { ' ' }, StringSplitOptions.RemoveEmptyEntries );
+
+                    return new Vector4(
+                        split.Length > 0 ? ToSingle( split[0] ) : 0f,
+                        split.Length > 1 ? ToSingle( split[1] ) : 0f,
+                        split.Length > 2 ? ToSingle( split[2] ) : 0f,
+                        split.Length > 3 ? ToSingle( split[3] ) : 0f );
+                }
+
                 public static Color32 ToColor32( string param )
                 {
                     if ( param == null ) return new Color32( 0x00, 0x00, 0x00 );
@@ -294,6 +390,7 @@ namespace SourceUtils
             }
 
             private readonly Dictionary<string, string> _properties = new Dictionary<string, string>();
+            private readonly List<EntityConnection> _connections = new List<EntityConnection>();
 
             [EntityField("classname")]
             public string ClassName { get; private set; }
@@ -312,6 +409,12 @@ namespace SourceUtils
 
             public IEnumerable<string> PropertyNames => _properties.Keys;
 
+            /// <summary>
+            /// Outputs of this entity, including ones sharing a name that would
+            /// otherwise only keep their last value in the property table.
+            /// </summary>
+            public IEnumerable<EntityConnection> Connections => _connections;
+
             public EntityProperty this[ string name ]
             {
                 get { return new EntityProperty( this, name ); }
@@ -328,6 +431,8 @@ namespace SourceUtils
                 {
                     if ( _properties.ContainsKey( pair.Key ) ) _properties[pair.Key] = pair.Value;
                     else _properties.Add( pair.Key, pair.Value );
+
+                    if ( EntityConnection.TryParse( pair.Key, pair.Value, out var connection ) ) _connections.Add( connection );
                 }
 
                 if ( !_sPropertyActions.TryGetValue( GetType(), out var actions ) ) return;
@@ -68,6 +68,7 @@ namespace SourceUtils.ValveBsp
 
     public interface IBspLeaf
     {
+        BrushContents Contents { get; }
         short Cluster { get; }
         Vector3S Min { get; }
         Vector3S Max { get; }
@@ -94,6 +95,7 @@ namespace SourceUtils.ValveBsp
         private fixed uint _compressedLightCube[6];
         private readonly short _padding;
 
+        BrushContents IBspLeaf.Contents => (BrushContents) Contents;
         short IBspLeaf.Cluster => Cluster;
         Vector3S IBspLeaf.Min => Min;
         Vector3S IBspLeaf.Max => Max;
@@ -119,6 +121,7 @@ namespace SourceUtils.ValveBsp
 
         private readonly short _padding;
 
+        BrushContents IBspLeaf.Contents => (BrushContents) Contents;
         short IBspLeaf.Cluster => Cluster;
         Vector3S IBspLeaf.Min => Min;
         Vector3S IBspLeaf.Max => Max;
@@ -70,6 +70,7 @@ namespace SourceUtils
 
         public string Name { get; }
         public int Version => _header.Version;
+        public int MapRevision => _header.MapRevision;
         
         [BspLump(LumpType.MODELS)]
         public StructArrayLump<BspModel> Models { get; private set; }